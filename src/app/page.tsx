@@ -13,6 +13,9 @@ import { PerformanceMonitor } from '@/components/PerformanceMonitor';
 import { LoadingPerformanceMonitor } from '@/components/LoadingPerformanceMonitor';
 import { AccessibilityProvider } from '@/components/AccessibilityProvider';
 import { TextReveal } from '@/components/TextReveal';
+import { SavedViewsPanel } from '@/components/SavedViewsPanel';
+import { UrlStateSync } from '@/components/UrlStateSync';
+import { DocumentIngestionPanel } from '@/components/DocumentIngestionPanel';
 
 // Award-winning professional content with cinematic sophistication
 const sectionContent = {
@@ -54,7 +57,7 @@ export default function Home() {
     queryResponse: false,
     claudeInterface: false
   });
-  const { scrollState } = useScrollControl(7); // 7 secciones para extender el mundo
+  const { scrollState, scrollToProgress, scrollToSection } = useScrollControl(7); // 7 secciones para extender el mundo
   const { 
     loadingState, 
     progressiveLoader, 
@@ -146,6 +149,12 @@ export default function Home() {
         } catch (error) {
           console.error('Loading tests failed:', error);
         }
+
+        // Hover picking latency, on request: ?benchmark=picking
+        if (new URLSearchParams(window.location.search).get('benchmark') === 'picking') {
+          const { runPickingBenchmarks } = await import('@/lib/pickingBenchmark');
+          runPickingBenchmarks();
+        }
       }, 2000);
     }
   }, [isAppLoaded, loadingState.isLoading]);
@@ -179,6 +188,17 @@ export default function Home() {
             scrollState={scrollState}
             sceneTriggered={sceneTriggered}
           />
+
+          {/* Saved views for returning to prepared shots */}
+          {isAppLoaded && <SavedViewsPanel scrollToProgress={scrollToProgress} />}
+          {isAppLoaded && <DocumentIngestionPanel />}
+          <UrlStateSync
+            enabled={isAppLoaded}
+            section={scrollState.currentSection}
+            scrollProgress={scrollState.progress}
+            scrollToProgress={scrollToProgress}
+            scrollToSection={scrollToSection}
+          />
         </InteractionProvider>
 
         {/* Navigation Hints - Responsive */}
@@ -0,0 +1,119 @@
+'use client';
+
+import { useState } from 'react';
+import { Html } from '@react-three/drei';
+import { DEFAULT_COMMUNITY_RESOLUTION } from '@/lib/communityDetection';
+import { KnowledgeGraph } from '@/types/graph';
+
+interface ClusterPanelProps {
+  graph: KnowledgeGraph;
+  clusterColors: Map<string, string>;
+  clusterView: boolean;
+  collapsedClusters: Set<string>;
+  position?: [number, number, number];
+  onClusterViewChange: (enabled: boolean) => void;
+  onToggleCollapse: (clusterId: string) => void;
+  onDetectCommunities: (resolution: number) => void;
+}
+
+// Distinct colours assigned to clusters in order
+export const CLUSTER_COLORS = [
+  '#F87171', '#60A5FA', '#34D399', '#FBBF24', '#A78BFA',
+  '#F472B6', '#22D3EE', '#A3E635', '#FB923C', '#E879F9'
+];
+
+const MAX_VISIBLE_CLUSTERS = 12;
+
+export const ClusterPanel: React.FC<ClusterPanelProps> = ({
+  graph,
+  clusterColors,
+  clusterView,
+  collapsedClusters,
+  position = [-24, 2, 0],
+  onClusterViewChange,
+  onToggleCollapse,
+  onDetectCommunities
+}) => {
+  const [resolution, setResolution] = useState(graph.clustering.resolution ?? DEFAULT_COMMUNITY_RESOLUTION);
+  const clusters = [...graph.clusters].sort((a, b) => b.members.length - a.members.length);
+  const nodeLabels = new Map(graph.nodes.map(node => [node.id, node.label]));
+
+  return (
+    <Html position={position} className="pointer-events-auto">
+      <div className="bg-black bg-opacity-80 p-4 rounded text-white text-sm space-y-3 w-72">
+        <div className="flex justify-between items-center">
+          <div className="font-bold text-base">Grupos</div>
+          <button
+            onClick={() => onClusterViewChange(!clusterView)}
+            className={`px-2 py-1 rounded text-xs ${
+              clusterView ? 'bg-purple-600 hover:bg-purple-500' : 'bg-gray-700 hover:bg-gray-600'
+            }`}
+          >
+            {clusterView ? 'Ocultar grupos' : 'Ver grupos'}
+          </button>
+        </div>
+
+        <div className="bg-gray-800 p-2 rounded text-xs grid grid-cols-2 gap-2">
+          <div>Grupos: {graph.clusters.length}</div>
+          <div>Modularidad: {graph.clustering.modularity.toFixed(3)}</div>
+          <div className="col-span-2 text-gray-400">
+            {graph.clustering.method === 'communities' ? 'Comunidades detectadas (Louvain)' : 'Grupos definidos en el dataset'}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 text-xs">
+          <span>Resolución</span>
+          <input
+            type="number"
+            min={0.1}
+            max={5}
+            step={0.1}
+            value={resolution}
+            onChange={(e) => setResolution(Math.max(0.1, Math.min(5, Number(e.target.value) || DEFAULT_COMMUNITY_RESOLUTION)))}
+            className="w-16 bg-gray-800 rounded px-2 py-1 text-right"
+          />
+          <button
+            onClick={() => onDetectCommunities(resolution)}
+            className="flex-1 px-2 py-1 rounded bg-blue-600 hover:bg-blue-500"
+          >
+            Detectar comunidades
+          </button>
+        </div>
+
+        <ul className="space-y-1 max-h-48 overflow-y-auto text-xs">
+          {clusters.slice(0, MAX_VISIBLE_CLUSTERS).map(cluster => {
+            const collapsed = collapsedClusters.has(cluster.clusterId);
+            const preview = cluster.members.slice(0, 3).map(id => nodeLabels.get(id) ?? id).join(', ');
+            return (
+              <li key={cluster.clusterId} className="flex items-center gap-2">
+                <span
+                  className="inline-block w-3 h-3 rounded-full shrink-0"
+                  style={{ backgroundColor: clusterColors.get(cluster.clusterId) }}
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="truncate">{preview}{cluster.members.length > 3 ? '…' : ''}</div>
+                  <div className="text-gray-400">
+                    {cluster.members.length} nodos · cohesión {(cluster.cohesion * 100).toFixed(0)}%
+                  </div>
+                </div>
+                <button
+                  onClick={() => onToggleCollapse(cluster.clusterId)}
+                  disabled={cluster.members.length < 2}
+                  className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-40"
+                  title={collapsed ? 'Expandir' : 'Contraer'}
+                >
+                  {collapsed ? '⊕' : '⊖'}
+                </button>
+              </li>
+            );
+          })}
+          {clusters.length > MAX_VISIBLE_CLUSTERS && (
+            <li className="text-gray-400">… y {clusters.length - MAX_VISIBLE_CLUSTERS} más</li>
+          )}
+        </ul>
+      </div>
+    </Html>
+  );
+};
+
+export default ClusterPanel;
@@ -0,0 +1,117 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Html } from '@react-three/drei';
+import * as THREE from 'three';
+import { ContextMenuAction } from '@/lib/contextMenu';
+
+interface ContextMenu3DProps {
+  position: THREE.Vector3 | [number, number, number];
+  title?: string;
+  actions: ContextMenuAction[];
+  onClose: () => void;
+}
+
+// Menu anchored to a point in the scene; arrows move, Enter runs, Escape closes
+export const ContextMenu3D: React.FC<ContextMenu3DProps> = ({ position, title, actions, onClose }) => {
+  const menuRef = useRef<HTMLDivElement>(null);
+  const itemRefs = useRef<(HTMLButtonElement | null)[]>([]);
+  const [activeIndex, setActiveIndex] = useState(() => actions.findIndex(action => !action.disabled));
+
+  // Focus follows the active entry so screen readers announce it
+  useEffect(() => {
+    itemRefs.current[activeIndex]?.focus({ preventScroll: true });
+  }, [activeIndex]);
+
+  // A press anywhere outside closes the menu
+  useEffect(() => {
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) onClose();
+    };
+    document.addEventListener('pointerdown', handlePointerDown, true);
+    return () => document.removeEventListener('pointerdown', handlePointerDown, true);
+  }, [onClose]);
+
+  const runAction = useCallback((action: ContextMenuAction) => {
+    if (action.disabled) return;
+    onClose();
+    action.onSelect();
+  }, [onClose]);
+
+  // Next enabled entry in the given direction, wrapping around
+  const step = useCallback((from: number, direction: 1 | -1) => {
+    for (let offset = 1; offset <= actions.length; offset++) {
+      const index = (from + direction * offset + actions.length) % actions.length;
+      if (!actions[index].disabled) return index;
+    }
+    return from;
+  }, [actions]);
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    switch (event.key) {
+      case 'ArrowDown':
+        setActiveIndex(index => step(index, 1));
+        break;
+      case 'ArrowUp':
+        setActiveIndex(index => step(index, -1));
+        break;
+      case 'Home':
+        setActiveIndex(step(-1, 1));
+        break;
+      case 'End':
+        setActiveIndex(step(actions.length, -1));
+        break;
+      case 'Enter':
+      case ' ':
+        if (actions[activeIndex]) runAction(actions[activeIndex]);
+        break;
+      case 'Escape':
+      case 'Tab':
+        onClose();
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+  };
+
+  if (actions.length === 0) return null;
+
+  return (
+    <Html position={position} className="pointer-events-auto">
+      <div
+        ref={menuRef}
+        role="menu"
+        aria-label={title}
+        onKeyDown={handleKeyDown}
+        onContextMenu={(event) => event.preventDefault()}
+        className="bg-black bg-opacity-90 rounded text-white text-sm py-1 w-56 border border-gray-600 shadow-lg"
+      >
+        {title && <div className="px-3 py-1 text-xs text-gray-400 truncate">{title}</div>}
+        {actions.map((action, index) => (
+          <button
+            key={action.id}
+            ref={element => {
+              itemRefs.current[index] = element;
+            }}
+            role="menuitem"
+            tabIndex={index === activeIndex ? 0 : -1}
+            aria-disabled={action.disabled}
+            onClick={() => runAction(action)}
+            onPointerEnter={() => !action.disabled && setActiveIndex(index)}
+            className={`w-full text-left px-3 py-1.5 outline-none ${
+              action.disabled
+                ? 'text-gray-500 cursor-default'
+                : index === activeIndex ? 'bg-blue-600' : 'hover:bg-gray-700'
+            }`}
+          >
+            {action.label}
+          </button>
+        ))}
+      </div>
+    </Html>
+  );
+};
+
+export default ContextMenu3D;
@@ -1,7 +1,7 @@
 'use client';
 
-import { useRef, useMemo, useState, useEffect } from 'react';
-import { useFrame } from '@react-three/fiber';
+import { useRef, useMemo, useState, useEffect, useSyncExternalStore } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
 import { Text } from '@react-three/drei';
 import WindowsFiles from './WindowsFiles';
 import InteractiveVectorizationScene from './InteractiveVectorizationScene';
@@ -10,6 +10,18 @@ import SimpleKnowledgeGraphScene from './SimpleKnowledgeGraphScene';
 import ClaudeInterfaceScene from './ClaudeInterfaceScene';
 // REMOVED: import InteractiveQueryResponseScene from './InteractiveQueryResponseScene';
 import * as THREE from 'three';
+import { captureView } from '@/lib/cameraFraming';
+import { SavedViewStore, deserializeCameraView } from '@/lib/savedViews';
+import { chunkText } from '@/lib/textChunker';
+import { ChunkingOptions } from '@/types/documents';
+
+// How quickly the camera eases toward a restored saved view, and back to the scroll path
+const VIEW_EASING = 0.05;
+const LOOK_EASING = 0.1;
+// Scrolling this far from a restored view hands the camera back to the scroll path
+const VIEW_SCROLL_TOLERANCE = 0.01;
+// Counts the view as reached even if the scroll animation was interrupted
+const VIEW_SETTLE_TIMEOUT = 3000;
 
 interface DataChunk {
   id: string;
@@ -38,6 +50,7 @@ interface DataUniverseSceneProps {
 
 // REMOVED: Floating text content that was creating unwanted background words
 const allTextContent = ``;
+const FRAGMENT_CHUNKING: ChunkingOptions = { strategy: 'fixed', chunkSize: 4, overlap: 0 };
 
 // Phosphorescent color palette
 const colors = {
@@ -63,6 +76,38 @@ const DataUniverseScene: React.FC<DataUniverseSceneProps> = ({
   const [chunks, setChunks] = useState<DataChunk[]>([]);
   const [performanceGrade, setPerformanceGrade] = useState<'high' | 'medium' | 'low'>('high');
   const lastFrameTime = useRef(Date.now());
+  const { camera } = useThree();
+  const lookTarget = useRef(new THREE.Vector3(0, 0, -10));
+  const scrollLookTarget = useRef(new THREE.Vector3());
+  const reachedView = useRef(false);
+
+  // Saved views: report the camera pose, and hold a restored view until the user scrolls away
+  const savedViews = SavedViewStore.getInstance();
+  const activeView = useSyncExternalStore(savedViews.subscribe, savedViews.getActiveView, () => null);
+  const activeCamera = useMemo(() => (activeView?.camera ? deserializeCameraView(activeView.camera) : null), [activeView]);
+
+  useEffect(() => {
+    savedViews.setCameraSource(() => captureView(camera, lookTarget.current));
+    return () => savedViews.setCameraSource(null);
+  }, [savedViews, camera]);
+
+  useEffect(() => {
+    reachedView.current = false;
+    if (!activeView) return;
+    const timeout = setTimeout(() => {
+      reachedView.current = true;
+    }, VIEW_SETTLE_TIMEOUT);
+    return () => clearTimeout(timeout);
+  }, [activeView]);
+
+  useEffect(() => {
+    if (!activeView) return;
+    if (Math.abs(scrollProgress - activeView.scrollProgress) <= VIEW_SCROLL_TOLERANCE) {
+      reachedView.current = true;
+    } else if (reachedView.current) {
+      savedViews.release();
+    }
+  }, [scrollProgress, activeView, savedViews]);
 
   // Create data chunks distributed throughout the 3D space
   const dataChunks = useMemo(() => {
@@ -71,16 +116,8 @@ const DataUniverseScene: React.FC<DataUniverseSceneProps> = ({
     const sectionsCount = 7;
 
     sentences.forEach((sentence, sentenceIndex) => {
-      const words = sentence.trim().split(/\s+/);
-      const fragments = [];
-      
-      // Group words into chunks of 2-5 words
-      for (let i = 0; i < words.length; i += Math.floor(Math.random() * 4) + 2) {
-        const fragment = words.slice(i, i + Math.floor(Math.random() * 4) + 2).join(' ');
-        if (fragment.length > 0) {
-          fragments.push(fragment);
-        }
-      }
+      // Group words into chunks of 4 words
+      const fragments = chunkText(sentence, FRAGMENT_CHUNKING).map(chunk => chunk.text);
 
       fragments.forEach((fragment, fragmentIndex) => {
         // Determine section based on sentence index
@@ -146,21 +183,28 @@ const DataUniverseScene: React.FC<DataUniverseSceneProps> = ({
 
     const time = state.clock.elapsedTime;
     
-    // Camera movement: Scroll controls distance/zoom, drag controls lateral (X,Y)
-    // Start close at Z=20, then move back exponentially
-    const baseZ = 20 + (scrollProgress * scrollProgress * 200); // Exponential zoom out effect
-    const targetY = cameraOffset.y + (scrollProgress * 10); // Rise up as we zoom out
-    
-    // Update camera position with both scroll and drag offsets
-    state.camera.position.x += (cameraOffset.x - state.camera.position.x) * 0.05;
-    state.camera.position.y += (targetY - state.camera.position.y) * 0.05;
-    state.camera.position.z += (baseZ - state.camera.position.z) * 0.03;
-    
-    // Look direction - always look towards the origin area where files are
-    const lookAtX = cameraOffset.x * 0.3; // Slight follow of camera movement
-    const lookAtY = Math.max(-5, cameraOffset.y - 5 - scrollProgress * 5); // Look down more as we zoom out
-    const lookAtZ = -10 - scrollProgress * 20; // Look towards the files area
-    state.camera.lookAt(lookAtX, lookAtY, lookAtZ);
+    if (activeCamera) {
+      // Restored saved view
+      state.camera.position.lerp(activeCamera.position, VIEW_EASING);
+      lookTarget.current.lerp(activeCamera.target, VIEW_EASING);
+    } else {
+      // Camera movement: Scroll controls distance/zoom, drag controls lateral (X,Y)
+      // Start close at Z=20, then move back exponentially
+      const baseZ = 20 + (scrollProgress * scrollProgress * 200); // Exponential zoom out effect
+      const targetY = cameraOffset.y + (scrollProgress * 10); // Rise up as we zoom out
+
+      // Update camera position with both scroll and drag offsets
+      state.camera.position.x += (cameraOffset.x - state.camera.position.x) * 0.05;
+      state.camera.position.y += (targetY - state.camera.position.y) * 0.05;
+      state.camera.position.z += (baseZ - state.camera.position.z) * 0.03;
+
+      // Look direction - always look towards the origin area where files are
+      const lookAtX = cameraOffset.x * 0.3; // Slight follow of camera movement
+      const lookAtY = Math.max(-5, cameraOffset.y - 5 - scrollProgress * 5); // Look down more as we zoom out
+      const lookAtZ = -10 - scrollProgress * 20; // Look towards the files area
+      lookTarget.current.lerp(scrollLookTarget.current.set(lookAtX, lookAtY, lookAtZ), LOOK_EASING);
+    }
+    state.camera.lookAt(lookTarget.current);
 
     // Update chunks with performance scaling
     const updateFrequency = performanceGrade === 'low' ? 4 : performanceGrade === 'medium' ? 2 : 1;
@@ -0,0 +1,143 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { useIngestedDocuments } from '@/hooks/useIngestedDocuments';
+import { EntityReviewPanel } from '@/components/EntityReviewPanel';
+import { ACCEPTED_DOCUMENT_EXTENSIONS, DOCUMENT_FORMATS, MAX_DOCUMENT_SIZE } from '@/lib/documentParsers';
+
+const ACCEPT = ACCEPTED_DOCUMENT_EXTENSIONS.map(extension => `.${extension}`).join(',');
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+// Drop zone for the visitor's own files; they are parsed locally and flow into the scenes
+export const DocumentIngestionPanel: React.FC = () => {
+  const { documents, ingestFiles, removeDocument, clearDocuments } = useIngestedDocuments();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isParsing, setIsParsing] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    setIsOpen(true);
+    setIsParsing(true);
+    const result = await ingestFiles(files);
+    setErrors(result.errors);
+    setIsParsing(false);
+  };
+
+  const dropHandlers = {
+    onDragOver: (e: React.DragEvent) => {
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'copy';
+      setIsDragging(true);
+    },
+    onDragLeave: () => setIsDragging(false),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      setIsDragging(false);
+      handleFiles(Array.from(e.dataTransfer.files));
+    }
+  };
+
+  return (
+    <div className="fixed bottom-4 sm:bottom-8 left-2 sm:left-8 z-30 text-sm text-white flex flex-col-reverse items-start gap-2">
+      <div className="flex gap-2">
+        <button
+          onClick={() => setIsOpen(open => !open)}
+          aria-expanded={isOpen}
+          {...dropHandlers}
+          className={`bg-black/50 backdrop-blur-sm px-3 py-1 rounded-lg border hover:bg-black/70 ${
+            isDragging ? 'border-cyan-400' : 'border-white/20'
+          }`}
+        >
+          📂 Tus documentos{documents.length > 0 && ` (${documents.length})`}
+        </button>
+        <EntityReviewPanel />
+      </div>
+
+      {isOpen && (
+        <div className="bg-black/80 backdrop-blur-sm p-4 rounded-lg border border-white/20 space-y-3 w-72">
+          <div
+            {...dropHandlers}
+            onClick={() => fileInputRef.current?.click()}
+            role="button"
+            tabIndex={0}
+            onKeyDown={(e) => (e.key === 'Enter' || e.key === ' ') && fileInputRef.current?.click()}
+            className={`p-4 rounded border-2 border-dashed text-center text-xs cursor-pointer ${
+              isDragging ? 'border-cyan-400 bg-cyan-900/30' : 'border-gray-500 hover:border-gray-300'
+            }`}
+          >
+            {isParsing ? 'Procesando…' : 'Arrastra aquí PDF, Word, Excel, CSV o Markdown'}
+            <div className="mt-1 text-gray-400">
+              Se procesan en tu navegador, nada se sube · máx. {formatSize(MAX_DOCUMENT_SIZE)}
+            </div>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept={ACCEPT}
+            className="hidden"
+            onChange={(e) => {
+              handleFiles(Array.from(e.target.files ?? []));
+              e.target.value = '';
+            }}
+          />
+
+          {documents.length > 0 && (
+            <ul className="space-y-1 max-h-48 overflow-y-auto">
+              {documents.map(document => (
+                <li key={document.id} className="flex items-center gap-2 px-2 py-1 rounded bg-gray-800/60">
+                  <span
+                    className="px-1 rounded text-[10px] font-bold"
+                    style={{ backgroundColor: DOCUMENT_FORMATS[document.format].color }}
+                  >
+                    {DOCUMENT_FORMATS[document.format].label}
+                  </span>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-xs truncate" title={document.name}>{document.name}</div>
+                    <div className="text-[10px] text-gray-400">
+                      {document.wordCount} palabras · {document.sections.length} secciones
+                      {document.tables.length > 0 && ` · ${document.tables.length} tablas`} · {formatSize(document.size)}
+                    </div>
+                    {document.warnings.map(warning => (
+                      <div key={warning} className="text-[10px] text-yellow-400">{warning}</div>
+                    ))}
+                  </div>
+                  <button
+                    onClick={() => removeDocument(document.id)}
+                    aria-label={`Quitar ${document.name}`}
+                    className="px-1 text-gray-400 hover:text-red-400"
+                  >
+                    ×
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {errors.map(error => (
+            <div key={error} className="text-xs text-red-400">{error}</div>
+          ))}
+
+          {documents.length > 0 && (
+            <button
+              onClick={() => {
+                clearDocuments();
+                setErrors([]);
+              }}
+              className="w-full px-2 py-1 rounded text-xs bg-gray-700 hover:bg-gray-600"
+            >
+              Quitar todos
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DocumentIngestionPanel;
@@ -0,0 +1,120 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Html } from '@react-three/drei';
+import { previewMerge, previewSplit, RelationshipChange, RelationshipOutcome } from '@/lib/entityMerge';
+import { KnowledgeGraph } from '@/types/graph';
+
+export type EntityEditRequest =
+  | { mode: 'merge'; survivorId: string; absorbedId: string }
+  | { mode: 'split'; nodeId: string };
+
+interface EntityMergeDialogProps {
+  graph: KnowledgeGraph;
+  request: EntityEditRequest;
+  position?: [number, number, number];
+  onConfirm: () => void;
+  onCancel: () => void;
+  onSwap: () => void;
+}
+
+const OUTCOME_STYLES: Record<RelationshipOutcome, { label: string; className: string }> = {
+  kept: { label: 'se mantiene', className: 'bg-gray-600' },
+  moved: { label: 'se traslada', className: 'bg-blue-600' },
+  combined: { label: 'se combina', className: 'bg-amber-600' },
+  removed: { label: 'se elimina', className: 'bg-red-600' }
+};
+
+const MAX_LISTED_RELATIONSHIPS = 12;
+
+export const EntityMergeDialog: React.FC<EntityMergeDialogProps> = ({
+  graph,
+  request,
+  position = [0, 0, 5],
+  onConfirm,
+  onCancel,
+  onSwap
+}) => {
+  const nodeLabels = useMemo(() => new Map(graph.nodes.map(node => [node.id, node.label])), [graph]);
+
+  const preview = useMemo(() => request.mode === 'merge'
+    ? previewMerge(graph, request.survivorId, request.absorbedId)
+    : previewSplit(graph, request.nodeId), [graph, request]);
+
+  if (!preview) return null;
+
+  const renderRelationship = (change: RelationshipChange) => {
+    const style = OUTCOME_STYLES[change.outcome];
+    return (
+      <li key={change.edge.id} className="flex items-center gap-2">
+        <span className="flex-1 min-w-0 truncate">
+          {change.edge.label} · {nodeLabels.get(change.otherNodeId) ?? change.otherNodeId}
+        </span>
+        <span className={`px-1.5 rounded ${style.className}`}>{style.label}</span>
+      </li>
+    );
+  };
+
+  const renderList = (changes: RelationshipChange[]) => (
+    <ul className="space-y-1 text-xs">
+      {changes.slice(0, MAX_LISTED_RELATIONSHIPS).map(renderRelationship)}
+      {changes.length > MAX_LISTED_RELATIONSHIPS && (
+        <li className="text-gray-400">… y {changes.length - MAX_LISTED_RELATIONSHIPS} más</li>
+      )}
+      {changes.length === 0 && <li className="text-gray-400">Sin relaciones</li>}
+    </ul>
+  );
+
+  return (
+    <Html position={position} center className="pointer-events-auto">
+      <div className="bg-black bg-opacity-90 p-4 rounded text-white text-sm space-y-3 w-80 border border-gray-600">
+        {'survivor' in preview ? (
+          <>
+            <div className="font-bold text-base">Fusionar entidades</div>
+            <div className="text-xs space-y-1">
+              <div>
+                <span className="text-gray-400">Se conserva:</span> {preview.survivor.label}
+              </div>
+              <div>
+                <span className="text-gray-400">Se absorbe:</span> {preview.absorbed.label}
+              </div>
+              <button onClick={onSwap} className="px-2 py-0.5 rounded text-xs bg-gray-700 hover:bg-gray-600">
+                Intercambiar
+              </button>
+            </div>
+            <div className="text-xs text-gray-400">
+              Origen: {preview.provenance.map(origin => `${origin.label} (${origin.dataSource})`).join(', ')}
+            </div>
+            <div className="max-h-48 overflow-y-auto">{renderList(preview.relationships)}</div>
+          </>
+        ) : (
+          <>
+            <div className="font-bold text-base">Separar entidad</div>
+            <div className="text-xs text-gray-400">
+              &quot;{preview.merged.label}&quot; vuelve a sus entidades originales.
+            </div>
+            <div className="max-h-48 overflow-y-auto space-y-2">
+              {preview.originals.map(original => (
+                <div key={original.id}>
+                  <div className="text-xs font-semibold">{original.label}</div>
+                  {renderList(preview.relationships.filter(change => change.ownerId === original.id))}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        <div className="flex gap-2">
+          <button onClick={onConfirm} className="flex-1 px-2 py-1 rounded text-xs bg-blue-600 hover:bg-blue-500">
+            {request.mode === 'merge' ? 'Fusionar' : 'Separar'}
+          </button>
+          <button onClick={onCancel} className="flex-1 px-2 py-1 rounded text-xs bg-gray-700 hover:bg-gray-600">
+            Cancelar
+          </button>
+        </div>
+      </div>
+    </Html>
+  );
+};
+
+export default EntityMergeDialog;
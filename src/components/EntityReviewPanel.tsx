@@ -0,0 +1,258 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useExtractedEntities } from '@/hooks/useExtractedEntities';
+import { useUndoRedoSystem } from '@/hooks/useUndoRedoSystem';
+import { ENTITY_TYPE_STYLES, EXTRACTED_ENTITY_TYPES } from '@/lib/entityExtraction';
+import {
+  ENTITY_HISTORY_CONFIG,
+  EntityReviewCommandFactory,
+  EntityReviewStore,
+  ReviewOrder,
+  buildReviewQueue,
+  findMergeCandidates,
+  getReviewProgress
+} from '@/lib/entityReview';
+
+const MAX_SENTENCES_SHOWN = 2;
+
+const SHORTCUTS = [
+  ['A / Enter', 'Validar'],
+  ['R / Supr', 'Rechazar'],
+  ['1-4', 'Cambiar tipo'],
+  ['M', 'Fusionar'],
+  ['← →', 'Anterior / siguiente'],
+  ['Ctrl+Z / Ctrl+Y', 'Deshacer / rehacer'],
+  ['Esc', 'Cerrar']
+];
+
+// Human review of extracted entities: walk the pending queue and accept, reject, retype or merge each one
+export const EntityReviewPanel: React.FC = () => {
+  const { entities } = useExtractedEntities();
+  const store = EntityReviewStore.getInstance();
+  // The extraction scene's history, which restores and saves it
+  const history = useUndoRedoSystem(ENTITY_HISTORY_CONFIG);
+  const { execute, undo, redo } = history;
+  const [isOpen, setIsOpen] = useState(false);
+  const [order, setOrder] = useState<ReviewOrder>('ascending');
+  const [position, setPosition] = useState(0);
+  const [isMerging, setIsMerging] = useState(false);
+
+  const queue = useMemo(() => buildReviewQueue(entities, order), [entities, order]);
+  const progress = getReviewProgress(entities);
+  const current = queue.length > 0 ? queue[Math.min(position, queue.length - 1)] : null;
+  const mergeCandidates = useMemo(() => (current ? findMergeCandidates(current, entities) : []), [current, entities]);
+  const reviewed = progress.total - progress.pending;
+
+  // A decision takes the entity out of the queue, so the same position shows the next one
+  useEffect(() => {
+    setIsMerging(false);
+  }, [current?.entityId]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      const key = e.key.toLowerCase();
+      let handled = true;
+
+      if ((e.ctrlKey || e.metaKey) && key === 'z') {
+        if (e.shiftKey) redo(); else undo();
+      } else if ((e.ctrlKey || e.metaKey) && key === 'y') {
+        redo();
+      } else if (key === 'escape') {
+        if (isMerging) setIsMerging(false); else setIsOpen(false);
+      } else if (!current) {
+        handled = false;
+      } else if (isMerging && /^[1-9]$/.test(key) && mergeCandidates[Number(key) - 1]) {
+        execute(EntityReviewCommandFactory.createMergeCommand(store, current, mergeCandidates[Number(key) - 1]));
+      } else if (key === 'a' || key === 'enter') {
+        execute(EntityReviewCommandFactory.createValidateCommand(store, current));
+      } else if (key === 'r' || key === 'delete') {
+        execute(EntityReviewCommandFactory.createRejectCommand(store, current));
+      } else if (!isMerging && /^[1-4]$/.test(key)) {
+        execute(EntityReviewCommandFactory.createRetypeCommand(store, current, EXTRACTED_ENTITY_TYPES[Number(key) - 1]));
+      } else if (key === 'm' && mergeCandidates.length > 0) {
+        setIsMerging(merging => !merging);
+      } else if (key === 'arrowright' || key === 'j') {
+        setPosition(index => (queue.length > 0 ? (Math.min(index, queue.length - 1) + 1) % queue.length : 0));
+      } else if (key === 'arrowleft' || key === 'k') {
+        setPosition(index => (queue.length > 0 ? (Math.min(index, queue.length - 1) - 1 + queue.length) % queue.length : 0));
+      } else {
+        handled = false;
+      }
+
+      // Keeps the scene's own keyboard navigation from reacting too
+      if (handled) {
+        e.preventDefault();
+        e.stopPropagation();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [isOpen, isMerging, current, mergeCandidates, queue.length, store, execute, undo, redo]);
+
+  const currentStyle = current ? ENTITY_TYPE_STYLES[current.entityType] : null;
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className="bg-black/50 backdrop-blur-sm px-3 py-1 rounded-lg border border-white/20 hover:bg-black/70"
+      >
+        ✓ Revisar entidades{progress.pending > 0 && ` (${progress.pending})`}
+      </button>
+
+      {isOpen && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4"
+          onClick={(e) => {
+            if (e.target === e.currentTarget) setIsOpen(false);
+          }}
+        >
+          <div className="bg-gray-900 border border-white/20 rounded-lg p-5 w-full max-w-lg text-white text-sm space-y-4">
+            <div className="flex items-center gap-2">
+              <div className="font-bold text-base flex-1">Revisión de entidades</div>
+              <button
+                onClick={() => setOrder(value => (value === 'ascending' ? 'descending' : 'ascending'))}
+                className="px-2 py-1 rounded text-xs bg-gray-700 hover:bg-gray-600"
+              >
+                {order === 'ascending' ? 'Menor confianza primero' : 'Mayor confianza primero'}
+              </button>
+              <button onClick={() => setIsOpen(false)} aria-label="Cerrar" className="px-2 text-gray-400 hover:text-white">×</button>
+            </div>
+
+            {/* Progreso */}
+            <div>
+              <div className="h-2 rounded bg-gray-700 overflow-hidden">
+                <div
+                  className="h-full bg-green-500 transition-all"
+                  style={{ width: `${progress.total > 0 ? (reviewed / progress.total) * 100 : 0}%` }}
+                />
+              </div>
+              <div className="mt-1 text-xs text-gray-400">
+                {reviewed}/{progress.total} revisadas · {progress.validated} validadas · {progress.rejected} rechazadas
+                · {progress.merged} fusionadas
+              </div>
+            </div>
+
+            {current && currentStyle ? (
+              <div className="space-y-3">
+                <div className="p-3 rounded border" style={{ borderColor: currentStyle.color }}>
+                  <div className="flex items-center gap-2">
+                    <span className="text-lg">{currentStyle.icon}</span>
+                    <span className="font-bold flex-1">{current.text}</span>
+                    <span className="text-xs text-gray-400">
+                      {Math.min(position, queue.length - 1) + 1}/{queue.length}
+                    </span>
+                  </div>
+                  <div className="text-xs" style={{ color: currentStyle.color }}>
+                    {current.entityType} · confianza {(current.extractionConfidence * 100).toFixed(0)}%
+                    · {current.mentions.length} mención{current.mentions.length === 1 ? '' : 'es'}
+                  </div>
+                  {current.mentions.slice(0, MAX_SENTENCES_SHOWN).map((mention, index) => {
+                    const from = mention.start - mention.sentence.start;
+                    const to = mention.end - mention.sentence.start;
+                    return (
+                      <div key={index} className="mt-2 text-xs text-gray-300">
+                        {mention.sentence.text.slice(0, from)}
+                        <mark className="bg-yellow-300 text-black">{mention.sentence.text.slice(from, to)}</mark>
+                        {mention.sentence.text.slice(to)}
+                      </div>
+                    );
+                  })}
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  <button
+                    onClick={() => execute(EntityReviewCommandFactory.createValidateCommand(store, current))}
+                    className="px-2 py-1 rounded text-xs bg-green-700 hover:bg-green-600"
+                  >
+                    Validar (A)
+                  </button>
+                  <button
+                    onClick={() => execute(EntityReviewCommandFactory.createRejectCommand(store, current))}
+                    className="px-2 py-1 rounded text-xs bg-red-700 hover:bg-red-600"
+                  >
+                    Rechazar (R)
+                  </button>
+                </div>
+
+                <div className="grid grid-cols-4 gap-1">
+                  {EXTRACTED_ENTITY_TYPES.map((entityType, index) => (
+                    <button
+                      key={entityType}
+                      onClick={() => execute(EntityReviewCommandFactory.createRetypeCommand(store, current, entityType))}
+                      className={`px-1 py-1 rounded text-[10px] ${
+                        entityType === current.entityType ? 'ring-1 ring-white' : ''
+                      } bg-gray-700 hover:bg-gray-600`}
+                    >
+                      {index + 1} {ENTITY_TYPE_STYLES[entityType].icon} {entityType}
+                    </button>
+                  ))}
+                </div>
+
+                {mergeCandidates.length > 0 && (
+                  <div>
+                    <button
+                      onClick={() => setIsMerging(merging => !merging)}
+                      className={`px-2 py-1 rounded text-xs ${isMerging ? 'bg-cyan-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+                    >
+                      Fusionar con… (M)
+                    </button>
+                    {isMerging && (
+                      <div className="mt-2 space-y-1">
+                        {mergeCandidates.map((candidate, index) => (
+                          <button
+                            key={candidate.entityId}
+                            onClick={() => execute(EntityReviewCommandFactory.createMergeCommand(store, current, candidate))}
+                            className="block w-full text-left px-2 py-1 rounded text-xs bg-gray-800 hover:bg-gray-700"
+                          >
+                            {index + 1}. {candidate.text}
+                            <span className="text-gray-500"> · {(candidate.extractionConfidence * 100).toFixed(0)}%</span>
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div className="text-center text-gray-400 py-6">No quedan entidades pendientes</div>
+            )}
+
+            <div className="flex items-center gap-2">
+              <button
+                onClick={undo}
+                disabled={!history.canUndo}
+                title={history.undoDescription ?? undefined}
+                className="px-2 py-1 rounded text-xs bg-gray-700 hover:bg-gray-600 disabled:opacity-40"
+              >
+                ↶ Deshacer
+              </button>
+              <button
+                onClick={redo}
+                disabled={!history.canRedo}
+                title={history.redoDescription ?? undefined}
+                className="px-2 py-1 rounded text-xs bg-gray-700 hover:bg-gray-600 disabled:opacity-40"
+              >
+                ↷ Rehacer
+              </button>
+              <div className="flex-1 text-right text-xs text-gray-500 truncate">{history.undoDescription}</div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-x-4 gap-y-0.5 text-[10px] text-gray-500">
+              {SHORTCUTS.map(([keys, action]) => (
+                <div key={keys}><span className="text-gray-300">{keys}</span> {action}</div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default EntityReviewPanel;
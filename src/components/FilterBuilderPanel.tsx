@@ -0,0 +1,250 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Html } from '@react-three/drei';
+import { FilterTarget, summarizeFilter } from '@/lib/filterEngine';
+import { FilterOperator, FilterState } from '@/types/interactions';
+
+interface FilterBuilderPanelProps {
+  targets: FilterTarget[];
+  filterState: FilterState;
+  entityTypes: string[];
+  relationshipTypes: string[];
+  position?: [number, number, number];
+  onFilterChange: (criteria: Partial<FilterState>) => void;
+  onClear: () => void;
+}
+
+const OPERATOR_OPTIONS: { value: FilterOperator; label: string }[] = [
+  { value: 'equals', label: '=' },
+  { value: 'notEquals', label: '≠' },
+  { value: 'contains', label: 'contiene' },
+  { value: 'in', label: 'en lista' },
+  { value: 'gt', label: '>' },
+  { value: 'gte', label: '≥' },
+  { value: 'lt', label: '<' },
+  { value: 'lte', label: '≤' },
+  { value: 'exists', label: 'existe' }
+];
+
+// Metadata keys sampled to suggest fields for custom conditions
+const FIELD_SAMPLE_SIZE = 50;
+
+// Numbers stay numbers so comparisons work; "in" takes a comma separated list
+const parseValue = (raw: string, operator: FilterOperator): unknown => {
+  const parseOne = (text: string) => {
+    const trimmed = text.trim();
+    return trimmed !== '' && !Number.isNaN(Number(trimmed)) ? Number(trimmed) : trimmed;
+  };
+  return operator === 'in' ? raw.split(',').map(parseOne) : parseOne(raw);
+};
+
+const toggle = (values: Set<string>, value: string) => {
+  const next = new Set(values);
+  if (next.has(value)) next.delete(value);
+  else next.add(value);
+  return next;
+};
+
+const toDateInput = (date: Date | undefined) => (date ? date.toISOString().slice(0, 10) : '');
+
+export const FilterBuilderPanel: React.FC<FilterBuilderPanelProps> = ({
+  targets,
+  filterState,
+  entityTypes,
+  relationshipTypes,
+  position = [24, 2, 0],
+  onFilterChange,
+  onClear
+}) => {
+  const [field, setField] = useState('');
+  const [operator, setOperator] = useState<FilterOperator>('equals');
+  const [value, setValue] = useState('');
+
+  const summary = useMemo(() => summarizeFilter(targets, filterState), [targets, filterState]);
+
+  const fields = useMemo(() => {
+    const keys = new Set<string>();
+    targets.slice(0, FIELD_SAMPLE_SIZE).forEach(target => {
+      Object.entries(target.metadata).forEach(([key, fieldValue]) => {
+        if (['string', 'number', 'boolean'].includes(typeof fieldValue) || Array.isArray(fieldValue)) keys.add(key);
+      });
+    });
+    return Array.from(keys).sort();
+  }, [targets]);
+
+  const addCondition = () => {
+    if (!field) return;
+    const key = `${field}-${Date.now()}`;
+    onFilterChange({
+      customFilters: {
+        ...filterState.customFilters,
+        [key]: { field, operator, value: operator === 'exists' ? undefined : parseValue(value, operator) }
+      }
+    });
+    setValue('');
+  };
+
+  const setDate = (edge: 'start' | 'end', text: string) => {
+    const current = filterState.dateRange;
+    const date = text ? new Date(`${text}T${edge === 'start' ? '00:00:00' : '23:59:59'}`) : null;
+    const start = edge === 'start' ? date : current?.start ?? null;
+    const end = edge === 'end' ? date : current?.end ?? null;
+    onFilterChange({
+      dateRange: start || end ? { start: start ?? new Date(0), end: end ?? new Date(8.64e15) } : null
+    });
+  };
+
+  return (
+    <Html position={position} className="pointer-events-auto">
+      <div className="bg-black bg-opacity-80 p-4 rounded text-white text-sm space-y-3 w-72">
+        <div className="flex justify-between items-center">
+          <div className="font-bold text-base">Filtros</div>
+          <span className="text-xs text-gray-300">
+            {summary.matching} / {summary.total} coinciden
+          </span>
+        </div>
+
+        {summary.chips.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {summary.chips.map(chip => (
+              <span key={chip.id} className="flex items-center gap-1 bg-amber-600 rounded-full px-2 py-0.5 text-xs">
+                <span className="truncate max-w-40" title={chip.label}>{chip.label}</span>
+                <span className="text-amber-200">({chip.matches})</span>
+                <button onClick={() => onFilterChange(chip.remove)} className="hover:text-black" title="Quitar filtro">
+                  ×
+                </button>
+              </span>
+            ))}
+            <button onClick={onClear} className="px-2 py-0.5 rounded-full text-xs bg-gray-700 hover:bg-gray-600">
+              Limpiar
+            </button>
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <div className="text-xs text-gray-300">Tipos de entidad</div>
+          <div className="flex flex-wrap gap-1">
+            {entityTypes.map(type => (
+              <button
+                key={type}
+                onClick={() => onFilterChange({ entityTypes: toggle(filterState.entityTypes, type) })}
+                className={`px-2 py-0.5 rounded text-xs ${
+                  filterState.entityTypes.has(type) ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'
+                }`}
+              >
+                {type}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {relationshipTypes.length > 0 && (
+          <div className="space-y-1">
+            <div className="text-xs text-gray-300">Relaciones</div>
+            <div className="flex flex-wrap gap-1 max-h-16 overflow-y-auto">
+              {relationshipTypes.map(type => (
+                <button
+                  key={type}
+                  onClick={() => onFilterChange({ relationshipTypes: toggle(filterState.relationshipTypes, type) })}
+                  className={`px-2 py-0.5 rounded text-xs ${
+                    filterState.relationshipTypes.has(type) ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'
+                  }`}
+                >
+                  {type}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs text-gray-300">
+            <span>Confianza mínima</span>
+            <span>{Math.round(filterState.confidenceThreshold * 100)}%</span>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={filterState.confidenceThreshold}
+            onChange={(e) => onFilterChange({ confidenceThreshold: Number(e.target.value) })}
+            className="w-full"
+          />
+        </div>
+
+        <div className="flex items-center gap-1 text-xs">
+          <span className="text-gray-300">Fecha</span>
+          <input
+            type="date"
+            value={toDateInput(filterState.dateRange?.start)}
+            onChange={(e) => setDate('start', e.target.value)}
+            className="flex-1 min-w-0 bg-gray-800 rounded px-1 py-0.5"
+          />
+          <input
+            type="date"
+            value={toDateInput(filterState.dateRange?.end)}
+            onChange={(e) => setDate('end', e.target.value)}
+            className="flex-1 min-w-0 bg-gray-800 rounded px-1 py-0.5"
+          />
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex justify-between items-center text-xs text-gray-300">
+            <span>Condiciones</span>
+            <div className="flex gap-1">
+              {(['and', 'or'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => onFilterChange({ customFilterMode: mode })}
+                  className={`px-2 py-0.5 rounded ${
+                    filterState.customFilterMode === mode ? 'bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600'
+                  }`}
+                >
+                  {mode === 'and' ? 'Todas (Y)' : 'Alguna (O)'}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex gap-1 text-xs">
+            <select
+              value={field}
+              onChange={(e) => setField(e.target.value)}
+              className="flex-1 min-w-0 bg-gray-800 rounded px-1 py-1"
+            >
+              <option value="">Campo…</option>
+              {fields.map(key => <option key={key} value={key}>{key}</option>)}
+            </select>
+            <select
+              value={operator}
+              onChange={(e) => setOperator(e.target.value as FilterOperator)}
+              className="bg-gray-800 rounded px-1 py-1"
+            >
+              {OPERATOR_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+          </div>
+          <div className="flex gap-1 text-xs">
+            <input
+              value={value}
+              disabled={operator === 'exists'}
+              onChange={(e) => setValue(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addCondition()}
+              placeholder={operator === 'in' ? 'a, b, c' : 'Valor'}
+              className="flex-1 min-w-0 bg-gray-800 rounded px-2 py-1 disabled:opacity-40"
+            />
+            <button
+              onClick={addCondition}
+              disabled={!field}
+              className="px-2 py-1 rounded bg-blue-600 hover:bg-blue-500 disabled:opacity-40"
+            >
+              Añadir
+            </button>
+          </div>
+        </div>
+      </div>
+    </Html>
+  );
+};
+
+export default FilterBuilderPanel;
@@ -0,0 +1,112 @@
+'use client';
+
+import { useState } from 'react';
+import { Html } from '@react-three/drei';
+import { HistoryTreeEntry } from '@/lib/UndoRedoSystem';
+
+interface GraphHistoryPanelProps {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoDescription: string | null;
+  redoDescription: string | null;
+  position?: [number, number, number];
+  onUndo: () => void;
+  onRedo: () => void;
+  // Branch tree; without it the panel only offers linear undo and redo
+  tree?: HistoryTreeEntry[];
+  currentNodeId?: string | null;
+  onJump?: (nodeId: string | null) => void; // Null is the state before any change
+}
+
+const STATUS_STYLES: Record<HistoryTreeEntry['status'], string> = {
+  applied: 'text-white',
+  redo: 'text-gray-500',
+  branch: 'text-purple-300'
+};
+
+export const GraphHistoryPanel: React.FC<GraphHistoryPanelProps> = ({
+  canUndo,
+  canRedo,
+  undoDescription,
+  redoDescription,
+  position = [24, -8, 0],
+  onUndo,
+  onRedo,
+  tree = [],
+  currentNodeId = null,
+  onJump
+}) => {
+  const [showTree, setShowTree] = useState(false);
+  const branchCount = tree.filter(entry => entry.status === 'branch').length;
+
+  return (
+    <Html position={position} className="pointer-events-auto">
+      <div className="bg-black bg-opacity-80 p-4 rounded text-white text-sm space-y-3 w-72">
+        <div className="font-bold text-base">Historial</div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={onUndo}
+            disabled={!canUndo}
+            title={undoDescription ?? undefined}
+            className="flex-1 px-2 py-1 rounded text-xs bg-gray-700 hover:bg-gray-600 disabled:opacity-40"
+          >
+            Deshacer
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!canRedo}
+            title={redoDescription ?? undefined}
+            className="flex-1 px-2 py-1 rounded text-xs bg-gray-700 hover:bg-gray-600 disabled:opacity-40"
+          >
+            Rehacer
+          </button>
+        </div>
+
+        <div className="text-xs text-gray-400 truncate">
+          {undoDescription ?? 'Sin cambios'}
+        </div>
+
+        {onJump && tree.length > 0 && (
+          <div>
+            <button
+              onClick={() => setShowTree(show => !show)}
+              aria-expanded={showTree}
+              className="text-xs text-gray-300 hover:text-white"
+            >
+              {showTree ? '▾' : '▸'} Árbol de cambios ({tree.length}{branchCount > 0 && `, ${branchCount} en otras ramas`})
+            </button>
+            {showTree && (
+              <ul className="mt-2 space-y-0.5 max-h-48 overflow-y-auto text-xs">
+                <li>
+                  <button
+                    onClick={() => onJump(null)}
+                    className={`w-full text-left px-1 rounded hover:bg-gray-700 ${currentNodeId === null ? 'bg-blue-900' : ''}`}
+                  >
+                    ○ Estado inicial
+                  </button>
+                </li>
+                {tree.map(({ node, branchDepth, status }) => (
+                  <li key={node.id}>
+                    <button
+                      onClick={() => onJump(node.id)}
+                      title={`Ir a: ${node.command.description}`}
+                      className={`w-full text-left px-1 rounded truncate hover:bg-gray-700 ${STATUS_STYLES[status]} ${
+                        node.id === currentNodeId ? 'bg-blue-900' : ''
+                      }`}
+                      style={{ paddingLeft: `${0.25 + branchDepth * 0.75}rem` }}
+                    >
+                      {node.childIds.length > 1 ? '┬' : '│'} {node.command.description}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </Html>
+  );
+};
+
+export default GraphHistoryPanel;
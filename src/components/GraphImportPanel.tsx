@@ -0,0 +1,110 @@
+'use client';
+
+import { useRef, useState, useCallback } from 'react';
+import { Html } from '@react-three/drei';
+import { importGraphFiles, GraphImportResult } from '@/lib/graphImporters';
+import { GraphDataset } from '@/types/graph';
+
+interface GraphImportPanelProps {
+  position?: [number, number, number];
+  datasetName?: string;
+  onImport: (dataset: GraphDataset) => void;
+}
+
+// Maximum number of validation messages rendered at once
+const MAX_VISIBLE_ISSUES = 8;
+
+export const GraphImportPanel: React.FC<GraphImportPanelProps> = ({
+  position = [-15, -8, 0],
+  datasetName,
+  onImport
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [result, setResult] = useState<GraphImportResult | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const handleFiles = useCallback(async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+
+    const files = Array.from(fileList);
+    setIsImporting(true);
+    let importResult: GraphImportResult | null = null;
+    try {
+      importResult = await importGraphFiles(files);
+      setResult(importResult);
+
+      if (importResult.dataset) {
+        onImport(importResult.dataset);
+      }
+    } catch (error) {
+      // Unreadable files or a failing import handler still leave the panel with something to show
+      setResult({
+        dataset: null,
+        format: importResult?.format ?? 'json',
+        errors: [`${files.map(file => file.name).join(', ')}: ${error instanceof Error ? error.message : String(error)}`],
+        warnings: importResult?.warnings ?? []
+      });
+    } finally {
+      setIsImporting(false);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  }, [onImport]);
+
+  const issues = result ? [...result.errors, ...result.warnings] : [];
+
+  return (
+    <Html position={position} className="pointer-events-auto">
+      <div className="bg-black bg-opacity-80 p-4 rounded text-white text-sm space-y-3 w-72">
+        <div className="font-bold text-base">Importar grafo</div>
+        {datasetName && (
+          <div className="text-xs text-gray-300">Actual: {datasetName}</div>
+        )}
+
+        <button
+          onClick={() => inputRef.current?.click()}
+          disabled={isImporting}
+          className={`w-full px-3 py-2 rounded ${
+            isImporting
+              ? 'bg-gray-600 text-gray-400 cursor-not-allowed'
+              : 'bg-blue-600 hover:bg-blue-500 text-white'
+          }`}
+        >
+          {isImporting ? 'Importando…' : 'GraphML, GEXF, CSV o JSON'}
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept=".graphml,.xml,.gexf,.csv,.json"
+          className="hidden"
+          onChange={(e) => handleFiles(e.target.files)}
+        />
+        <div className="text-xs text-gray-400">
+          CSV: selecciona edges.csv y, opcionalmente, nodes.csv a la vez.
+        </div>
+
+        {result && (
+          <div className={`p-2 rounded text-xs ${result.dataset ? 'bg-green-900' : 'bg-red-900'}`}>
+            <div className="font-bold mb-1">
+              {result.dataset
+                ? `${result.format.toUpperCase()}: ${result.dataset.nodes.length} nodos, ${result.dataset.edges.length} relaciones`
+                : `${result.format.toUpperCase()}: ${result.errors.length} errores`}
+            </div>
+            <ul className="space-y-1 max-h-32 overflow-y-auto">
+              {issues.slice(0, MAX_VISIBLE_ISSUES).map((issue, index) => (
+                <li key={index} className={index < result.errors.length ? 'text-red-200' : 'text-yellow-200'}>
+                  {issue}
+                </li>
+              ))}
+              {issues.length > MAX_VISIBLE_ISSUES && (
+                <li className="text-gray-400">… y {issues.length - MAX_VISIBLE_ISSUES} más</li>
+              )}
+            </ul>
+          </div>
+        )}
+      </div>
+    </Html>
+  );
+};
+
+export default GraphImportPanel;
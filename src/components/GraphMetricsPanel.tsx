@@ -0,0 +1,106 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Html } from '@react-three/drei';
+import { GraphMetrics, NODE_METRICS, NodeMetric, topNodesByMetric } from '@/lib/graphAnalytics';
+
+interface GraphMetricsPanelProps {
+  metrics: GraphMetrics | null;
+  isComputing: boolean;
+  nodeLabels: Map<string, string>;
+  sizeMetric: NodeMetric | null;
+  colorMetric: NodeMetric | null;
+  position?: [number, number, number];
+  onSizeMetricChange: (metric: NodeMetric | null) => void;
+  onColorMetricChange: (metric: NodeMetric | null) => void;
+}
+
+export const METRIC_LABELS: Record<NodeMetric, string> = {
+  degree: 'Grado',
+  betweenness: 'Intermediación',
+  closeness: 'Cercanía',
+  pageRank: 'PageRank',
+  clustering: 'Clustering local'
+};
+
+const TOP_NODES = 5;
+
+export const GraphMetricsPanel: React.FC<GraphMetricsPanelProps> = ({
+  metrics,
+  isComputing,
+  nodeLabels,
+  sizeMetric,
+  colorMetric,
+  position = [-15, 2, 0],
+  onSizeMetricChange,
+  onColorMetricChange
+}) => {
+  // Ranking follows whichever metric drives the visuals
+  const rankingMetric = colorMetric ?? sizeMetric ?? 'pageRank';
+  const topNodes = useMemo(
+    () => metrics ? topNodesByMetric(metrics, rankingMetric, TOP_NODES) : [],
+    [metrics, rankingMetric]
+  );
+
+  const metricSelect = (value: NodeMetric | null, onChange: (metric: NodeMetric | null) => void) => (
+    <select
+      value={value ?? ''}
+      onChange={(e) => onChange((e.target.value || null) as NodeMetric | null)}
+      className="bg-gray-800 rounded px-2 py-1"
+    >
+      <option value="">Ninguna</option>
+      {NODE_METRICS.map(metric => (
+        <option key={metric} value={metric}>{METRIC_LABELS[metric]}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <Html position={position} className="pointer-events-auto">
+      <div className="bg-black bg-opacity-80 p-4 rounded text-white text-sm space-y-3 w-72">
+        <div className="font-bold text-base">Métricas del grafo</div>
+
+        {!metrics && (
+          <div className="text-xs text-gray-400">{isComputing ? 'Calculando…' : 'Sin datos'}</div>
+        )}
+
+        {metrics && (
+          <>
+            <div className="bg-gray-800 p-2 rounded text-xs grid grid-cols-2 gap-2">
+              <div>Nodos: {metrics.nodeCount}</div>
+              <div>Relaciones: {metrics.edgeCount}</div>
+              <div>Densidad: {(metrics.density * 100).toFixed(1)}%</div>
+              <div>Clustering: {(metrics.averageClustering * 100).toFixed(1)}%</div>
+              <div>Camino medio: {metrics.averagePathLength.toFixed(2)}</div>
+              <div>Diámetro: {metrics.diameter}</div>
+              <div className="col-span-2">Componentes: {metrics.components}</div>
+            </div>
+
+            <label className="flex items-center justify-between text-xs">
+              <span>Tamaño por</span>
+              {metricSelect(sizeMetric, onSizeMetricChange)}
+            </label>
+            <label className="flex items-center justify-between text-xs">
+              <span>Color por</span>
+              {metricSelect(colorMetric, onColorMetricChange)}
+            </label>
+
+            <div className="text-xs space-y-1">
+              <div className="text-gray-400">Top {TOP_NODES} · {METRIC_LABELS[rankingMetric]}</div>
+              {topNodes.map(([id, value]) => (
+                <div key={id} className="flex justify-between">
+                  <span className="truncate mr-2">{nodeLabels.get(id) ?? id}</span>
+                  <span>{value.toFixed(3)}</span>
+                </div>
+              ))}
+            </div>
+
+            {isComputing && <div className="text-xs text-gray-400">Recalculando…</div>}
+          </>
+        )}
+      </div>
+    </Html>
+  );
+};
+
+export default GraphMetricsPanel;
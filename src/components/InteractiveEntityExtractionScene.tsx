@@ -1,10 +1,20 @@
 'use client';
 
-import { useRef, useState, useEffect } from 'react';
+import { useRef, useState, useEffect, useMemo } from 'react';
 import { useFrame } from '@react-three/fiber';
-import { Text } from '@react-three/drei';
+import { Text, Html } from '@react-three/drei';
 import * as THREE from 'three';
 import { gsap } from 'gsap';
+import { useExtractedEntities } from '@/hooks/useExtractedEntities';
+import { useUndoRedoSystem } from '@/hooks/useUndoRedoSystem';
+import { ENTITY_TYPE_STYLES, EXTRACTED_ENTITY_TYPES } from '@/lib/entityExtraction';
+import { ENTITY_HISTORY_CONFIG, EntityReviewCommandFactory, EntityReviewStore } from '@/lib/entityReview';
+import { EditableMetadata, MetadataCommandFactory, MetadataStore } from '@/lib/metadataCommands';
+import { CommandRegistry } from '@/lib/commandRegistry';
+import { InspectorConnection, toInspectorSubject } from '@/lib/objectInspector';
+import NodeInspectorPanel from './NodeInspectorPanel';
+import GraphHistoryPanel from './GraphHistoryPanel';
+import { EntityExtractionInteraction, InteractableObject, InteractionCapability } from '@/types/interactions';
 
 interface InteractiveEntityExtractionSceneProps {
   scrollProgress: number;
@@ -12,36 +22,45 @@ interface InteractiveEntityExtractionSceneProps {
 }
 
 // Entity types for extraction
-const entityTypes = [
-  {
-    type: 'PERSONAS' as const,
-    icon: '👤',
-    color: '#3B82F6', // Azul
-    label: 'PERSONAS',
-    count: 12
-  },
-  {
-    type: 'PROCESOS' as const,
-    icon: '⚙️', 
-    color: '#10B981', // Verde
-    label: 'PROCESOS',
-    count: 8
-  },
-  {
-    type: 'RELACIONES' as const,
-    icon: '🔗',
-    color: '#F59E0B', // Amarillo/Naranja
-    label: 'RELACIONES', 
-    count: 15
-  },
-  {
-    type: 'CONCEPTOS' as const,
-    icon: '💡',
-    color: '#8B5CF6', // Púrpura
-    label: 'CONCEPTOS',
-    count: 22
-  }
-] as const;
+const entityTypes = EXTRACTED_ENTITY_TYPES.map(type => ({ type, label: type, ...ENTITY_TYPE_STYLES[type] }));
+
+// Orbiting entities per hub, most confident first
+const MAX_ENTITIES_PER_HUB = 8;
+const MAX_ENTITY_LABEL_LENGTH = 18;
+
+const ENTITY_CAPABILITIES: InteractionCapability[] = ['selectable', 'inspectable', 'validatable'];
+
+const EMPTY_METADATA: EditableMetadata = { tags: [], attributes: {} };
+
+// An extracted entity described the way the inspector reads any interactable
+const toEntityInteractionData = (
+  entity: EntityExtractionInteraction,
+  documentNames: Map<string, string>
+): InteractableObject['interactionData'] => {
+  const sourceNames = Array.from(new Set(entity.mentions.map(mention => documentNames.get(mention.documentId) ?? mention.documentId)));
+  return {
+    id: entity.entityId,
+    type: 'entity',
+    metadata: {
+      label: entity.text,
+      nodeType: entity.entityType,
+      confidence: entity.extractionConfidence,
+      dataSource: sourceNames.join(', '),
+      validationState: entity.validationState,
+      mentions: entity.mentions.length,
+      firstMention: entity.mentions[0]?.sentence.text ?? ''
+    },
+    state: 'idle',
+    capabilities: ENTITY_CAPABILITIES,
+    accessibility: {
+      label: `${entity.entityType}: ${entity.text}`,
+      description: `Entity extracted from ${sourceNames.join(', ')}`,
+      role: 'button',
+      keyboardShortcuts: [],
+      announcements: []
+    }
+  };
+};
 
 const InteractiveEntityExtractionScene: React.FC<InteractiveEntityExtractionSceneProps> = ({ 
   scrollProgress,
@@ -49,6 +68,71 @@ const InteractiveEntityExtractionScene: React.FC<InteractiveEntityExtractionScen
 }) => {
   const groupRef = useRef<THREE.Group>(null);
   const [sceneVisible, setSceneVisible] = useState(false);
+  const { entities, sources } = useExtractedEntities();
+  const [selectedEntityId, setSelectedEntityId] = useState<string | null>(null);
+  const [inspectedEntityId, setInspectedEntityId] = useState<string | null>(null);
+  const history = useUndoRedoSystem(ENTITY_HISTORY_CONFIG);
+
+  // Tags and attributes added in the inspector, keyed by entity id; the ref lets commands read the latest edits
+  const entityMetadataRef = useRef<Record<string, EditableMetadata>>({});
+  const [entityMetadata, setEntityMetadata] = useState(entityMetadataRef.current);
+
+  const entitiesByType = useMemo(() => new Map(entityTypes.map(entityType => [
+    entityType.type,
+    entities.filter(entity => entity.entityType === entityType.type
+      && entity.validationState !== 'rejected'
+      && entity.validationState !== 'merged')
+  ])), [entities]);
+  const documentNames = useMemo(() => new Map(sources.map(source => [source.id, source.name])), [sources]);
+  const selectedEntity = entities.find(entity => entity.entityId === selectedEntityId) ?? null;
+
+  // Selection points at the previous extraction once the documents change
+  useEffect(() => {
+    setSelectedEntityId(null);
+    setInspectedEntityId(null);
+  }, [sources]);
+
+  // Keyed by entity id, which extraction derives from type and text, so edits don't depend on the
+  // entity being extracted right now: ingested documents are not kept across reloads, and saved
+  // edits on their entities must replay anyway and come back if the same file is dropped again
+  const entityMetadataStore = useMemo<MetadataStore>(() => ({
+    getMetadata: (entityId) => entityMetadataRef.current[entityId] ?? EMPTY_METADATA,
+    setMetadata: (entityId, metadata) => {
+      entityMetadataRef.current = { ...entityMetadataRef.current, [entityId]: metadata };
+      setEntityMetadata(entityMetadataRef.current);
+    }
+  }), []);
+
+  // Inspector edits and review decisions survive reloads; neither store needs anything loaded,
+  // so history is restored on mount
+  const { enablePersistence } = history;
+  useEffect(() => {
+    const registry = new CommandRegistry();
+    MetadataCommandFactory.registerSerializers(registry, entityMetadataStore);
+    EntityReviewCommandFactory.registerSerializers(registry, EntityReviewStore.getInstance());
+    enablePersistence(registry);
+  }, [entityMetadataStore, enablePersistence]);
+
+  const inspectorSubject = useMemo(() => {
+    const entity = entities.find(candidate => candidate.entityId === inspectedEntityId);
+    if (!entity) return null;
+
+    const connections: InspectorConnection[] = entity.relationships
+      .map(entityId => entities.find(other => other.entityId === entityId))
+      .filter((other): other is EntityExtractionInteraction => !!other)
+      .map(other => ({
+        id: other.entityId,
+        label: other.text,
+        relationship: 'CO_OCCURS_WITH',
+        direction: 'out' as const,
+        confidence: other.extractionConfidence
+      }));
+    return toInspectorSubject(
+      toEntityInteractionData(entity, documentNames),
+      connections,
+      entityMetadata[entity.entityId] ?? EMPTY_METADATA
+    );
+  }, [inspectedEntityId, entities, documentNames, entityMetadata]);
 
   // Activar la escena 3D cuando el título haya pasado la línea media
   useEffect(() => {
@@ -161,7 +245,7 @@ const InteractiveEntityExtractionScene: React.FC<InteractiveEntityExtractionScen
 
               {/* Count Display */}
               <Text
-                text={`${entityType.count}`}
+                text={`${entitiesByType.get(entityType.type)?.length ?? 0}`}
                 fontSize={1.5}
                 color={entityType.color}
                 anchorX="center"
@@ -174,8 +258,10 @@ const InteractiveEntityExtractionScene: React.FC<InteractiveEntityExtractionScen
               {/* Entity Particles orbiting the hub */}
               <OrbitingEntities 
                 entityType={entityType} 
-                count={entityType.count}
+                entities={entitiesByType.get(entityType.type) ?? []}
                 hubIndex={typeIndex}
+                selectedEntityId={selectedEntityId}
+                onSelect={(entityId) => setSelectedEntityId(current => (current === entityId ? null : entityId))}
               />
             </group>
           </group>
@@ -183,18 +269,136 @@ const InteractiveEntityExtractionScene: React.FC<InteractiveEntityExtractionScen
 
       </group>
 
+      {/* Detalle de la entidad con la frase de la que procede */}
+      {selectedEntity && (
+        <Html position={[30, 12, -50]} className="pointer-events-auto">
+          <EntityDetails
+            entity={selectedEntity}
+            entities={entities}
+            documentNames={documentNames}
+            onSelect={setSelectedEntityId}
+            onInspect={setInspectedEntityId}
+            onClose={() => setSelectedEntityId(null)}
+          />
+        </Html>
+      )}
+
+      <GraphHistoryPanel
+        canUndo={history.canUndo}
+        canRedo={history.canRedo}
+        undoDescription={history.undoDescription}
+        redoDescription={history.redoDescription}
+        position={[-30, -20, -50]}
+        onUndo={history.undo}
+        onRedo={history.redo}
+        tree={history.tree}
+        currentNodeId={history.currentNodeId}
+        onJump={history.jumpTo}
+      />
+
+      {/* Inspector de la entidad: etiquetas y atributos editables con deshacer */}
+      {inspectorSubject && (
+        <NodeInspectorPanel
+          subject={inspectorSubject}
+          onAddTag={(tag) => history.execute(
+            MetadataCommandFactory.createAddTagCommand(entityMetadataStore, inspectorSubject.id, tag, inspectorSubject.label)
+          )}
+          onRemoveTag={(tag) => history.execute(
+            MetadataCommandFactory.createRemoveTagCommand(entityMetadataStore, inspectorSubject.id, tag, inspectorSubject.label)
+          )}
+          onSetAttribute={(key, value) => history.execute(
+            MetadataCommandFactory.createSetAttributeCommand(entityMetadataStore, inspectorSubject.id, key, value, inspectorSubject.label)
+          )}
+          onSelectConnection={(entityId) => {
+            setInspectedEntityId(entityId);
+            setSelectedEntityId(entityId);
+          }}
+          onClose={() => setInspectedEntityId(null)}
+        />
+      )}
     </group>
   );
 };
 
+interface EntityDetailsProps {
+  entity: EntityExtractionInteraction;
+  entities: EntityExtractionInteraction[];
+  documentNames: Map<string, string>;
+  onSelect: (entityId: string) => void;
+  onInspect: (entityId: string) => void;
+  onClose: () => void;
+}
+
+// Shows every sentence an entity was found in, with the mention highlighted
+const EntityDetails: React.FC<EntityDetailsProps> = ({ entity, entities, documentNames, onSelect, onInspect, onClose }) => {
+  const entityType = entityTypes.find(type => type.type === entity.entityType)!;
+  const related = entity.relationships
+    .map(entityId => entities.find(other => other.entityId === entityId))
+    .filter((other): other is EntityExtractionInteraction => !!other);
+
+  return (
+    <div className="bg-black bg-opacity-90 p-3 rounded text-white text-sm w-80 space-y-2">
+      <div className="flex items-start gap-2">
+        <div className="flex-1">
+          <div className="font-bold">{entityType.icon} {entity.text}</div>
+          <div className="text-xs" style={{ color: entityType.color }}>
+            {entityType.label} · confianza {(entity.extractionConfidence * 100).toFixed(0)}%
+          </div>
+        </div>
+        <button
+          onClick={() => onInspect(entity.entityId)}
+          className="px-2 py-0.5 rounded text-xs bg-gray-700 hover:bg-gray-600"
+        >
+          Inspeccionar
+        </button>
+        <button onClick={onClose} aria-label="Cerrar" className="px-1 text-gray-400 hover:text-white">×</button>
+      </div>
+
+      <div className="space-y-1 max-h-40 overflow-y-auto">
+        {entity.mentions.map((mention, index) => {
+          const sentence = mention.sentence.text;
+          const from = mention.start - mention.sentence.start;
+          const to = mention.end - mention.sentence.start;
+          return (
+            <div key={index} className="text-xs text-gray-300 border-l-2 pl-2" style={{ borderColor: entityType.color }}>
+              {sentence.slice(0, from)}
+              <mark className="bg-yellow-300 text-black">{sentence.slice(from, to)}</mark>
+              {sentence.slice(to)}
+              <div className="text-gray-500">{documentNames.get(mention.documentId)}</div>
+            </div>
+          );
+        })}
+      </div>
+
+      {related.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {related.map(other => (
+            <button
+              key={other.entityId}
+              onClick={() => onSelect(other.entityId)}
+              className="px-2 py-0.5 rounded text-xs bg-gray-700 hover:bg-gray-600"
+            >
+              {other.text}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
 // Componente para entidades orbitando cada hub
 interface OrbitingEntitiesProps {
-  entityType: typeof entityTypes[0];
-  count: number;
+  entityType: typeof entityTypes[number];
+  entities: EntityExtractionInteraction[];
   hubIndex: number;
+  selectedEntityId: string | null;
+  onSelect: (entityId: string) => void;
 }
 
-const OrbitingEntities: React.FC<OrbitingEntitiesProps> = ({ entityType, count, hubIndex }) => {
+const OrbitingEntities: React.FC<OrbitingEntitiesProps> = ({ entityType, entities, hubIndex, selectedEntityId, onSelect }) => {
+  const visibleEntities = entities.slice(0, MAX_ENTITIES_PER_HUB);
+  const count = visibleEntities.length;
   const groupRef = useRef<THREE.Group>(null);
   
   useFrame((state) => {
@@ -204,7 +408,7 @@ const OrbitingEntities: React.FC<OrbitingEntitiesProps> = ({ entityType, count,
     const baseSpeed = 0.5 + hubIndex * 0.1;
     
     groupRef.current.children.forEach((entity, index) => {
-      if (entity.type === 'Mesh') {
+      if (entity.type === 'Group') {
         const angle = (index / count) * Math.PI * 2 + time * baseSpeed;
         const radius = 12 + (index % 3) * 3; // Órbitas variables más grandes
         
@@ -212,7 +416,6 @@ const OrbitingEntities: React.FC<OrbitingEntitiesProps> = ({ entityType, count,
         entity.position.z = Math.sin(angle) * radius;
         entity.position.y = Math.sin(time * 2 + index) * 1;
         
-        entity.rotation.x = time * 0.5;
         entity.rotation.y = time * 0.3;
       }
     });
@@ -220,16 +423,42 @@ const OrbitingEntities: React.FC<OrbitingEntitiesProps> = ({ entityType, count,
   
   return (
     <group ref={groupRef}>
-      {Array.from({ length: Math.min(count, 8) }, (_, i) => ( // Limitar para performance
-        <mesh key={i}>
-          <boxGeometry args={[1.2, 1.2, 1.2]} />
-          <meshBasicMaterial
-            color={entityType.color}
-            transparent
-            opacity={0.8}
-          />
-        </mesh>
-      ))}
+      {visibleEntities.map(entity => {
+        const selected = entity.entityId === selectedEntityId;
+        const label = entity.text.length > MAX_ENTITY_LABEL_LENGTH
+          ? `${entity.text.slice(0, MAX_ENTITY_LABEL_LENGTH - 1)}…`
+          : entity.text;
+
+        return (
+          <group
+            key={entity.entityId}
+            onClick={(e) => {
+              e.stopPropagation();
+              onSelect(entity.entityId);
+            }}
+          >
+            <mesh>
+              <boxGeometry args={[1.2, 1.2, 1.2]} />
+              <meshBasicMaterial
+                color={selected ? '#FFFFFF' : entityType.color}
+                transparent
+                opacity={entity.validationState === 'validated' ? 1 : 0.4 + entity.extractionConfidence * 0.6}
+              />
+            </mesh>
+
+            <Text
+              text={label}
+              fontSize={0.6}
+              color="#FFFFFF"
+              anchorX="center"
+              anchorY="middle"
+              position={[0, 1.3, 0]}
+            >
+              <meshBasicMaterial color="#FFFFFF" toneMapped={false} />
+            </Text>
+          </group>
+        );
+      })}
     </group>
   );
 };
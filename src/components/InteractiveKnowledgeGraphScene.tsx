@@ -6,74 +6,72 @@ import { Text } from '@react-three/drei';
 import * as THREE from 'three';
 import { gsap } from 'gsap';
 import { useInteractableObject, useInteractionPattern } from '@/hooks/useInteractionManager';
-import { useSceneInteraction } from '@/contexts/InteractionContext';
+import { useGlobalFilter, useInteractionContext, useSceneInteraction } from '@/contexts/InteractionContext';
+import { useKnowledgeGraphData } from '@/hooks/useKnowledgeGraphData';
+import { useGraphMetrics } from '@/hooks/useGraphMetrics';
+import { useGraphLayout } from '@/hooks/useGraphLayout';
+import { useUndoRedoSystem } from '@/hooks/useUndoRedoSystem';
+import { useLongPress } from '@/hooks/useLongPress';
+import { useSavedViews } from '@/hooks/useSavedViews';
+import GraphImportPanel from './GraphImportPanel';
+import SubgraphExportPanel from './SubgraphExportPanel';
+import PathQueryPanel from './PathQueryPanel';
+import GraphMetricsPanel from './GraphMetricsPanel';
+import ClusterPanel, { CLUSTER_COLORS } from './ClusterPanel';
+import LayoutPanel from './LayoutPanel';
+import FilterBuilderPanel from './FilterBuilderPanel';
+import EntityMergeDialog, { EntityEditRequest } from './EntityMergeDialog';
+import GraphHistoryPanel from './GraphHistoryPanel';
+import ContextMenu3D from './ContextMenu3D';
+import NodeInspectorPanel from './NodeInspectorPanel';
+import { DEFAULT_PATH_QUERY_OPTIONS, GraphQueryEngine, PathQueryOptions } from '@/lib/graphQuery';
+import { NodeMetric, normalizeMetric } from '@/lib/graphAnalytics';
+import { resolveDropAction } from '@/lib/dropRules';
+import { EntityCommandFactory } from '@/lib/entityCommands';
+import { buildContextMenu } from '@/lib/contextMenu';
+import { CommandRegistry } from '@/lib/commandRegistry';
+import { createGraphMetadataStore, MetadataCommandFactory } from '@/lib/metadataCommands';
+import { InspectorConnection, toInspectorSubject } from '@/lib/objectInspector';
+import { readUrlViewState, replaceUrlViewState } from '@/lib/urlState';
 import {
   InteractableObject,
+  InteractionEvent,
   KnowledgeGraphInteraction,
   Command,
   ClusterData,
   PathfindingData
 } from '@/types/interactions';
+import { KnowledgeGraphNode } from '@/types/graph';
+
+// Highlight colours for the best route and its alternatives
+const ROUTE_COLORS = ['#FFFF00', '#FF8C00', '#FF00FF', '#00FFFF', '#7CFC00'];
+
+// Fraction of the remaining distance a node covers each frame towards its layout position
+const LAYOUT_EASING = 0.12;
+
+// Distance within which dropping a node onto another offers to merge them
+const MERGE_DROP_RADIUS = 1.5;
+
+const EDGE_AXIS = new THREE.Vector3(0, 1, 0);
+
+// Centre an edge group between its endpoints and stretch its line to span them
+const placeEdge = (edge: THREE.Object3D, from: THREE.Vector3, to: THREE.Vector3) => {
+  edge.position.addVectors(from, to).multiplyScalar(0.5);
+  const line = edge.getObjectByName('line');
+  if (!line) return;
+  const direction = new THREE.Vector3().subVectors(to, from);
+  line.scale.set(1, Math.max(direction.length(), 1e-3), 1);
+  line.quaternion.setFromUnitVectors(EDGE_AXIS, direction.normalize());
+};
 
 interface InteractiveKnowledgeGraphSceneProps {
   scrollProgress: number;
+  datasetUrl?: string;
 }
 
-// Node types with Fortune 500-level semantic clustering
-const nodeTypeDefinitions = [
-  { 
-    type: 'CORE' as const, 
-    color: '#FF6B6B', 
-    size: 2.5, 
-    count: 4,
-    businessCriticality: 'critical',
-    semanticWeight: 1.0,
-    centralityScore: 0.95,
-    connectivity: 'hub'
-  },
-  { 
-    type: 'ENTITY' as const, 
-    color: '#4ECDC4', 
-    size: 1.8, 
-    count: 12,
-    businessCriticality: 'high',
-    semanticWeight: 0.8,
-    centralityScore: 0.7,
-    connectivity: 'connector'
-  },
-  { 
-    type: 'PROCESS' as const, 
-    color: '#45B7D1', 
-    size: 1.5, 
-    count: 8,
-    businessCriticality: 'medium',
-    semanticWeight: 0.6,
-    centralityScore: 0.5,
-    connectivity: 'bridge'
-  },
-  { 
-    type: 'RELATION' as const, 
-    color: '#F9CA24', 
-    size: 1.2, 
-    count: 16,
-    businessCriticality: 'medium',
-    semanticWeight: 0.4,
-    centralityScore: 0.3,
-    connectivity: 'leaf'
-  }
-] as const;
-
-// Relationship types for enterprise knowledge graphs
-const relationshipTypes = [
-  { type: 'hierarchical', color: '#10B981', strength: 0.9, label: 'PARENT_OF' },
-  { type: 'causal', color: '#F59E0B', strength: 0.8, label: 'CAUSES' },
-  { type: 'semantic', color: '#8B5CF6', strength: 0.7, label: 'RELATED_TO' },
-  { type: 'temporal', color: '#06B6D4', strength: 0.6, label: 'FOLLOWS' },
-  { type: 'compositional', color: '#84CC16', strength: 0.5, label: 'CONTAINS' }
-] as const;
-
 const InteractiveKnowledgeGraphScene: React.FC<InteractiveKnowledgeGraphSceneProps> = ({ 
-  scrollProgress 
+  scrollProgress,
+  datasetUrl
 }) => {
   const groupRef = useRef<THREE.Group>(null);
   const coreRef = useRef<THREE.Mesh>(null);
@@ -84,20 +82,27 @@ const InteractiveKnowledgeGraphScene: React.FC<InteractiveKnowledgeGraphScenePro
     start: null,
     end: null
   });
-  const [currentPath, setCurrentPath] = useState<string[]>([]);
+  const [pathQueryOptions, setPathQueryOptions] = useState<PathQueryOptions>(DEFAULT_PATH_QUERY_OPTIONS);
+  const [activeRoute, setActiveRoute] = useState(0);
   const [clusterView, setClusterView] = useState(false);
+  const [collapsedClusters, setCollapsedClusters] = useState<Set<string>>(new Set());
+  const edgeRefs = useRef(new Map<string, THREE.Object3D>());
+  const clusterRefs = useRef(new Map<string, THREE.Object3D>());
+  const draggedNode = useRef<{ id: string; plane: THREE.Plane; moved: boolean } | null>(null);
+  const suppressClick = useRef(false);
+  const [entityEdit, setEntityEdit] = useState<EntityEditRequest | null>(null);
+  const [contextMenuNode, setContextMenuNode] = useState<string | null>(null);
+  const [inspectedNode, setInspectedNode] = useState<string | null>(null);
+  const layoutTarget = useMemo(() => new THREE.Vector3(), []);
+  const [exportPanelOpen, setExportPanelOpen] = useState(false);
   const [filterState, setFilterState] = useState({
     nodeTypes: new Set<string>(),
     relationshipTypes: new Set<string>(),
     centralityThreshold: 0.0,
     businessCriticality: 'all' as 'all' | 'critical' | 'high' | 'medium' | 'low'
   });
-  const [graphMetrics, setGraphMetrics] = useState({
-    density: 0,
-    clustering: 0,
-    avgPathLength: 0,
-    centrality: new Map<string, number>()
-  });
+  const [sizeMetric, setSizeMetric] = useState<NodeMetric | null>(null);
+  const [colorMetric, setColorMetric] = useState<NodeMetric | null>(null);
 
   // Scene interaction management
   const {
@@ -107,146 +112,112 @@ const InteractiveKnowledgeGraphScene: React.FC<InteractiveKnowledgeGraphScenePro
     isSceneActive,
     sceneSelections
   } = useSceneInteraction('knowledge-graph');
+  // Filter shared with the other interactive scenes
+  const sharedFilter = useGlobalFilter();
+  const { interactionManager } = useInteractionContext();
+  const { saveView } = useSavedViews();
 
-  // Compatibility matrix for node types
-  const getTypeCompatibility = useCallback((typeA: string, typeB: string): number => {
-    const compatibilityMatrix: Record<string, Record<string, number>> = {
-      'CORE': { 'CORE': 0.9, 'ENTITY': 0.8, 'PROCESS': 0.7, 'RELATION': 0.5 },
-      'ENTITY': { 'CORE': 0.8, 'ENTITY': 0.6, 'PROCESS': 0.9, 'RELATION': 0.7 },
-      'PROCESS': { 'CORE': 0.7, 'ENTITY': 0.9, 'PROCESS': 0.5, 'RELATION': 0.8 },
-      'RELATION': { 'CORE': 0.5, 'ENTITY': 0.7, 'PROCESS': 0.8, 'RELATION': 0.3 }
-    };
-    return compatibilityMatrix[typeA]?.[typeB] || 0.1;
-  }, []);
+  // Graph data loaded from the dataset file (generated fallback if unavailable)
+  const { graph, loadDataset, detectCommunities, store } = useKnowledgeGraphData(datasetUrl);
+  // Undoable edits to the graph (entity merges, splits and metadata), kept across reloads
+  const history = useUndoRedoSystem({ persistToDisk: true, persistenceKey: 'knowledge-graph-history' });
+  const graphNodes = useMemo(() => graph?.nodes ?? [], [graph]);
+  const connections = useMemo(() => graph?.edges ?? [], [graph]);
+  // Node positions driven by the layout engine (runs in a worker)
+  const layout = useGraphLayout(graph);
 
-  // Generate knowledge graph nodes with enhanced metadata
-  const graphNodes = useMemo(() => {
-    const nodes: { id: number; type: string; position: [number, number, number]; color: string; size: number; metadata: Record<string, unknown> }[] = [];
-    let nodeId = 0;
-    
-    nodeTypeDefinitions.forEach((nodeType, typeIndex) => {
-      for (let i = 0; i < nodeType.count; i++) {
-        // Spherical distribution for organic graph layout
-        const phi = Math.acos(-1 + (2 * (nodeId + i)) / 40); // Total nodes
-        const theta = Math.sqrt(40 * Math.PI) * phi;
-        
-        const radius = 8 + typeIndex * 3 + Math.random() * 4;
-        
-        const node = {
-          id: `node-${nodeType.type}-${i}`,
-          type: nodeType.type,
-          color: nodeType.color,
-          size: nodeType.size,
-          businessCriticality: nodeType.businessCriticality,
-          semanticWeight: nodeType.semanticWeight + (Math.random() - 0.5) * 0.2,
-          centralityScore: nodeType.centralityScore + (Math.random() - 0.5) * 0.3,
-          connectivity: nodeType.connectivity,
-          position: new THREE.Vector3(
-            radius * Math.sin(phi) * Math.cos(theta),
-            radius * Math.sin(phi) * Math.sin(theta), 
-            radius * Math.cos(phi)
-          ),
-          connections: [] as string[],
-          pulse: Math.random() * Math.PI * 2,
-          // Enhanced metadata
-          metadata: {
-            createdAt: new Date().toISOString(),
-            lastAccessed: new Date().toISOString(),
-            accessCount: Math.floor(Math.random() * 100),
-            updateFrequency: Math.random(),
-            confidence: 0.7 + Math.random() * 0.3,
-            dataSource: ['CRM', 'ERP', 'DOCS', 'EMAIL'][Math.floor(Math.random() * 4)],
-            businessUnit: ['Sales', 'Marketing', 'Operations', 'Finance'][Math.floor(Math.random() * 4)],
-            tags: [],
-            attributes: new Map()
-          },
-          // Clustering data
-          clusterData: {
-            clusterId: `cluster-${Math.floor(nodeId / 5)}`,
-            clusterType: nodeType.type,
-            members: [] as string[],
-            centroid: new THREE.Vector3(),
-            cohesion: Math.random()
-          }
-        };
-        
-        nodes.push(node);
-        nodeId++;
+  const clusterColors = useMemo(() => new Map(
+    (graph?.clusters ?? []).map((cluster, index) => [cluster.clusterId, CLUSTER_COLORS[index % CLUSTER_COLORS.length]])
+  ), [graph]);
+
+  // Node id -> collapsed cluster it belongs to
+  const collapsedMembers = useMemo(() => {
+    const members = new Map<string, ClusterData>();
+    graph?.clusters.forEach(cluster => {
+      if (collapsedClusters.has(cluster.clusterId)) {
+        cluster.members.forEach(id => members.set(id, cluster));
       }
     });
+    return members;
+  }, [graph, collapsedClusters]);
 
-    // Generate connections based on business logic and semantic similarity
-    nodes.forEach((node, index) => {
-      const maxConnections = 
-        node.type === 'CORE' ? 8 : 
-        node.type === 'ENTITY' ? 5 : 
-        node.type === 'PROCESS' ? 3 : 2;
-      
-      const connectionCandidates = nodes
-        .filter((other, otherIndex) => otherIndex !== index)
-        .map((other, otherIndex) => ({
-          ...other,
-          originalIndex: otherIndex < index ? otherIndex : otherIndex + 1,
-          distance: node.position.distanceTo(other.position),
-          semanticSimilarity: Math.abs(node.semanticWeight - other.semanticWeight),
-          businessAlignment: node.metadata.businessUnit === other.metadata.businessUnit ? 0.5 : 0,
-          typeCompatibility: getTypeCompatibility(node.type, other.type)
-        }))
-        .sort((a, b) => {
-          // Multi-criteria sorting: distance, semantic similarity, business alignment
-          const scoreA = a.distance * 0.3 + a.semanticSimilarity * 0.4 + (1 - a.businessAlignment) * 0.2 + (1 - a.typeCompatibility) * 0.1;
-          const scoreB = b.distance * 0.3 + b.semanticSimilarity * 0.4 + (1 - b.businessAlignment) * 0.2 + (1 - b.typeCompatibility) * 0.1;
-          return scoreA - scoreB;
-        })
-        .slice(0, maxConnections);
-
-      node.connections = connectionCandidates.map(candidate => candidate.originalIndex);
+  // Edges inside a collapsed cluster, and duplicates once redirected to a super-node
+  const hiddenConnections = useMemo(() => {
+    const hidden = new Set<string>();
+    const seen = new Set<string>();
+    connections.forEach(connection => {
+      const fromCluster = collapsedMembers.get(connection.fromNode);
+      const toCluster = collapsedMembers.get(connection.toNode);
+      if (!fromCluster && !toCluster) return;
+      if (fromCluster && fromCluster === toCluster) {
+        hidden.add(connection.id);
+        return;
+      }
+      const key = [fromCluster?.clusterId ?? connection.fromNode, toCluster?.clusterId ?? connection.toNode].sort().join('|');
+      if (seen.has(key)) hidden.add(connection.id);
+      seen.add(key);
     });
+    return hidden;
+  }, [connections, collapsedMembers]);
 
-    return nodes;
-  }, [getTypeCompatibility]);
+  const { metrics: graphMetrics, isComputing: metricsComputing } = useGraphMetrics(graph);
+  const nodeById = useMemo(() => new Map(graphNodes.map(node => [node.id, node])), [graphNodes]);
+  const nodeLabels = useMemo(() => new Map(graphNodes.map(node => [node.id, node.label])), [graphNodes]);
 
-  // Generate connection lines with relationship metadata
-  const connections = useMemo(() => {
-    const lines: { from: [number, number, number]; to: [number, number, number]; strength: number; color: string }[] = [];
-    graphNodes.forEach((node, index) => {
-      node.connections.forEach((connectionIndex: number) => {
-        if (connectionIndex > index) { // Avoid duplicate lines
-          const connectedNode = graphNodes[connectionIndex];
-          const relationshipType = relationshipTypes[
-            Math.floor(Math.random() * relationshipTypes.length)
-          ];
-          
-          lines.push({
-            id: `connection-${node.id}-${connectedNode.id}`,
-            from: node.position,
-            to: connectedNode.position,
-            fromNode: node.id,
-            toNode: connectedNode.id,
-            fromType: node.type,
-            toType: connectedNode.type,
-            relationshipType: relationshipType.type,
-            strength: relationshipType.strength * (0.5 + Math.random() * 0.5),
-            color: relationshipType.color,
-            label: relationshipType.label,
-            weight: 1 / (1 + node.position.distanceTo(connectedNode.position) * 0.1),
-            metadata: {
-              confidence: 0.6 + Math.random() * 0.4,
-              establishedAt: new Date().toISOString(),
-              validatedBy: 'system',
-              businessRelevance: Math.random()
-            }
-          });
-        }
+  // Per-node scale factor and colour when the metrics panel drives the visuals
+  const nodeScales = useMemo(() => {
+    if (!graphMetrics || !sizeMetric) return null;
+    const normalized = normalizeMetric(graphMetrics, sizeMetric);
+    return new Map(Array.from(normalized, ([id, value]) => [id, 0.6 + value * 1.2]));
+  }, [graphMetrics, sizeMetric]);
+
+  const nodeColors = useMemo(() => {
+    if (!graphMetrics || !colorMetric) return null;
+    const normalized = normalizeMetric(graphMetrics, colorMetric);
+    // Blue (low) to red (high)
+    return new Map(Array.from(normalized, ([id, value]) => [
+      id,
+      `#${new THREE.Color().setHSL(0.66 * (1 - value), 0.9, 0.55).getHexString()}`
+    ]));
+  }, [graphMetrics, colorMetric]);
+
+  const queryEngine = useMemo(() => graph ? new GraphQueryEngine(graph) : null, [graph]);
+
+  // Routes between the chosen endpoints, recomputed when the query options change
+  const pathResults = useMemo(() => {
+    if (!queryEngine || !pathfindingNodes.start || !pathfindingNodes.end) return [];
+    return queryEngine.findPaths(pathfindingNodes.start, pathfindingNodes.end, pathQueryOptions);
+  }, [queryEngine, pathfindingNodes, pathQueryOptions]);
+  const currentPath = useMemo(() => pathResults[activeRoute]?.path ?? [], [pathResults, activeRoute]);
+
+  // Edge id -> index of the best-ranked route that uses it
+  const pathEdgeRoutes = useMemo(() => {
+    const routes = new Map<string, number>();
+    pathResults.forEach((result, index) => {
+      result.edges.forEach(edgeId => {
+        if (!routes.has(edgeId)) routes.set(edgeId, index);
       });
     });
-    return lines;
-  }, [graphNodes]);
+    return routes;
+  }, [pathResults]);
+
+  // Relationship labels touching each node, so relationship filters can match nodes
+  const nodeRelationships = useMemo(() => {
+    const labels = new Map<string, Set<string>>();
+    connections.forEach(connection => {
+      [connection.fromNode, connection.toNode].forEach(nodeId => {
+        if (!labels.has(nodeId)) labels.set(nodeId, new Set());
+        labels.get(nodeId)!.add(connection.label);
+      });
+    });
+    return labels;
+  }, [connections]);
 
   // Interactive objects for each node
   const nodeInteractables = useMemo(() => {
     return graphNodes.map(node => ({
       ...node,
+      knowledgeGraph: graph?.interactions.get(node.id) as KnowledgeGraphInteraction,
       interactionData: {
         id: node.id,
         type: 'knowledge-node',
@@ -256,13 +227,15 @@ const InteractiveKnowledgeGraphScene: React.FC<InteractiveKnowledgeGraphScenePro
           businessCriticality: node.businessCriticality,
           semanticWeight: node.semanticWeight,
           clusterData: node.clusterData,
+          knowledgeGraph: graph?.interactions.get(node.id),
+          relationshipTypes: Array.from(nodeRelationships.get(node.id) ?? []),
           ...node.metadata
         },
         state: 'idle' as const,
-        capabilities: ['draggable', 'selectable', 'inspectable', 'connectable', 'expandable', 'traceable'],
+        capabilities: ['draggable', 'selectable', 'filterable', 'inspectable', 'connectable', 'expandable', 'traceable', 'mergeable'],
         accessibility: {
-          label: `${node.type} node - Centrality ${(node.centralityScore * 100).toFixed(0)}%`,
-          description: `Knowledge graph ${node.type.toLowerCase()} node with ${node.connections.length} connections`,
+          label: `${node.label} (${node.type}) - Centrality ${(node.centralityScore * 100).toFixed(0)}%`,
+          description: `Knowledge graph ${node.type.toLowerCase()} node "${node.label}" in ${node.clusterData.clusterId} with ${node.connections.length} connections`,
           role: 'button',
           keyboardShortcuts: [
             'Enter to select', 
@@ -271,11 +244,20 @@ const InteractiveKnowledgeGraphScene: React.FC<InteractiveKnowledgeGraphScenePro
             'C to view cluster',
             'E to explore connections'
           ],
-          announcements: [`${node.type} node with ${node.connections.length} connections`]
+          announcements: [`${node.label}, ${node.type} node with ${node.connections.length} connections`]
         }
       } as InteractableObject['interactionData']
     }));
-  }, [graphNodes]);
+  }, [graphNodes, graph, nodeRelationships]);
+
+  const filterTargets = useMemo(() => nodeInteractables.map(node => node.interactionData), [nodeInteractables]);
+
+  // Nodes rejected by the shared filter
+  const { matchesFilter } = sharedFilter;
+  const globallyFiltered = useMemo(
+    () => new Set(filterTargets.filter(target => !matchesFilter(target)).map(target => target.id)),
+    [filterTargets, matchesFilter]
+  );
 
   // Scene activation based on scroll progress
   useEffect(() => {
@@ -344,119 +326,138 @@ const InteractiveKnowledgeGraphScene: React.FC<InteractiveKnowledgeGraphScenePro
   }, [selectInScene]);
 
   const handleNodeExpand = useCallback((nodeId: string) => {
-    const node = graphNodes.find(n => n.id === nodeId);
-    if (node) {
-      console.log('🔍 Expanding node:', {
-        id: nodeId,
-        type: node.type,
-        connections: node.connections.length,
-        centralityScore: node.centralityScore,
-        businessCriticality: node.businessCriticality,
-        metadata: node.metadata
+    if (nodeById.has(nodeId)) setInspectedNode(nodeId);
+  }, [nodeById]);
+
+  // An open inspector follows single selections
+  useEffect(() => {
+    if (selectedNodes.size !== 1) return;
+    const [nodeId] = Array.from(selectedNodes);
+    setInspectedNode(prev => (prev ? nodeId : prev));
+  }, [selectedNodes]);
+
+  // Selections applied from outside the scene, e.g. restoring a saved view
+  const adoptedSelection = useRef(false);
+  useEffect(() => {
+    if (!interactionManager) return;
+    // A shared link can select nodes before the graph has loaded
+    if (!adoptedSelection.current && nodeById.size > 0) {
+      adoptedSelection.current = true;
+      const selected = Array.from(interactionManager.getState().selectedObjects).filter(id => nodeById.has(id));
+      if (selected.length) setSelectedNodes(new Set(selected));
+    }
+    const handleMultiSelect = (event: InteractionEvent) => {
+      const objectIds = (event.data as { objectIds?: string[] }).objectIds ?? [];
+      setSelectedNodes(new Set(objectIds.filter(id => nodeById.has(id))));
+    };
+    interactionManager.on('multiSelect', handleMultiSelect);
+    return () => interactionManager.off('multiSelect', handleMultiSelect);
+  }, [interactionManager, nodeById]);
+
+  const metadataStore = useMemo(() => createGraphMetadataStore(store), [store]);
+
+  // Saved edits are replayed onto the graph once it has loaded
+  const graphLoaded = !!graph;
+  const { enablePersistence } = history;
+  useEffect(() => {
+    if (!graphLoaded) return;
+    const registry = new CommandRegistry();
+    EntityCommandFactory.registerSerializers(registry, store);
+    MetadataCommandFactory.registerSerializers(registry, metadataStore);
+    enablePersistence(registry);
+  }, [graphLoaded, store, metadataStore, enablePersistence]);
+
+  const inspectorSubject = useMemo(() => {
+    const node = nodeInteractables.find(n => n.id === inspectedNode);
+    if (!node) return null;
+
+    const nodeConnections: InspectorConnection[] = [];
+    connections.forEach(connection => {
+      const direction = connection.fromNode === node.id ? 'out' : connection.toNode === node.id ? 'in' : null;
+      if (!direction) return;
+      const otherId = direction === 'out' ? connection.toNode : connection.fromNode;
+      nodeConnections.push({
+        id: otherId,
+        label: nodeById.get(otherId)?.label ?? otherId,
+        relationship: connection.label,
+        direction,
+        confidence: connection.metadata.confidence
       });
-      
-      // Could trigger detailed node view or expand connections
-      setClusterView(true);
+    });
+    return toInspectorSubject(node.interactionData, nodeConnections);
+  }, [inspectedNode, nodeInteractables, connections, nodeById]);
+
+  const resetPathfinding = useCallback(() => {
+    setPathfindingMode(false);
+    setPathfindingNodes({ start: null, end: null });
+    setActiveRoute(0);
+  }, []);
+
+  // Path endpoints from a shared link; written back once they have been applied
+  const appliedLinkPath = useRef(false);
+  useEffect(() => {
+    if (!appliedLinkPath.current) return;
+    replaceUrlViewState({ pathStart: pathfindingNodes.start, pathEnd: pathfindingNodes.end });
+  }, [pathfindingNodes]);
+
+  useEffect(() => {
+    if (appliedLinkPath.current || nodeById.size === 0) return;
+    appliedLinkPath.current = true;
+    const { pathStart, pathEnd } = readUrlViewState();
+    if (pathStart && nodeById.has(pathStart)) {
+      setPathfindingMode(true);
+      setPathfindingNodes({ start: pathStart, end: pathEnd && nodeById.has(pathEnd) ? pathEnd : null });
     }
-  }, [graphNodes]);
+  }, [nodeById]);
+
+  const toggleClusterCollapse = useCallback((clusterId: string) => {
+    setCollapsedClusters(prev => {
+      const next = new Set(prev);
+      if (next.has(clusterId)) {
+        next.delete(clusterId);
+      } else {
+        next.add(clusterId);
+      }
+      return next;
+    });
+    setClusterView(true);
+  }, []);
 
   const handlePathfinding = useCallback((nodeId: string) => {
-    if (!pathfindingMode) {
+    if (!pathfindingMode || !pathfindingNodes.start) {
       setPathfindingMode(true);
       setPathfindingNodes({ start: nodeId, end: null });
+      setActiveRoute(0);
     } else if (!pathfindingNodes.end && pathfindingNodes.start !== nodeId) {
       setPathfindingNodes(prev => ({ ...prev, end: nodeId }));
-      
-      // Calculate shortest path using Dijkstra's algorithm
-      const path = findShortestPath(pathfindingNodes.start!, nodeId);
-      setCurrentPath(path);
-      
-      console.log('🗺️ Path found:', {
-        start: pathfindingNodes.start,
-        end: nodeId,
-        path: path,
-        length: path.length
-      });
+      setActiveRoute(0);
     } else {
-      // Reset pathfinding
-      setPathfindingMode(false);
-      setPathfindingNodes({ start: null, end: null });
-      setCurrentPath([]);
-    }
-  }, [pathfindingMode, pathfindingNodes, graphNodes]);
-
-  const findShortestPath = useCallback((startId: string, endId: string): string[] => {
-    // Simplified Dijkstra's algorithm for demonstration
-    const distances = new Map<string, number>();
-    const previous = new Map<string, string | null>();
-    const unvisited = new Set<string>();
-    
-    // Initialize
-    graphNodes.forEach(node => {
-      distances.set(node.id, node.id === startId ? 0 : Infinity);
-      previous.set(node.id, null);
-      unvisited.add(node.id);
-    });
-    
-    while (unvisited.size > 0) {
-      // Find unvisited node with minimum distance
-      const currentNode = Array.from(unvisited).reduce((min, nodeId) => 
-        (distances.get(nodeId)! < distances.get(min)!) ? nodeId : min
-      );
-      
-      if (currentNode === endId) break;
-      
-      unvisited.delete(currentNode);
-      
-      const current = graphNodes.find(n => n.id === currentNode)!;
-      current.connections.forEach((connectedIndex: number) => {
-        const connectedNode = graphNodes[connectedIndex];
-        if (unvisited.has(connectedNode.id)) {
-          const alt = distances.get(currentNode)! + 1; // Edge weight = 1
-          if (alt < distances.get(connectedNode.id)!) {
-            distances.set(connectedNode.id, alt);
-            previous.set(connectedNode.id, currentNode);
-          }
-        }
-      });
+      resetPathfinding();
     }
-    
-    // Reconstruct path
-    const path: string[] = [];
-    let current: string | null = endId;
-    while (current !== null) {
-      path.unshift(current);
-      current = previous.get(current)!;
-    }
-    
-    return path.length > 1 ? path : [];
-  }, [graphNodes]);
+  }, [pathfindingMode, pathfindingNodes, resetPathfinding]);
 
   const handleNodeContextMenu = useCallback((nodeId: string) => {
-    const node = graphNodes.find(n => n.id === nodeId);
-    if (node) {
-      console.log('📋 Node context menu:', {
-        node: nodeId,
-        actions: [
-          'Inspect details',
-          'Find shortest path',
-          'View cluster',
-          'Show all connections',
-          'Export subgraph',
-          'Update metadata',
-          'Create relationship',
-          'Set as bookmark'
-        ]
-      });
-    }
-  }, [graphNodes]);
+    setContextMenuNode(nodeId);
+  }, []);
+
+  const closeContextMenu = useCallback(() => setContextMenuNode(null), []);
+
+  // On touch, a long press opens the menu instead of starting a drag
+  const handleNodeLongPress = useCallback((nodeId: string) => {
+    draggedNode.current = null;
+    suppressClick.current = true;
+    handleNodeContextMenu(nodeId);
+  }, [handleNodeContextMenu]);
+  const longPress = useLongPress(handleNodeLongPress);
 
   // Filter handling
   const applyFilter = useCallback((newFilter: Partial<typeof filterState>) => {
     setFilterState(prev => ({ ...prev, ...newFilter }));
   }, []);
 
-  const shouldShowNode = useCallback((node: { type: string; metadata: Record<string, unknown> }) => {
+  const shouldShowNode = useCallback((node: KnowledgeGraphNode | undefined) => {
+    if (!node || globallyFiltered.has(node.id)) return false;
+
     if (filterState.nodeTypes.size > 0 && !filterState.nodeTypes.has(node.type)) {
       return false;
     }
@@ -471,25 +472,84 @@ const InteractiveKnowledgeGraphScene: React.FC<InteractiveKnowledgeGraphScenePro
     }
     
     return true;
-  }, [filterState]);
+  }, [filterState, globallyFiltered]);
 
-  // Calculate graph metrics
-  useEffect(() => {
-    const visibleNodes = graphNodes.filter(shouldShowNode);
-    const visibleConnections = connections.filter(conn => 
-      visibleNodes.some(n => n.id === conn.fromNode) && 
-      visibleNodes.some(n => n.id === conn.toNode)
-    );
-    
-    const density = visibleConnections.length / (visibleNodes.length * (visibleNodes.length - 1) / 2);
-    
-    setGraphMetrics({
-      density,
-      clustering: 0.6 + Math.random() * 0.3, // Simplified
-      avgPathLength: 2.5 + Math.random() * 1.5, // Simplified
-      centrality: new Map(visibleNodes.map(n => [n.id, n.centralityScore]))
+  // Closest visible node the dragged one was dropped on, if it accepts a merge
+  const findMergeTarget = useCallback((nodeId: string) => {
+    const dragged = nodeInteractables.find(node => node.id === nodeId);
+    if (!dragged) return null;
+
+    let target: typeof dragged | null = null;
+    let targetDistance = MERGE_DROP_RADIUS;
+    for (const node of nodeInteractables) {
+      if (node.id === nodeId || !shouldShowNode(node) || collapsedMembers.has(node.id)) continue;
+      const distance = node.position.distanceTo(dragged.position);
+      if (distance <= targetDistance) {
+        target = node;
+        targetDistance = distance;
+      }
+    }
+    return target && resolveDropAction(dragged, target) === 'merge' ? target : null;
+  }, [nodeInteractables, shouldShowNode, collapsedMembers]);
+
+  // Inspector edits go through the scene history like merges and splits
+  const inspectorHandlers = useMemo(() => {
+    if (!inspectorSubject) return null;
+    const { id, label } = inspectorSubject;
+    return {
+      onAddTag: (tag: string) => history.execute(MetadataCommandFactory.createAddTagCommand(metadataStore, id, tag, label)),
+      onRemoveTag: (tag: string) => history.execute(MetadataCommandFactory.createRemoveTagCommand(metadataStore, id, tag, label)),
+      onSetAttribute: (key: string, value: unknown) =>
+        history.execute(MetadataCommandFactory.createSetAttributeCommand(metadataStore, id, key, value, label)),
+      onSelectConnection: (nodeId: string) => handleNodeSelect(nodeId)
+    };
+  }, [inspectorSubject, history, metadataStore, handleNodeSelect]);
+
+  // Menu entries for the node's capabilities, bound to the scene's handlers
+  const contextMenuActions = useMemo(() => {
+    const node = nodeInteractables.find(n => n.id === contextMenuNode);
+    if (!node) return [];
+    const nodeId = node.id;
+
+    return buildContextMenu(node.interactionData.capabilities, {
+      inspect: () => handleNodeExpand(nodeId),
+      findPath: () => handlePathfinding(nodeId),
+      viewCluster: () => {
+        const cluster = graph?.clusters.find(c => c.clusterId === node.clusterData.clusterId);
+        if (!cluster) return;
+        setCollapsedClusters(prev => {
+          const next = new Set(prev);
+          next.delete(cluster.clusterId);
+          return next;
+        });
+        setSelectedNodes(new Set(cluster.members));
+        setClusterView(true);
+      },
+      showConnections: () => {
+        setSelectedNodes(new Set([nodeId, ...node.connections.map(index => graphNodes[index].id)]));
+      },
+      split: node.mergeRecord ? () => setEntityEdit({ mode: 'split', nodeId }) : undefined,
+      bookmark: () => saveView(node.label, [nodeId]),
+      export: () => {
+        // Make sure the clicked node is part of the exported selection
+        setSelectedNodes(prev => (prev.has(nodeId) ? prev : new Set(prev).add(nodeId)));
+        setExportPanelOpen(true);
+      }
     });
-  }, [graphNodes, connections, shouldShowNode]);
+  }, [contextMenuNode, nodeInteractables, graph, graphNodes, handleNodeExpand, handlePathfinding, saveView]);
+
+  const confirmEntityEdit = useCallback(() => {
+    if (!entityEdit) return;
+    const command = entityEdit.mode === 'merge'
+      ? EntityCommandFactory.createMergeCommand(store, entityEdit.survivorId, entityEdit.absorbedId)
+      : EntityCommandFactory.createSplitCommand(store, entityEdit.nodeId);
+    history.execute(command);
+
+    // Selections and routes may point at an entity that no longer exists
+    setSelectedNodes(new Set());
+    resetPathfinding();
+    setEntityEdit(null);
+  }, [entityEdit, store, history, resetPathfinding]);
 
   // Animation loop
   useFrame((state) => {
@@ -500,13 +560,51 @@ const InteractiveKnowledgeGraphScene: React.FC<InteractiveKnowledgeGraphScenePro
     const sectionEnd = 0.80;
     const localProgress = Math.min(1, Math.max(0, (scrollProgress - sectionStart) / (sectionEnd - sectionStart)));
 
+    // Ease nodes towards the latest layout positions
+    const targetPositions = layout.targets.current;
+    let layoutMoved = draggedNode.current?.moved ?? false;
+    if (targetPositions && targetPositions.length === graphNodes.length * 3) {
+      graphNodes.forEach((node, index) => {
+        if (draggedNode.current?.id === node.id) return;
+        layoutTarget.set(targetPositions[index * 3], targetPositions[index * 3 + 1], targetPositions[index * 3 + 2]);
+        if (node.position.distanceToSquared(layoutTarget) > 1e-4) {
+          node.position.lerp(layoutTarget, LAYOUT_EASING);
+          layoutMoved = true;
+        }
+      });
+    }
+
+    if (layoutMoved && graph) {
+      graph.clusters.forEach(cluster => {
+        cluster.centroid.set(0, 0, 0);
+        cluster.members.forEach(id => {
+          const member = nodeById.get(id);
+          if (member) cluster.centroid.add(member.position);
+        });
+        cluster.centroid.divideScalar(Math.max(1, cluster.members.length));
+        clusterRefs.current.get(cluster.clusterId)?.position.copy(cluster.centroid);
+      });
+
+      connections.forEach(connection => {
+        const edge = edgeRefs.current.get(connection.id);
+        if (!edge) return;
+        placeEdge(
+          edge,
+          collapsedMembers.get(connection.fromNode)?.centroid ?? connection.from,
+          collapsedMembers.get(connection.toNode)?.centroid ?? connection.to
+        );
+      });
+    }
+
     // Animate graph formation
     graphNodes.forEach((node, index) => {
       const nodeMesh = groupRef.current?.getObjectByName(node.id);
       if (!nodeMesh) return;
+      nodeMesh.position.x = node.position.x;
+      nodeMesh.position.z = node.position.z;
 
       // Show/hide based on filters
-      const shouldShow = shouldShowNode(node);
+      const shouldShow = shouldShowNode(node) && !collapsedMembers.has(node.id);
       nodeMesh.visible = shouldShow;
       
       if (!shouldShow) return;
@@ -516,7 +614,7 @@ const InteractiveKnowledgeGraphScene: React.FC<InteractiveKnowledgeGraphScenePro
       
       if (nodeProgress > 0) {
         // Scale animation
-        const baseScale = nodeProgress * node.size;
+        const baseScale = nodeProgress * node.size * (nodeScales?.get(node.id) ?? 1);
         if (!selectedNodes.has(node.id) && hoveredNode !== node.id) {
           nodeMesh.scale.setScalar(baseScale);
         }
@@ -572,8 +670,55 @@ const InteractiveKnowledgeGraphScene: React.FC<InteractiveKnowledgeGraphScenePro
           position={node.position}
           onPointerEnter={() => handleNodeHover(node.id, true)}
           onPointerLeave={() => handleNodeHover(node.id, false)}
+          onPointerDown={(e) => {
+            if (e.button !== 0) return;
+            longPress.start(node.id, e.nativeEvent);
+            if (pathfindingMode || !groupRef.current) return;
+            e.stopPropagation();
+            (e.target as Element).setPointerCapture(e.pointerId);
+            // Drag along the plane facing the camera through the node
+            const normal = e.camera.getWorldDirection(new THREE.Vector3());
+            const origin = groupRef.current.localToWorld(node.position.clone());
+            draggedNode.current = {
+              id: node.id,
+              plane: new THREE.Plane().setFromNormalAndCoplanarPoint(normal, origin),
+              moved: false
+            };
+          }}
+          onPointerMove={(e) => {
+            longPress.move(e.nativeEvent);
+            const drag = draggedNode.current;
+            if (!drag || drag.id !== node.id || !groupRef.current) return;
+            e.stopPropagation();
+            const hit = e.ray.intersectPlane(drag.plane, new THREE.Vector3());
+            if (!hit) return;
+            node.position.copy(groupRef.current.worldToLocal(hit));
+            drag.moved = true;
+          }}
+          onPointerUp={(e) => {
+            longPress.cancel();
+            const drag = draggedNode.current;
+            if (!drag || drag.id !== node.id) return;
+            (e.target as Element).releasePointerCapture(e.pointerId);
+            draggedNode.current = null;
+            if (drag.moved) {
+              suppressClick.current = true;
+              // Dropped on a duplicate: offer a merge and let the layout ease the node back
+              const target = findMergeTarget(node.id);
+              if (target) {
+                setEntityEdit({ mode: 'merge', survivorId: target.id, absorbedId: node.id });
+              } else {
+                layout.pinNode(node.id, node.position);
+              }
+            }
+          }}
           onClick={(e) => {
             e.stopPropagation();
+            // A drag ends with a click event; it shouldn't also select
+            if (suppressClick.current) {
+              suppressClick.current = false;
+              return;
+            }
             if (pathfindingMode) {
               handlePathfinding(node.id);
             } else {
@@ -586,6 +731,7 @@ const InteractiveKnowledgeGraphScene: React.FC<InteractiveKnowledgeGraphScenePro
           }}
           onContextMenu={(e) => {
             e.stopPropagation();
+            e.nativeEvent.preventDefault();
             handleNodeContextMenu(node.id);
           }}
         >
@@ -593,7 +739,7 @@ const InteractiveKnowledgeGraphScene: React.FC<InteractiveKnowledgeGraphScenePro
           <mesh>
             <sphereGeometry args={[node.size, 12, 12]} />
             <meshBasicMaterial 
-              color={node.color}
+              color={(clusterView ? clusterColors.get(node.clusterData.clusterId) : nodeColors?.get(node.id)) ?? node.color}
               transparent
               opacity={0.8}
             />
@@ -603,7 +749,7 @@ const InteractiveKnowledgeGraphScene: React.FC<InteractiveKnowledgeGraphScenePro
           <mesh>
             <sphereGeometry args={[node.size * 1.3, 8, 8]} />
             <meshBasicMaterial 
-              color={node.color}
+              color={(clusterView ? clusterColors.get(node.clusterData.clusterId) : nodeColors?.get(node.id)) ?? node.color}
               transparent
               opacity={0.2}
               blending={THREE.AdditiveBlending}
@@ -637,7 +783,7 @@ const InteractiveKnowledgeGraphScene: React.FC<InteractiveKnowledgeGraphScenePro
           {/* Node type label for core nodes */}
           {node.type === 'CORE' && (
             <Text
-              text={`CORE ${node.id.split('-')[2]}`}
+              text={node.label}
               fontSize={0.6}
               color="#FFFFFF"
               anchorX="center"
@@ -693,7 +839,7 @@ const InteractiveKnowledgeGraphScene: React.FC<InteractiveKnowledgeGraphScenePro
             <mesh>
               <sphereGeometry args={[node.size * 1.6, 8, 8]} />
               <meshBasicMaterial
-                color="#FFFF00"
+                color={ROUTE_COLORS[activeRoute % ROUTE_COLORS.length]}
                 transparent
                 opacity={0.4}
                 blending={THREE.AdditiveBlending}
@@ -707,34 +853,45 @@ const InteractiveKnowledgeGraphScene: React.FC<InteractiveKnowledgeGraphScenePro
       {connections.map((connection, index) => {
         const shouldShowConnection = 
           shouldShowNode(graphNodes.find(n => n.id === connection.fromNode)) &&
-          shouldShowNode(graphNodes.find(n => n.id === connection.toNode));
+          shouldShowNode(graphNodes.find(n => n.id === connection.toNode)) &&
+          (sharedFilter.filterState?.relationshipTypes.size ? sharedFilter.filterState.relationshipTypes.has(connection.label) : true);
           
-        if (!shouldShowConnection) return null;
+        if (!shouldShowConnection || hiddenConnections.has(connection.id)) return null;
         
-        const midpoint = new THREE.Vector3().addVectors(connection.from, connection.to).multiplyScalar(0.5);
-        const direction = new THREE.Vector3().subVectors(connection.to, connection.from);
+        // Edges into a collapsed cluster attach to its super-node
+        const from = collapsedMembers.get(connection.fromNode)?.centroid ?? connection.from;
+        const to = collapsedMembers.get(connection.toNode)?.centroid ?? connection.to;
+        const midpoint = new THREE.Vector3().addVectors(from, to).multiplyScalar(0.5);
+        const direction = new THREE.Vector3().subVectors(to, from);
         const distance = direction.length();
+        const orientation = new THREE.Quaternion().setFromUnitVectors(EDGE_AXIS, direction.clone().normalize());
         
-        const isPathConnection = currentPath.length > 1 && 
-          currentPath.some((nodeId, i) => 
-            i < currentPath.length - 1 && 
-            ((currentPath[i] === connection.fromNode && currentPath[i + 1] === connection.toNode) ||
-             (currentPath[i] === connection.toNode && currentPath[i + 1] === connection.fromNode))
-          );
+        const routeIndex = pathEdgeRoutes.get(connection.id);
+        const isPathConnection = routeIndex !== undefined;
+        const isActiveRoute = pathResults[activeRoute]?.edges.includes(connection.id) ?? false;
         
         return (
-          <group key={connection.id}>
-            <mesh position={midpoint} lookAt={connection.to}>
-              <cylinderGeometry args={[0.02, 0.02, distance, 6]} />
+          <group
+            key={connection.id}
+            position={midpoint}
+            ref={(edge) => {
+              if (edge) edgeRefs.current.set(connection.id, edge);
+              else edgeRefs.current.delete(connection.id);
+            }}
+          >
+            <mesh name="line" quaternion={orientation} scale={[1, Math.max(distance, 1e-3), 1]}>
+              <cylinderGeometry args={[0.02, 0.02, 1, 6]} />
               <meshBasicMaterial 
-                color={isPathConnection ? '#FFFF00' : connection.color}
+                color={isActiveRoute
+                  ? ROUTE_COLORS[activeRoute % ROUTE_COLORS.length]
+                  : isPathConnection ? ROUTE_COLORS[routeIndex % ROUTE_COLORS.length] : connection.color}
                 transparent
-                opacity={isPathConnection ? 0.8 : 0.3}
+                opacity={isActiveRoute ? 0.9 : isPathConnection ? 0.5 : 0.3}
               />
             </mesh>
             
             {/* Connection strength indicator */}
-            <mesh position={midpoint}>
+            <mesh>
               <sphereGeometry args={[0.05 * connection.strength, 4, 4]} />
               <meshBasicMaterial 
                 color={connection.color}
@@ -751,7 +908,7 @@ const InteractiveKnowledgeGraphScene: React.FC<InteractiveKnowledgeGraphScenePro
                 color="#FFFFFF"
                 anchorX="center"
                 anchorY="middle"
-                position={[midpoint.x, midpoint.y + 1, midpoint.z]}
+                position={[0, 1, 0]}
               >
                 <meshBasicMaterial color="#FFFFFF" toneMapped={false} />
               </Text>
@@ -760,6 +917,60 @@ const InteractiveKnowledgeGraphScene: React.FC<InteractiveKnowledgeGraphScenePro
         );
       })}
 
+      {/* Cluster hulls and collapsed super-nodes */}
+      {clusterView && graph?.clusters.map(cluster => {
+        const color = clusterColors.get(cluster.clusterId);
+        const members = graphNodes.filter(node => node.clusterData.clusterId === cluster.clusterId);
+
+        if (collapsedClusters.has(cluster.clusterId)) {
+          return (
+            <group
+              key={cluster.clusterId}
+              position={cluster.centroid}
+              ref={(group) => {
+                if (group) clusterRefs.current.set(cluster.clusterId, group);
+                else clusterRefs.current.delete(cluster.clusterId);
+              }}
+              onClick={(e) => {
+                e.stopPropagation();
+                toggleClusterCollapse(cluster.clusterId);
+              }}
+            >
+              <mesh>
+                <icosahedronGeometry args={[1.5 + Math.sqrt(members.length) * 0.6, 1]} />
+                <meshBasicMaterial color={color} transparent opacity={0.7} />
+              </mesh>
+              <Text
+                text={`${members.length} nodos`}
+                fontSize={0.6}
+                color="#FFFFFF"
+                anchorX="center"
+                anchorY="middle"
+                position={[0, 2.5 + Math.sqrt(members.length) * 0.6, 0]}
+              >
+                <meshBasicMaterial color="#FFFFFF" toneMapped={false} />
+              </Text>
+            </group>
+          );
+        }
+
+        if (members.length < 2) return null;
+        const radius = Math.max(...members.map(node => node.position.distanceTo(cluster.centroid))) + 1.5;
+        return (
+          <mesh
+            key={cluster.clusterId}
+            position={cluster.centroid}
+            ref={(hull) => {
+              if (hull) clusterRefs.current.set(cluster.clusterId, hull);
+              else clusterRefs.current.delete(cluster.clusterId);
+            }}
+          >
+            <sphereGeometry args={[radius, 16, 16]} />
+            <meshBasicMaterial color={color} transparent opacity={0.06} depthWrite={false} />
+          </mesh>
+        );
+      })}
+
       {/* Central knowledge core */}
       <group position={[0, 0, 0]}>
         <mesh ref={coreRef}>
@@ -787,7 +998,7 @@ const InteractiveKnowledgeGraphScene: React.FC<InteractiveKnowledgeGraphScenePro
       {/* Graph metrics display */}
       <group position={[-15, 10, 0]}>
         <Text
-          text={`DENSIDAD: ${(graphMetrics.density * 100).toFixed(1)}%`}
+          text={`DENSIDAD: ${((graphMetrics?.density ?? 0) * 100).toFixed(1)}%`}
           fontSize={0.6}
           color="#00FFFF"
           anchorX="left"
@@ -798,7 +1009,7 @@ const InteractiveKnowledgeGraphScene: React.FC<InteractiveKnowledgeGraphScenePro
         </Text>
         
         <Text
-          text={`CLUSTERING: ${(graphMetrics.clustering * 100).toFixed(1)}%`}
+          text={`CLUSTERING: ${((graphMetrics?.averageClustering ?? 0) * 100).toFixed(1)}%`}
           fontSize={0.6}
           color="#00FFFF"
           anchorX="left"
@@ -847,9 +1058,9 @@ const InteractiveKnowledgeGraphScene: React.FC<InteractiveKnowledgeGraphScenePro
             </Text>
           )}
           
-          {currentPath.length > 0 && (
+          {pathResults[activeRoute] && (
             <Text
-              text={`DISTANCIA: ${currentPath.length - 1} saltos`}
+              text={`COSTE: ${pathResults[activeRoute].cost.toFixed(2)} (${pathResults[activeRoute].hops} saltos)`}
               fontSize={0.5}
               color="#FFFFFF"
               anchorX="center"
@@ -877,7 +1088,8 @@ const InteractiveKnowledgeGraphScene: React.FC<InteractiveKnowledgeGraphScenePro
       )}
 
       {/* Filter indicator */}
-      {(filterState.nodeTypes.size > 0 || 
+      {(sharedFilter.isActive ||
+        filterState.nodeTypes.size > 0 || 
         filterState.relationshipTypes.size > 0 ||
         filterState.centralityThreshold > 0 ||
         filterState.businessCriticality !== 'all') && (
@@ -893,6 +1105,144 @@ const InteractiveKnowledgeGraphScene: React.FC<InteractiveKnowledgeGraphScenePro
         </Text>
       )}
 
+      {/* Dataset import */}
+      <GraphImportPanel
+        datasetName={graph?.metadata.name}
+        onImport={(dataset) => {
+          setSelectedNodes(new Set());
+          setCollapsedClusters(new Set());
+          resetPathfinding();
+          // Saved merges and edits refer to the previous graph's node ids
+          history.discardHistory();
+          loadDataset(dataset);
+        }}
+      />
+
+      {/* Communities */}
+      {graph && (
+        <ClusterPanel
+          graph={graph}
+          clusterColors={clusterColors}
+          clusterView={clusterView}
+          collapsedClusters={collapsedClusters}
+          onClusterViewChange={setClusterView}
+          onToggleCollapse={toggleClusterCollapse}
+          onDetectCommunities={(resolution) => {
+            setCollapsedClusters(new Set());
+            detectCommunities(resolution);
+          }}
+        />
+      )}
+
+      {/* Shared filter builder */}
+      {sharedFilter.filterState && (
+        <FilterBuilderPanel
+          targets={filterTargets}
+          filterState={sharedFilter.filterState}
+          entityTypes={Array.from(new Set(graphNodes.map(node => node.type))).sort()}
+          relationshipTypes={queryEngine?.getRelationshipLabels() ?? []}
+          onFilterChange={sharedFilter.applyFilter}
+          onClear={sharedFilter.clearFilters}
+        />
+      )}
+
+      {/* Node context menu */}
+      {contextMenuNode && nodeById.get(contextMenuNode) && (
+        <ContextMenu3D
+          key={contextMenuNode}
+          position={nodeById.get(contextMenuNode)!.position}
+          title={nodeById.get(contextMenuNode)!.label}
+          actions={contextMenuActions}
+          onClose={closeContextMenu}
+        />
+      )}
+
+      {/* Node inspector */}
+      {inspectorSubject && inspectorHandlers && (
+        <NodeInspectorPanel
+          subject={inspectorSubject}
+          {...inspectorHandlers}
+          onClose={() => setInspectedNode(null)}
+        />
+      )}
+
+      {/* Entity merge / split confirmation */}
+      {graph && entityEdit && (
+        <EntityMergeDialog
+          graph={graph}
+          request={entityEdit}
+          onConfirm={confirmEntityEdit}
+          onCancel={() => setEntityEdit(null)}
+          onSwap={() => setEntityEdit(prev => prev?.mode === 'merge'
+            ? { mode: 'merge', survivorId: prev.absorbedId, absorbedId: prev.survivorId }
+            : prev)}
+        />
+      )}
+
+      {/* Graph edit history */}
+      <GraphHistoryPanel
+        canUndo={history.canUndo}
+        canRedo={history.canRedo}
+        undoDescription={history.undoDescription}
+        redoDescription={history.redoDescription}
+        onUndo={history.undo}
+        onRedo={history.redo}
+        tree={history.tree}
+        currentNodeId={history.currentNodeId}
+        onJump={history.jumpTo}
+      />
+
+      {/* Layout engine */}
+      <LayoutPanel
+        layoutId={layout.layoutId}
+        isRunning={layout.isRunning}
+        progress={layout.progress}
+        pinnedCount={layout.pinnedCount}
+        onLayoutChange={layout.setLayoutId}
+        onRestart={layout.restart}
+        onUnpinAll={layout.unpinAll}
+      />
+
+      {/* Graph analytics */}
+      <GraphMetricsPanel
+        metrics={graphMetrics}
+        isComputing={metricsComputing}
+        nodeLabels={nodeLabels}
+        sizeMetric={sizeMetric}
+        colorMetric={colorMetric}
+        onSizeMetricChange={setSizeMetric}
+        onColorMetricChange={setColorMetric}
+      />
+
+      {/* Path query options and results */}
+      {queryEngine && (
+        <PathQueryPanel
+          options={pathQueryOptions}
+          relationshipLabels={queryEngine.getRelationshipLabels()}
+          results={pathResults}
+          activeRoute={activeRoute}
+          routeColors={ROUTE_COLORS}
+          pathfindingMode={pathfindingMode}
+          startLabel={graphNodes.find(n => n.id === pathfindingNodes.start)?.label}
+          endLabel={graphNodes.find(n => n.id === pathfindingNodes.end)?.label}
+          onOptionsChange={(options) => {
+            setPathQueryOptions(options);
+            setActiveRoute(0);
+          }}
+          onActiveRouteChange={setActiveRoute}
+          onTogglePathfinding={() => pathfindingMode ? resetPathfinding() : setPathfindingMode(true)}
+        />
+      )}
+
+      {/* Subgraph export */}
+      {graph && exportPanelOpen && selectedNodes.size > 0 && (
+        <SubgraphExportPanel
+          graph={graph}
+          selectedNodes={selectedNodes}
+          onClose={() => setExportPanelOpen(false)}
+        />
+      )}
+
       {/* Cluster view indicator */}
       {clusterView && (
         <Text
@@ -7,8 +7,20 @@ import * as THREE from 'three';
 import { gsap } from 'gsap';
 import { useInteractionManager } from '@/hooks/useInteractionManager';
 import { useSceneInteraction } from '@/contexts/InteractionContext';
+import { useLongPress } from '@/hooks/useLongPress';
+import { useUndoRedoSystem } from '@/hooks/useUndoRedoSystem';
+import { buildContextMenu } from '@/lib/contextMenu';
+import { downloadTextFile } from '@/lib/graphExporters';
+import { EditableMetadata, MetadataCommandFactory, MetadataStore } from '@/lib/metadataCommands';
+import { CommandRegistry } from '@/lib/commandRegistry';
+import { InspectorConnection, toInspectorSubject } from '@/lib/objectInspector';
+import ContextMenu3D from './ContextMenu3D';
+import NodeInspectorPanel from './NodeInspectorPanel';
+import GraphHistoryPanel from './GraphHistoryPanel';
 import {
+  InteractableObject,
   Interactive3DObject,
+  InteractionCapability,
   InteractionCapabilities,
   InteractionEventHandlers,
   SceneInteractionConfig
@@ -64,6 +76,49 @@ interface ResponseComponent {
   assembled: boolean;
 }
 
+// Capabilities offered in the evidence context menu
+const EVIDENCE_CAPABILITIES: InteractionCapability[] = ['selectable', 'inspectable', 'traceable', 'validatable'];
+
+const EMPTY_METADATA: EditableMetadata = { tags: [], attributes: {} };
+
+// Validation is stored as an inspector attribute, so it is undoable, persisted and visible there too
+const VALIDATED_ATTRIBUTE = 'validated';
+const VALIDATION_RELIABILITY_BOOST = 0.1;
+
+const reliabilityOf = (evidence: EvidenceNode, metadata: EditableMetadata | undefined): number =>
+  metadata?.attributes[VALIDATED_ATTRIBUTE] === true
+    ? Math.min(1, evidence.metadata.reliability + VALIDATION_RELIABILITY_BOOST)
+    : evidence.metadata.reliability;
+
+// Evidence described the way the inspector reads any interactable
+const toEvidenceInteractionData = (
+  evidence: EvidenceNode,
+  reliability: number = evidence.metadata.reliability
+): InteractableObject['interactionData'] => ({
+  id: evidence.id,
+  type: 'evidence',
+  metadata: {
+    label: evidence.content,
+    nodeType: evidence.type,
+    confidence: reliability,
+    dataSource: evidence.metadata.sourceDocument,
+    relevance: evidence.relevanceScore,
+    context: evidence.metadata.context,
+    extractedText: evidence.metadata.extractedText,
+    citations: evidence.metadata.citations.join(', '),
+    timestamp: evidence.metadata.timestamp.toISOString().slice(0, 10)
+  },
+  state: 'idle',
+  capabilities: EVIDENCE_CAPABILITIES,
+  accessibility: {
+    label: `${evidence.type}: ${evidence.content}`,
+    description: `Evidence from ${evidence.metadata.sourceDocument}`,
+    role: 'button',
+    keyboardShortcuts: [],
+    announcements: []
+  }
+});
+
 const InteractiveQueryResponseScene: React.FC<InteractiveQueryResponseSceneProps> = ({ 
   scrollProgress 
 }) => {
@@ -78,6 +133,13 @@ const InteractiveQueryResponseScene: React.FC<InteractiveQueryResponseSceneProps
   const [selectedEvidence, setSelectedEvidence] = useState<string[]>([]);
   const [queryHistory, setQueryHistory] = useState<QueryOrb[]>([]);
   const [responseQuality, setResponseQuality] = useState<'detailed' | 'summary' | 'brief'>('detailed');
+  const [inspectedEvidence, setInspectedEvidence] = useState<string | null>(null);
+  const [contextMenuEvidence, setContextMenuEvidence] = useState<string | null>(null);
+  const history = useUndoRedoSystem({ persistToDisk: true, persistenceKey: 'query-response-history' });
+
+  // Tags and attributes added in the inspector; the ref lets commands read the latest edits
+  const evidenceMetadataRef = useRef<Record<string, EditableMetadata>>({});
+  const [evidenceMetadata, setEvidenceMetadata] = useState(evidenceMetadataRef.current);
 
   // Interaction capabilities
   const elementCapabilities: InteractionCapabilities = {
@@ -438,6 +500,16 @@ const InteractiveQueryResponseScene: React.FC<InteractiveQueryResponseSceneProps
     });
   });
 
+  const evidenceMetadataStore = useMemo<MetadataStore>(() => ({
+    getMetadata: (evidenceId) => evidenceNodes.some(e => e.id === evidenceId)
+      ? evidenceMetadataRef.current[evidenceId] ?? EMPTY_METADATA
+      : null,
+    setMetadata: (evidenceId, metadata) => {
+      evidenceMetadataRef.current = { ...evidenceMetadataRef.current, [evidenceId]: metadata };
+      setEvidenceMetadata(evidenceMetadataRef.current);
+    }
+  }), [evidenceNodes]);
+
   // Interaction utility functions
   const rerunQuery = useCallback((queryId: string) => {
     const query = sampleQueries.find(q => q.id === queryId);
@@ -483,24 +555,26 @@ const InteractiveQueryResponseScene: React.FC<InteractiveQueryResponseSceneProps
         evidence: selectedEvidence.map(id => evidenceNodes.find(e => e.id === id)),
         metadata: query.metadata
       };
-      console.log('Exporting results:', results);
+      downloadTextFile(JSON.stringify(results, null, 2), `${query.id}-results.json`, 'application/json');
     }
   }, [sampleQueries, answerComponents, selectedEvidence, evidenceNodes]);
 
   const viewEvidenceSource = useCallback((evidenceId: string) => {
     const evidence = evidenceNodes.find(e => e.id === evidenceId);
     if (evidence) {
-      console.log('Viewing source for:', evidence.metadata.sourceDocument);
+      setInspectedEvidence(evidenceId);
     }
   }, [evidenceNodes]);
 
+  const { execute: executeCommand } = history;
   const validateEvidence = useCallback((evidenceId: string) => {
     const evidence = evidenceNodes.find(e => e.id === evidenceId);
     if (evidence) {
-      evidence.metadata.reliability = Math.min(1, evidence.metadata.reliability + 0.1);
-      console.log('Validated evidence:', evidenceId);
+      executeCommand(MetadataCommandFactory.createSetAttributeCommand(
+        evidenceMetadataStore, evidenceId, VALIDATED_ATTRIBUTE, true, evidence.content
+      ));
     }
-  }, [evidenceNodes]);
+  }, [evidenceNodes, evidenceMetadataStore, executeCommand]);
 
   const findRelatedEvidence = useCallback((evidenceId: string) => {
     const evidence = evidenceNodes.find(e => e.id === evidenceId);
@@ -517,10 +591,76 @@ const InteractiveQueryResponseScene: React.FC<InteractiveQueryResponseSceneProps
   const citeEvidence = useCallback((evidenceId: string) => {
     const evidence = evidenceNodes.find(e => e.id === evidenceId);
     if (evidence) {
-      console.log('Adding citation for:', evidence.metadata.citations);
+      const citation = `${evidence.metadata.sourceDocument} (${evidence.metadata.citations.join(', ')})`;
+      navigator.clipboard?.writeText(citation).catch(error => {
+        console.warn('Could not copy citation:', error);
+      });
     }
   }, [evidenceNodes]);
 
+  const closeContextMenu = useCallback(() => setContextMenuEvidence(null), []);
+  const longPress = useLongPress(setContextMenuEvidence);
+
+  // Evidence actions apply to the active query, or the first sample when none is picked
+  const contextMenuActions = useMemo(() => {
+    const evidenceId = contextMenuEvidence;
+    if (!evidenceId) return [];
+    const queryId = selectedQuery ?? sampleQueries[0].id;
+
+    return buildContextMenu(EVIDENCE_CAPABILITIES, {
+      inspect: () => viewEvidenceSource(evidenceId),
+      trace: () => {
+        setSelectedEvidence(prev => (prev.includes(evidenceId) ? prev : [...prev, evidenceId]));
+        traceEvidence(queryId);
+      },
+      findRelated: () => findRelatedEvidence(evidenceId),
+      validate: () => validateEvidence(evidenceId),
+      cite: () => citeEvidence(evidenceId),
+      export: () => exportResults(queryId)
+    });
+  }, [contextMenuEvidence, selectedQuery, sampleQueries, viewEvidenceSource, traceEvidence, findRelatedEvidence, validateEvidence, citeEvidence, exportResults]);
+
+  // Inspector edits survive reloads
+  const { enablePersistence } = history;
+  useEffect(() => {
+    const registry = new CommandRegistry();
+    MetadataCommandFactory.registerSerializers(registry, evidenceMetadataStore);
+    enablePersistence(registry);
+  }, [evidenceMetadataStore, enablePersistence]);
+
+  const inspectorSubject = useMemo(() => {
+    const evidence = evidenceNodes.find(e => e.id === inspectedEvidence);
+    if (!evidence) return null;
+
+    const evidenceConnections: InspectorConnection[] = [
+      ...answerComponents
+        .filter(component => component.evidence.includes(evidence.id))
+        .map(component => ({
+          id: component.id,
+          label: component.text,
+          relationship: 'SUPPORTS',
+          direction: 'out' as const,
+          confidence: component.confidence
+        })),
+      ...evidenceNodes
+        .filter(e => e.id !== evidence.id && e.metadata.sourceDocument === evidence.metadata.sourceDocument)
+        .map(e => ({
+          id: e.id,
+          label: `${e.type}: ${e.content}`,
+          relationship: 'SAME_SOURCE',
+          direction: 'out' as const,
+          confidence: reliabilityOf(e, evidenceMetadata[e.id])
+        }))
+    ];
+    return toInspectorSubject(
+      toEvidenceInteractionData(evidence, reliabilityOf(evidence, evidenceMetadata[evidence.id])),
+      evidenceConnections,
+      evidenceMetadata[evidence.id] ?? EMPTY_METADATA
+    );
+  }, [inspectedEvidence, evidenceNodes, answerComponents, evidenceMetadata]);
+
+  const detailsEvidence = evidenceNodes.find(e => e.id === hoveredElement);
+
   // Visibility check
   const sectionStart = 0.80;
   const sectionEnd = 1.0;
@@ -576,12 +716,28 @@ const InteractiveQueryResponseScene: React.FC<InteractiveQueryResponseSceneProps
            (evidenceFilter === 'low' && node.relevanceScore < 0.4));
         
         if (isFiltered) return null;
+        const reliability = reliabilityOf(node, evidenceMetadata[node.id]);
 
         return (
           <group 
             key={`evidence-${index}`}
             position={node.position}
             userData={{ isEvidence: true, evidenceId: node.id }}
+            onPointerOver={(e) => {
+              e.stopPropagation();
+              setHoveredElement(node.id);
+            }}
+            onPointerOut={() => setHoveredElement(prev => (prev === node.id ? null : prev))}
+            onPointerDown={(e) => {
+              if (e.button === 0) longPress.start(node.id, e.nativeEvent);
+            }}
+            onPointerMove={(e) => longPress.move(e.nativeEvent)}
+            onPointerUp={() => longPress.cancel()}
+            onContextMenu={(e) => {
+              e.stopPropagation();
+              e.nativeEvent.preventDefault();
+              setContextMenuEvidence(node.id);
+            }}
           >
             {/* Selection indicator */}
             {selectedEvidence.includes(node.id) && (
@@ -630,11 +786,11 @@ const InteractiveQueryResponseScene: React.FC<InteractiveQueryResponseSceneProps
             </mesh>
             
             {/* Reliability indicator */}
-            <mesh position={[-1.5, 1.5, 0]} scale={[node.metadata.reliability, node.metadata.reliability, 1]}>
+            <mesh position={[-1.5, 1.5, 0]} scale={[reliability, reliability, 1]}>
               <boxGeometry args={[0.3, 0.3, 0.1]} />
               <meshBasicMaterial 
-                color={node.metadata.reliability > 0.9 ? '#00FF00' : 
-                      node.metadata.reliability > 0.7 ? '#FFFF00' : '#FF6600'}
+                color={reliability > 0.9 ? '#00FF00' : 
+                      reliability > 0.7 ? '#FFFF00' : '#FF6600'}
                 transparent
                 opacity={0.8}
               />
@@ -832,17 +988,65 @@ const InteractiveQueryResponseScene: React.FC<InteractiveQueryResponseSceneProps
         </div>
       </Html>
 
+      {/* Evidence context menu */}
+      {contextMenuEvidence && evidenceNodes.find(e => e.id === contextMenuEvidence) && (
+        <ContextMenu3D
+          key={contextMenuEvidence}
+          position={evidenceNodes.find(e => e.id === contextMenuEvidence)!.position}
+          title={evidenceNodes.find(e => e.id === contextMenuEvidence)!.metadata.sourceDocument}
+          actions={contextMenuActions}
+          onClose={closeContextMenu}
+        />
+      )}
+
+      {/* Undo for evidence edits */}
+      <GraphHistoryPanel
+        canUndo={history.canUndo}
+        canRedo={history.canRedo}
+        undoDescription={history.undoDescription}
+        redoDescription={history.redoDescription}
+        position={[-30, -8, 0]}
+        onUndo={history.undo}
+        onRedo={history.redo}
+        tree={history.tree}
+        currentNodeId={history.currentNodeId}
+        onJump={history.jumpTo}
+      />
+
+      {/* Evidence inspector */}
+      {inspectorSubject && (
+        <NodeInspectorPanel
+          subject={inspectorSubject}
+          onAddTag={(tag) => history.execute(
+            MetadataCommandFactory.createAddTagCommand(evidenceMetadataStore, inspectorSubject.id, tag, inspectorSubject.label)
+          )}
+          onRemoveTag={(tag) => history.execute(
+            MetadataCommandFactory.createRemoveTagCommand(evidenceMetadataStore, inspectorSubject.id, tag, inspectorSubject.label)
+          )}
+          onSetAttribute={(key, value) => history.execute(
+            MetadataCommandFactory.createSetAttributeCommand(evidenceMetadataStore, inspectorSubject.id, key, value, inspectorSubject.label)
+          )}
+          onSelectConnection={(id) => {
+            if (evidenceNodes.some(e => e.id === id)) setInspectedEvidence(id);
+          }}
+          onClose={() => setInspectedEvidence(null)}
+        />
+      )}
+
       {/* Evidence Details */}
-      {hoveredElement && evidenceNodes.find(e => e.id === hoveredElement) && (
+      {detailsEvidence && (
         <Html position={[30, 10, 0]} className="pointer-events-none">
           <div className="bg-black bg-opacity-90 p-3 rounded text-white text-sm max-w-sm">
             {(() => {
-              const evidence = evidenceNodes.find(e => e.id === hoveredElement);
+              const evidence = detailsEvidence;
               return evidence ? (
                 <>
                   <div className="font-bold mb-1">{evidence.type}: {evidence.content}</div>
                   <div>Relevance: {(evidence.relevanceScore * 100).toFixed(1)}%</div>
-                  <div>Reliability: {(evidence.metadata.reliability * 100).toFixed(1)}%</div>
+                  <div>
+                    Reliability: {(reliabilityOf(evidence, evidenceMetadata[evidence.id]) * 100).toFixed(1)}%
+                    {evidenceMetadata[evidence.id]?.attributes[VALIDATED_ATTRIBUTE] === true && ' ✓'}
+                  </div>
                   <div>Source: {evidence.metadata.sourceDocument}</div>
                   <div className="mt-2 text-xs text-gray-300">
                     {evidence.metadata.extractedText.substring(0, 100)}...
@@ -2,9 +2,16 @@
 
 import { useRef, useMemo, useState, useEffect } from 'react';
 import { useFrame } from '@react-three/fiber';
-import { Text } from '@react-three/drei';
+import { Text, Html } from '@react-three/drei';
 import * as THREE from 'three';
 import { gsap } from 'gsap';
+import { useIngestedDocuments } from '@/hooks/useIngestedDocuments';
+import { useDocumentChunks } from '@/hooks/useDocumentChunks';
+import { useChunkEmbeddings } from '@/hooks/useChunkEmbeddings';
+import { DOCUMENT_FORMATS } from '@/lib/documentParsers';
+import { CHUNKING_STRATEGIES } from '@/lib/textChunker';
+import { VectorSearchResult } from '@/lib/vectorIndex';
+import { ChunkingStrategy, DocumentChunk, IngestedDocument } from '@/types/documents';
 
 interface InteractiveVectorizationSceneProps {
   scrollProgress: number;
@@ -40,6 +47,53 @@ const documentTypes = [
   }
 ] as const;
 
+const DOCUMENTS_PER_RING = 8;
+const MAX_VISIBLE_CHUNKS = 24;
+const MAX_CHUNK_PREVIEW_LENGTH = 90;
+const CHUNK_SIZES = [16, 32, 64, 128, 256];
+const CHUNK_OVERLAPS = [0, 8, 16, 32];
+const SEARCH_RESULT_COUNT = 3;
+// Where the semantic map of chunks sits relative to the cube, and how far it spreads
+const CHUNK_CLOUD_CENTER = new THREE.Vector3(0, 6, 32);
+const CHUNK_CLOUD_SPREAD = new THREE.Vector3(26, 12, 8);
+// Neighbouring chunks alternate colours so their boundaries stand out
+const CHUNK_COLORS = ['#00FFFF', '#FF00FF', '#FFFF00', '#00FF88'];
+const MAX_RING_LABEL_LENGTH = 10;
+
+// One orbit ring per document kind
+interface DocumentRing {
+  key: string;
+  color: string;
+  labels: string[];
+}
+
+const DEFAULT_RINGS: DocumentRing[] = documentTypes.map(docType => ({
+  key: docType.type,
+  color: docType.color,
+  labels: Array.from({ length: DOCUMENTS_PER_RING }, () => docType.label)
+}));
+
+// Ingested documents orbit grouped by format, labelled with their file names
+const buildDocumentRings = (documents: IngestedDocument[]): DocumentRing[] => {
+  const rings = new Map<string, DocumentRing>();
+  documents.forEach(document => {
+    const ring = rings.get(document.format) ?? {
+      key: document.format,
+      color: DOCUMENT_FORMATS[document.format].color,
+      labels: []
+    };
+    if (ring.labels.length < DOCUMENTS_PER_RING) {
+      ring.labels.push(
+        document.name.length > MAX_RING_LABEL_LENGTH
+          ? `${document.name.slice(0, MAX_RING_LABEL_LENGTH - 1)}…`
+          : document.name
+      );
+    }
+    rings.set(document.format, ring);
+  });
+  return Array.from(rings.values());
+};
+
 const InteractiveVectorizationScene: React.FC<InteractiveVectorizationSceneProps> = ({ 
   scrollProgress,
   sceneTriggered = false
@@ -47,6 +101,27 @@ const InteractiveVectorizationScene: React.FC<InteractiveVectorizationSceneProps
   const groupRef = useRef<THREE.Group>(null);
   const databaseRef = useRef<THREE.Mesh>(null);
   const [sceneVisible, setSceneVisible] = useState(false);
+  const { documents } = useIngestedDocuments();
+  const documentRings = useMemo(
+    () => (documents.length > 0 ? buildDocumentRings(documents) : DEFAULT_RINGS),
+    [documents]
+  );
+  const { chunks, options: chunkingOptions, setOptions: setChunkingOptions, isSample } = useDocumentChunks();
+  const averageTokens = chunks.length > 0
+    ? Math.round(chunks.reduce((total, chunk) => total + chunk.tokenCount, 0) / chunks.length)
+    : 0;
+  const { positions: chunkPositions, isEmbedding, search: searchChunks } = useChunkEmbeddings(chunks);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<VectorSearchResult<DocumentChunk>[]>([]);
+
+  // Results point at the previous chunks once the strategy changes
+  useEffect(() => {
+    setSearchResults([]);
+  }, [chunks]);
+
+  const runSearch = async () => {
+    setSearchResults(await searchChunks(searchQuery, SEARCH_RESULT_COUNT));
+  };
 
   // Activar la escena 3D cuando el título haya pasado la línea media
   useEffect(() => {
@@ -215,9 +290,110 @@ const InteractiveVectorizationScene: React.FC<InteractiveVectorizationSceneProps
         </Text>
 
         {/* Documentos orbitando alrededor del cubo central */}
-        <OrbitingDocuments documentTypes={documentTypes} />
+        <OrbitingDocuments rings={documentRings} />
+
+        {/* Fragmentos reales viajando hacia el cubo */}
+        <ChunkStream
+          chunks={chunks}
+          chunkSize={chunkingOptions.chunkSize}
+          positions={chunkPositions}
+          highlightedIds={searchResults.map(result => result.id)}
+        />
       </group>
 
+      {/* Selector de estrategia de fragmentación */}
+      <Html position={[-60, 10, -45]} className="pointer-events-auto">
+        <div className="bg-black bg-opacity-80 p-4 rounded text-white text-sm space-y-3 w-64">
+          <div className="font-bold text-base">Fragmentación</div>
+
+          <div>
+            <div className="mb-2">Estrategia:</div>
+            <div className="grid grid-cols-2 gap-1">
+              {(Object.keys(CHUNKING_STRATEGIES) as ChunkingStrategy[]).map(strategy => (
+                <button
+                  key={strategy}
+                  onClick={() => setChunkingOptions({ strategy })}
+                  className={`px-2 py-1 rounded text-xs ${
+                    chunkingOptions.strategy === strategy ? 'bg-cyan-600' : 'bg-gray-700 hover:bg-gray-600'
+                  }`}
+                >
+                  {CHUNKING_STRATEGIES[strategy].label}
+                </button>
+              ))}
+            </div>
+            <div className="mt-1 text-xs text-gray-400">{CHUNKING_STRATEGIES[chunkingOptions.strategy].description}</div>
+          </div>
+
+          <div>
+            <div className="mb-2">Tamaño (tokens):</div>
+            <div className="flex gap-1">
+              {CHUNK_SIZES.map(chunkSize => (
+                <button
+                  key={chunkSize}
+                  onClick={() => setChunkingOptions({ chunkSize })}
+                  className={`flex-1 px-1 py-1 rounded text-xs ${
+                    chunkingOptions.chunkSize === chunkSize ? 'bg-cyan-600' : 'bg-gray-700 hover:bg-gray-600'
+                  }`}
+                >
+                  {chunkSize}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="mb-2">Solapamiento:</div>
+            <div className="flex gap-1">
+              {CHUNK_OVERLAPS.map(overlap => (
+                <button
+                  key={overlap}
+                  onClick={() => setChunkingOptions({ overlap })}
+                  disabled={overlap >= chunkingOptions.chunkSize}
+                  className={`flex-1 px-1 py-1 rounded text-xs disabled:opacity-40 ${
+                    chunkingOptions.overlap === overlap ? 'bg-cyan-600' : 'bg-gray-700 hover:bg-gray-600'
+                  }`}
+                >
+                  {overlap}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="text-xs text-gray-300">
+            {chunks.length} fragmentos · media {averageTokens} tokens
+            <div className="text-gray-400">
+              {isSample ? 'Documento de ejemplo' : `${documents.length} documento${documents.length === 1 ? '' : 's'} tuyos`}
+              {isEmbedding && ' · vectorizando…'}
+            </div>
+          </div>
+
+          {/* Búsqueda semántica sobre el índice local */}
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              runSearch();
+            }}
+            className="flex gap-1"
+          >
+            <input
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Buscar por significado"
+              className="flex-1 min-w-0 px-2 py-1 rounded text-xs bg-gray-800 border border-gray-600"
+            />
+            <button type="submit" disabled={isEmbedding} className="px-2 py-1 rounded text-xs bg-cyan-600 disabled:opacity-40">
+              Buscar
+            </button>
+          </form>
+          {searchResults.map(result => (
+            <div key={result.id} className="text-xs">
+              <span className="text-cyan-300">{result.score.toFixed(2)}</span>{' '}
+              <span className="text-gray-300">{result.item.text.slice(0, 80)}</span>
+            </div>
+          ))}
+        </div>
+      </Html>
+
       {/* Scene title - optimizado para móviles */}
       <Text
         text="FRAGMENTACIÓN Y VECTORIZACIÓN"
@@ -238,10 +414,10 @@ const InteractiveVectorizationScene: React.FC<InteractiveVectorizationSceneProps
 
 // Componente separado para los documentos orbitando
 interface OrbitingDocumentsProps {
-  documentTypes: typeof documentTypes;
+  rings: DocumentRing[];
 }
 
-const OrbitingDocuments: React.FC<OrbitingDocumentsProps> = ({ documentTypes }) => {
+const OrbitingDocuments: React.FC<OrbitingDocumentsProps> = ({ rings }) => {
   const groupRef = useRef<THREE.Group>(null);
   
   useFrame((state) => {
@@ -254,7 +430,7 @@ const OrbitingDocuments: React.FC<OrbitingDocumentsProps> = ({ documentTypes })
       if (typeGroup.type === 'Group') {
         typeGroup.children.forEach((docGroup, docIndex) => {
           if (docGroup.type === 'Group') {
-            const baseAngle = (docIndex / 8) * Math.PI * 2 + typeIndex * 0.8;
+            const baseAngle = (docIndex / typeGroup.children.length) * Math.PI * 2 + typeIndex * 0.8;
             const radius = 35 + typeIndex * 6;
             const orbitSpeed = 0.3 + typeIndex * 0.15;
             const currentAngle = baseAngle + time * orbitSpeed;
@@ -271,23 +447,23 @@ const OrbitingDocuments: React.FC<OrbitingDocumentsProps> = ({ documentTypes })
   
   return (
     <group ref={groupRef}>
-      {documentTypes.map((docType, index) => (
-        <group key={docType.type}>
-          {Array.from({ length: 8 }, (_, i) => (
+      {rings.map(ring => (
+        <group key={ring.key}>
+          {ring.labels.map((label, i) => (
             <group key={i}>
               {/* Documento como rectángulo */}
               <mesh>
                 <boxGeometry args={[2, 3, 0.2]} />
                 <meshBasicMaterial
-                  color={docType.color}
+                  color={ring.color}
                   transparent={false}
                 />
               </mesh>
               
               {/* Etiqueta del documento */}
               <Text
-                text={docType.label}
-                fontSize={0.6}
+                text={label}
+                fontSize={label.length > 5 ? 0.35 : 0.6}
                 color="#FFFFFF"
                 anchorX="center"
                 anchorY="middle"
@@ -303,4 +479,102 @@ const OrbitingDocuments: React.FC<OrbitingDocumentsProps> = ({ documentTypes })
   );
 };
 
+// Chunks spiral in from the orbiting documents until they are embedded, then settle where their
+// vectors project, so similar chunks sit together. Card width follows each chunk's token count.
+interface ChunkStreamProps {
+  chunks: DocumentChunk[];
+  chunkSize: number;
+  positions: Map<string, [number, number, number]>;
+  highlightedIds: string[];
+}
+
+const ChunkStream: React.FC<ChunkStreamProps> = ({ chunks, chunkSize, positions, highlightedIds }) => {
+  const groupRef = useRef<THREE.Group>(null);
+
+  // Search results are always shown, even when they fall outside the first chunks
+  const visibleChunks = useMemo(() => {
+    const highlighted = chunks.filter(chunk => highlightedIds.includes(chunk.id));
+    const others = chunks.filter(chunk => !highlightedIds.includes(chunk.id));
+    return [...highlighted, ...others].slice(0, MAX_VISIBLE_CHUNKS).sort((a, b) => a.index - b.index);
+  }, [chunks, highlightedIds]);
+
+  const targets = useMemo(() => visibleChunks.map(chunk => {
+    const point = positions.get(chunk.id);
+    return point
+      ? new THREE.Vector3(...point).multiply(CHUNK_CLOUD_SPREAD).add(CHUNK_CLOUD_CENTER)
+      : null;
+  }), [visibleChunks, positions]);
+
+  useFrame((state) => {
+    if (!groupRef.current) return;
+
+    const time = state.clock.elapsedTime;
+    const count = groupRef.current.children.length;
+
+    groupRef.current.children.forEach((chunkGroup, index) => {
+      const target = targets[index];
+      const highlighted = highlightedIds.includes(visibleChunks[index]?.id);
+
+      if (target) {
+        chunkGroup.position.lerp(target, 0.05);
+        chunkGroup.scale.setScalar(highlighted ? 1.4 : 1);
+      } else {
+        const travel = (time * 0.05 + index / count) % 1;
+        const angle = (index / count) * Math.PI * 2 + travel * Math.PI;
+        const radius = 32 - travel * 14;
+
+        chunkGroup.position.x = Math.cos(angle) * radius;
+        chunkGroup.position.z = Math.sin(angle) * radius;
+        chunkGroup.position.y = 12 - travel * 12 + Math.sin(time + index) * 0.5;
+        chunkGroup.scale.setScalar(1 - travel * 0.6);
+      }
+      chunkGroup.lookAt(chunkGroup.position.x, chunkGroup.position.y, 60);
+    });
+  });
+
+  return (
+    <group ref={groupRef}>
+      {visibleChunks.map(chunk => {
+        const width = 3 + 5 * Math.min(1, chunk.tokenCount / chunkSize);
+        const color = highlightedIds.includes(chunk.id) ? '#FFFFFF' : CHUNK_COLORS[chunk.index % CHUNK_COLORS.length];
+        const preview = chunk.text.length > MAX_CHUNK_PREVIEW_LENGTH
+          ? `${chunk.text.slice(0, MAX_CHUNK_PREVIEW_LENGTH - 1)}…`
+          : chunk.text;
+
+        return (
+          <group key={chunk.id}>
+            <mesh>
+              <planeGeometry args={[width, 3]} />
+              <meshBasicMaterial color={color} transparent opacity={0.25} side={THREE.DoubleSide} />
+            </mesh>
+
+            <Text
+              text={preview}
+              fontSize={0.32}
+              color={color}
+              anchorX="center"
+              anchorY="middle"
+              position={[0, 0.2, 0.05]}
+              maxWidth={width - 0.4}
+            >
+              <meshBasicMaterial color={color} toneMapped={false} />
+            </Text>
+
+            <Text
+              text={`#${chunk.index + 1} · ${chunk.tokenCount} tokens${chunk.heading ? ` · ${chunk.heading}` : ''}`}
+              fontSize={0.28}
+              color="#FFFFFF"
+              anchorX="center"
+              anchorY="middle"
+              position={[0, -1.2, 0.05]}
+            >
+              <meshBasicMaterial color="#FFFFFF" toneMapped={false} />
+            </Text>
+          </group>
+        );
+      })}
+    </group>
+  );
+};
+
 export default InteractiveVectorizationScene;
\ No newline at end of file
@@ -0,0 +1,74 @@
+'use client';
+
+import { Html } from '@react-three/drei';
+import { LAYOUT_LABELS, LayoutId } from '@/lib/graphLayout';
+
+interface LayoutPanelProps {
+  layoutId: LayoutId;
+  isRunning: boolean;
+  progress: number;
+  pinnedCount: number;
+  position?: [number, number, number];
+  onLayoutChange: (layoutId: LayoutId) => void;
+  onRestart: () => void;
+  onUnpinAll: () => void;
+}
+
+export const LayoutPanel: React.FC<LayoutPanelProps> = ({
+  layoutId,
+  isRunning,
+  progress,
+  pinnedCount,
+  position = [-24, -8, 0],
+  onLayoutChange,
+  onRestart,
+  onUnpinAll
+}) => {
+  return (
+    <Html position={position} className="pointer-events-auto">
+      <div className="bg-black bg-opacity-80 p-4 rounded text-white text-sm space-y-3 w-72">
+        <div className="font-bold text-base">Disposición</div>
+
+        <div className="grid grid-cols-2 gap-2">
+          {(Object.keys(LAYOUT_LABELS) as LayoutId[]).map(id => (
+            <button
+              key={id}
+              onClick={() => onLayoutChange(id)}
+              className={`px-2 py-1 rounded text-xs ${
+                layoutId === id ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {LAYOUT_LABELS[id]}
+            </button>
+          ))}
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs text-gray-300">
+            <span>{isRunning ? 'Calculando…' : 'Estable'}</span>
+            <span>{Math.round(progress * 100)}%</span>
+          </div>
+          <div className="h-1 bg-gray-700 rounded">
+            <div className="h-1 bg-blue-500 rounded" style={{ width: `${Math.round(progress * 100)}%` }} />
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <button onClick={onRestart} className="flex-1 px-2 py-1 rounded text-xs bg-gray-700 hover:bg-gray-600">
+            Recalcular
+          </button>
+          <button
+            onClick={onUnpinAll}
+            disabled={pinnedCount === 0}
+            className="flex-1 px-2 py-1 rounded text-xs bg-gray-700 hover:bg-gray-600 disabled:opacity-40"
+          >
+            Soltar fijados ({pinnedCount})
+          </button>
+        </div>
+        <div className="text-xs text-gray-400">Arrastra un nodo para fijarlo en su sitio.</div>
+      </div>
+    </Html>
+  );
+};
+
+export default LayoutPanel;
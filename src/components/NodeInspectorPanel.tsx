@@ -0,0 +1,224 @@
+'use client';
+
+import { useState } from 'react';
+import { Html } from '@react-three/drei';
+import { InspectorSubject, groupConnections } from '@/lib/objectInspector';
+import { formatAttributeValue, parseAttributeValue } from '@/lib/metadataCommands';
+
+interface NodeInspectorPanelProps {
+  subject: InspectorSubject;
+  onAddTag: (tag: string) => void;
+  onRemoveTag: (tag: string) => void;
+  onSetAttribute: (key: string, value: unknown) => void; // undefined removes it
+  onSelectConnection?: (id: string) => void;
+  onClose: () => void;
+}
+
+// Connections listed per relationship before "+N más"
+const MAX_CONNECTIONS_PER_GROUP = 8;
+
+const AttributeRow: React.FC<{
+  name: string;
+  value: unknown;
+  onSave: (value: unknown) => void;
+  onRemove: () => void;
+}> = ({ name, value, onSave, onRemove }) => {
+  const [draft, setDraft] = useState(formatAttributeValue(value));
+
+  const save = () => {
+    const parsed = parseAttributeValue(draft);
+    if (parsed !== value) onSave(parsed);
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <span className="w-24 truncate text-gray-400" title={name}>{name}</span>
+      <input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={save}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') save();
+          if (e.key === 'Escape') setDraft(formatAttributeValue(value));
+        }}
+        aria-label={`Valor de ${name}`}
+        className="flex-1 min-w-0 bg-gray-700 text-white px-2 py-0.5 rounded text-xs"
+      />
+      <button
+        onClick={onRemove}
+        aria-label={`Eliminar ${name}`}
+        className="px-1 text-gray-400 hover:text-red-400"
+      >
+        ×
+      </button>
+    </div>
+  );
+};
+
+// Side panel for the inspected object; edits are reported as callbacks so the scene
+// can run them through its undo history
+export const NodeInspectorPanel: React.FC<NodeInspectorPanelProps> = ({
+  subject,
+  onAddTag,
+  onRemoveTag,
+  onSetAttribute,
+  onSelectConnection,
+  onClose
+}) => {
+  const [newTag, setNewTag] = useState('');
+  const [newAttribute, setNewAttribute] = useState({ key: '', value: '' });
+  const groups = groupConnections(subject.connections);
+
+  const addTag = () => {
+    const tag = newTag.trim();
+    if (tag && !subject.tags.includes(tag)) onAddTag(tag);
+    setNewTag('');
+  };
+
+  const addAttribute = () => {
+    const key = newAttribute.key.trim();
+    if (!key) return;
+    onSetAttribute(key, parseAttributeValue(newAttribute.value));
+    setNewAttribute({ key: '', value: '' });
+  };
+
+  return (
+    <Html fullscreen className="pointer-events-none">
+      <aside
+        aria-label={`Inspector: ${subject.label}`}
+        className="absolute top-4 right-4 pointer-events-auto bg-black bg-opacity-90 p-4 rounded text-white text-sm space-y-3 w-80 max-h-[85vh] overflow-y-auto"
+      >
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <div className="font-bold text-base truncate">{subject.label}</div>
+            <div className="text-xs text-gray-400">{subject.type}</div>
+          </div>
+          <button onClick={onClose} aria-label="Cerrar inspector" className="text-gray-400 hover:text-white">×</button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-1 text-xs">
+          {subject.confidence !== undefined && (
+            <>
+              <span className="text-gray-400">Confianza</span>
+              <span>{(subject.confidence * 100).toFixed(0)}%</span>
+            </>
+          )}
+          {subject.dataSource && (
+            <>
+              <span className="text-gray-400">Fuente</span>
+              <span className="truncate" title={subject.dataSource}>{subject.dataSource}</span>
+            </>
+          )}
+          {subject.details.map(([key, value]) => (
+            <div key={key} className="contents">
+              <span className="text-gray-400 truncate" title={key}>{key}</span>
+              <span className="truncate" title={value}>{value}</span>
+            </div>
+          ))}
+        </div>
+
+        {subject.provenance.length > 0 && (
+          <div>
+            <div className="mb-1">Procedencia</div>
+            <div className="space-y-1 text-xs">
+              {subject.provenance.map(origin => (
+                <div key={origin.id} className="flex justify-between gap-2">
+                  <span className="truncate">{origin.label}</span>
+                  <span className="text-gray-400 whitespace-nowrap">
+                    {origin.dataSource} · {(origin.confidence * 100).toFixed(0)}%
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div>
+          <div className="mb-1">Etiquetas</div>
+          <div className="flex flex-wrap gap-1 mb-1">
+            {subject.tags.length === 0 && <span className="text-xs text-gray-500">Sin etiquetas</span>}
+            {subject.tags.map(tag => (
+              <span key={tag} className="flex items-center gap-1 px-2 py-0.5 rounded bg-gray-700 text-xs">
+                {tag}
+                <button onClick={() => onRemoveTag(tag)} aria-label={`Quitar ${tag}`} className="text-gray-400 hover:text-red-400">
+                  ×
+                </button>
+              </span>
+            ))}
+          </div>
+          <div className="flex gap-1">
+            <input
+              value={newTag}
+              onChange={(e) => setNewTag(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addTag()}
+              placeholder="Nueva etiqueta"
+              className="flex-1 min-w-0 bg-gray-700 text-white px-2 py-1 rounded text-xs"
+            />
+            <button onClick={addTag} className="px-2 py-1 rounded text-xs bg-gray-600 hover:bg-gray-500">Añadir</button>
+          </div>
+        </div>
+
+        <div>
+          <div className="mb-1">Atributos</div>
+          <div className="space-y-1 text-xs mb-1">
+            {Object.entries(subject.attributes).map(([key, value]) => (
+              <AttributeRow
+                key={`${subject.id}-${key}-${formatAttributeValue(value)}`}
+                name={key}
+                value={value}
+                onSave={(next) => onSetAttribute(key, next)}
+                onRemove={() => onSetAttribute(key, undefined)}
+              />
+            ))}
+          </div>
+          <div className="flex gap-1">
+            <input
+              value={newAttribute.key}
+              onChange={(e) => setNewAttribute(prev => ({ ...prev, key: e.target.value }))}
+              placeholder="Atributo"
+              className="w-24 bg-gray-700 text-white px-2 py-1 rounded text-xs"
+            />
+            <input
+              value={newAttribute.value}
+              onChange={(e) => setNewAttribute(prev => ({ ...prev, value: e.target.value }))}
+              onKeyDown={(e) => e.key === 'Enter' && addAttribute()}
+              placeholder="Valor"
+              className="flex-1 min-w-0 bg-gray-700 text-white px-2 py-1 rounded text-xs"
+            />
+            <button onClick={addAttribute} className="px-2 py-1 rounded text-xs bg-gray-600 hover:bg-gray-500">Añadir</button>
+          </div>
+        </div>
+
+        <div>
+          <div className="mb-1">Conexiones ({subject.connections.length})</div>
+          {groups.length === 0 && <div className="text-xs text-gray-500">Sin conexiones</div>}
+          <div className="space-y-2 text-xs">
+            {groups.map(([relationship, connections]) => (
+              <div key={relationship}>
+                <div className="text-gray-400">{relationship} · {connections.length}</div>
+                {connections.slice(0, MAX_CONNECTIONS_PER_GROUP).map(connection => (
+                  <button
+                    key={`${connection.direction}-${connection.id}`}
+                    onClick={() => onSelectConnection?.(connection.id)}
+                    disabled={!onSelectConnection}
+                    className="w-full flex justify-between gap-2 px-1 rounded text-left hover:bg-gray-700 disabled:hover:bg-transparent"
+                  >
+                    <span className="truncate">{connection.direction === 'out' ? '→' : '←'} {connection.label}</span>
+                    {connection.confidence !== undefined && (
+                      <span className="text-gray-400">{(connection.confidence * 100).toFixed(0)}%</span>
+                    )}
+                  </button>
+                ))}
+                {connections.length > MAX_CONNECTIONS_PER_GROUP && (
+                  <div className="text-gray-500">+{connections.length - MAX_CONNECTIONS_PER_GROUP} más</div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      </aside>
+    </Html>
+  );
+};
+
+export default NodeInspectorPanel;
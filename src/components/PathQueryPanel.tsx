@@ -0,0 +1,190 @@
+'use client';
+
+import { Html } from '@react-three/drei';
+import { PathAlgorithm, PathQueryOptions, PathResult, PathWeighting } from '@/lib/graphQuery';
+
+interface PathQueryPanelProps {
+  options: PathQueryOptions;
+  relationshipLabels: string[];
+  results: PathResult[];
+  activeRoute: number;
+  routeColors: string[];
+  pathfindingMode: boolean;
+  startLabel?: string;
+  endLabel?: string;
+  position?: [number, number, number];
+  onOptionsChange: (options: PathQueryOptions) => void;
+  onActiveRouteChange: (index: number) => void;
+  onTogglePathfinding: () => void;
+}
+
+const ALGORITHMS: { id: PathAlgorithm; label: string }[] = [
+  { id: 'dijkstra', label: 'Dijkstra' },
+  { id: 'astar', label: 'A*' },
+  { id: 'semantic', label: 'Semántico' }
+];
+
+const WEIGHTINGS: { id: PathWeighting; label: string }[] = [
+  { id: 'hops', label: 'Saltos' },
+  { id: 'strength', label: 'Fuerza' },
+  { id: 'confidence', label: 'Confianza' },
+  { id: 'distance', label: 'Distancia' }
+];
+
+const MAX_ROUTES = 5;
+
+export const PathQueryPanel: React.FC<PathQueryPanelProps> = ({
+  options,
+  relationshipLabels,
+  results,
+  activeRoute,
+  routeColors,
+  pathfindingMode,
+  startLabel,
+  endLabel,
+  position = [15, 2, 0],
+  onOptionsChange,
+  onActiveRouteChange,
+  onTogglePathfinding
+}) => {
+  const update = (changes: Partial<PathQueryOptions>) => onOptionsChange({ ...options, ...changes });
+
+  // Each relationship chip cycles: any -> only these -> never -> any
+  const cycleRelationship = (label: string) => {
+    const allowed = options.allowedRelationships.filter(item => item !== label);
+    const forbidden = options.forbiddenRelationships.filter(item => item !== label);
+
+    if (options.allowedRelationships.includes(label)) {
+      update({ allowedRelationships: allowed, forbiddenRelationships: [...forbidden, label] });
+    } else if (options.forbiddenRelationships.includes(label)) {
+      update({ allowedRelationships: allowed, forbiddenRelationships: forbidden });
+    } else {
+      update({ allowedRelationships: [...allowed, label], forbiddenRelationships: forbidden });
+    }
+  };
+
+  const chipClass = (label: string): string => {
+    if (options.allowedRelationships.includes(label)) return 'bg-green-700 text-white';
+    if (options.forbiddenRelationships.includes(label)) return 'bg-red-700 text-white line-through';
+    return 'bg-gray-700 text-gray-300 hover:bg-gray-600';
+  };
+
+  return (
+    <Html position={position} className="pointer-events-auto">
+      <div className="bg-black bg-opacity-80 p-4 rounded text-white text-sm space-y-3 w-72">
+        <div className="flex justify-between items-center">
+          <div className="font-bold text-base">Rutas</div>
+          <button
+            onClick={onTogglePathfinding}
+            className={`px-2 py-1 rounded text-xs ${
+              pathfindingMode ? 'bg-yellow-600 hover:bg-yellow-500' : 'bg-blue-600 hover:bg-blue-500'
+            }`}
+          >
+            {pathfindingMode ? 'Cancelar' : 'Buscar ruta'}
+          </button>
+        </div>
+
+        {pathfindingMode && (
+          <div className="text-xs text-gray-300">
+            {!startLabel && 'Haz clic en el nodo de inicio'}
+            {startLabel && !endLabel && `Inicio: ${startLabel}. Haz clic en el destino`}
+            {startLabel && endLabel && `${startLabel} → ${endLabel}`}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          {ALGORITHMS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => update({ algorithm: option.id })}
+              className={`flex-1 px-2 py-1 rounded text-xs ${
+                options.algorithm === option.id ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <label className="flex items-center justify-between text-xs">
+          <span>Peso</span>
+          <select
+            value={options.weighting}
+            onChange={(e) => update({ weighting: e.target.value as PathWeighting })}
+            className="bg-gray-800 rounded px-2 py-1"
+          >
+            {WEIGHTINGS.map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center justify-between text-xs">
+          <span>Rutas alternativas (k)</span>
+          <input
+            type="number"
+            min={1}
+            max={MAX_ROUTES}
+            value={options.k}
+            onChange={(e) => update({ k: Math.max(1, Math.min(MAX_ROUTES, Number(e.target.value) || 1)) })}
+            className="w-14 bg-gray-800 rounded px-2 py-1 text-right"
+          />
+        </label>
+
+        <label className="flex items-center gap-2 text-xs">
+          <input
+            type="checkbox"
+            checked={options.directed}
+            onChange={(e) => update({ directed: e.target.checked })}
+          />
+          <span>Respetar dirección de las relaciones</span>
+        </label>
+
+        {relationshipLabels.length > 0 && (
+          <div className="space-y-1">
+            <div className="text-xs text-gray-400">Relaciones (verde: solo estas, rojo: excluidas)</div>
+            <div className="flex flex-wrap gap-1">
+              {relationshipLabels.map(label => (
+                <button
+                  key={label}
+                  onClick={() => cycleRelationship(label)}
+                  className={`px-2 py-0.5 rounded text-xs ${chipClass(label)}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {startLabel && endLabel && (
+          <div className="bg-gray-800 p-2 rounded text-xs space-y-1">
+            {results.length === 0 && (
+              <div className="text-red-300">Sin ruta con estas restricciones</div>
+            )}
+            {results.map((result, index) => (
+              <button
+                key={result.edges.join('>')}
+                onClick={() => onActiveRouteChange(index)}
+                className={`w-full flex justify-between items-center px-2 py-1 rounded ${
+                  index === activeRoute ? 'bg-gray-600' : 'hover:bg-gray-700'
+                }`}
+              >
+                <span className="flex items-center gap-2">
+                  <span
+                    className="inline-block w-3 h-3 rounded-full"
+                    style={{ backgroundColor: routeColors[index % routeColors.length] }}
+                  />
+                  Ruta {index + 1} · {result.hops} saltos
+                </span>
+                <span>coste {result.cost.toFixed(2)}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </Html>
+  );
+};
+
+export default PathQueryPanel;
@@ -0,0 +1,151 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { useSavedViews } from '@/hooks/useSavedViews';
+import { downloadTextFile } from '@/lib/graphExporters';
+
+interface SavedViewsPanelProps {
+  scrollToProgress?: (progress: number) => void;
+}
+
+// Named shots presenters can return to; lives outside the canvas so it works in every section
+export const SavedViewsPanel: React.FC<SavedViewsPanelProps> = ({ scrollToProgress }) => {
+  const { views, activeView, saveView, restoreView, removeView, renameView, importViews, exportViews } =
+    useSavedViews({ scrollToProgress });
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSave = () => {
+    saveView(name.trim() || `Vista ${views.length + 1}`);
+    setName('');
+  };
+
+  const commitRename = () => {
+    if (editing?.name.trim()) renameView(editing.id, editing.name.trim());
+    setEditing(null);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = importViews(await file.text());
+      setError(imported.length ? null : 'El archivo no contiene vistas');
+    } catch (importError) {
+      setError(importError instanceof Error ? importError.message : String(importError));
+    }
+  };
+
+  return (
+    <div className="fixed top-4 left-2 sm:left-8 z-30 text-sm text-white">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        aria-expanded={isOpen}
+        className="bg-black/50 backdrop-blur-sm px-3 py-1 rounded-lg border border-white/20 hover:bg-black/70"
+      >
+        🔖 Vistas guardadas{views.length > 0 && ` (${views.length})`}
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 bg-black/80 backdrop-blur-sm p-4 rounded-lg border border-white/20 space-y-3 w-72">
+          <div className="flex gap-1">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+              placeholder="Nombre de la vista"
+              className="flex-1 min-w-0 bg-gray-700 text-white px-2 py-1 rounded text-xs"
+            />
+            <button onClick={handleSave} className="px-2 py-1 rounded text-xs bg-blue-600 hover:bg-blue-500">
+              Guardar
+            </button>
+          </div>
+
+          {views.length === 0 ? (
+            <div className="text-xs text-gray-400">Aún no hay vistas guardadas</div>
+          ) : (
+            <ul className="space-y-1 max-h-64 overflow-y-auto">
+              {views.map(view => (
+                <li
+                  key={view.id}
+                  className={`flex items-center gap-1 px-2 py-1 rounded ${
+                    activeView?.id === view.id ? 'bg-blue-900/60' : 'bg-gray-800/60'
+                  }`}
+                >
+                  {editing?.id === view.id ? (
+                    <input
+                      autoFocus
+                      value={editing.name}
+                      onChange={(e) => setEditing({ id: view.id, name: e.target.value })}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setEditing(null);
+                      }}
+                      className="flex-1 min-w-0 bg-gray-700 text-white px-1 rounded text-xs"
+                    />
+                  ) : (
+                    <button
+                      onClick={() => restoreView(view)}
+                      onDoubleClick={() => setEditing({ id: view.id, name: view.name })}
+                      title={`${view.selection.length} seleccionados · ${Math.round(view.scrollProgress * 100)}%`}
+                      className="flex-1 min-w-0 text-left text-xs truncate hover:text-blue-300"
+                    >
+                      {view.name}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setEditing({ id: view.id, name: view.name })}
+                    aria-label={`Renombrar ${view.name}`}
+                    className="px-1 text-gray-400 hover:text-white text-xs"
+                  >
+                    ✎
+                  </button>
+                  <button
+                    onClick={() => removeView(view.id)}
+                    aria-label={`Eliminar ${view.name}`}
+                    className="px-1 text-gray-400 hover:text-red-400"
+                  >
+                    ×
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex gap-1">
+            <button
+              onClick={() => downloadTextFile(exportViews(), 'vistas-guardadas.json', 'application/json')}
+              disabled={views.length === 0}
+              className="flex-1 px-2 py-1 rounded text-xs bg-gray-700 hover:bg-gray-600 disabled:opacity-40"
+            >
+              Exportar
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex-1 px-2 py-1 rounded text-xs bg-gray-700 hover:bg-gray-600"
+            >
+              Importar
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+
+          {error && <div className="text-xs text-red-400">{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SavedViewsPanel;
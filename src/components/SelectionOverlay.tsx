@@ -0,0 +1,64 @@
+'use client';
+
+import { Html } from '@react-three/drei';
+import { marqueePolygon } from '@/lib/screenSelection';
+import { MarqueeState, SelectionModifier } from '@/types/interactions';
+
+interface SelectionOverlayProps {
+  marquee: MarqueeState | null;
+  selectedCount: number;
+}
+
+const MODIFIER_PREFIX: Record<SelectionModifier, string> = {
+  replace: '',
+  add: '+',
+  subtract: '−',
+  intersect: '∩ '
+};
+
+// Normalized device coordinates to CSS percentages over the canvas
+const toPercent = (x: number, y: number) => ({
+  left: `${((x + 1) / 2) * 100}%`,
+  top: `${((1 - y) / 2) * 100}%`
+});
+
+// Marquee outline and selection count drawn over the canvas
+export const SelectionOverlay: React.FC<SelectionOverlayProps> = ({ marquee, selectedCount }) => {
+  const polygon = marquee ? marqueePolygon(marquee.shape, marquee.path) : [];
+  const cursor = marquee?.path[marquee.path.length - 1];
+
+  return (
+    <Html fullscreen className="pointer-events-none">
+      {polygon.length > 1 && (
+        // y is flipped so the viewBox matches device coordinates
+        <svg className="absolute inset-0 w-full h-full" viewBox="-1 -1 2 2" preserveAspectRatio="none">
+          <polygon
+            points={polygon.map(point => `${point.x},${-point.y}`).join(' ')}
+            fill="rgba(59, 130, 246, 0.12)"
+            stroke="#3B82F6"
+            strokeWidth={1.5}
+            strokeDasharray="6 4"
+            vectorEffect="non-scaling-stroke"
+          />
+        </svg>
+      )}
+
+      {marquee && cursor && (
+        <div
+          className="absolute ml-3 mt-3 px-2 py-0.5 rounded bg-blue-600 text-white text-xs"
+          style={toPercent(cursor.x, cursor.y)}
+        >
+          {MODIFIER_PREFIX[marquee.modifier]}{marquee.candidates.length}
+        </div>
+      )}
+
+      {selectedCount > 0 && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 px-3 py-1 rounded-full bg-black bg-opacity-80 text-white text-sm">
+          {selectedCount} {selectedCount === 1 ? 'seleccionado' : 'seleccionados'}
+        </div>
+      )}
+    </Html>
+  );
+};
+
+export default SelectionOverlay;
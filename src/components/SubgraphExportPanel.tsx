@@ -0,0 +1,98 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Html } from '@react-three/drei';
+import { downloadSubgraph, extractSubgraph, GraphExportFormat } from '@/lib/graphExporters';
+import { KnowledgeGraph } from '@/types/graph';
+
+interface SubgraphExportPanelProps {
+  graph: KnowledgeGraph;
+  selectedNodes: Set<string>;
+  position?: [number, number, number];
+  onClose?: () => void;
+}
+
+const FORMATS: { id: GraphExportFormat; label: string }[] = [
+  { id: 'json', label: 'JSON' },
+  { id: 'graphml', label: 'GraphML' },
+  { id: 'cypher', label: 'Cypher' }
+];
+
+const MAX_HOPS = 3;
+
+export const SubgraphExportPanel: React.FC<SubgraphExportPanelProps> = ({
+  graph,
+  selectedNodes,
+  position = [15, -8, 0],
+  onClose
+}) => {
+  const [format, setFormat] = useState<GraphExportFormat>('json');
+  const [hops, setHops] = useState(0);
+
+  // Preview counts before downloading
+  const subgraph = useMemo(
+    () => extractSubgraph(graph, selectedNodes, hops),
+    [graph, selectedNodes, hops]
+  );
+
+  return (
+    <Html position={position} className="pointer-events-auto">
+      <div className="bg-black bg-opacity-80 p-4 rounded text-white text-sm space-y-3 w-72">
+        <div className="flex justify-between items-center">
+          <div className="font-bold text-base">Exportar subgrafo</div>
+          {onClose && (
+            <button onClick={onClose} className="text-gray-400 hover:text-white" title="Cerrar">
+              ✕
+            </button>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          {FORMATS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => setFormat(option.id)}
+              className={`flex-1 px-2 py-1 rounded text-xs ${
+                format === option.id ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <label className="flex items-center justify-between text-xs">
+          <span>Vecinos a N saltos</span>
+          <input
+            type="number"
+            min={0}
+            max={MAX_HOPS}
+            value={hops}
+            onChange={(e) => setHops(Math.max(0, Math.min(MAX_HOPS, Number(e.target.value) || 0)))}
+            className="w-14 bg-gray-800 rounded px-2 py-1 text-right"
+          />
+        </label>
+
+        <div className="bg-gray-800 p-2 rounded text-xs grid grid-cols-2 gap-2">
+          <div>Seleccionados: {subgraph.seedIds.length}</div>
+          <div>Nodos: {subgraph.nodes.length}</div>
+          <div className="col-span-2">Relaciones: {subgraph.edges.length}</div>
+        </div>
+
+        <button
+          onClick={() => downloadSubgraph(subgraph, graph, format)}
+          disabled={subgraph.nodes.length === 0}
+          className={`w-full px-3 py-2 rounded ${
+            subgraph.nodes.length > 0
+              ? 'bg-green-600 hover:bg-green-500 text-white'
+              : 'bg-gray-600 text-gray-400 cursor-not-allowed'
+          }`}
+        >
+          Descargar
+        </button>
+      </div>
+    </Html>
+  );
+};
+
+export default SubgraphExportPanel;
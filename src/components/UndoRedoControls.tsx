@@ -3,7 +3,8 @@
 import { useRef, useEffect, useState, useCallback } from 'react';
 import { Html } from '@react-three/drei';
 import { useInteractionContext } from '@/contexts/InteractionContext';
-import { UndoRedoSystem, CommandFactory, ExecutableCommand, MacroCommand } from '@/lib/UndoRedoSystem';
+import { UndoRedoSystem, CommandFactory, ExecutableCommand, MacroCommand, HistoryTreeEntry } from '@/lib/UndoRedoSystem';
+import { CommandRegistry } from '@/lib/commandRegistry';
 import * as THREE from 'three';
 
 interface UndoRedoControlsProps {
@@ -11,6 +12,9 @@ interface UndoRedoControlsProps {
   enabled?: boolean;
   showHistory?: boolean;
   showSnapshots?: boolean;
+  // Keeps history across reloads for the command types the registry knows
+  commandRegistry?: CommandRegistry;
+  persistenceKey?: string;
 }
 
 interface HistoryItem {
@@ -24,15 +28,21 @@ export const UndoRedoControls: React.FC<UndoRedoControlsProps> = ({
   position = [35, 15, 0],
   enabled = true,
   showHistory = true,
-  showSnapshots = false
+  showSnapshots = false,
+  commandRegistry,
+  persistenceKey = 'undo-redo-controls'
 }) => {
   const { manager, globalState } = useInteractionContext();
   const undoRedoSystemRef = useRef<UndoRedoSystem | null>(null);
+  // Only the first system replays saved commands; later ones start from the edited state
+  const historyRestoredRef = useRef(false);
   
   const [canUndo, setCanUndo] = useState(false);
   const [canRedo, setCanRedo] = useState(false);
   const [history, setHistory] = useState<HistoryItem[]>([]);
   const [currentIndex, setCurrentIndex] = useState(-1);
+  const [historyTree, setHistoryTree] = useState<HistoryTreeEntry[]>([]);
+  const [currentNodeId, setCurrentNodeId] = useState<string | null>(null);
   const [stats, setStats] = useState({
     commandCount: 0,
     snapshotCount: 0,
@@ -52,7 +62,9 @@ export const UndoRedoControls: React.FC<UndoRedoControlsProps> = ({
       autoGroupTimeout: 1000,
       enableSnapshots: snapshotsEnabled,
       enableMerging: autoGroup,
-      enableMacros: true
+      enableMacros: true,
+      persistToDisk: !!commandRegistry,
+      persistenceKey
     });
 
     undoRedoSystemRef.current = undoRedoSystem;
@@ -77,6 +89,8 @@ export const UndoRedoControls: React.FC<UndoRedoControlsProps> = ({
         canRedo: index > undoRedoSystem.getCurrentIndex()
       }));
       setHistory(newHistory);
+      setHistoryTree(undoRedoSystem.getHistoryTree());
+      setCurrentNodeId(undoRedoSystem.getCurrentNodeId());
       
       setStats(undoRedoSystem.getStats());
     };
@@ -97,10 +111,15 @@ export const UndoRedoControls: React.FC<UndoRedoControlsProps> = ({
 
     updateState();
 
+    if (commandRegistry) {
+      undoRedoSystem.enablePersistence(commandRegistry, !historyRestoredRef.current);
+      historyRestoredRef.current = true;
+    }
+
     return () => {
       undoRedoSystem.destroy();
     };
-  }, [manager, globalState, snapshotsEnabled, autoGroup]);
+  }, [manager, globalState, snapshotsEnabled, autoGroup, commandRegistry, persistenceKey]);
 
   // Convert interaction command to undo/redo command
   const convertToUndoRedoCommand = useCallback((command: unknown): ExecutableCommand => {
@@ -202,6 +221,11 @@ export const UndoRedoControls: React.FC<UndoRedoControlsProps> = ({
     }
   }, []);
 
+  // Jump to any node of the history tree, including other branches
+  const jumpToHistoryNode = useCallback(async (nodeId: string | null) => {
+    await undoRedoSystemRef.current?.jumpToNode(nodeId);
+  }, []);
+
   // Create a batch command from selected operations
   const createBatchFromSelection = useCallback((startIndex: number, endIndex: number) => {
     if (!undoRedoSystemRef.current) return;
@@ -388,36 +412,58 @@ export const UndoRedoControls: React.FC<UndoRedoControlsProps> = ({
                     </tr>
                   </thead>
                   <tbody>
-                    {history.map((item) => (
+                    <tr className={`border-b hover:bg-gray-50 ${currentNodeId === null ? 'bg-blue-50' : ''}`}>
+                      <td className="p-2 font-mono">●</td>
+                      <td className="p-2" />
+                      <td className="p-2 text-gray-500">Initial state</td>
+                      <td className="p-2" />
+                      <td className="p-2" />
+                      <td className="p-2">
+                        <button
+                          onClick={() => {
+                            jumpToHistoryNode(null);
+                            setShowHistoryModal(false);
+                          }}
+                          className="px-2 py-1 bg-blue-600 text-white rounded text-xs hover:bg-blue-700"
+                        >
+                          Jump Here
+                        </button>
+                      </td>
+                    </tr>
+                    {historyTree.map(({ node, branchDepth, status }) => (
                       <tr 
-                        key={item.command.id}
+                        key={node.id}
                         className={`border-b hover:bg-gray-50 ${
-                          item.index === currentIndex ? 'bg-blue-50' : ''
+                          node.id === currentNodeId ? 'bg-blue-50' : ''
                         }`}
                       >
-                        <td className="p-2 font-mono">{item.index}</td>
+                        <td className="p-2 font-mono whitespace-nowrap" style={{ paddingLeft: `${0.5 + branchDepth}rem` }}>
+                          {node.childIds.length > 1 ? '┬' : '│'}
+                        </td>
                         <td className="p-2">
                           <span className="px-2 py-1 bg-gray-200 rounded text-xs">
-                            {item.command.type}
+                            {node.command.type}
                           </span>
                         </td>
-                        <td className="p-2">{item.command.description}</td>
+                        <td className="p-2">{node.command.description}</td>
                         <td className="p-2 text-xs text-gray-500">
-                          {new Date(item.command.timestamp).toLocaleTimeString()}
+                          {new Date(node.command.timestamp).toLocaleTimeString()}
                         </td>
                         <td className="p-2">
                           <span className={`px-2 py-1 rounded text-xs ${
-                            item.index <= currentIndex 
-                              ? 'bg-green-200 text-green-800' 
-                              : 'bg-gray-200 text-gray-600'
+                            status === 'applied'
+                              ? 'bg-green-200 text-green-800'
+                              : status === 'redo'
+                                ? 'bg-gray-200 text-gray-600'
+                                : 'bg-purple-200 text-purple-800'
                           }`}>
-                            {item.index <= currentIndex ? 'Executed' : 'Undone'}
+                            {status === 'applied' ? 'Executed' : status === 'redo' ? 'Undone' : 'Branch'}
                           </span>
                         </td>
                         <td className="p-2">
                           <button
                             onClick={() => {
-                              jumpToHistoryPoint(item.index);
+                              jumpToHistoryNode(node.id);
                               setShowHistoryModal(false);
                             }}
                             className="px-2 py-1 bg-blue-600 text-white rounded text-xs hover:bg-blue-700"
@@ -433,7 +479,7 @@ export const UndoRedoControls: React.FC<UndoRedoControlsProps> = ({
               
               <div className="mt-4 flex justify-between items-center">
                 <div className="text-sm text-gray-600">
-                  Total: {history.length} commands, Current: {currentIndex + 1}
+                  Total: {historyTree.length} commands, Current: {currentIndex + 1}
                 </div>
                 <button
                   onClick={() => setShowHistoryModal(false)}
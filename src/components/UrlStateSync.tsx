@@ -0,0 +1,13 @@
+'use client';
+
+import { useUrlViewState } from '@/hooks/useUrlViewState';
+
+type UrlStateSyncProps = Parameters<typeof useUrlViewState>[0];
+
+// Renders nothing; keeps shareable links in sync from inside the InteractionProvider
+export const UrlStateSync: React.FC<UrlStateSyncProps> = (props) => {
+  useUrlViewState(props);
+  return null;
+};
+
+export default UrlStateSync;
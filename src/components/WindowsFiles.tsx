@@ -4,6 +4,13 @@ import { useRef, useMemo } from 'react';
 import { useFrame } from '@react-three/fiber';
 import { Text } from '@react-three/drei';
 import * as THREE from 'three';
+import { useIngestedDocuments } from '@/hooks/useIngestedDocuments';
+import { DOCUMENT_FORMATS } from '@/lib/documentParsers';
+
+const MAX_FILE_NAME_LENGTH = 14;
+
+const truncateFileName = (name: string) =>
+  name.length > MAX_FILE_NAME_LENGTH ? `${name.slice(0, MAX_FILE_NAME_LENGTH - 1)}…` : name;
 
 interface WindowsFilesProps {
   scrollProgress: number;
@@ -11,9 +18,10 @@ interface WindowsFilesProps {
 
 const WindowsFiles: React.FC<WindowsFilesProps> = ({ scrollProgress }) => {
   const groupRef = useRef<THREE.Group>(null);
+  const { documents } = useIngestedDocuments();
 
   // File types data
-  const fileTypes = useMemo(() => [
+  const defaultFileTypes = useMemo(() => [
     {
       id: 'folder1',
       type: 'FOLDER',
@@ -106,6 +114,23 @@ const WindowsFiles: React.FC<WindowsFilesProps> = ({ scrollProgress }) => {
     }
   ], []);
 
+  // The visitor's own documents take over the first slots
+  const fileTypes = useMemo<FileData[]>(() => defaultFileTypes.map((file, index) => {
+    const document = documents[index];
+    if (!document) return file;
+
+    const format = DOCUMENT_FORMATS[document.format];
+    return {
+      ...file,
+      id: document.id,
+      type: format.label,
+      color: format.color,
+      icon: format.icon,
+      label: format.label,
+      fileName: truncateFileName(document.name)
+    };
+  }), [defaultFileTypes, documents]);
+
   useFrame((state) => {
     if (!groupRef.current) return;
 
@@ -194,6 +219,7 @@ interface FileData {
   icon: string;
   label: string;
   bounceOffset: number;
+  fileName?: string; // Set for ingested documents
 }
 
 interface WindowsFileProps {
@@ -274,6 +300,19 @@ const WindowsFile: React.FC<WindowsFileProps> = ({ file }) => {
         />
       </Text>
       
+      {file.fileName && (
+        <Text
+          text={file.fileName}
+          fontSize={0.45}
+          color="#ffffff"
+          anchorX="center"
+          anchorY="middle"
+          position={[0, -1.7, 0.6]}
+        >
+          <meshBasicMaterial color="#ffffff" />
+        </Text>
+      )}
+      
       {/* Glow effect */}
       <mesh position={[0, 0, -0.1]}>
         <boxGeometry args={[5, 6, 0.5]} />
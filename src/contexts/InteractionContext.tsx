@@ -1,7 +1,8 @@
 'use client';
 
-import React, { createContext, useContext, ReactNode, useState, useEffect } from 'react';
+import React, { createContext, useContext, ReactNode, useState, useEffect, useCallback } from 'react';
 import { InteractionManager } from '@/lib/InteractionManager';
+import { evaluateFilter, FilterSummary, FilterTarget, isFilterActive } from '@/lib/filterEngine';
 import {
   InteractionState,
   InteractionConfig,
@@ -36,6 +37,7 @@ interface InteractionContextValue {
   globalSearch: (query: string, searchType?: 'semantic' | 'exact' | 'fuzzy') => void;
   clearGlobalFilters: () => void;
   clearGlobalSearch: () => void;
+  getGlobalFilterSummary: () => FilterSummary | null;
   
   // Cross-scene coordination
   coordinateSceneTransition: (fromScene: string, toScene: string) => void;
@@ -96,6 +98,10 @@ export const InteractionProvider: React.FC<InteractionProviderProps> = ({
     animationDuration: 0.25,
     hoverDelay: 100,
     doubleClickThreshold: 250,
+    snapGridSize: 0,
+    snapRadius: 1.5,
+    marqueeShape: 'box',
+    gpuPicking: true,
     ...config
   };
 
@@ -146,9 +152,11 @@ export const InteractionProvider: React.FC<InteractionProviderProps> = ({
     }
 
     // Set up state change handler
-    manager.onStateChange((newState) => {
+    // Handlers receive only the changed fields; keep the full state in context
+    manager.onStateChange(() => {
+      const newState = manager.getState();
       setGlobalState(newState);
-      onGlobalStateChange?.(newState as InteractionState);
+      onGlobalStateChange?.(newState);
     });
 
     // Set up performance monitoring
@@ -211,33 +219,21 @@ export const InteractionProvider: React.FC<InteractionProviderProps> = ({
 
   const clearGlobalFilters = () => {
     if (interactionManager) {
-      interactionManager.updateState({
-        filterState: {
-          entityTypes: new Set(),
-          documentTypes: new Set(),
-          relationshipTypes: new Set(),
-          confidenceThreshold: 0.5,
-          dateRange: null,
-          customFilters: {}
-        }
-      });
+      interactionManager.clearFilters();
     }
   };
 
+  const getGlobalFilterSummary = () => {
+    return interactionManager ? interactionManager.getFilterSummary() : null;
+  };
+
   const clearGlobalSearch = () => {
     if (interactionManager) {
-      interactionManager.updateState({
-        searchState: {
-          query: '',
-          results: [],
-          highlightedResults: new Set(),
-          searchType: 'semantic',
-          isActive: false
-        }
-      });
+      interactionManager.clearSearch();
     }
   };
 
+
   // Cross-scene coordination
   const coordinateSceneTransition = (fromScene: string, toScene: string) => {
     if (debugMode) {
@@ -399,6 +395,7 @@ export const InteractionProvider: React.FC<InteractionProviderProps> = ({
     globalSearch,
     clearGlobalFilters,
     clearGlobalSearch,
+    getGlobalFilterSummary,
     coordinateSceneTransition,
     synchronizeSelections,
     globalUndo,
@@ -499,6 +496,25 @@ export const useSceneInteraction = (sceneId: string) => {
   };
 };
 
+// Hook for scenes that apply the shared filter to items they render themselves
+export const useGlobalFilter = () => {
+  const { globalState, globalFilter, clearGlobalFilters } = useInteractionContext();
+  const filterState = globalState?.filterState ?? null;
+
+  const matchesFilter = useCallback(
+    (target: FilterTarget) => !filterState || evaluateFilter(target, filterState),
+    [filterState]
+  );
+
+  return {
+    filterState,
+    isActive: filterState ? isFilterActive(filterState) : false,
+    matchesFilter,
+    applyFilter: globalFilter,
+    clearFilters: clearGlobalFilters
+  };
+};
+
 // Hook for enterprise-level interaction monitoring
 export const useInteractionMonitoring = () => {
   const { analytics, performanceMetrics, exportAnalytics, resetAnalytics } = useInteractionContext();
@@ -0,0 +1,60 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { EmbeddingProvider, createDefaultEmbeddingProvider } from '@/lib/embeddings';
+import { VectorIndex, VectorSearchResult } from '@/lib/vectorIndex';
+import { projectTo3D } from '@/lib/vectorProjection';
+import { DocumentChunk } from '@/types/documents';
+
+interface EmbeddedChunks {
+  index: VectorIndex<DocumentChunk>;
+  positions: Map<string, [number, number, number]>; // PCA coordinates, within the unit sphere
+}
+
+const NO_POSITIONS = new Map<string, [number, number, number]>();
+
+// Embeds chunks locally, indexes them for cosine search and projects them to 3D.
+// Pass a stable provider: a new one on every render re-embeds every time.
+export const useChunkEmbeddings = (chunks: DocumentChunk[], provider?: EmbeddingProvider) => {
+  const [defaultProvider] = useState(createDefaultEmbeddingProvider);
+  const activeProvider = provider ?? defaultProvider;
+  const [embedded, setEmbedded] = useState<EmbeddedChunks | null>(null);
+  const [isEmbedding, setIsEmbedding] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const texts = chunks.map(chunk => chunk.text);
+    setIsEmbedding(true);
+
+    activeProvider.fit?.(texts);
+    activeProvider.embed(texts)
+      .then(vectors => {
+        if (cancelled) return;
+        const index = new VectorIndex<DocumentChunk>(activeProvider.dimensions);
+        chunks.forEach((chunk, i) => index.add(chunk.id, vectors[i], chunk));
+        const points = projectTo3D(vectors);
+        setEmbedded({ index, positions: new Map(chunks.map((chunk, i) => [chunk.id, points[i]])) });
+      })
+      .catch(error => console.warn('Could not embed chunks:', error))
+      .finally(() => {
+        if (!cancelled) setIsEmbedding(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [chunks, activeProvider]);
+
+  const search = useCallback(async (query: string, k = 5): Promise<VectorSearchResult<DocumentChunk>[]> => {
+    if (!embedded || !query.trim()) return [];
+    const [vector] = await activeProvider.embed([query]);
+    return embedded.index.search(vector, k);
+  }, [embedded, activeProvider]);
+
+  return {
+    index: embedded?.index ?? null,
+    positions: embedded?.positions ?? NO_POSITIONS,
+    isEmbedding,
+    search
+  };
+};
@@ -0,0 +1,30 @@
+'use client';
+
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import { DocumentStore, SAMPLE_DOCUMENT } from '@/lib/documentStore';
+import { DEFAULT_CHUNKING_OPTIONS, chunkDocuments } from '@/lib/textChunker';
+import { ChunkingOptions, IngestedDocument } from '@/types/documents';
+
+const NO_DOCUMENTS: IngestedDocument[] = [];
+
+// Chunks of the ingested documents, or of the sample document until the visitor drops their own
+export const useDocumentChunks = () => {
+  const store = DocumentStore.getInstance();
+  const documents = useSyncExternalStore(store.subscribe, store.getDocuments, () => NO_DOCUMENTS);
+  const options = useSyncExternalStore(store.subscribe, store.getChunkingOptions, () => DEFAULT_CHUNKING_OPTIONS);
+
+  const isSample = documents.length === 0;
+  const chunks = useMemo(
+    () => chunkDocuments(isSample ? [SAMPLE_DOCUMENT] : documents, options),
+    [documents, isSample, options]
+  );
+
+  const setOptions = useCallback((changes: Partial<ChunkingOptions>) => store.setChunkingOptions(changes), [store]);
+
+  return {
+    chunks,
+    options,
+    setOptions,
+    isSample
+  };
+};
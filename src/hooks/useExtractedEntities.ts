@@ -0,0 +1,30 @@
+'use client';
+
+import { useMemo, useSyncExternalStore } from 'react';
+import { DocumentStore, SAMPLE_DOCUMENT } from '@/lib/documentStore';
+import { extractEntities } from '@/lib/entityExtraction';
+import { EntityDecision, EntityReviewStore, applyReviewDecisions } from '@/lib/entityReview';
+import { IngestedDocument } from '@/types/documents';
+
+const NO_DOCUMENTS: IngestedDocument[] = [];
+const NO_DECISIONS: Record<string, EntityDecision> = {};
+
+// Entities found in the ingested documents, or in the sample document until the visitor drops their own,
+// with the reviewer's decisions applied
+export const useExtractedEntities = () => {
+  const store = DocumentStore.getInstance();
+  const documents = useSyncExternalStore(store.subscribe, store.getDocuments, () => NO_DOCUMENTS);
+  const reviews = EntityReviewStore.getInstance();
+  const decisions = useSyncExternalStore(reviews.subscribe, reviews.getDecisions, () => NO_DECISIONS);
+
+  const isSample = documents.length === 0;
+  const sources = useMemo(() => (isSample ? [SAMPLE_DOCUMENT] : documents), [documents, isSample]);
+  const extracted = useMemo(() => extractEntities(sources), [sources]);
+  const entities = useMemo(() => applyReviewDecisions(extracted, decisions), [extracted, decisions]);
+
+  return {
+    entities,
+    sources,
+    isSample
+  };
+};
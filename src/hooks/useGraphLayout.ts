@@ -0,0 +1,133 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import * as THREE from 'three';
+import {
+  createLayout,
+  hasSameLayoutStructure,
+  LayoutFrame,
+  LayoutId,
+  LayoutWorkerRequest,
+  runLayoutBatch,
+  toLayoutInput
+} from '@/lib/graphLayout';
+import { KnowledgeGraph } from '@/types/graph';
+
+// Only re-render the scene when progress moves by at least this much
+const PROGRESS_STEP = 0.05;
+
+export const useGraphLayout = (currentGraph: KnowledgeGraph | null, initialLayout: LayoutId = 'force') => {
+  // Keep the last laid out graph while edits leave its structure alone, so they don't restart the layout
+  const [graph, setGraph] = useState(currentGraph);
+  if (!hasSameLayoutStructure(currentGraph, graph)) {
+    setGraph(currentGraph);
+  }
+
+  const [layoutId, setLayoutId] = useState<LayoutId>(initialLayout);
+  const [progress, setProgress] = useState(1);
+  const [isRunning, setIsRunning] = useState(false);
+  const [pinnedCount, setPinnedCount] = useState(0);
+  const [runToken, setRunToken] = useState(0);
+
+  // Latest positions from the simulation, indexed like graph.nodes; read every frame
+  const targets = useRef<Float32Array | null>(null);
+  const pinned = useRef(new Map<string, [number, number, number]>());
+  const send = useRef<((message: LayoutWorkerRequest) => void) | null>(null);
+
+  const indexById = useMemo(
+    () => new Map((graph?.nodes ?? []).map((node, index) => [node.id, index])),
+    [graph]
+  );
+
+  useEffect(() => {
+    if (!graph) return;
+
+    const input = toLayoutInput(graph, pinned.current);
+    let reported = -1;
+    targets.current = null;
+    setIsRunning(true);
+    setProgress(0);
+
+    const handleFrame = (frame: LayoutFrame) => {
+      targets.current = frame.positions;
+      if (frame.done || frame.progress - reported >= PROGRESS_STEP || frame.progress < reported) {
+        reported = frame.progress;
+        setProgress(frame.progress);
+        setIsRunning(!frame.done);
+      }
+    };
+
+    if (typeof Worker !== 'undefined') {
+      const worker = new Worker(new URL('../lib/graphLayout.worker.ts', import.meta.url));
+      worker.onmessage = (event: MessageEvent<LayoutFrame>) => handleFrame(event.data);
+      worker.onerror = (error) => {
+        console.warn('Graph layout worker failed:', error.message);
+        setIsRunning(false);
+      };
+      send.current = (message) => worker.postMessage(message);
+      worker.postMessage({ type: 'start', layoutId, input } satisfies LayoutWorkerRequest);
+
+      return () => {
+        send.current = null;
+        worker.terminate();
+      };
+    }
+
+    // No worker support: run batches on animation frames instead
+    const simulation = createLayout(layoutId, input);
+    let frameId = 0;
+    const step = () => {
+      const frame = runLayoutBatch(simulation);
+      handleFrame(frame);
+      frameId = frame.done ? 0 : requestAnimationFrame(step);
+    };
+    send.current = (message) => {
+      if (message.type === 'pin') simulation.pin(message.index, ...message.position);
+      if (message.type === 'unpin') simulation.unpin(message.index);
+      if (!frameId) frameId = requestAnimationFrame(step);
+    };
+    frameId = requestAnimationFrame(step);
+
+    return () => {
+      send.current = null;
+      cancelAnimationFrame(frameId);
+    };
+  }, [graph, layoutId, runToken]);
+
+  // Fix a node where it was dropped; the simulation lays out the rest around it
+  const pinNode = useCallback((nodeId: string, position: THREE.Vector3) => {
+    const index = indexById.get(nodeId);
+    if (index === undefined) return;
+
+    const coordinates: [number, number, number] = [position.x, position.y, position.z];
+    pinned.current.set(nodeId, coordinates);
+    setPinnedCount(pinned.current.size);
+    send.current?.({ type: 'pin', index, position: coordinates });
+  }, [indexById]);
+
+  const unpinAll = useCallback(() => {
+    pinned.current.forEach((_, nodeId) => {
+      const index = indexById.get(nodeId);
+      if (index !== undefined) send.current?.({ type: 'unpin', index });
+    });
+    pinned.current.clear();
+    setPinnedCount(0);
+  }, [indexById]);
+
+  const restart = useCallback(() => {
+    setRunToken(token => token + 1);
+  }, []);
+
+  return {
+    layoutId,
+    setLayoutId,
+    targets,
+    isRunning,
+    progress,
+    pinnedCount,
+    isPinned: (nodeId: string) => pinned.current.has(nodeId),
+    pinNode,
+    unpinAll,
+    restart
+  };
+};
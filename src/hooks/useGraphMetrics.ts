@@ -0,0 +1,52 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { computeGraphMetrics, GraphMetrics, toAnalyticsInput } from '@/lib/graphAnalytics';
+import { KnowledgeGraph } from '@/types/graph';
+
+// Below this size the analytics finish faster than a worker can start
+const WORKER_NODE_THRESHOLD = 300;
+
+export const useGraphMetrics = (graph: KnowledgeGraph | null) => {
+  const [metrics, setMetrics] = useState<GraphMetrics | null>(null);
+  const [isComputing, setIsComputing] = useState(false);
+
+  useEffect(() => {
+    if (!graph) {
+      setMetrics(null);
+      return;
+    }
+
+    const input = toAnalyticsInput(graph);
+
+    if (input.nodeIds.length < WORKER_NODE_THRESHOLD || typeof Worker === 'undefined') {
+      setMetrics(computeGraphMetrics(input));
+      setIsComputing(false);
+      return;
+    }
+
+    setIsComputing(true);
+    const worker = new Worker(new URL('../lib/graphAnalytics.worker.ts', import.meta.url));
+
+    worker.onmessage = (event: MessageEvent<GraphMetrics>) => {
+      setMetrics(event.data);
+      setIsComputing(false);
+      worker.terminate();
+    };
+
+    worker.onerror = (error) => {
+      console.warn('Graph analytics worker failed, computing on the main thread:', error.message);
+      worker.terminate();
+      setMetrics(computeGraphMetrics(input));
+      setIsComputing(false);
+    };
+
+    worker.postMessage(input);
+
+    return () => {
+      worker.terminate();
+    };
+  }, [graph]);
+
+  return { metrics, isComputing };
+};
@@ -0,0 +1,45 @@
+'use client';
+
+import { useCallback, useSyncExternalStore } from 'react';
+import { DocumentStore } from '@/lib/documentStore';
+import { parseDocumentFile } from '@/lib/documentParsers';
+import { IngestedDocument } from '@/types/documents';
+
+const NO_DOCUMENTS: IngestedDocument[] = [];
+
+export interface IngestionResult {
+  documents: IngestedDocument[];
+  errors: string[];
+}
+
+export const useIngestedDocuments = () => {
+  const store = DocumentStore.getInstance();
+  const documents = useSyncExternalStore(store.subscribe, store.getDocuments, () => NO_DOCUMENTS);
+
+  // Files are parsed one at a time; a file that fails doesn't stop the rest
+  const ingestFiles = useCallback(async (files: File[]): Promise<IngestionResult> => {
+    const ingested: IngestedDocument[] = [];
+    const errors: string[] = [];
+
+    for (const file of files) {
+      try {
+        ingested.push(await parseDocumentFile(file));
+      } catch (error) {
+        errors.push(`${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    store.add(ingested);
+    return { documents: ingested, errors };
+  }, [store]);
+
+  const removeDocument = useCallback((documentId: string) => store.remove(documentId), [store]);
+  const clearDocuments = useCallback(() => store.clear(), [store]);
+
+  return {
+    documents,
+    ingestFiles,
+    removeDocument,
+    clearDocuments
+  };
+};
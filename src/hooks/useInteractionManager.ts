@@ -1,6 +1,7 @@
 import { useRef, useEffect, useCallback, useState } from 'react';
 import { useThree, useFrame } from '@react-three/fiber';
 import { InteractionManager } from '@/lib/InteractionManager';
+import { CameraControlsLike } from '@/lib/cameraFraming';
 import {
   InteractionConfig,
   InteractionState,
@@ -10,7 +11,9 @@ import {
   AnalyticsHandler,
   InteractableObject,
   Command,
-  InteractionType
+  InteractionType,
+  MarqueeShape,
+  SelectionModifier
 } from '@/types/interactions';
 
 interface UseInteractionManagerOptions extends Partial<InteractionConfig> {
@@ -29,9 +32,15 @@ interface InteractionManagerHook {
   unregisterObject: (objectId: string) => void;
   selectObject: (objectId: string, multiSelect?: boolean) => void;
   clearSelection: () => void;
+  selectObjects: (objectIds: string[], modifier?: SelectionModifier) => void;
+  setMarqueeShape: (shape: MarqueeShape) => void;
   filterObjects: (criteria: Partial<InteractionState['filterState']>) => void;
   searchObjects: (query: string, searchType?: 'semantic' | 'exact' | 'fuzzy') => void;
   executeCommand: (command: Command) => void;
+  focusOnSelection: () => boolean;
+  frameAll: () => boolean;
+  frameHovered: () => boolean;
+  restorePreviousView: () => boolean;
   undo: () => boolean;
   redo: () => boolean;
   on: (type: InteractionType, handler: InteractionHandler) => void;
@@ -43,7 +52,7 @@ interface InteractionManagerHook {
 export const useInteractionManager = (
   options: UseInteractionManagerOptions = {}
 ): InteractionManagerHook => {
-  const { gl, camera, scene } = useThree();
+  const { gl, camera, scene, controls } = useThree();
   const interactionManagerRef = useRef<InteractionManager | null>(null);
   const [state, setState] = useState<InteractionState | null>(null);
   const [isInitialized, setIsInitialized] = useState(false);
@@ -73,7 +82,7 @@ export const useInteractionManager = (
       const manager = new InteractionManager(config);
       
       // Initialize with canvas and camera
-      manager.initialize(gl.domElement, camera);
+      manager.initialize(gl.domElement, camera, gl);
       
       // Set up event handlers
       if (options.onStateChange) {
@@ -116,7 +125,14 @@ export const useInteractionManager = (
         setState(null);
       }
     };
-  }, [gl.domElement, camera]);
+  }, [gl, camera]);
+
+  // Camera framing moves the target of default controls (drei makeDefault) too
+  useEffect(() => {
+    if (!isInitialized || !interactionManagerRef.current) return;
+    const orbitControls = controls && 'target' in controls ? (controls as unknown as CameraControlsLike) : null;
+    interactionManagerRef.current.setCameraControls(orbitControls);
+  }, [controls, isInitialized]);
 
   // Performance monitoring frame loop
   useFrame((state, delta) => {
@@ -169,6 +185,18 @@ export const useInteractionManager = (
     }
   }, []);
 
+  const selectObjects = useCallback((objectIds: string[], modifier: SelectionModifier = 'replace') => {
+    if (interactionManagerRef.current) {
+      interactionManagerRef.current.selectObjects(objectIds, modifier);
+    }
+  }, []);
+
+  const setMarqueeShape = useCallback((shape: MarqueeShape) => {
+    if (interactionManagerRef.current) {
+      interactionManagerRef.current.setMarqueeShape(shape);
+    }
+  }, []);
+
   const filterObjects = useCallback((criteria: Partial<InteractionState['filterState']>) => {
     if (interactionManagerRef.current) {
       interactionManagerRef.current.filterObjects(criteria);
@@ -190,6 +218,22 @@ export const useInteractionManager = (
     }
   }, []);
 
+  const focusOnSelection = useCallback(() => {
+    return interactionManagerRef.current ? interactionManagerRef.current.focusOnSelection() : false;
+  }, []);
+
+  const frameAll = useCallback(() => {
+    return interactionManagerRef.current ? interactionManagerRef.current.frameAll() : false;
+  }, []);
+
+  const frameHovered = useCallback(() => {
+    return interactionManagerRef.current ? interactionManagerRef.current.frameHovered() : false;
+  }, []);
+
+  const restorePreviousView = useCallback(() => {
+    return interactionManagerRef.current ? interactionManagerRef.current.restorePreviousView() : false;
+  }, []);
+
   const undo = useCallback(() => {
     if (interactionManagerRef.current) {
       return interactionManagerRef.current.undo();
@@ -237,9 +281,15 @@ export const useInteractionManager = (
     unregisterObject,
     selectObject,
     clearSelection,
+    selectObjects,
+    setMarqueeShape,
     filterObjects,
     searchObjects,
     executeCommand,
+    focusOnSelection,
+    frameAll,
+    frameHovered,
+    restorePreviousView,
     undo,
     redo,
     on,
@@ -0,0 +1,96 @@
+'use client';
+
+import { useEffect, useCallback, useMemo, useRef, useState } from 'react';
+import { DEFAULT_GRAPH_DATASET_URL, buildKnowledgeGraph, loadKnowledgeGraph } from '@/lib/graphDataLoader';
+import { applyCommunities } from '@/lib/communityDetection';
+import { KnowledgeGraphStore } from '@/lib/entityCommands';
+import { GraphDataset, KnowledgeGraph } from '@/types/graph';
+
+export interface KnowledgeGraphDataState {
+  graph: KnowledgeGraph | null;
+  isLoading: boolean;
+  isFallback: boolean;
+}
+
+export const useKnowledgeGraphData = (url: string = DEFAULT_GRAPH_DATASET_URL) => {
+  const [state, setState] = useState<KnowledgeGraphDataState>({
+    graph: null,
+    isLoading: true,
+    isFallback: false
+  });
+  const [reloadToken, setReloadToken] = useState(0);
+  const graphRef = useRef<KnowledgeGraph | null>(null);
+  // Bumped by every load, so a fetch that finishes after a newer load or an import is ignored
+  const loadGenerationRef = useRef(0);
+
+  useEffect(() => {
+    graphRef.current = state.graph;
+  }, [state.graph]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const generation = ++loadGenerationRef.current;
+    setState(prev => ({ ...prev, isLoading: true }));
+
+    loadKnowledgeGraph(url).then(graph => {
+      if (cancelled || generation !== loadGenerationRef.current) return;
+      setState({
+        graph,
+        isLoading: false,
+        isFallback: graph.source === 'fallback'
+      });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [url, reloadToken]);
+
+  const reload = useCallback(() => {
+    setReloadToken(token => token + 1);
+  }, []);
+
+  // Swap in a dataset produced by one of the importers
+  const loadDataset = useCallback((dataset: GraphDataset) => {
+    loadGenerationRef.current++;
+    const graph = buildKnowledgeGraph(dataset, 'dataset');
+    // Commands run right after the import already see the new graph
+    graphRef.current = graph;
+    setState({
+      graph,
+      isLoading: false,
+      isFallback: false
+    });
+  }, []);
+
+  // Replace the current clusters with communities detected at the given resolution
+  const detectCommunities = useCallback((resolution?: number) => {
+    setState(prev => prev.graph
+      ? { ...prev, graph: applyCommunities(prev.graph, resolution) }
+      : prev);
+  }, []);
+
+  // Apply an edit to the loaded graph (entity merges, splits, metadata changes)
+  const updateGraph = useCallback((update: (graph: KnowledgeGraph) => KnowledgeGraph) => {
+    setState(prev => prev.graph ? { ...prev, graph: update(prev.graph) } : prev);
+  }, []);
+
+  // Handle for undoable commands, which outlive a single render. Edits land in the ref
+  // straight away so commands run back to back (e.g. replaying history) see each other.
+  const store = useMemo<KnowledgeGraphStore>(() => ({
+    getGraph: () => graphRef.current,
+    updateGraph: (update) => {
+      if (graphRef.current) graphRef.current = update(graphRef.current);
+      updateGraph(update);
+    }
+  }), [updateGraph]);
+
+  return {
+    ...state,
+    reload,
+    loadDataset,
+    detectCommunities,
+    updateGraph,
+    store
+  };
+};
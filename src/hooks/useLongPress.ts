@@ -0,0 +1,50 @@
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+
+const LONG_PRESS_DELAY = 500;
+// Finger travel (px) after which the press counts as a drag instead
+const LONG_PRESS_TOLERANCE = 10;
+
+// Touch long-press on individual 3D objects, the touch stand-in for right-click.
+// Wire start/move/cancel into the object's pointer handlers.
+export const useLongPress = (onLongPress: (id: string) => void, delay: number = LONG_PRESS_DELAY) => {
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const originRef = useRef<{ x: number; y: number } | null>(null);
+  const callbackRef = useRef(onLongPress);
+
+  useEffect(() => {
+    callbackRef.current = onLongPress;
+  }, [onLongPress]);
+
+  const cancel = useCallback(() => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    originRef.current = null;
+  }, []);
+
+  const start = useCallback((id: string, event: PointerEvent) => {
+    // Mouse and pen users have right-click
+    if (event.pointerType !== 'touch') return;
+    cancel();
+    originRef.current = { x: event.clientX, y: event.clientY };
+    timerRef.current = setTimeout(() => {
+      timerRef.current = null;
+      originRef.current = null;
+      callbackRef.current(id);
+    }, delay);
+  }, [cancel, delay]);
+
+  const move = useCallback((event: PointerEvent) => {
+    const origin = originRef.current;
+    if (origin && Math.hypot(event.clientX - origin.x, event.clientY - origin.y) > LONG_PRESS_TOLERANCE) {
+      cancel();
+    }
+  }, [cancel]);
+
+  useEffect(() => cancel, [cancel]);
+
+  return { start, move, cancel };
+};
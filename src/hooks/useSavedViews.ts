@@ -0,0 +1,71 @@
+'use client';
+
+import { useCallback, useSyncExternalStore } from 'react';
+import { useInteractionContext } from '@/contexts/InteractionContext';
+import { deserializeFilterState, serializeFilterState } from '@/lib/filterEngine';
+import { SavedView, SavedViewStore, exportSavedViews, getScrollProgress } from '@/lib/savedViews';
+
+const NO_VIEWS: SavedView[] = [];
+
+interface UseSavedViewsOptions {
+  // Animated scroll, e.g. useScrollControl's scrollToProgress; native smooth scrolling otherwise
+  scrollToProgress?: (progress: number) => void;
+}
+
+export const useSavedViews = ({ scrollToProgress }: UseSavedViewsOptions = {}) => {
+  const store = SavedViewStore.getInstance();
+  const { interactionManager, globalState } = useInteractionContext();
+
+  const views = useSyncExternalStore(store.subscribe, store.getViews, () => NO_VIEWS);
+  const activeView = useSyncExternalStore(store.subscribe, store.getActiveView, () => null);
+
+  // Captures the current shot; scenes pass the selection they care about
+  const saveView = useCallback((name: string, selection?: string[]) => {
+    const searchState = globalState?.searchState;
+    return store.add({
+      name,
+      scrollProgress: getScrollProgress(),
+      camera: store.captureCamera(),
+      selection: selection ?? Array.from(globalState?.selectedObjects ?? []),
+      filters: globalState ? serializeFilterState(globalState.filterState) : {},
+      search: searchState?.isActive ? { query: searchState.query, searchType: searchState.searchType } : null
+    });
+  }, [store, globalState]);
+
+  const restoreView = useCallback((view: SavedView) => {
+    store.activate(view);
+
+    if (scrollToProgress) {
+      scrollToProgress(view.scrollProgress);
+    } else {
+      const maxScroll = document.documentElement.scrollHeight - window.innerHeight;
+      window.scrollTo({ top: view.scrollProgress * maxScroll, behavior: 'smooth' });
+    }
+
+    if (interactionManager) {
+      interactionManager.filterObjects(deserializeFilterState(view.filters));
+      if (view.search) {
+        interactionManager.searchObjects(view.search.query, view.search.searchType);
+      } else {
+        interactionManager.clearSearch();
+      }
+      interactionManager.selectObjects(view.selection, 'replace');
+    }
+  }, [store, scrollToProgress, interactionManager]);
+
+  const removeView = useCallback((viewId: string) => store.remove(viewId), [store]);
+  const renameView = useCallback((viewId: string, name: string) => store.rename(viewId, name), [store]);
+  const importViews = useCallback((json: string) => store.import(json), [store]);
+  const exportViews = useCallback(() => exportSavedViews(store.getViews()), [store]);
+
+  return {
+    views,
+    activeView,
+    saveView,
+    restoreView,
+    removeView,
+    renameView,
+    importViews,
+    exportViews
+  };
+};
@@ -0,0 +1,93 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ExecutableCommand, HistoryTreeEntry, UndoRedoConfig, UndoRedoSystem } from '@/lib/UndoRedoSystem';
+import { CommandRegistry } from '@/lib/commandRegistry';
+
+// Scene-level history: commands edit React state, so object snapshots are off
+const SCENE_HISTORY_CONFIG: Partial<UndoRedoConfig> = {
+  enableSnapshots: false,
+  enableMerging: false
+};
+
+// Saved histories by persistence key. Hooks saving under the same key share one history, so a
+// scene and a panel editing the same state undo together instead of overwriting each other's record.
+const persistedSystems = new Map<string, UndoRedoSystem>();
+
+export const useUndoRedoSystem = (config: Partial<UndoRedoConfig> = {}) => {
+  const systemRef = useRef<UndoRedoSystem | null>(null);
+  if (!systemRef.current) {
+    const sharedKey = config.persistToDisk ? config.persistenceKey : undefined;
+    systemRef.current = (sharedKey && persistedSystems.get(sharedKey)) || new UndoRedoSystem({ ...SCENE_HISTORY_CONFIG, ...config });
+    if (sharedKey) persistedSystems.set(sharedKey, systemRef.current);
+  }
+
+  const [history, setHistory] = useState({
+    canUndo: false,
+    canRedo: false,
+    undoDescription: null as string | null,
+    redoDescription: null as string | null,
+    tree: [] as HistoryTreeEntry[], // Every branch, for jumping between them
+    currentNodeId: null as string | null
+  });
+
+  useEffect(() => {
+    const system = systemRef.current!;
+    const update = () => {
+      const commands = system.getHistory();
+      const index = system.getCurrentIndex();
+      setHistory({
+        canUndo: system.canUndo(),
+        canRedo: system.canRedo(),
+        undoDescription: commands[index]?.description ?? null,
+        redoDescription: commands[index + 1]?.description ?? null,
+        tree: system.getHistoryTree(),
+        currentNodeId: system.getCurrentNodeId()
+      });
+    };
+
+    system.on('historyChanged', update);
+    system.on('historyCleared', update);
+    // A shared history may already have commands
+    update();
+    return () => {
+      system.off('historyChanged', update);
+      system.off('historyCleared', update);
+    };
+  }, []);
+
+  // Don't lose an edit made just before a reload or unmount
+  useEffect(() => {
+    const system = systemRef.current!;
+    const flush = () => system.flushPersistence();
+    window.addEventListener('pagehide', flush);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, []);
+
+  const execute = useCallback((command: ExecutableCommand) => systemRef.current!.executeCommand(command), []);
+  const undo = useCallback(() => systemRef.current!.undo(), []);
+  const redo = useCallback(() => systemRef.current!.redo(), []);
+  // Needs persistToDisk; restores once, later calls only swap the registry
+  const enablePersistence = useCallback(
+    (registry: CommandRegistry) => systemRef.current!.enablePersistence(registry),
+    []
+  );
+
+  // Null jumps back to the state before any command
+  const jumpTo = useCallback((nodeId: string | null) => systemRef.current!.jumpToNode(nodeId), []);
+  const discardHistory = useCallback(() => systemRef.current!.discardHistory(), []);
+
+  return {
+    system: systemRef.current,
+    ...history,
+    execute,
+    undo,
+    redo,
+    jumpTo,
+    enablePersistence,
+    discardHistory
+  };
+};
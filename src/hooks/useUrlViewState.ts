@@ -0,0 +1,66 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useInteractionContext } from '@/contexts/InteractionContext';
+import { deserializeFilterState, serializeFilterState } from '@/lib/filterEngine';
+import { readUrlViewState, replaceUrlViewState } from '@/lib/urlState';
+
+// Scrolling fires continuously; write the address bar once it settles
+const URL_WRITE_DELAY = 300;
+
+interface UseUrlViewStateOptions {
+  enabled: boolean; // False until the loader is gone and the page can scroll
+  section: number;
+  scrollProgress: number;
+  scrollToProgress: (progress: number, immediate?: boolean) => void;
+  scrollToSection: (section: number, immediate?: boolean) => void;
+}
+
+// Restores the view encoded in the URL, then keeps the URL in step with scroll, selection, filters and search
+export const useUrlViewState = ({
+  enabled,
+  section,
+  scrollProgress,
+  scrollToProgress,
+  scrollToSection
+}: UseUrlViewStateOptions) => {
+  const { interactionManager, globalState } = useInteractionContext();
+  const restored = useRef(false);
+
+  useEffect(() => {
+    if (!enabled || !interactionManager || restored.current) return;
+    restored.current = true;
+
+    const state = readUrlViewState();
+    if (state.scrollProgress !== null) {
+      scrollToProgress(state.scrollProgress, true);
+    } else if (state.section !== null) {
+      scrollToSection(state.section, true);
+    }
+    if (Object.keys(state.filters).length) {
+      interactionManager.filterObjects(deserializeFilterState(state.filters));
+    }
+    if (state.search) {
+      interactionManager.searchObjects(state.search.query, state.search.searchType);
+    }
+    if (state.selection.length) {
+      interactionManager.selectObjects(state.selection, 'replace');
+    }
+  }, [enabled, interactionManager, scrollToProgress, scrollToSection]);
+
+  useEffect(() => {
+    if (!enabled || !restored.current || !globalState) return;
+
+    const timeout = setTimeout(() => {
+      const { searchState } = globalState;
+      replaceUrlViewState({
+        section,
+        scrollProgress,
+        selection: Array.from(globalState.selectedObjects),
+        filters: serializeFilterState(globalState.filterState),
+        search: searchState.isActive ? { query: searchState.query, searchType: searchState.searchType } : null
+      });
+    }, URL_WRITE_DELAY);
+    return () => clearTimeout(timeout);
+  }, [enabled, section, scrollProgress, globalState]);
+};
@@ -15,17 +15,70 @@ import {
   ObjectState,
   InteractionType,
   GestureData,
-  PerformanceMetrics
+  PerformanceMetrics,
+  SearchResult,
+  MarqueeShape,
+  SelectionModifier
 } from '@/types/interactions';
+import { SearchIndex, SearchType } from '@/lib/searchEngine';
+import { GpuPicker, PickResult, raycastPick } from '@/lib/objectPicking';
+import { findNearestObject, resolveDropAction, snapToGrid } from '@/lib/dropRules';
+import {
+  animateCameraTo,
+  boundsOfObjects,
+  CameraControlsLike,
+  CameraView,
+  captureView,
+  computeFramingView,
+  defaultTarget
+} from '@/lib/cameraFraming';
+import { createDefaultFilterState, evaluateFilter, FilterSummary, isFilterActive, summarizeFilter } from '@/lib/filterEngine';
+import {
+  clientToNdc,
+  combineSelection,
+  isMarqueeTooSmall,
+  LASSO_POINT_SPACING,
+  marqueePolygon,
+  objectsInPolygon,
+  selectionModifierFromEvent
+} from '@/lib/screenSelection';
+
+// Delay between highlight pulses so search results light up in rank order
+const SEARCH_HIGHLIGHT_STAGGER = 0.05;
+
+// Views remembered for return-to-previous-view
+const MAX_VIEW_HISTORY = 10;
+const CAMERA_FRAMING_DURATION = 0.8;
+
+// Drag ghost tint while over a valid or an invalid drop
+const VALID_DROP_COLOR = new THREE.Color('#22C55E');
+const INVALID_DROP_COLOR = new THREE.Color('#EF4444');
+
+// Two-finger lasso: pixels the fingers must travel, and how much pinching is tolerated
+const LASSO_MIN_TRAVEL = 60;
+const LASSO_MAX_PINCH = 0.25;
 
 export class InteractionManager {
   private state: InteractionState;
   private config: InteractionConfig;
   private canvas: HTMLCanvasElement | null = null;
   private camera: THREE.Camera | null = null;
+  private cameraControls: CameraControlsLike | null = null;
+  private cameraTarget = new THREE.Vector3();
+  private framingFov: number | null = null; // Lens the scene was set up with
+  private viewHistory: CameraView[] = [];
+  private cameraTween: gsap.core.Tween | null = null;
+  private marqueePointerId: number | null = null;
+  private controlsWereEnabled: boolean | undefined; // Orbit controls pause while a marquee is drawn
+  private suppressNextClick = false;
   private raycaster: THREE.Raycaster;
+  private picker: GpuPicker | null = null; // Colour-ID picking; raycasting when unavailable
+  private lastHoverPickTime = 0;
+  private hoverPickTimer: ReturnType<typeof setTimeout> | null = null;
+  private hoveredInstanceId: number | null = null;
   private mouse: THREE.Vector2;
   private interactableObjects: Map<string, InteractableObject> = new Map();
+  private searchIndex: SearchIndex | null = null; // Rebuilt lazily after objects change
   private eventHandlers: Map<InteractionType, InteractionHandler[]> = new Map();
   private stateChangeHandlers: StateChangeHandler[] = [];
   private commandHandlers: CommandHandler[] = [];
@@ -57,6 +110,10 @@ export class InteractionManager {
       animationDuration: 0.3,
       hoverDelay: 150,
       doubleClickThreshold: 300,
+      snapGridSize: 0,
+      snapRadius: 1.5,
+      marqueeShape: 'box',
+      gpuPicking: true,
       ...config
     };
 
@@ -64,23 +121,18 @@ export class InteractionManager {
       selectedObjects: new Set(),
       hoveredObject: null,
       dragState: null,
-      filterState: {
-        entityTypes: new Set(),
-        documentTypes: new Set(),
-        relationshipTypes: new Set(),
-        confidenceThreshold: 0.5,
-        dateRange: null,
-        customFilters: {}
-      },
+      filterState: createDefaultFilterState(),
       searchState: {
         query: '',
         results: [],
+        rankedResults: [],
         highlightedResults: new Set(),
         searchType: 'semantic',
         isActive: false
       },
       mode: 'explore',
       multiSelectEnabled: this.config.enableMultiSelect,
+      marqueeState: null,
       undoStack: [],
       redoStack: []
     };
@@ -101,13 +153,28 @@ export class InteractionManager {
     this.initializeEventListeners();
   }
 
-  // Initialize canvas and camera references
-  initialize(canvas: HTMLCanvasElement, camera: THREE.Camera): void {
+  // Initialize canvas and camera references; the renderer enables GPU picking
+  initialize(canvas: HTMLCanvasElement, camera: THREE.Camera, renderer?: THREE.WebGLRenderer): void {
     this.canvas = canvas;
     this.camera = camera;
+    if (renderer && this.config.gpuPicking) {
+      try {
+        this.picker = new GpuPicker(renderer, () => this.interactableObjects.values());
+      } catch (error) {
+        console.warn('InteractionManager: GPU picking unavailable, falling back to raycasting', error);
+      }
+    }
+    this.cameraTarget.copy(defaultTarget(camera));
+    this.framingFov = captureView(camera, this.cameraTarget).fov;
     this.setupCanvasEventListeners();
   }
 
+  // Controls (e.g. OrbitControls) whose target should follow camera framing
+  setCameraControls(controls: CameraControlsLike | null): void {
+    this.cameraControls = controls;
+    if (controls) this.cameraTarget.copy(controls.target);
+  }
+
   // Register an interactable object
   registerObject(object: InteractableObject): void {
     // Safety check to prevent undefined errors
@@ -117,6 +184,13 @@ export class InteractionManager {
     }
 
     this.interactableObjects.set(object.interactionData.id, object);
+    this.searchIndex = null;
+    this.picker?.invalidate();
+
+    // Objects registered while a filter is active join already filtered
+    if (isFilterActive(this.state.filterState) && !this.evaluateFilter(object)) {
+      this.updateObjectState(object.interactionData.id, 'filtered');
+    }
     
     // Add accessibility attributes for screen readers
     if (this.config.enableAccessibility) {
@@ -127,6 +201,22 @@ export class InteractionManager {
   // Unregister an interactable object
   unregisterObject(objectId: string): void {
     this.interactableObjects.delete(objectId);
+    this.searchIndex = null;
+    this.picker?.invalidate();
+  }
+
+  // Registered objects gained or lost meshes; picking rebuilds its ID buffers
+  invalidatePicking(): void {
+    this.picker?.invalidate();
+  }
+
+  // Registered object (and instance) at a point in normalized device coordinates
+  pickAt(pointer: THREE.Vector2): PickResult | null {
+    if (!this.camera) return null;
+    if (this.picker?.canPick(this.camera)) {
+      return this.picker.pick(pointer, this.camera as THREE.PerspectiveCamera | THREE.OrthographicCamera);
+    }
+    return raycastPick(this.raycaster, pointer, this.camera, Array.from(this.interactableObjects.values()));
   }
 
   // Add event handler for specific interaction type
@@ -278,6 +368,88 @@ export class InteractionManager {
     this.state.selectedObjects.clear();
   }
 
+  // Combine a set of objects with the current selection
+  selectObjects(objectIds: string[], modifier: SelectionModifier = 'replace'): void {
+    const previous = this.state.selectedObjects;
+    const next = combineSelection(previous, objectIds, modifier);
+    const removed = Array.from(previous).filter(objectId => !next.has(objectId));
+    const added = Array.from(next).filter(objectId => !previous.has(objectId));
+
+    removed.forEach(objectId => this.updateObjectState(objectId, 'idle'));
+    added.forEach(objectId => this.updateObjectState(objectId, 'selected'));
+    this.updateState({ selectedObjects: next });
+
+    this.emitEvent({
+      type: 'multiSelect',
+      target: null,
+      data: { objectIds: Array.from(next), added, removed, modifier },
+      timestamp: Date.now(),
+      position: new THREE.Vector3(this.mouse.x, this.mouse.y, 0)
+    });
+  }
+
+  setMarqueeShape(shape: MarqueeShape): void {
+    this.config.marqueeShape = shape;
+  }
+
+  // Begin a box or lasso outline at a point in normalized device coordinates
+  startMarquee(point: THREE.Vector2, modifier: SelectionModifier = 'replace', shape: MarqueeShape = this.config.marqueeShape): void {
+    if (this.state.dragState) return;
+
+    // Orbiting would fight the outline for the same pointer
+    if (this.cameraControls && this.controlsWereEnabled === undefined) {
+      this.controlsWereEnabled = this.cameraControls.enabled;
+      this.cameraControls.enabled = false;
+    }
+
+    this.updateState({
+      marqueeState: { shape, modifier, path: [point.clone()], candidates: [] }
+    });
+  }
+
+  updateMarquee(point: THREE.Vector2): void {
+    const marquee = this.state.marqueeState;
+    if (!marquee) return;
+
+    let path: THREE.Vector2[];
+    if (marquee.shape === 'box') {
+      path = [marquee.path[0], point.clone()];
+    } else if (point.distanceTo(marquee.path[marquee.path.length - 1]) >= LASSO_POINT_SPACING) {
+      path = [...marquee.path, point.clone()];
+    } else {
+      return;
+    }
+
+    this.updateState({
+      marqueeState: { ...marquee, path, candidates: this.getObjectsInMarquee(marquee.shape, path) }
+    });
+  }
+
+  // Select what the outline encloses; returns the new selection
+  endMarquee(): string[] {
+    const marquee = this.state.marqueeState;
+    if (!marquee) return [];
+    this.cancelMarquee();
+
+    if (isMarqueeTooSmall(marqueePolygon(marquee.shape, marquee.path))) {
+      return Array.from(this.state.selectedObjects);
+    }
+
+    // The click that follows the pointer release shouldn't clear what was just selected
+    this.suppressNextClick = true;
+    this.selectObjects(this.getObjectsInMarquee(marquee.shape, marquee.path), marquee.modifier);
+    return Array.from(this.state.selectedObjects);
+  }
+
+  cancelMarquee(): void {
+    if (this.cameraControls && this.controlsWereEnabled !== undefined) {
+      this.cameraControls.enabled = this.controlsWereEnabled;
+    }
+    this.controlsWereEnabled = undefined;
+    this.marqueePointerId = null;
+    if (this.state.marqueeState) this.updateState({ marqueeState: null });
+  }
+
   // Start drag operation
   startDrag(objectId: string, startPosition: THREE.Vector3): void {
     const object = this.interactableObjects.get(objectId);
@@ -287,10 +459,13 @@ export class InteractionManager {
 
     this.state.dragState = {
       objectId,
-      startPosition: startPosition.clone(),
+      startPosition: object.position.clone(),
       currentPosition: startPosition.clone(),
       targetPosition: null,
-      isValid: true
+      isValid: true,
+      grabOffset: new THREE.Vector3().subVectors(object.getWorldPosition(new THREE.Vector3()), startPosition),
+      dropTargetId: null,
+      dropAction: null
     };
 
     this.updateObjectState(objectId, 'dragging');
@@ -312,19 +487,23 @@ export class InteractionManager {
     if (!this.state.dragState) return;
 
     this.state.dragState.currentPosition = currentPosition.clone();
-    
-    // Update ghost object position
-    if (this.state.dragState.ghostObject) {
-      this.state.dragState.ghostObject.position.copy(currentPosition);
-    }
 
-    // Validate drop target
-    this.validateDropTarget(currentPosition);
+    // Validate drop target, then show the ghost where the object would land
+    const dragState = this.validateDropTarget(currentPosition.clone().add(this.state.dragState.grabOffset));
+    if (dragState.ghostObject) {
+      dragState.ghostObject.position.copy(dragState.targetPosition ?? this.toParentSpace(dragState.objectId, currentPosition.clone().add(dragState.grabOffset)));
+      this.tintDragGhost(dragState.ghostObject, dragState.isValid);
+    }
 
     this.emitEvent({
       type: 'drag',
-      target: this.interactableObjects.get(this.state.dragState.objectId) || null,
-      data: { currentPosition, isValid: this.state.dragState.isValid },
+      target: this.interactableObjects.get(dragState.objectId) || null,
+      data: {
+        currentPosition,
+        isValid: dragState.isValid,
+        dropAction: dragState.dropAction,
+        dropTargetId: dragState.dropTargetId
+      },
       timestamp: Date.now(),
       position: this.mouse
     });
@@ -334,15 +513,16 @@ export class InteractionManager {
   endDrag(): void {
     if (!this.state.dragState) return;
 
-    const { objectId, isValid, targetPosition } = this.state.dragState;
+    const { objectId, isValid, targetPosition, startPosition, dropAction, dropTargetId, ghostObject } = this.state.dragState;
     const object = this.interactableObjects.get(objectId);
+    const dropTarget = dropTargetId ? this.interactableObjects.get(dropTargetId) ?? null : null;
 
-    if (object && isValid && targetPosition) {
+    if (object && isValid && dropAction === 'move' && targetPosition) {
       // Animate to final position
       this.animateObjectToPosition(object, targetPosition);
       
       // Create undo command
-      const originalPosition = this.state.dragState.startPosition;
+      const originalPosition = startPosition.clone();
       const command: Command = {
         id: `move-${objectId}-${Date.now()}`,
         type: 'move',
@@ -359,14 +539,40 @@ export class InteractionManager {
       this.executeCommand(command);
     }
 
+    // The object stays put unless it moved; the ghost slides back to show where it returns to
+    if (ghostObject && (!isValid || dropAction !== 'move')) {
+      this.state.dragState.ghostObject = undefined;
+      gsap.to(ghostObject.position, {
+        duration: this.config.animationDuration,
+        x: startPosition.x,
+        y: startPosition.y,
+        z: startPosition.z,
+        ease: 'power2.inOut',
+        onComplete: () => {
+          ghostObject.parent?.remove(ghostObject);
+        }
+      });
+    }
+
     // Clean up drag state
     this.cleanupDrag();
     this.updateObjectState(objectId, 'idle');
 
+    if (isValid && dropAction === 'merge' && dropTarget) {
+      // Offer the merge; listeners confirm it (e.g. with a merge command)
+      this.emitEvent({
+        type: 'merge',
+        target: dropTarget,
+        data: { sourceId: objectId, targetId: dropTarget.interactionData.id, offered: true },
+        timestamp: Date.now(),
+        position: dropTarget.getWorldPosition(new THREE.Vector3())
+      });
+    }
+
     this.emitEvent({
       type: 'dragEnd',
       target: object || null,
-      data: { objectId, success: isValid },
+      data: { objectId, success: isValid, dropAction: isValid ? dropAction : null, dropTargetId },
       timestamp: Date.now(),
       position: this.mouse
     });
@@ -378,10 +584,15 @@ export class InteractionManager {
       filterState: { ...this.state.filterState, ...filterCriteria }
     });
 
-    // Apply filters to all objects
+    // Apply filters to all objects, leaving hover/selection untouched on visible ones
     this.interactableObjects.forEach((object, objectId) => {
       const shouldShow = this.evaluateFilter(object);
-      this.updateObjectState(objectId, shouldShow ? 'idle' : 'filtered');
+      const isFiltered = object.interactionData.state === 'filtered';
+      if (shouldShow && isFiltered) {
+        this.updateObjectState(objectId, 'idle');
+      } else if (!shouldShow && !isFiltered) {
+        this.updateObjectState(objectId, 'filtered');
+      }
     });
 
     this.emitEvent({
@@ -393,14 +604,28 @@ export class InteractionManager {
     });
   }
 
-  // Search objects
-  searchObjects(query: string, searchType: 'semantic' | 'exact' | 'fuzzy' = 'semantic'): void {
-    const results = this.performSearch(query, searchType);
+  // Reset every filter criterion and restore filtered objects
+  clearFilters(): void {
+    this.filterObjects(createDefaultFilterState());
+  }
+
+  // Active filter chips with match counts over the registered objects
+  getFilterSummary(): FilterSummary {
+    const targets = Array.from(this.interactableObjects.values(), object => object.interactionData)
+      .filter(data => data.capabilities.includes('filterable'));
+    return summarizeFilter(targets, this.state.filterState);
+  }
+
+  // Search objects; results are ranked best match first
+  searchObjects(query: string, searchType: SearchType = 'semantic', fields?: string[]): void {
+    const rankedResults = this.performSearch(query, searchType, fields);
+    const results = rankedResults.map(result => result.id);
     
     this.updateState({
       searchState: {
         query,
         results,
+        rankedResults,
         highlightedResults: new Set(results),
         searchType,
         isActive: true
@@ -413,12 +638,78 @@ export class InteractionManager {
     this.emitEvent({
       type: 'search',
       target: null,
-      data: { query, results, searchType },
+      data: { query, results, rankedResults, searchType },
       timestamp: Date.now(),
       position: this.mouse
     });
   }
 
+  // Frame the current selection
+  focusOnSelection(): boolean {
+    return this.frameObjects(Array.from(this.state.selectedObjects));
+  }
+
+  // Frame every visible object
+  frameAll(): boolean {
+    return this.frameObjects(Array.from(this.interactableObjects.keys()));
+  }
+
+  // Frame the object under the pointer
+  frameHovered(): boolean {
+    return this.state.hoveredObject ? this.frameObjects([this.state.hoveredObject]) : false;
+  }
+
+  // Animate the camera to fit the given objects, remembering the current view
+  frameObjects(objectIds: string[], padding?: number): boolean {
+    if (!this.camera) return false;
+
+    const objects = objectIds
+      .map(objectId => this.interactableObjects.get(objectId))
+      .filter((object): object is InteractableObject => !!object && object.interactionData.state !== 'filtered');
+    if (objects.length === 0) return false;
+
+    const bounds = boundsOfObjects(objects);
+    if (bounds.isEmpty()) return false;
+
+    const currentView = captureView(this.camera, this.getCameraTarget());
+    this.viewHistory.push(currentView);
+    if (this.viewHistory.length > MAX_VIEW_HISTORY) this.viewHistory.shift();
+
+    this.moveCamera(computeFramingView(this.camera, bounds, currentView.target, this.framingFov, padding));
+
+    this.emitEvent({
+      type: 'explore',
+      target: objects.length === 1 ? objects[0] : null,
+      data: { framedObjects: objects.map(object => object.interactionData.id) },
+      timestamp: Date.now(),
+      position: bounds.getCenter(new THREE.Vector3())
+    });
+    return true;
+  }
+
+  // Go back to the view before the last framing
+  restorePreviousView(): boolean {
+    const view = this.viewHistory.pop();
+    if (!view || !this.camera) return false;
+    this.moveCamera(view);
+    return true;
+  }
+
+  // Drop search results and their highlights
+  clearSearch(): void {
+    this.highlightSearchResults([]);
+    this.updateState({
+      searchState: {
+        query: '',
+        results: [],
+        rankedResults: [],
+        highlightedResults: new Set(),
+        searchType: this.state.searchState.searchType,
+        isActive: false
+      }
+    });
+  }
+
   // Update performance metrics
   updatePerformanceMetrics(frameTime: number): void {
     const currentTime = performance.now();
@@ -452,6 +743,10 @@ export class InteractionManager {
   dispose(): void {
     this.removeCanvasEventListeners();
     this.animationTimeline.kill();
+    this.cameraTween?.kill();
+    if (this.hoverPickTimer) clearTimeout(this.hoverPickTimer);
+    this.picker?.dispose();
+    this.picker = null;
     this.interactableObjects.clear();
     this.eventHandlers.clear();
     this.stateChangeHandlers.length = 0;
@@ -504,34 +799,7 @@ export class InteractionManager {
 
   private handleMouseMove(event: MouseEvent): void {
     this.updateMousePosition(event);
-    
-    const intersectedObject = this.getIntersectedObject();
-    
-    // Handle hover state changes
-    if (intersectedObject) {
-      if (this.state.hoveredObject !== intersectedObject.interactionData.id) {
-        // Clear previous hover
-        if (this.state.hoveredObject) {
-          this.updateObjectState(this.state.hoveredObject, 'idle');
-        }
-        
-        // Set new hover
-        this.state.hoveredObject = intersectedObject.interactionData.id;
-        this.updateObjectState(intersectedObject.interactionData.id, 'hovered');
-        
-        this.emitEvent({
-          type: 'hover',
-          target: intersectedObject,
-          data: { enter: true },
-          timestamp: Date.now(),
-          position: this.mouse
-        });
-      }
-    } else if (this.state.hoveredObject) {
-      // Clear hover
-      this.updateObjectState(this.state.hoveredObject, 'idle');
-      this.state.hoveredObject = null;
-    }
+    this.scheduleHoverPick();
 
     // Handle drag update
     if (this.state.dragState) {
@@ -542,6 +810,10 @@ export class InteractionManager {
 
   private handleClick(event: MouseEvent): void {
     event.preventDefault();
+    if (this.suppressNextClick) {
+      this.suppressNextClick = false;
+      return;
+    }
     this.interactionStartTime = performance.now();
     
     const intersectedObject = this.getIntersectedObject();
@@ -589,17 +861,68 @@ export class InteractionManager {
     const intersectedObject = this.getIntersectedObject();
     
     if (intersectedObject) {
-      this.emitEvent({
-        type: 'rightClick',
-        target: intersectedObject,
-        data: { objectId: intersectedObject.interactionData.id },
-        timestamp: Date.now(),
-        position: this.mouse
-      });
+      this.emitContextMenu(intersectedObject);
     }
   }
 
+  // Right-click, touch long press and the keyboard menu key all open the same menu
+  private emitContextMenu(target: InteractableObject): void {
+    this.emitEvent({
+      type: 'rightClick',
+      target,
+      data: { objectId: target.interactionData.id },
+      timestamp: Date.now(),
+      position: new THREE.Vector3(this.mouse.x, this.mouse.y, 0)
+    });
+  }
+
+  // Keyboard menu for the hovered object, else the first selected one
+  private openContextMenuFromKeyboard(): boolean {
+    const objectId = this.state.hoveredObject ?? this.state.selectedObjects.values().next().value;
+    const target = objectId ? this.interactableObjects.get(objectId) : undefined;
+    if (!target) return false;
+    this.emitContextMenu(target);
+    return true;
+  }
+
   private handleKeyDown(event: KeyboardEvent): void {
+    // Leave typing in form fields alone
+    const element = event.target as HTMLElement | null;
+    if (element && (element.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName))) {
+      return;
+    }
+
+    if (event.key === 'Escape' && this.state.marqueeState) {
+      event.preventDefault();
+      this.cancelMarquee();
+      return;
+    }
+
+    if (event.key === 'ContextMenu' || (event.key === 'F10' && event.shiftKey)) {
+      if (this.openContextMenuFromKeyboard()) event.preventDefault();
+      return;
+    }
+
+    // Camera framing shortcuts
+    if (!event.ctrlKey && !event.metaKey && !event.altKey) {
+      switch (event.key) {
+        case 'f':
+        case 'F':
+          if (this.focusOnSelection() || this.frameHovered()) event.preventDefault();
+          return;
+        case 'h':
+        case 'H':
+          if (this.frameHovered()) event.preventDefault();
+          return;
+        case 'Home':
+          if (this.frameAll()) event.preventDefault();
+          return;
+        case 'Backspace':
+          if (this.restorePreviousView()) event.preventDefault();
+          return;
+      }
+    }
+
     // Handle keyboard shortcuts
     if (event.ctrlKey || event.metaKey) {
       switch (event.key) {
@@ -634,6 +957,16 @@ export class InteractionManager {
 
   private handleTouchMove(event: TouchEvent): void {
     this.gestureRecognizer.handleTouchMove(event);
+
+    // Two fingers moving together trace a lasso
+    const lassoPath = this.gestureRecognizer.getLassoPath();
+    if (!lassoPath || !this.canvas) return;
+    const rect = this.canvas.getBoundingClientRect();
+    if (!this.state.marqueeState) {
+      this.startMarquee(clientToNdc(lassoPath[0].x, lassoPath[0].y, rect), 'replace', 'lasso');
+    }
+    const last = lassoPath[lassoPath.length - 1];
+    this.updateMarquee(clientToNdc(last.x, last.y, rect));
   }
 
   private handleTouchEnd(event: TouchEvent): void {
@@ -642,18 +975,38 @@ export class InteractionManager {
     if (gesture) {
       this.handleGesture(gesture);
     }
+    if (this.state.marqueeState?.shape === 'lasso' && gesture?.gesture !== 'lasso') {
+      this.cancelMarquee();
+    }
   }
 
+  // Mouse and pen presses on empty space draw a selection marquee in select mode,
+  // or in any mode while a selection modifier is held
   private handlePointerDown(event: PointerEvent): void {
-    // Unified pointer event handling
+    if (event.pointerType === 'touch' || event.button !== 0 || !this.canvas) return;
+
+    this.updateMousePosition(event);
+    if (this.getIntersectedObject()) return;
+
+    const modifier = selectionModifierFromEvent(event);
+    if (this.state.mode !== 'select' && modifier === 'replace') return;
+
+    this.marqueePointerId = event.pointerId;
+    this.canvas.setPointerCapture(event.pointerId);
+    this.startMarquee(clientToNdc(event.clientX, event.clientY, this.canvas.getBoundingClientRect()), modifier);
   }
 
   private handlePointerMove(event: PointerEvent): void {
-    // Unified pointer event handling
+    if (event.pointerId !== this.marqueePointerId || !this.canvas) return;
+    this.updateMarquee(clientToNdc(event.clientX, event.clientY, this.canvas.getBoundingClientRect()));
   }
 
   private handlePointerUp(event: PointerEvent): void {
-    // Unified pointer event handling
+    if (event.pointerId !== this.marqueePointerId || !this.canvas) return;
+    if (this.canvas.hasPointerCapture(event.pointerId)) {
+      this.canvas.releasePointerCapture(event.pointerId);
+    }
+    this.endMarquee();
   }
 
   private handleGesture(gesture: GestureData): void {
@@ -672,7 +1025,15 @@ export class InteractionManager {
         // Handle swipe for navigation
         break;
       case 'longPress':
-        // Handle long press for context menu
+        // Touch stand-in for right-click
+        if (gesture.position && this.canvas) {
+          this.mouse.copy(clientToNdc(gesture.position.x, gesture.position.y, this.canvas.getBoundingClientRect()));
+          const target = this.getIntersectedObject();
+          if (target) this.emitContextMenu(target);
+        }
+        break;
+      case 'lasso':
+        this.endMarquee();
         break;
     }
   }
@@ -686,30 +1047,54 @@ export class InteractionManager {
   }
 
   private getIntersectedObject(): InteractableObject | null {
-    if (!this.camera) return null;
+    return this.pickAt(this.mouse)?.object ?? null;
+  }
+
+  // Hover picks run at most once per hover delay, with a trailing pick for the last position
+  private scheduleHoverPick(): void {
+    const elapsed = performance.now() - this.lastHoverPickTime;
+    if (elapsed >= this.config.hoverDelay) {
+      this.updateHover();
+    } else if (!this.hoverPickTimer) {
+      this.hoverPickTimer = setTimeout(() => {
+        this.hoverPickTimer = null;
+        this.updateHover();
+      }, this.config.hoverDelay - elapsed);
+    }
+  }
 
-    this.raycaster.setFromCamera(this.mouse, this.camera);
-    const objects = Array.from(this.interactableObjects.values());
-    const intersects = this.raycaster.intersectObjects(objects, true);
-    
-    if (intersects.length > 0) {
-      // Find the closest interactable object
-      for (const intersect of intersects) {
-        let object = intersect.object;
-        while (object && !this.isInteractableObject(object)) {
-          object = object.parent;
-        }
-        if (object && this.isInteractableObject(object)) {
-          return object as InteractableObject;
+  private updateHover(): void {
+    this.lastHoverPickTime = performance.now();
+    const pick = this.pickAt(this.mouse);
+
+    // Handle hover state changes; instances of one mesh are hovered individually
+    if (pick) {
+      const objectId = pick.object.interactionData.id;
+      if (this.state.hoveredObject !== objectId || this.hoveredInstanceId !== pick.instanceId) {
+        // Clear previous hover
+        if (this.state.hoveredObject && this.state.hoveredObject !== objectId) {
+          this.updateObjectState(this.state.hoveredObject, 'idle');
         }
+        
+        // Set new hover
+        this.state.hoveredObject = objectId;
+        this.hoveredInstanceId = pick.instanceId;
+        this.updateObjectState(objectId, 'hovered');
+        
+        this.emitEvent({
+          type: 'hover',
+          target: pick.object,
+          data: { enter: true, instanceId: pick.instanceId },
+          timestamp: Date.now(),
+          position: this.mouse
+        });
       }
+    } else if (this.state.hoveredObject) {
+      // Clear hover
+      this.updateObjectState(this.state.hoveredObject, 'idle');
+      this.state.hoveredObject = null;
+      this.hoveredInstanceId = null;
     }
-    
-    return null;
-  }
-
-  private isInteractableObject(object: THREE.Object3D): boolean {
-    return 'interactionData' in object;
   }
 
   private screenToWorld(screenPosition: THREE.Vector2): THREE.Vector3 {
@@ -742,6 +1127,10 @@ export class InteractionManager {
   private animateStateTransition(object: InteractableObject, oldState: ObjectState, newState: ObjectState): void {
     // Animate visual state transitions
     const timeline = gsap.timeline();
+
+    if (oldState === 'filtered' && newState !== 'filtered') {
+      object.visible = true;
+    }
     
     switch (newState) {
       case 'hovered':
@@ -771,6 +1160,19 @@ export class InteractionManager {
           ease: 'power2.out'
         });
         break;
+      case 'filtered':
+        timeline.to(object.scale, {
+          duration: this.config.animationDuration,
+          x: 0,
+          y: 0,
+          z: 0,
+          ease: 'power2.in',
+          onComplete: () => {
+            // A later filter change may have restored the object meanwhile
+            if (object.interactionData.state === 'filtered') object.visible = false;
+          }
+        });
+        break;
     }
   }
 
@@ -799,12 +1201,50 @@ export class InteractionManager {
     this.state.dragState = null;
   }
 
-  private validateDropTarget(position: THREE.Vector3): void {
-    if (!this.state.dragState) return;
-    
-    // Implement drop target validation logic
-    this.state.dragState.isValid = true; // Simplified for now
-    this.state.dragState.targetPosition = position;
+  // Decide what dropping at this world position would do. Over another object the
+  // drop rules apply and the ghost locks onto it; in free space it moves (grid-snapped).
+  private validateDropTarget(position: THREE.Vector3): DragState {
+    const dragState = this.state.dragState!;
+    const dragged = this.interactableObjects.get(dragState.objectId);
+
+    const candidates = Array.from(this.interactableObjects.values()).filter(candidate =>
+      candidate !== dragged && candidate.visible && candidate.interactionData.state !== 'filtered'
+    );
+    const target = findNearestObject(position, candidates, this.config.snapRadius);
+
+    if (!dragged || !target) {
+      dragState.dropTargetId = null;
+      dragState.dropAction = 'move';
+      dragState.isValid = !!dragged;
+      dragState.targetPosition = this.toParentSpace(dragState.objectId, snapToGrid(position, this.config.snapGridSize));
+      return dragState;
+    }
+
+    const action = resolveDropAction(dragged, target);
+    dragState.dropTargetId = target.interactionData.id;
+    dragState.dropAction = action;
+    dragState.isValid = action !== null;
+    dragState.targetPosition = action
+      ? this.toParentSpace(dragState.objectId, target.getWorldPosition(new THREE.Vector3()))
+      : null;
+    return dragState;
+  }
+
+  // World position expressed in the coordinates of the object's parent
+  private toParentSpace(objectId: string, worldPosition: THREE.Vector3): THREE.Vector3 {
+    const parent = this.interactableObjects.get(objectId)?.parent;
+    return parent ? parent.worldToLocal(worldPosition.clone()) : worldPosition.clone();
+  }
+
+  private tintDragGhost(ghost: THREE.Object3D, isValid: boolean): void {
+    const color = isValid ? VALID_DROP_COLOR : INVALID_DROP_COLOR;
+    ghost.traverse(child => {
+      const material = (child as THREE.Mesh).material as THREE.MeshStandardMaterial | undefined;
+      if (material && 'color' in material) {
+        material.color.copy(color);
+        if (material.emissive) material.emissive.copy(color).multiplyScalar(0.3);
+      }
+    });
   }
 
   private animateObjectToPosition(object: InteractableObject, targetPosition: THREE.Vector3): void {
@@ -818,25 +1258,19 @@ export class InteractionManager {
   }
 
   private evaluateFilter(object: InteractableObject): boolean {
-    // Implement filter evaluation logic
-    return true; // Simplified for now
+    if (!object.interactionData.capabilities.includes('filterable')) return true;
+    return evaluateFilter(object.interactionData, this.state.filterState);
   }
 
-  private performSearch(query: string, searchType: string): string[] {
-    // Implement search logic
-    const results: string[] = [];
-    
-    this.interactableObjects.forEach((object, objectId) => {
-      // Simple text matching for now
-      const metadata = object.interactionData.metadata;
-      const searchText = JSON.stringify(metadata).toLowerCase();
-      
-      if (searchText.includes(query.toLowerCase())) {
-        results.push(objectId);
-      }
-    });
-    
-    return results;
+  private performSearch(query: string, searchType: SearchType, fields?: string[]): SearchResult[] {
+    if (!this.searchIndex) {
+      this.searchIndex = new SearchIndex(Array.from(this.interactableObjects.values(), object => object.interactionData));
+    }
+
+    // Filtered objects stay out of the results
+    return this.searchIndex
+      .search(query, searchType, { fields })
+      .filter(result => this.interactableObjects.get(result.id)?.interactionData.state !== 'filtered');
   }
 
   private highlightSearchResults(results: string[]): void {
@@ -847,12 +1281,33 @@ export class InteractionManager {
       }
     });
     
-    // Highlight new results
-    results.forEach(objectId => {
+    // Highlight new results, best match first
+    results.forEach((objectId, rank) => {
+      const object = this.interactableObjects.get(objectId);
+      if (!object || object.interactionData.state === 'selected') return;
       this.updateObjectState(objectId, 'highlighted');
+      gsap.fromTo(object.scale, { x: 1, y: 1, z: 1 }, {
+        duration: this.config.animationDuration,
+        delay: rank * SEARCH_HIGHLIGHT_STAGGER,
+        x: 1.15,
+        y: 1.15,
+        z: 1.15,
+        ease: 'back.out(2)'
+      });
     });
   }
 
+  // Selectable, visible objects whose centre lies inside the marquee outline
+  private getObjectsInMarquee(shape: MarqueeShape, path: THREE.Vector2[]): string[] {
+    if (!this.camera) return [];
+    const candidates = Array.from(this.interactableObjects.values()).filter(object =>
+      object.visible &&
+      object.interactionData.state !== 'filtered' &&
+      object.interactionData.capabilities.includes('selectable')
+    );
+    return objectsInPolygon(candidates, this.camera, marqueePolygon(shape, path));
+  }
+
   private selectAllVisible(): void {
     this.interactableObjects.forEach((object, objectId) => {
       if (object.interactionData.state !== 'filtered') {
@@ -861,12 +1316,22 @@ export class InteractionManager {
     });
   }
 
-  private focusOnSelection(): void {
-    // Implement camera focus on selected objects
-    if (this.state.selectedObjects.size > 0) {
-      // Calculate bounding box of selected objects
-      // Animate camera to focus on them
-    }
+  private getCameraTarget(): THREE.Vector3 {
+    return this.cameraControls?.target ?? this.cameraTarget;
+  }
+
+  private moveCamera(view: CameraView): void {
+    if (!this.camera) return;
+
+    this.cameraTween?.kill();
+    const from = captureView(this.camera, this.getCameraTarget());
+    this.cameraTween = animateCameraTo(this.camera, from, view, CAMERA_FRAMING_DURATION, (target) => {
+      this.cameraTarget.copy(target);
+      if (this.cameraControls) {
+        this.cameraControls.target.copy(target);
+        this.cameraControls.update();
+      }
+    });
   }
 
   private setupAccessibilityForObject(object: InteractableObject): void {
@@ -913,19 +1378,40 @@ class GestureRecognizer {
   private startTime: number = 0;
   private startDistance: number = 0;
   private startAngle: number = 0;
+  private twoFingerPath: THREE.Vector2[] = []; // Midpoint between the fingers, client pixels
 
   handleTouchStart(event: TouchEvent): void {
     this.startTouches = Array.from(event.touches);
     this.startTime = Date.now();
+    this.twoFingerPath = [];
     
     if (this.startTouches.length === 2) {
       this.startDistance = this.getTouchDistance(this.startTouches[0], this.startTouches[1]);
       this.startAngle = this.getTouchAngle(this.startTouches[0], this.startTouches[1]);
+      this.twoFingerPath.push(this.getTouchMidpoint(this.startTouches[0], this.startTouches[1]));
     }
   }
 
   handleTouchMove(event: TouchEvent): void {
     this.currentTouches = Array.from(event.touches);
+
+    if (this.startTouches.length === 2 && this.currentTouches.length === 2) {
+      this.twoFingerPath.push(this.getTouchMidpoint(this.currentTouches[0], this.currentTouches[1]));
+    }
+  }
+
+  // Two fingers that travel together without pinching trace a lasso
+  getLassoPath(): THREE.Vector2[] | null {
+    if (this.startTouches.length !== 2 || this.currentTouches.length !== 2) return null;
+
+    const scale = this.getTouchDistance(this.currentTouches[0], this.currentTouches[1]) / this.startDistance;
+    if (Math.abs(scale - 1) > LASSO_MAX_PINCH) return null;
+
+    let travel = 0;
+    for (let i = 1; i < this.twoFingerPath.length; i++) {
+      travel += this.twoFingerPath[i].distanceTo(this.twoFingerPath[i - 1]);
+    }
+    return travel >= LASSO_MIN_TRAVEL ? this.twoFingerPath : null;
   }
 
   handleTouchEnd(event: TouchEvent): GestureData | null {
@@ -938,19 +1424,23 @@ class GestureRecognizer {
       const deltaY = this.currentTouches[0]?.clientY - this.startTouches[0].clientY || 0;
       const distance = Math.sqrt(deltaX * deltaX + deltaY * deltaY);
       
+      const position = new THREE.Vector2(this.startTouches[0].clientX, this.startTouches[0].clientY);
+
       if (duration < 300 && distance < 10) {
         return {
           gesture: 'tap',
           touches: 1,
           deltaX: 0,
-          deltaY: 0
+          deltaY: 0,
+          position
         };
       } else if (duration > 500 && distance < 10) {
         return {
           gesture: 'longPress',
           touches: 1,
           deltaX: 0,
-          deltaY: 0
+          deltaY: 0,
+          position
         };
       } else if (distance > 50) {
         const velocity = distance / duration;
@@ -972,6 +1462,19 @@ class GestureRecognizer {
         }
       }
     } else if (this.startTouches.length === 2) {
+      const lassoPath = this.getLassoPath();
+      if (lassoPath) {
+        // Lifting the second finger must not end the gesture again
+        this.startTouches = [];
+        return {
+          gesture: 'lasso',
+          touches: 2,
+          deltaX: lassoPath[lassoPath.length - 1].x - lassoPath[0].x,
+          deltaY: lassoPath[lassoPath.length - 1].y - lassoPath[0].y,
+          path: lassoPath
+        };
+      }
+
       const currentDistance = this.getTouchDistance(this.currentTouches[0], this.currentTouches[1]);
       const currentAngle = this.getTouchAngle(this.currentTouches[0], this.currentTouches[1]);
       
@@ -997,6 +1500,10 @@ class GestureRecognizer {
     return Math.sqrt(deltaX * deltaX + deltaY * deltaY);
   }
 
+  private getTouchMidpoint(touch1: Touch, touch2: Touch): THREE.Vector2 {
+    return new THREE.Vector2((touch1.clientX + touch2.clientX) / 2, (touch1.clientY + touch2.clientY) / 2);
+  }
+
   private getTouchAngle(touch1: Touch, touch2: Touch): number {
     const deltaX = touch2.clientX - touch1.clientX;
     const deltaY = touch2.clientY - touch1.clientY;
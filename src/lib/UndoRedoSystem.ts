@@ -3,6 +3,8 @@
 import { EventEmitter } from 'events';
 import * as THREE from 'three';
 import { InteractionCommand, Interactive3DObject } from '@/types/interactions';
+import { CommandRegistry } from '@/lib/commandRegistry';
+import { PersistedHistory, deleteHistory, loadHistory, saveHistory } from '@/lib/historyStorage';
 
 // Enhanced command types for complex operations
 export interface BaseCommand {
@@ -51,9 +53,28 @@ export interface StateSnapshot {
     commandId: string;
     userAction: string;
     complexity: number;
+    nodeId: string | null; // History node whose state this is; null for the initial state
   };
 }
 
+// A point in the history tree. Its command leads from the parent's state to its own;
+// commands run after an undo start a sibling branch instead of discarding the redo path.
+export interface HistoryNode {
+  id: string;
+  command: ExecutableCommand;
+  parentId: string | null; // null for commands run from the initial state
+  childIds: string[];
+  activeChildId: string | null; // The branch redo follows
+}
+
+export interface HistoryTreeEntry {
+  node: HistoryNode;
+  branchDepth: number; // 0 on the first branch, +1 for each later sibling branch
+  status: 'applied' | 'redo' | 'branch';
+}
+
+type BranchPoint = Pick<HistoryNode, 'childIds' | 'activeChildId'>;
+
 // Macro command for complex operations
 export interface MacroCommand extends BaseCommand {
   commands: ExecutableCommand[];
@@ -73,11 +94,27 @@ export interface UndoRedoConfig {
   enableMacros: boolean;
   compressionThreshold: number;
   persistToDisk: boolean;
+  persistenceKey: string; // IndexedDB record for this history
   batchSize: number;
 }
 
+// History entry for a macro: runs and undoes all of its steps at once
+export const macroToExecutable = (macro: MacroCommand): ExecutableCommand => ({
+  ...macro,
+  execute: macro.executeAll.bind(macro),
+  undo: macro.undoAll.bind(macro),
+  canExecute: macro.canExecuteAll.bind(macro),
+  canUndo: macro.canUndoAll.bind(macro)
+});
+
+// History changes are written once they settle
+const PERSIST_DELAY = 500;
+
 export class UndoRedoSystem extends EventEmitter {
-  private commands: ExecutableCommand[] = [];
+  private nodes: Map<string, HistoryNode> = new Map();
+  private root: BranchPoint = { childIds: [], activeChildId: null };
+  // Root-to-tip path through the tree that undo and redo walk; currentIndex points into it
+  private branch: HistoryNode[] = [];
   private snapshots: StateSnapshot[] = [];
   private currentIndex: number = -1;
   private snapshotIndex: number = -1;
@@ -87,6 +124,9 @@ export class UndoRedoSystem extends EventEmitter {
   private pendingCommands: ExecutableCommand[] = [];
   private executing: boolean = false;
   private objectRegistry: Map<string, Interactive3DObject> = new Map();
+  private commandRegistry: CommandRegistry | null = null;
+  private persistenceEnabled: boolean = false;
+  private persistTimer: NodeJS.Timeout | null = null;
 
   constructor(config: Partial<UndoRedoConfig> = {}) {
     super();
@@ -100,6 +140,7 @@ export class UndoRedoSystem extends EventEmitter {
       enableMacros: true,
       compressionThreshold: 50,
       persistToDisk: false,
+      persistenceKey: 'undo-history',
       batchSize: 10,
       ...config
     };
@@ -111,6 +152,10 @@ export class UndoRedoSystem extends EventEmitter {
     // Handle memory cleanup
     this.on('historyChanged', this.cleanupHistory.bind(this));
     this.on('snapshotCreated', this.cleanupSnapshots.bind(this));
+
+    // Persist every change to the history once persistence is enabled
+    const schedulePersist = this.schedulePersist.bind(this);
+    ['historyChanged', 'historyCleared', 'groupUndone', 'groupRedone'].forEach(event => this.on(event, schedulePersist));
   }
 
   // Command execution with enhanced features
@@ -142,9 +187,6 @@ export class UndoRedoSystem extends EventEmitter {
         await this.createSnapshot(command);
       }
 
-      // Clear redo history
-      this.clearRedoHistory();
-
       // Execute the command
       await command.execute();
 
@@ -274,15 +316,7 @@ export class UndoRedoSystem extends EventEmitter {
       await macro.executeAll();
 
       // Add macro as a single command to history
-      const macroCommand: ExecutableCommand = {
-        ...macro,
-        execute: macro.executeAll.bind(macro),
-        undo: macro.undoAll.bind(macro),
-        canExecute: macro.canExecuteAll.bind(macro),
-        canUndo: macro.canUndoAll.bind(macro)
-      };
-
-      this.addCommandToHistory(macroCommand);
+      this.addCommandToHistory(macroToExecutable(macro));
 
       this.emit('macroExecuted', macro);
       this.emit('historyChanged');
@@ -315,7 +349,8 @@ export class UndoRedoSystem extends EventEmitter {
       metadata: {
         commandId: command.id,
         userAction: command.type,
-        complexity: this.calculateCommandComplexity(command)
+        complexity: this.calculateCommandComplexity(command),
+        nodeId: this.getCurrentNodeId()
       }
     };
 
@@ -347,23 +382,7 @@ export class UndoRedoSystem extends EventEmitter {
 
     try {
       const snapshot = this.snapshots[this.snapshotIndex];
-
-      // Restore object states
-      snapshot.objectStates.forEach((state, objectId) => {
-        const object = this.objectRegistry.get(objectId);
-        if (object) {
-          object.position.copy(state.position);
-          object.rotation.copy(state.rotation);
-          object.scale.copy(state.scale);
-          object.visible = state.visible;
-          object.opacity = state.opacity;
-          object.state = state.state as any;
-          object.data = this.deepClone(state.data);
-        }
-      });
-
-      // Restore scene state
-      // This would need to be implemented based on your scene structure
+      this.applySnapshot(snapshot);
 
       this.emit('snapshotRestored', snapshot);
       return true;
@@ -375,6 +394,25 @@ export class UndoRedoSystem extends EventEmitter {
     }
   }
 
+  private applySnapshot(snapshot: StateSnapshot): void {
+    // Restore object states
+    snapshot.objectStates.forEach((state, objectId) => {
+      const object = this.objectRegistry.get(objectId);
+      if (object) {
+        object.position.copy(state.position);
+        object.rotation.copy(state.rotation);
+        object.scale.copy(state.scale);
+        object.visible = state.visible;
+        object.opacity = state.opacity;
+        object.state = state.state as any;
+        object.data = this.deepClone(state.data);
+      }
+    });
+
+    // Restore scene state
+    // This would need to be implemented based on your scene structure
+  }
+
   // Command grouping and merging
   private shouldMergeCommand(command: ExecutableCommand): boolean {
     if (!this.config.enableMerging || this.commands.length === 0) return false;
@@ -382,6 +420,9 @@ export class UndoRedoSystem extends EventEmitter {
     const lastCommand = this.commands[this.currentIndex];
     if (!lastCommand || !lastCommand.merge) return false;
 
+    // Merging into a node would change the starting state of the branches below it
+    if (this.branch[this.currentIndex].childIds.length > 0) return false;
+
     // Check if commands are of the same type and can be merged
     return lastCommand.type === command.type && 
            (Date.now() - lastCommand.timestamp) < this.config.autoGroupTimeout;
@@ -393,7 +434,7 @@ export class UndoRedoSystem extends EventEmitter {
 
     const merged = lastCommand.merge(command);
     if (merged) {
-      this.commands[this.currentIndex] = merged;
+      this.branch[this.currentIndex].command = merged;
       return merged;
     }
 
@@ -469,28 +510,91 @@ export class UndoRedoSystem extends EventEmitter {
   }
 
   // Helper methods
-  private addCommandToHistory(command: ExecutableCommand): void {
-    // Remove commands after current index
-    this.commands = this.commands.slice(0, this.currentIndex + 1);
-    
-    // Add new command
-    this.commands.push(command);
-    this.currentIndex++;
-
-    // Limit history size
-    if (this.commands.length > this.config.maxHistorySize) {
-      const removeCount = this.commands.length - this.config.maxHistorySize;
-      this.commands.splice(0, removeCount);
-      this.currentIndex -= removeCount;
+  private get commands(): ExecutableCommand[] {
+    return this.branch.map(node => node.command);
+  }
+
+  private branchPoint(nodeId: string | null): BranchPoint {
+    return nodeId === null ? this.root : this.nodes.get(nodeId)!;
+  }
+
+  // Nodes from the initial state down to the given node
+  private pathTo(nodeId: string | null): HistoryNode[] {
+    const path: HistoryNode[] = [];
+    for (let node = nodeId === null ? undefined : this.nodes.get(nodeId); node; node = node.parentId === null ? undefined : this.nodes.get(node.parentId)) {
+      path.unshift(node);
+    }
+    return path;
+  }
+
+  // Makes the branch run through the given node, continuing along each node's active child
+  private setBranch(nodeId: string | null): void {
+    const path = this.pathTo(nodeId);
+    let parent: BranchPoint = this.root;
+    path.forEach(node => {
+      parent.activeChildId = node.id;
+      parent = node;
+    });
+
+    for (let next = parent.activeChildId; next; next = this.nodes.get(next)!.activeChildId) {
+      path.push(this.nodes.get(next)!);
     }
+    this.branch = path;
+  }
+
+  private addCommandToHistory(command: ExecutableCommand): void {
+    // A command run after an undo starts a new branch; the redo path stays in the tree
+    const node = this.createNode(command, this.getCurrentNodeId());
+    this.setBranch(node.id);
+    this.currentIndex = this.branch.length - 1;
+
+    this.pruneHistory();
   }
 
-  private clearRedoHistory(): void {
-    if (this.currentIndex < this.commands.length - 1) {
-      this.commands = this.commands.slice(0, this.currentIndex + 1);
+  // Limit history size by dropping the oldest applied command and the branches that start before it
+  private pruneHistory(): void {
+    while (this.nodes.size > this.config.maxHistorySize && this.currentIndex >= 0) {
+      const oldest = this.branch[0];
+      this.root.childIds.filter(id => id !== oldest.id).forEach(id => this.removeSubtree(id));
+
+      this.nodes.delete(oldest.id);
+      oldest.childIds.forEach(id => {
+        this.nodes.get(id)!.parentId = null;
+      });
+      this.root = { childIds: oldest.childIds, activeChildId: oldest.activeChildId };
+      this.branch.shift();
+      this.currentIndex--;
+
+      // The oldest command's state becomes the initial state
+      this.snapshots = this.snapshots
+        .filter(snapshot => snapshot.metadata.nodeId !== null)
+        .map(snapshot => snapshot.metadata.nodeId === oldest.id
+          ? { ...snapshot, metadata: { ...snapshot.metadata, nodeId: null } }
+          : snapshot);
+      this.snapshotIndex = Math.min(this.snapshotIndex, this.snapshots.length - 1);
     }
   }
 
+  private createNode(
+    command: ExecutableCommand,
+    parentId: string | null,
+    id: string = `node-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+  ): HistoryNode {
+    const node: HistoryNode = { id, command, parentId, childIds: [], activeChildId: null };
+    this.nodes.set(id, node);
+    const parent = this.branchPoint(parentId);
+    parent.childIds.push(id);
+    parent.activeChildId = parent.activeChildId ?? id;
+    return node;
+  }
+
+  private removeSubtree(nodeId: string): void {
+    const node = this.nodes.get(nodeId);
+    if (!node) return;
+    node.childIds.forEach(childId => this.removeSubtree(childId));
+    this.nodes.delete(nodeId);
+  }
+
   private shouldCreateSnapshot(command: ExecutableCommand): boolean {
     if (!this.config.enableSnapshots) return false;
     
@@ -538,27 +642,30 @@ export class UndoRedoSystem extends EventEmitter {
   }
 
   private compressHistory(): void {
-    // Merge adjacent similar commands to save memory
-    const compressed: ExecutableCommand[] = [];
-    
-    for (let i = 0; i < this.commands.length; i++) {
-      const current = this.commands[i];
-      const next = this.commands[i + 1];
-      
-      if (next && current.merge && current.type === next.type) {
-        const merged = current.merge(next);
+    // Merge applied commands into their predecessor to save memory, where nothing branches off between them
+    for (let i = 0; i < this.currentIndex;) {
+      const current = this.branch[i];
+      const next = this.branch[i + 1];
+
+      if (current.childIds.length === 1 && current.command.merge && current.command.type === next.command.type) {
+        const merged = current.command.merge(next.command);
         if (merged) {
-          compressed.push(merged);
-          i++; // Skip next command as it's been merged
-          continue;
+          current.command = merged;
+          current.childIds = next.childIds;
+          current.activeChildId = next.activeChildId;
+          next.childIds.forEach(id => {
+            this.nodes.get(id)!.parentId = current.id;
+          });
+          this.snapshots = this.snapshots.filter(snapshot => snapshot.metadata.nodeId !== next.id);
+          this.snapshotIndex = Math.min(this.snapshotIndex, this.snapshots.length - 1);
+          this.nodes.delete(next.id);
+          this.branch.splice(i + 1, 1);
+          this.currentIndex--;
+          continue; // The merged command may absorb the next one too
         }
       }
-      
-      compressed.push(current);
+      i++;
     }
-    
-    this.commands = compressed;
-    this.currentIndex = Math.min(this.currentIndex, this.commands.length - 1);
   }
 
   private deepClone(obj: unknown): unknown {
@@ -596,10 +703,260 @@ export class UndoRedoSystem extends EventEmitter {
     return this.currentIndex;
   }
 
+  // History tree: null is the initial state, before any command
+  public getCurrentNodeId(): string | null {
+    return this.branch[this.currentIndex]?.id ?? null;
+  }
+
+  public getHistoryNodes(): HistoryNode[] {
+    return Array.from(this.nodes.values());
+  }
+
+  // Every node in depth-first order; later siblings are indented one branch deeper
+  public getHistoryTree(): HistoryTreeEntry[] {
+    const applied = new Set(this.branch.slice(0, this.currentIndex + 1).map(node => node.id));
+    const onBranch = new Set(this.branch.map(node => node.id));
+    const entries: HistoryTreeEntry[] = [];
+
+    const visit = (childIds: string[], branchDepth: number) => {
+      childIds.forEach((id, index) => {
+        const node = this.nodes.get(id)!;
+        const depth = branchDepth + (index > 0 ? 1 : 0);
+        entries.push({ node, branchDepth: depth, status: applied.has(id) ? 'applied' : onBranch.has(id) ? 'redo' : 'branch' });
+        visit(node.childIds, depth);
+      });
+    };
+    visit(this.root.childIds, 0);
+
+    return entries;
+  }
+
+  // Moves to any node by undoing up to the common ancestor and redoing down to the target.
+  // With snapshots enabled, a saved state on the target's path can replace the walk when
+  // fewer commands remain to be redone from it.
+  public async jumpToNode(targetId: string | null): Promise<boolean> {
+    if (this.executing || (targetId !== null && !this.nodes.has(targetId))) return false;
+
+    const targetPath = this.pathTo(targetId);
+    const currentPath = this.branch.slice(0, this.currentIndex + 1);
+    let common = 0;
+    while (common < targetPath.length && common < currentPath.length && targetPath[common] === currentPath[common]) {
+      common++;
+    }
+    const walkLength = currentPath.length - common + targetPath.length - common;
+    if (walkLength === 0) return true;
+
+    try {
+      this.executing = true;
+      let start = common;
+
+      const shortcut = this.findSnapshotOnPath(targetPath, walkLength);
+      if (shortcut) {
+        this.applySnapshot(shortcut.snapshot);
+        this.emit('snapshotRestored', shortcut.snapshot);
+        start = shortcut.depth;
+      } else {
+        for (let i = currentPath.length - 1; i >= common; i--) {
+          const command = currentPath[i].command;
+          if (!command.canUndo()) {
+            throw new Error(`Command ${command.id} cannot be undone`);
+          }
+          await command.undo();
+          this.currentIndex--;
+        }
+      }
+
+      this.setBranch(targetId);
+      this.currentIndex = start - 1;
+
+      for (let i = start; i < targetPath.length; i++) {
+        const command = this.branch[i].command;
+        if (!command.canExecute()) {
+          throw new Error(`Command ${command.id} cannot be redone`);
+        }
+        if (command.redo) {
+          await command.redo();
+        } else {
+          await command.execute();
+        }
+        this.currentIndex = i;
+      }
+
+      this.emit('historyJumped', targetId);
+      return true;
+
+    } catch (error) {
+      this.emit('jumpError', { targetId, error });
+      console.error('History jump failed:', error);
+      return false;
+
+    } finally {
+      this.executing = false;
+      this.emit('historyChanged');
+    }
+  }
+
+  // Deepest node on the path whose state was captured, if redoing from it beats the walk
+  private findSnapshotOnPath(path: HistoryNode[], walkLength: number): { snapshot: StateSnapshot; depth: number } | null {
+    if (!this.config.enableSnapshots) return null;
+
+    for (let depth = path.length; path.length - depth < walkLength; depth--) {
+      const nodeId = depth > 0 ? path[depth - 1].id : null;
+      const snapshot = [...this.snapshots].reverse().find(candidate => candidate.metadata.nodeId === nodeId);
+      if (snapshot) return { snapshot, depth };
+      if (depth === 0) break;
+    }
+    return null;
+  }
+
   public getSnapshots(): StateSnapshot[] {
     return [...this.snapshots];
   }
 
+  // Persistence: commands are stored through the registry's serializers
+  public setCommandRegistry(registry: CommandRegistry): void {
+    this.commandRegistry = registry;
+  }
+
+  // Restores the saved history, then saves every later change. Call once the state the
+  // commands edit has loaded. Returns the number of restored commands.
+  public async enablePersistence(registry: CommandRegistry, replay: boolean = true): Promise<number> {
+    this.commandRegistry = registry;
+    if (!this.config.persistToDisk || this.persistenceEnabled) return 0;
+
+    let restored = 0;
+    try {
+      const persisted = await loadHistory(this.config.persistenceKey);
+      // The history may have been discarded while it was loading
+      if (this.persistenceEnabled) return 0;
+      if (persisted) restored = await this.restoreHistory(persisted, replay);
+    } catch (error) {
+      console.warn('Could not restore undo history:', error);
+    }
+
+    this.persistenceEnabled = true;
+    return restored;
+  }
+
+  // Starts over when the state the commands edit is replaced (e.g. a new dataset): the saved
+  // history is deleted as well, and is no longer restored by enablePersistence
+  public discardHistory(): void {
+    if (this.config.persistToDisk) this.persistenceEnabled = true;
+    this.clear();
+  }
+
+  // Only an unbroken run of serializable commands around the current position can be restored
+  public serializeHistory(): PersistedHistory | null {
+    const registry = this.commandRegistry;
+    if (!registry) return null;
+
+    const serialized = this.commands.map(command => registry.serialize(command));
+    let start = this.currentIndex + 1;
+    while (start > 0 && serialized[start - 1]) start--;
+    let end = this.currentIndex + 1;
+    while (end < serialized.length && serialized[end]) end++;
+
+    // Other branches are kept where they hang off a kept node
+    const kept = new Set(this.branch.slice(start, end).map(node => node.id));
+    const branches: PersistedHistory['branches'] = [];
+    this.nodes.forEach(node => {
+      if (kept.has(node.id)) return;
+      const parentKept = node.parentId === null ? start === 0 : kept.has(node.parentId);
+      const command = parentKept ? registry.serialize(node.command) : null;
+      if (!command) return;
+      kept.add(node.id);
+      branches.push({ id: node.id, parentId: node.parentId, command });
+    });
+
+    return {
+      version: 1,
+      savedAt: Date.now(),
+      currentIndex: this.currentIndex - start,
+      commands: serialized.slice(start, end) as PersistedHistory['commands'],
+      nodeIds: this.branch.slice(start, end).map(node => node.id),
+      branches
+    };
+  }
+
+  // Scene state is rebuilt from its source on reload, so commands up to the saved position
+  // are replayed unless the state already has them; restoring stops at the first command
+  // that can't be rebuilt or re-run
+  public async restoreHistory(persisted: PersistedHistory, replay: boolean = true): Promise<number> {
+    const registry = this.commandRegistry;
+    if (!registry) throw new Error('A command registry is required to restore history');
+
+    const restored: ExecutableCommand[] = [];
+    for (let i = 0; i < persisted.commands.length; i++) {
+      const command = registry.deserialize(persisted.commands[i]);
+      if (!command) break;
+
+      if (replay && i <= persisted.currentIndex) {
+        if (!command.canExecute()) break;
+        await command.execute();
+      }
+      restored.push(command);
+    }
+
+    this.nodes.clear();
+    this.root = { childIds: [], activeChildId: null };
+    this.branch = [];
+    restored.forEach((command, index) => {
+      const parentId = index > 0 ? this.branch[index - 1].id : null;
+      this.branch.push(this.createNode(command, parentId, persisted.nodeIds?.[index]));
+    });
+
+    // Other branches come back as they were; they are only run when jumped to
+    persisted.branches?.forEach(({ id, parentId: branchParentId, command: serialized }) => {
+      if (this.nodes.has(id) || (branchParentId !== null && !this.nodes.has(branchParentId))) return;
+      const command = registry.deserialize(serialized);
+      if (command) this.createNode(command, branchParentId, id);
+    });
+
+    // Keep siblings in the order they were created
+    const byTimestamp = (a: string, b: string) => this.nodes.get(a)!.command.timestamp - this.nodes.get(b)!.command.timestamp;
+    this.root.childIds.sort(byTimestamp);
+    this.nodes.forEach(node => node.childIds.sort(byTimestamp));
+
+    this.currentIndex = Math.min(persisted.currentIndex, restored.length - 1);
+    this.emit('historyRestored', restored.length);
+    this.emit('historyChanged');
+    return restored.length;
+  }
+
+  private schedulePersist(): void {
+    if (!this.persistenceEnabled) return;
+
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+    }
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.persist();
+    }, PERSIST_DELAY);
+  }
+
+  // Saves a pending change now, e.g. before the page unloads
+  public flushPersistence(): void {
+    if (!this.persistTimer) return;
+    clearTimeout(this.persistTimer);
+    this.persistTimer = null;
+    this.persist();
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      const history = this.serializeHistory();
+      if (history && history.commands.length > 0) {
+        await saveHistory(this.config.persistenceKey, history);
+      } else {
+        await deleteHistory(this.config.persistenceKey);
+      }
+    } catch (error) {
+      this.emit('persistError', error);
+      console.warn('Could not save undo history:', error);
+    }
+  }
+
   public registerObject(id: string, object: Interactive3DObject): void {
     this.objectRegistry.set(id, object);
   }
@@ -609,7 +966,9 @@ export class UndoRedoSystem extends EventEmitter {
   }
 
   public clear(): void {
-    this.commands = [];
+    this.nodes.clear();
+    this.root = { childIds: [], activeChildId: null };
+    this.branch = [];
     this.snapshots = [];
     this.currentIndex = -1;
     this.snapshotIndex = -1;
@@ -646,7 +1005,7 @@ export class UndoRedoSystem extends EventEmitter {
     let usage = 0;
     
     // Commands
-    usage += this.commands.length * 1000; // Rough estimate per command
+    usage += this.nodes.size * 1000; // Rough estimate per command
     
     // Snapshots
     this.snapshots.forEach(snapshot => {
@@ -657,6 +1016,9 @@ export class UndoRedoSystem extends EventEmitter {
   }
 
   public destroy(): void {
+    // Tearing down must not wipe the saved history
+    this.flushPersistence();
+    this.persistenceEnabled = false;
     this.clear();
     this.objectRegistry.clear();
     this.removeAllListeners();
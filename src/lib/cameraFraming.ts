@@ -0,0 +1,127 @@
+import * as THREE from 'three';
+import { gsap } from 'gsap';
+
+// Snapshot of where the camera is and what it looks at
+export interface CameraView {
+  position: THREE.Vector3;
+  target: THREE.Vector3;
+  fov: number | null; // Perspective cameras
+  zoom: number;
+}
+
+// Orbit-style controls (drei/three OrbitControls) that own the camera target
+export interface CameraControlsLike {
+  target: THREE.Vector3;
+  update: () => void;
+  enabled?: boolean;
+}
+
+export const DEFAULT_FRAMING_PADDING = 1.25;
+
+// Framing a single point or a tiny object still keeps some context around it
+const MIN_FRAMING_RADIUS = 1;
+
+const isPerspective = (camera: THREE.Camera): camera is THREE.PerspectiveCamera =>
+  (camera as THREE.PerspectiveCamera).isPerspectiveCamera === true;
+
+const isOrthographic = (camera: THREE.Camera): camera is THREE.OrthographicCamera =>
+  (camera as THREE.OrthographicCamera).isOrthographicCamera === true;
+
+export const captureView = (camera: THREE.Camera, target: THREE.Vector3): CameraView => ({
+  position: camera.position.clone(),
+  target: target.clone(),
+  fov: isPerspective(camera) ? camera.fov : null,
+  zoom: isPerspective(camera) || isOrthographic(camera) ? camera.zoom : 1
+});
+
+// Point the camera would look at when nothing else says so: straight ahead, at the origin's depth
+export const defaultTarget = (camera: THREE.Camera): THREE.Vector3 => {
+  const forward = camera.getWorldDirection(new THREE.Vector3());
+  const depth = Math.max(camera.position.length(), 1);
+  return camera.position.clone().addScaledVector(forward, depth);
+};
+
+// Combined world bounds of the given objects; empty when none have geometry
+export const boundsOfObjects = (objects: THREE.Object3D[]): THREE.Box3 => {
+  const bounds = new THREE.Box3();
+  objects.forEach(object => {
+    const objectBounds = new THREE.Box3().setFromObject(object);
+    if (objectBounds.isEmpty()) objectBounds.expandByPoint(object.getWorldPosition(new THREE.Vector3()));
+    bounds.union(objectBounds);
+  });
+  return bounds;
+};
+
+// View that fits the bounds on screen, approaching from the current viewing direction
+export const computeFramingView = (
+  camera: THREE.Camera,
+  bounds: THREE.Box3,
+  currentTarget: THREE.Vector3,
+  fov: number | null,
+  padding: number = DEFAULT_FRAMING_PADDING
+): CameraView => {
+  const sphere = bounds.getBoundingSphere(new THREE.Sphere());
+  const radius = Math.max(sphere.radius, MIN_FRAMING_RADIUS) * padding;
+  const direction = new THREE.Vector3().subVectors(camera.position, currentTarget);
+  if (direction.lengthSq() < 1e-9) direction.set(0, 0, 1);
+  direction.normalize();
+
+  if (isPerspective(camera)) {
+    const verticalFov = THREE.MathUtils.degToRad(fov ?? camera.fov);
+    const horizontalFov = 2 * Math.atan(Math.tan(verticalFov / 2) * camera.aspect);
+    const distance = radius / Math.sin(Math.min(verticalFov, horizontalFov) / 2);
+    return {
+      position: sphere.center.clone().addScaledVector(direction, distance),
+      target: sphere.center.clone(),
+      fov: fov ?? camera.fov,
+      zoom: 1
+    };
+  }
+
+  if (isOrthographic(camera)) {
+    const width = camera.right - camera.left;
+    const height = camera.top - camera.bottom;
+    const distance = camera.position.distanceTo(currentTarget);
+    return {
+      position: sphere.center.clone().addScaledVector(direction, distance),
+      target: sphere.center.clone(),
+      fov: null,
+      zoom: Math.min(width, height) / (2 * radius)
+    };
+  }
+
+  return { ...captureView(camera, currentTarget), target: sphere.center.clone() };
+};
+
+// Tween position, target and lens together; the returned tween can be killed to interrupt
+export const animateCameraTo = (
+  camera: THREE.Camera,
+  from: CameraView,
+  to: CameraView,
+  duration: number,
+  onUpdate?: (target: THREE.Vector3) => void
+): gsap.core.Tween => {
+  const progress = { value: 0 };
+  const target = from.target.clone();
+
+  return gsap.to(progress, {
+    value: 1,
+    duration,
+    ease: 'power2.inOut',
+    onUpdate: () => {
+      camera.position.lerpVectors(from.position, to.position, progress.value);
+      target.lerpVectors(from.target, to.target, progress.value);
+
+      if (isPerspective(camera) || isOrthographic(camera)) {
+        if (isPerspective(camera) && from.fov !== null && to.fov !== null) {
+          camera.fov = THREE.MathUtils.lerp(from.fov, to.fov, progress.value);
+        }
+        camera.zoom = THREE.MathUtils.lerp(from.zoom, to.zoom, progress.value);
+        camera.updateProjectionMatrix();
+      }
+
+      camera.lookAt(target);
+      onUpdate?.(target);
+    }
+  });
+};
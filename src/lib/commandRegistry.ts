@@ -0,0 +1,94 @@
+import { CommandFactory, ExecutableCommand, macroToExecutable } from '@/lib/UndoRedoSystem';
+
+// A command as stored on disk: its identity plus the data needed to rebuild it
+export interface SerializedCommand {
+  id: string;
+  type: string;
+  timestamp: number;
+  description: string;
+  groupId?: string;
+  merged?: boolean;
+  data: Record<string, unknown>;
+  commands?: SerializedCommand[]; // Steps of a macro or batch
+}
+
+// Commands hold closures, so each type registers how to rebuild itself from its data
+export interface CommandSerializer {
+  // Defaults to a plain copy of command.data
+  serialize?: (command: ExecutableCommand) => Record<string, unknown>;
+  // Data comes back from storage as written by an older session, so check it before use
+  deserialize: (data: Record<string, unknown>) => ExecutableCommand | null;
+}
+
+const isMacro = (command: ExecutableCommand): command is ExecutableCommand & { commands: ExecutableCommand[] } =>
+  Array.isArray((command as { commands?: unknown }).commands);
+
+export class CommandRegistry {
+  private serializers = new Map<string, CommandSerializer>();
+
+  public register(type: string, serializer: CommandSerializer): this {
+    this.serializers.set(type, serializer);
+    return this;
+  }
+
+  public has(type: string): boolean {
+    return this.serializers.has(type);
+  }
+
+  // Null when the command, or any step of a macro, has no serializer
+  public serialize(command: ExecutableCommand): SerializedCommand | null {
+    const base = {
+      id: command.id,
+      type: command.type,
+      timestamp: command.timestamp,
+      description: command.description,
+      ...(command.groupId && { groupId: command.groupId }),
+      ...(command.merged && { merged: command.merged })
+    };
+
+    if (isMacro(command)) {
+      const steps = command.commands.map(step => this.serialize(step));
+      if (steps.some(step => !step)) return null;
+      return { ...base, data: this.toPlainData(command.data), commands: steps as SerializedCommand[] };
+    }
+
+    const serializer = this.serializers.get(command.type);
+    if (!serializer) return null;
+    return { ...base, data: this.toPlainData(serializer.serialize ? serializer.serialize(command) : command.data) };
+  }
+
+  // Rebuilt commands keep their original id, description and timestamp so history reads the same
+  public deserialize(serialized: SerializedCommand): ExecutableCommand | null {
+    let command: ExecutableCommand | null;
+
+    if (serialized.commands) {
+      const steps = serialized.commands.map(step => this.deserialize(step));
+      if (steps.some(step => !step)) return null;
+      command = macroToExecutable(CommandFactory.createBatchCommand(steps as ExecutableCommand[], serialized.description));
+    } else {
+      const serializer = this.serializers.get(serialized.type);
+      if (!serializer) {
+        console.warn(`No serializer registered for command type "${serialized.type}"`);
+        return null;
+      }
+      command = serializer.deserialize(serialized.data);
+    }
+
+    if (!command) return null;
+    return {
+      ...command,
+      id: serialized.id,
+      type: serialized.type,
+      timestamp: serialized.timestamp,
+      description: serialized.description,
+      groupId: serialized.groupId,
+      merged: serialized.merged,
+      data: serialized.data
+    };
+  }
+
+  // Stored data must survive IndexedDB's structured clone; a JSON round-trip keeps it plain
+  private toPlainData(data: Record<string, unknown>): Record<string, unknown> {
+    return JSON.parse(JSON.stringify(data ?? {}));
+  }
+}
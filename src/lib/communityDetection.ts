@@ -0,0 +1,281 @@
+import * as THREE from 'three';
+import { ClusterData } from '@/types/interactions';
+import { KnowledgeGraph, KnowledgeGraphEdge, KnowledgeGraphNode, KnowledgeNodeType } from '@/types/graph';
+import { GraphAnalyticsInput } from '@/lib/graphAnalytics';
+
+export const DEFAULT_COMMUNITY_RESOLUTION = 1;
+
+const MAX_LOUVAIN_LEVELS = 10;
+const MIN_MODULARITY_GAIN = 1e-9;
+
+export interface CommunityDetectionResult {
+  assignments: number[]; // Community index per node, largest community first
+  communityCount: number;
+  modularity: number;
+  resolution: number;
+}
+
+type WeightedAdjacency = Map<number, number>[];
+
+const toWeightedAdjacency = (input: GraphAnalyticsInput): WeightedAdjacency => {
+  const adjacency: WeightedAdjacency = input.nodeIds.map(() => new Map());
+  input.edges.forEach(([from, to, weight]) => {
+    if (from === to || weight <= 0) return;
+    adjacency[from].set(to, (adjacency[from].get(to) ?? 0) + weight);
+    adjacency[to].set(from, (adjacency[to].get(from) ?? 0) + weight);
+  });
+  return adjacency;
+};
+
+// Local moving phase: move each node to the neighbouring community with the
+// largest modularity gain until nothing moves. Returns whether anything moved.
+const moveNodes = (adjacency: WeightedAdjacency, community: number[], resolution: number): boolean => {
+  const n = adjacency.length;
+  const degree = adjacency.map(neighbours => {
+    let sum = 0;
+    neighbours.forEach(weight => { sum += weight; });
+    return sum;
+  });
+  const totalWeight = degree.reduce((sum, value) => sum + value, 0);
+  if (totalWeight === 0) return false;
+
+  const communityDegree = new Array<number>(n).fill(0);
+  community.forEach((c, node) => { communityDegree[c] += degree[node]; });
+
+  let movedAny = false;
+  let moved = true;
+  while (moved) {
+    moved = false;
+    for (let node = 0; node < n; node++) {
+      const current = community[node];
+      const linksTo = new Map<number, number>();
+      adjacency[node].forEach((weight, neighbour) => {
+        if (neighbour === node) return;
+        const c = community[neighbour];
+        linksTo.set(c, (linksTo.get(c) ?? 0) + weight);
+      });
+
+      communityDegree[current] -= degree[node];
+      const gain = (c: number) =>
+        (linksTo.get(c) ?? 0) - (resolution * communityDegree[c] * degree[node]) / totalWeight;
+
+      let best = current;
+      let bestGain = gain(current);
+      linksTo.forEach((_, c) => {
+        const candidate = gain(c);
+        if (candidate > bestGain + MIN_MODULARITY_GAIN) {
+          best = c;
+          bestGain = candidate;
+        }
+      });
+
+      communityDegree[best] += degree[node];
+      if (best !== current) {
+        community[node] = best;
+        moved = true;
+        movedAny = true;
+      }
+    }
+  }
+
+  return movedAny;
+};
+
+// Collapse each community into a single node; internal weight becomes a self-loop
+const aggregate = (adjacency: WeightedAdjacency, community: number[]): { adjacency: WeightedAdjacency; mapping: number[] } => {
+  const ids = new Map<number, number>();
+  const mapping = community.map(c => {
+    if (!ids.has(c)) ids.set(c, ids.size);
+    return ids.get(c)!;
+  });
+
+  const aggregated: WeightedAdjacency = Array.from({ length: ids.size }, () => new Map());
+  adjacency.forEach((neighbours, node) => {
+    neighbours.forEach((weight, neighbour) => {
+      const from = mapping[node];
+      const to = mapping[neighbour];
+      aggregated[from].set(to, (aggregated[from].get(to) ?? 0) + weight);
+    });
+  });
+
+  return { adjacency: aggregated, mapping };
+};
+
+const computeModularity = (adjacency: WeightedAdjacency, community: number[], resolution: number): number => {
+  const internal = new Map<number, number>();
+  const totals = new Map<number, number>();
+  let totalWeight = 0;
+
+  adjacency.forEach((neighbours, node) => {
+    const c = community[node];
+    neighbours.forEach((weight, neighbour) => {
+      totalWeight += weight;
+      totals.set(c, (totals.get(c) ?? 0) + weight);
+      if (community[neighbour] === c) internal.set(c, (internal.get(c) ?? 0) + weight);
+    });
+  });
+
+  if (totalWeight === 0) return 0;
+  let modularity = 0;
+  totals.forEach((total, c) => {
+    modularity += (internal.get(c) ?? 0) / totalWeight - resolution * (total / totalWeight) ** 2;
+  });
+  return modularity;
+};
+
+// Modularity of an existing partition, e.g. clusters declared in a dataset
+export const partitionModularity = (
+  input: GraphAnalyticsInput,
+  assignments: number[],
+  resolution: number = DEFAULT_COMMUNITY_RESOLUTION
+): number => computeModularity(toWeightedAdjacency(input), assignments, resolution);
+
+// Louvain can leave a community internally disconnected; as in Leiden, split
+// those into their connected parts so every community is a real group.
+const splitDisconnected = (adjacency: WeightedAdjacency, community: number[]): number[] => {
+  const result = new Array<number>(community.length).fill(-1);
+  let next = 0;
+
+  for (let start = 0; start < community.length; start++) {
+    if (result[start] >= 0) continue;
+    const id = next++;
+    const stack = [start];
+    result[start] = id;
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      adjacency[node].forEach((_, neighbour) => {
+        if (result[neighbour] < 0 && community[neighbour] === community[start]) {
+          result[neighbour] = id;
+          stack.push(neighbour);
+        }
+      });
+    }
+  }
+
+  return result;
+};
+
+// Louvain community detection over strength-weighted undirected edges
+export const detectCommunities = (
+  input: GraphAnalyticsInput,
+  resolution: number = DEFAULT_COMMUNITY_RESOLUTION
+): CommunityDetectionResult => {
+  const original = toWeightedAdjacency(input);
+  let adjacency = original;
+  let membership = input.nodeIds.map((_, index) => index);
+
+  for (let level = 0; level < MAX_LOUVAIN_LEVELS; level++) {
+    const community = adjacency.map((_, index) => index);
+    if (!moveNodes(adjacency, community, resolution)) break;
+
+    const { adjacency: aggregated, mapping } = aggregate(adjacency, community);
+    membership = membership.map(node => mapping[node]);
+    adjacency = aggregated;
+  }
+
+  const split = splitDisconnected(original, membership);
+
+  // Relabel so community 0 is the largest
+  const sizes = new Map<number, number>();
+  split.forEach(c => sizes.set(c, (sizes.get(c) ?? 0) + 1));
+  const order = Array.from(sizes.keys()).sort((a, b) => sizes.get(b)! - sizes.get(a)! || a - b);
+  const rank = new Map(order.map((c, index) => [c, index]));
+  const assignments = split.map(c => rank.get(c)!);
+
+  return {
+    assignments,
+    communityCount: order.length,
+    modularity: computeModularity(original, assignments, resolution),
+    resolution
+  };
+};
+
+// Members, centroid and cohesion (share of edges that stay inside the cluster)
+export const buildClusters = (nodes: KnowledgeGraphNode[], edges: KnowledgeGraphEdge[]): ClusterData[] => {
+  const clusterMap = new Map<string, ClusterData>();
+  const typeCounts = new Map<string, Map<KnowledgeNodeType, number>>();
+
+  nodes.forEach(node => {
+    const { clusterId } = node.clusterData;
+    if (!clusterMap.has(clusterId)) {
+      clusterMap.set(clusterId, {
+        clusterId,
+        clusterType: node.clusterData.clusterType,
+        members: [],
+        centroid: new THREE.Vector3(),
+        cohesion: 0
+      });
+      typeCounts.set(clusterId, new Map());
+    }
+    const cluster = clusterMap.get(clusterId)!;
+    cluster.members.push(node.id);
+    cluster.centroid.add(node.position);
+    const counts = typeCounts.get(clusterId)!;
+    counts.set(node.type, (counts.get(node.type) ?? 0) + 1);
+  });
+
+  clusterMap.forEach(cluster => {
+    cluster.centroid.divideScalar(cluster.members.length);
+    const members = new Set(cluster.members);
+    let internal = 0;
+    let boundary = 0;
+    edges.forEach(edge => {
+      const fromInside = members.has(edge.fromNode);
+      const toInside = members.has(edge.toNode);
+      if (fromInside && toInside) internal++;
+      else if (fromInside || toInside) boundary++;
+    });
+    cluster.cohesion = internal + boundary > 0 ? internal / (internal + boundary) : 0;
+
+    // Dominant node type describes the cluster
+    if (!cluster.clusterType) {
+      const counts = Array.from(typeCounts.get(cluster.clusterId)!.entries());
+      cluster.clusterType = counts.sort((a, b) => b[1] - a[1])[0][0];
+    }
+  });
+
+  const clusters = Array.from(clusterMap.values());
+  nodes.forEach(node => {
+    node.clusterData = clusterMap.get(node.clusterData.clusterId)!;
+  });
+
+  return clusters;
+};
+
+// Copy of the graph with nodes regrouped into detected communities
+export const applyCommunities = (
+  graph: KnowledgeGraph,
+  resolution: number = DEFAULT_COMMUNITY_RESOLUTION
+): KnowledgeGraph => {
+  const indexById = new Map(graph.nodes.map((node, index) => [node.id, index]));
+  const result = detectCommunities({
+    nodeIds: graph.nodes.map(node => node.id),
+    edges: graph.edges.map(edge => [indexById.get(edge.fromNode)!, indexById.get(edge.toNode)!, edge.strength])
+  }, resolution);
+
+  const nodes = graph.nodes.map((node, index) => ({
+    ...node,
+    clusterData: {
+      clusterId: `community-${result.assignments[index]}`,
+      clusterType: '',
+      members: [],
+      centroid: new THREE.Vector3(),
+      cohesion: 0
+    }
+  }));
+  const clusters = buildClusters(nodes, graph.edges);
+
+  const interactions = new Map(graph.interactions);
+  nodes.forEach(node => {
+    const interaction = interactions.get(node.id);
+    if (interaction) interactions.set(node.id, { ...interaction, clusterData: node.clusterData });
+  });
+
+  return {
+    ...graph,
+    nodes,
+    clusters,
+    interactions,
+    clustering: { method: 'communities', modularity: result.modularity, resolution }
+  };
+};
@@ -0,0 +1,59 @@
+import { InteractionCapability } from '@/types/interactions';
+
+export type ContextMenuActionId =
+  | 'inspect'
+  | 'findPath'
+  | 'trace'
+  | 'viewCluster'
+  | 'showConnections'
+  | 'findRelated'
+  | 'validate'
+  | 'cite'
+  | 'split'
+  | 'bookmark'
+  | 'export';
+
+export interface ContextMenuAction {
+  id: ContextMenuActionId;
+  label: string;
+  disabled?: boolean;
+  onSelect: () => void;
+}
+
+// An entry is offered when the scene handles it and the object declares the capability
+export interface ContextMenuActionDefinition {
+  id: ContextMenuActionId;
+  label: string;
+  capability?: InteractionCapability;
+}
+
+// Menu order
+export const CONTEXT_MENU_ACTIONS: ContextMenuActionDefinition[] = [
+  { id: 'inspect', label: 'Inspeccionar', capability: 'inspectable' },
+  { id: 'findPath', label: 'Buscar ruta', capability: 'traceable' },
+  { id: 'trace', label: 'Trazar evidencia', capability: 'traceable' },
+  { id: 'viewCluster', label: 'Ver cluster', capability: 'expandable' },
+  { id: 'showConnections', label: 'Mostrar conexiones', capability: 'expandable' },
+  { id: 'findRelated', label: 'Buscar relacionadas', capability: 'selectable' },
+  { id: 'validate', label: 'Validar', capability: 'validatable' },
+  { id: 'cite', label: 'Copiar citas', capability: 'inspectable' },
+  { id: 'split', label: 'Separar entidad', capability: 'mergeable' },
+  { id: 'bookmark', label: 'Guardar marcador' },
+  { id: 'export', label: 'Exportar' }
+];
+
+export type ContextMenuHandlers = Partial<Record<ContextMenuActionId, () => void>>;
+
+export const buildContextMenu = (
+  capabilities: InteractionCapability[],
+  handlers: ContextMenuHandlers,
+  definitions: ContextMenuActionDefinition[] = CONTEXT_MENU_ACTIONS
+): ContextMenuAction[] =>
+  definitions
+    .filter(definition => handlers[definition.id] &&
+      (!definition.capability || capabilities.includes(definition.capability)))
+    .map(definition => ({
+      id: definition.id,
+      label: definition.label,
+      onSelect: handlers[definition.id]!
+    }));
@@ -0,0 +1,318 @@
+import { strFromU8, unzipSync } from 'fflate';
+import { parseCSV } from '@/lib/graphImporters';
+import { extractPdfText } from '@/lib/pdfText';
+import { DocumentFormat, DocumentSection, DocumentTable, IngestedDocument } from '@/types/documents';
+
+// Everything is parsed in the browser; nothing is uploaded
+export const MAX_DOCUMENT_SIZE = 20 * 1024 * 1024;
+
+export const DOCUMENT_FORMATS: Record<DocumentFormat, { label: string; extensions: string[]; color: string; icon: string }> = {
+  pdf: { label: 'PDF', extensions: ['pdf'], color: '#DC143C', icon: '📄' },
+  docx: { label: 'WORD', extensions: ['docx'], color: '#2B579A', icon: '📝' },
+  xlsx: { label: 'EXCEL', extensions: ['xlsx'], color: '#217346', icon: '📊' },
+  csv: { label: 'CSV', extensions: ['csv'], color: '#0F7B0F', icon: '📋' },
+  md: { label: 'MD', extensions: ['md', 'markdown'], color: '#666666', icon: '📄' }
+};
+
+export const ACCEPTED_DOCUMENT_EXTENSIONS = Object.values(DOCUMENT_FORMATS).flatMap(format => format.extensions);
+
+interface ParsedContent {
+  sections: DocumentSection[];
+  tables: DocumentTable[];
+  warnings: string[];
+}
+
+export const detectDocumentFormat = (fileName: string): DocumentFormat | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  const entry = Object.entries(DOCUMENT_FORMATS).find(([, format]) => format.extensions.includes(extension));
+  return entry ? entry[0] as DocumentFormat : null;
+};
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+const tableText = (rows: string[][]) => rows.map(row => row.join('\t')).join('\n');
+
+const stripMarkdown = (line: string): string =>
+  line
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}>\s?/, '')
+    .replace(/^\s*([-*+]|\d+\.)\s+/, '')
+    .replace(/(\*\*|__|\*|_|`|~~)(.+?)\1/g, '$2')
+    .replace(/^\s*\|(.*)\|\s*$/, (_, cells: string) => cells.split('|').map(cell => cell.trim()).join('\t'));
+
+// Markdown: headings start sections, pipe tables become tables, formatting is stripped
+export const parseMarkdown = (markdown: string): ParsedContent => {
+  const sections: DocumentSection[] = [];
+  const tables: DocumentTable[] = [];
+  let current: DocumentSection = { title: null, level: 0, text: '' };
+  let tableRows: string[][] = [];
+  let inCode = false;
+
+  const flushTable = () => {
+    if (tableRows.length > 0) {
+      tables.push({ name: current.title ?? `Tabla ${tables.length + 1}`, rows: tableRows });
+      tableRows = [];
+    }
+  };
+
+  markdown.replace(/^\uFEFF/, '').split(/\r?\n/).forEach(line => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCode = !inCode;
+      return;
+    }
+
+    const heading = !inCode && /^(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+    if (heading) {
+      flushTable();
+      if (current.title !== null || current.text.trim()) sections.push(current);
+      current = { title: stripMarkdown(heading[2]), level: heading[1].length, text: '' };
+      return;
+    }
+
+    if (!inCode && /^\s*\|.*\|\s*$/.test(line)) {
+      // The |---|---| separator row carries no content
+      if (!/^\s*\|[\s:|-]+\|\s*$/.test(line)) {
+        tableRows.push(line.trim().slice(1, -1).split('|').map(cell => stripMarkdown(cell.trim())));
+      }
+    } else {
+      flushTable();
+    }
+
+    current.text += `${inCode ? line : stripMarkdown(line)}\n`;
+  });
+
+  flushTable();
+  sections.push(current);
+
+  return {
+    sections: sections
+      .map(section => ({ ...section, text: section.text.replace(/\n{3,}/g, '\n\n').trim() }))
+      .filter(section => section.title !== null || section.text),
+    tables,
+    warnings: []
+  };
+};
+
+export const parseCsvDocument = (text: string, name: string): ParsedContent => {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0];
+  // Spreadsheet exports in es-ES locales use ';' as separator
+  const delimiter = !firstLine.includes(',') && firstLine.includes(';') ? ';' : ',';
+  const rows = parseCSV(content, delimiter);
+
+  return {
+    sections: [{ title: name, level: 1, text: tableText(rows) }],
+    tables: [{ name, rows }],
+    warnings: rows.length === 0 ? ['El archivo CSV está vacío'] : []
+  };
+};
+
+// Office Open XML packages (.docx, .xlsx) are zip archives of XML parts
+const readPackage = (buffer: ArrayBuffer): Record<string, Uint8Array> => {
+  try {
+    return unzipSync(new Uint8Array(buffer));
+  } catch {
+    throw new Error('El archivo está dañado o no es un documento de Office');
+  }
+};
+
+const readXmlPart = (files: Record<string, Uint8Array>, path: string): Document | null => {
+  const part = files[path];
+  if (!part) return null;
+  const doc = new DOMParser().parseFromString(strFromU8(part), 'application/xml');
+  return doc.getElementsByTagName('parsererror').length > 0 ? null : doc;
+};
+
+const childElements = (parent: Element, localName: string): Element[] =>
+  Array.from(parent.children).filter(child => child.localName === localName);
+
+const descendants = (parent: Element | Document, localName: string): Element[] =>
+  Array.from(parent.getElementsByTagNameNS('*', localName));
+
+const wordAttribute = (element: Element | undefined, name: string): string | null =>
+  element?.getAttributeNS(element.namespaceURI, name) ?? element?.getAttribute(`w:${name}`) ?? null;
+
+// Heading1 / Título1 / Heading 2 style ids, or an outline level in the paragraph properties
+const headingLevel = (paragraph: Element): number => {
+  const properties = childElements(paragraph, 'pPr')[0];
+  const outline = wordAttribute(properties && childElements(properties, 'outlineLvl')[0], 'val');
+  if (outline !== null) return Number(outline) + 1;
+
+  const style = wordAttribute(properties && childElements(properties, 'pStyle')[0], 'val') ?? '';
+  if (/^(title|t[ií]tulo)$/i.test(style)) return 1;
+  const match = /^(heading|t[ií]tulo|encabezado)\s*(\d)$/i.exec(style);
+  return match ? Number(match[2]) : 0;
+};
+
+const paragraphText = (paragraph: Element): string =>
+  descendants(paragraph, 'r')
+    .map(run => Array.from(run.children).map(child => {
+      if (child.localName === 't') return child.textContent ?? '';
+      if (child.localName === 'tab') return '\t';
+      if (child.localName === 'br' || child.localName === 'cr') return '\n';
+      return '';
+    }).join(''))
+    .join('');
+
+export const parseDocx = (buffer: ArrayBuffer): ParsedContent => {
+  const files = readPackage(buffer);
+  const doc = readXmlPart(files, 'word/document.xml');
+  const body = doc && descendants(doc, 'body')[0];
+  if (!body) throw new Error('No se encontró el contenido del documento Word');
+
+  const sections: DocumentSection[] = [];
+  const tables: DocumentTable[] = [];
+  let current: DocumentSection = { title: null, level: 0, text: '' };
+
+  Array.from(body.children).forEach(block => {
+    if (block.localName === 'p') {
+      const text = paragraphText(block).trim();
+      const level = headingLevel(block);
+      if (level > 0 && text) {
+        if (current.title !== null || current.text) sections.push(current);
+        current = { title: text, level, text: '' };
+      } else if (text) {
+        current.text += `${text}\n`;
+      }
+    } else if (block.localName === 'tbl') {
+      const rows = childElements(block, 'tr').map(row =>
+        childElements(row, 'tc').map(cell => childElements(cell, 'p').map(paragraphText).join('\n').trim())
+      );
+      tables.push({ name: current.title ?? `Tabla ${tables.length + 1}`, rows });
+      current.text += `${tableText(rows)}\n`;
+    }
+  });
+  sections.push(current);
+
+  return {
+    sections: sections
+      .map(section => ({ ...section, text: section.text.trim() }))
+      .filter(section => section.title !== null || section.text),
+    tables,
+    warnings: []
+  };
+};
+
+// "BC12" -> 54 (zero-based column)
+const columnIndex = (reference: string): number => {
+  const letters = /^[A-Z]+/.exec(reference.toUpperCase())?.[0] ?? 'A';
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+export const parseXlsx = (buffer: ArrayBuffer): ParsedContent => {
+  const files = readPackage(buffer);
+  const workbook = readXmlPart(files, 'xl/workbook.xml');
+  if (!workbook) throw new Error('No se encontró el libro de Excel');
+
+  const sharedStrings = (() => {
+    const doc = readXmlPart(files, 'xl/sharedStrings.xml');
+    return doc ? descendants(doc, 'si').map(item => descendants(item, 't').map(t => t.textContent ?? '').join('')) : [];
+  })();
+
+  // Sheet names resolve to their parts through the workbook relationships
+  const relationships = new Map<string, string>();
+  const rels = readXmlPart(files, 'xl/_rels/workbook.xml.rels');
+  if (rels) {
+    descendants(rels, 'Relationship').forEach(relationship => {
+      const target = relationship.getAttribute('Target') ?? '';
+      relationships.set(relationship.getAttribute('Id') ?? '', target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+    });
+  }
+
+  const warnings: string[] = [];
+  const tables: DocumentTable[] = [];
+
+  descendants(workbook, 'sheet').forEach((sheet, index) => {
+    const name = sheet.getAttribute('name') ?? `Hoja ${index + 1}`;
+    const relationshipId = Array.from(sheet.attributes).find(attribute => attribute.localName === 'id')?.value ?? '';
+    const path = relationships.get(relationshipId) ?? `xl/worksheets/sheet${index + 1}.xml`;
+    const doc = readXmlPart(files, path);
+    if (!doc) {
+      warnings.push(`No se pudo leer la hoja "${name}"`);
+      return;
+    }
+
+    const rows: string[][] = [];
+    descendants(doc, 'row').forEach(row => {
+      const values: string[] = [];
+      childElements(row, 'c').forEach((cell, cellIndex) => {
+        const type = cell.getAttribute('t');
+        const raw = childElements(cell, 'v')[0]?.textContent ?? '';
+        const value = type === 's' ? sharedStrings[Number(raw)] ?? ''
+          : type === 'inlineStr' ? descendants(cell, 't').map(t => t.textContent ?? '').join('')
+          : type === 'b' ? (raw === '1' ? 'VERDADERO' : 'FALSO')
+          : raw;
+        const column = cell.getAttribute('r') ? columnIndex(cell.getAttribute('r')!) : cellIndex;
+        values[column] = value;
+      });
+      if (values.some(value => value?.trim())) rows.push(Array.from(values, value => value ?? ''));
+    });
+
+    tables.push({ name, rows });
+  });
+
+  return {
+    sections: tables.map(table => ({ title: table.name, level: 1, text: tableText(table.rows) })),
+    tables,
+    warnings
+  };
+};
+
+export const parsePdf = (buffer: ArrayBuffer): ParsedContent => {
+  const { pages, warnings } = extractPdfText(buffer);
+  return {
+    sections: pages.map((text, index) => ({ title: `Página ${index + 1}`, level: 1, text })),
+    tables: [],
+    warnings
+  };
+};
+
+// Reads a dropped file into a document the scenes can use; errors carry a user-facing message
+export const parseDocumentFile = async (file: File): Promise<IngestedDocument> => {
+  const format = detectDocumentFormat(file.name);
+  if (!format) {
+    throw new Error('Formato no admitido');
+  }
+  if (file.size > MAX_DOCUMENT_SIZE) {
+    throw new Error(`Supera el límite de ${MAX_DOCUMENT_SIZE / 1024 / 1024} MB`);
+  }
+
+  const name = file.name.replace(/\.[^.]+$/, '');
+  let content: ParsedContent;
+  switch (format) {
+    case 'pdf':
+      content = parsePdf(await file.arrayBuffer());
+      break;
+    case 'docx':
+      content = parseDocx(await file.arrayBuffer());
+      break;
+    case 'xlsx':
+      content = parseXlsx(await file.arrayBuffer());
+      break;
+    case 'csv':
+      content = parseCsvDocument(await file.text(), name);
+      break;
+    case 'md':
+      content = parseMarkdown(await file.text());
+      break;
+  }
+
+  const text = content.sections
+    .map(section => (section.title ? `${section.title}\n${section.text}` : section.text).trim())
+    .filter(Boolean)
+    .join('\n\n');
+
+  return {
+    id: `document-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    name: file.name,
+    format,
+    size: file.size,
+    ingestedAt: Date.now(),
+    text,
+    sections: content.sections,
+    tables: content.tables,
+    wordCount: countWords(text),
+    warnings: content.warnings
+  };
+};
@@ -0,0 +1,90 @@
+import { ChunkingOptions, DocumentSection, IngestedDocument } from '@/types/documents';
+import { DEFAULT_CHUNKING_OPTIONS, countTokens } from '@/lib/textChunker';
+
+type Listener = () => void;
+
+const SAMPLE_SECTIONS: DocumentSection[] = [
+  {
+    title: 'Ficha de producto',
+    level: 1,
+    text: 'La cafetera Aurora 3000 combina molinillo cónico y depósito de 1,8 litros. Su caldera se calienta en 25 segundos y mantiene la temperatura estable durante toda la extracción.\n\nEl equipo de producto de Madrid la presentó en la feria de Milán. Desde entonces se distribuye en España, Portugal y Francia a través de la red de tiendas asociadas. La directora de producto, Lucía Fernández, colabora con el servicio técnico de Valencia.'
+  },
+  {
+    title: 'Mantenimiento',
+    level: 2,
+    text: 'Descalcifica la caldera cada tres meses con el programa automático. Si el agua de tu zona es dura, reduce el intervalo a seis semanas.\n\nEl filtro del depósito se cambia cada dos meses. La garantía cubre piezas y mano de obra durante dos años siempre que el mantenimiento se haya registrado en la aplicación.'
+  },
+  {
+    title: 'Preguntas frecuentes',
+    level: 2,
+    text: '¿Puedo usar café molido? Sí, el portafiltro admite café molido y cápsulas compatibles con el adaptador incluido.\n\n¿Qué pasa si se enciende el piloto rojo? Indica que el depósito está vacío o que toca descalcificar. Revisa la aplicación para ver el aviso concreto.'
+  }
+];
+
+const SAMPLE_TEXT = SAMPLE_SECTIONS.map(section => `${section.title}\n${section.text}`).join('\n\n');
+
+// Shown by the scenes until the visitor drops their own files
+export const SAMPLE_DOCUMENT: IngestedDocument = {
+  id: 'sample-document',
+  name: 'aurora-3000.md',
+  format: 'md',
+  size: SAMPLE_TEXT.length,
+  ingestedAt: 0,
+  text: SAMPLE_TEXT,
+  sections: SAMPLE_SECTIONS,
+  tables: [],
+  wordCount: countTokens(SAMPLE_TEXT),
+  warnings: []
+};
+
+// Documents dropped into the ingestion panel and how they are chunked, shared with the scenes that visualise them.
+// Kept in memory only: files never leave the browser and are gone on reload.
+export class DocumentStore {
+  private static instance: DocumentStore;
+  private documents: IngestedDocument[] = [];
+  private chunkingOptions: ChunkingOptions = DEFAULT_CHUNKING_OPTIONS;
+  private listeners = new Set<Listener>();
+
+  static getInstance(): DocumentStore {
+    if (!DocumentStore.instance) {
+      DocumentStore.instance = new DocumentStore();
+    }
+    return DocumentStore.instance;
+  }
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  getDocuments = (): IngestedDocument[] => this.documents;
+
+  getChunkingOptions = (): ChunkingOptions => this.chunkingOptions;
+
+  setChunkingOptions(options: Partial<ChunkingOptions>): void {
+    this.chunkingOptions = { ...this.chunkingOptions, ...options };
+    this.notify();
+  }
+
+  add(documents: IngestedDocument[]): void {
+    if (documents.length === 0) return;
+    this.update([...this.documents, ...documents]);
+  }
+
+  remove(documentId: string): void {
+    this.update(this.documents.filter(document => document.id !== documentId));
+  }
+
+  clear(): void {
+    this.update([]);
+  }
+
+  private update(documents: IngestedDocument[]): void {
+    this.documents = documents;
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
@@ -0,0 +1,70 @@
+import * as THREE from 'three';
+import { DropAction, InteractableObject, InteractionCapability } from '@/types/interactions';
+
+// Anything declaring interaction data: registered 3D objects or scene-side descriptors
+export type DropCandidate = Pick<InteractableObject, 'interactionData'>;
+
+export interface DropRule {
+  action: DropAction;
+  // Capability both the dragged object and the target must declare
+  capability: InteractionCapability;
+  accepts?: (dragged: DropCandidate, target: DropCandidate) => boolean;
+}
+
+const entityKind = (candidate: DropCandidate) =>
+  candidate.interactionData.metadata.entityType ?? candidate.interactionData.metadata.nodeType;
+
+// Checked in order; the first rule both objects satisfy decides what the drop does
+export const DROP_RULES: DropRule[] = [
+  {
+    action: 'merge',
+    capability: 'mergeable',
+    // Only entities of the same kind are duplicates of each other
+    accepts: (dragged, target) =>
+      dragged.interactionData.type === target.interactionData.type &&
+      entityKind(dragged) === entityKind(target)
+  },
+  { action: 'connect', capability: 'connectable' }
+];
+
+export const resolveDropAction = (
+  dragged: DropCandidate,
+  target: DropCandidate,
+  rules: DropRule[] = DROP_RULES
+): DropAction | null => {
+  const rule = rules.find(candidate =>
+    dragged.interactionData.capabilities.includes(candidate.capability) &&
+    target.interactionData.capabilities.includes(candidate.capability) &&
+    (candidate.accepts?.(dragged, target) ?? true)
+  );
+  return rule?.action ?? null;
+};
+
+// Closest candidate whose centre lies within the radius of the position
+export const findNearestObject = (
+  position: THREE.Vector3,
+  candidates: Iterable<InteractableObject>,
+  radius: number
+): InteractableObject | null => {
+  let nearest: InteractableObject | null = null;
+  let nearestDistance = radius;
+  const worldPosition = new THREE.Vector3();
+
+  for (const candidate of candidates) {
+    const distance = candidate.getWorldPosition(worldPosition).distanceTo(position);
+    if (distance <= nearestDistance) {
+      nearest = candidate;
+      nearestDistance = distance;
+    }
+  }
+  return nearest;
+};
+
+export const snapToGrid = (position: THREE.Vector3, gridSize: number): THREE.Vector3 => {
+  if (gridSize <= 0) return position.clone();
+  return new THREE.Vector3(
+    Math.round(position.x / gridSize) * gridSize,
+    Math.round(position.y / gridSize) * gridSize,
+    Math.round(position.z / gridSize) * gridSize
+  );
+};
@@ -0,0 +1,127 @@
+// Text embeddings computed in the browser. The default provider needs no model download, so it
+// works offline; a WASM sentence model can be plugged in later behind the same interface.
+
+export interface EmbeddingProvider {
+  id: string;
+  dimensions: number;
+  // Lets corpus-aware providers learn term statistics before embedding
+  fit?(texts: string[]): void;
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+const DEFAULT_DIMENSIONS = 256;
+const PROJECTION_SEED = 0x9e3779b9;
+// Embeds this many texts between yields so large documents don't block the main thread
+const EMBED_BATCH_SIZE = 64;
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+const normalizeText = (text: string): string =>
+  text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+// FNV-1a, 32 bit
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32: a seeded generator, so every feature projects the same way in every session
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Word unigrams and bigrams plus character trigrams, which make the vectors tolerant of typos and inflection
+const extractFeatures = (text: string): Map<number, number> => {
+  const words = normalizeText(text).match(WORD_PATTERN) ?? [];
+  const counts = new Map<number, number>();
+  const count = (feature: string, weight: number) => {
+    const hash = hashString(feature);
+    counts.set(hash, (counts.get(hash) ?? 0) + weight);
+  };
+
+  words.forEach((word, index) => {
+    count(`w:${word}`, 1);
+    if (index > 0) count(`b:${words[index - 1]} ${word}`, 1);
+    const padded = `#${word}#`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      count(`c:${padded.slice(i, i + 3)}`, 0.5);
+    }
+  });
+  return counts;
+};
+
+const yieldToMainThread = () => new Promise(resolve => setTimeout(resolve, 0));
+
+export const normalizeVector = (vector: Float32Array): Float32Array => {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+};
+
+// Feature-hashed n-grams weighted by TF-IDF, reduced to a dense vector by a seeded random projection
+export class HashedNgramEmbedder implements EmbeddingProvider {
+  readonly id = 'hashed-ngram-tfidf';
+  readonly dimensions: number;
+  private idf = new Map<number, number>();
+  private documentCount = 0;
+
+  constructor(dimensions: number = DEFAULT_DIMENSIONS) {
+    this.dimensions = dimensions;
+  }
+
+  fit(texts: string[]): void {
+    const frequencies = new Map<number, number>();
+    texts.forEach(text => {
+      extractFeatures(text).forEach((_, feature) => {
+        frequencies.set(feature, (frequencies.get(feature) ?? 0) + 1);
+      });
+    });
+
+    this.documentCount = texts.length;
+    this.idf = new Map();
+    frequencies.forEach((frequency, feature) => {
+      this.idf.set(feature, Math.log((1 + texts.length) / (1 + frequency)) + 1);
+    });
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    const vectors: Float32Array[] = [];
+    for (let i = 0; i < texts.length; i++) {
+      if (i > 0 && i % EMBED_BATCH_SIZE === 0) await yieldToMainThread();
+      vectors.push(this.embedOne(texts[i]));
+    }
+    return vectors;
+  }
+
+  private embedOne(text: string): Float32Array {
+    const vector = new Float32Array(this.dimensions);
+    // Terms never seen while fitting are as rare as a term can be
+    const unseenIdf = Math.log(1 + this.documentCount) + 1;
+
+    extractFeatures(text).forEach((count, feature) => {
+      const weight = (1 + Math.log(count)) * (this.idf.get(feature) ?? unseenIdf);
+      const random = createRandom(feature ^ PROJECTION_SEED);
+      for (let d = 0; d < this.dimensions; d++) {
+        vector[d] += random() < 0.5 ? -weight : weight;
+      }
+    });
+    return normalizeVector(vector);
+  }
+}
+
+export const createDefaultEmbeddingProvider = (): EmbeddingProvider => new HashedNgramEmbedder();
@@ -0,0 +1,87 @@
+import { ExecutableCommand } from '@/lib/UndoRedoSystem';
+import { CommandRegistry } from '@/lib/commandRegistry';
+import { canMergeEntities, mergeEntities, splitEntity } from '@/lib/entityMerge';
+import { KnowledgeGraph } from '@/types/graph';
+
+// Access to the graph the commands edit; updates go through React state
+export interface KnowledgeGraphStore {
+  getGraph: () => KnowledgeGraph | null;
+  updateGraph: (update: (graph: KnowledgeGraph) => KnowledgeGraph) => void;
+}
+
+const findNode = (store: KnowledgeGraphStore, nodeId: string) =>
+  store.getGraph()?.nodes.find(node => node.id === nodeId);
+
+// Undoable commands that edit knowledge graph entities
+export class EntityCommandFactory {
+  static createMergeCommand(
+    store: KnowledgeGraphStore,
+    survivorId: string,
+    absorbedId: string
+  ): ExecutableCommand {
+    const survivorLabel = findNode(store, survivorId)?.label ?? survivorId;
+    const absorbedLabel = findNode(store, absorbedId)?.label ?? absorbedId;
+
+    return {
+      id: `merge-${survivorId}-${absorbedId}-${Date.now()}`,
+      type: 'merge',
+      timestamp: Date.now(),
+      description: `Fusionar "${absorbedLabel}" en "${survivorLabel}"`,
+      data: { survivorId, absorbedId },
+      execute: () => {
+        store.updateGraph(graph => mergeEntities(graph, survivorId, absorbedId));
+      },
+      undo: () => {
+        store.updateGraph(graph => splitEntity(graph, survivorId));
+      },
+      canExecute: () => {
+        const graph = store.getGraph();
+        return !!graph && canMergeEntities(graph, survivorId, absorbedId);
+      },
+      canUndo: () => !!findNode(store, survivorId)?.mergeRecord
+    };
+  }
+
+  // Undoing re-merges the absorbed entity, taken from the node's merge record unless given
+  static createSplitCommand(
+    store: KnowledgeGraphStore,
+    nodeId: string,
+    absorbedId: string | null = findNode(store, nodeId)?.mergeRecord?.absorbed.id ?? null
+  ): ExecutableCommand {
+    const label = findNode(store, nodeId)?.label ?? nodeId;
+
+    return {
+      id: `split-${nodeId}-${Date.now()}`,
+      type: 'split',
+      timestamp: Date.now(),
+      description: `Separar "${label}"`,
+      data: { nodeId, absorbedId },
+      execute: () => {
+        store.updateGraph(graph => splitEntity(graph, nodeId));
+      },
+      undo: () => {
+        if (absorbedId) store.updateGraph(graph => mergeEntities(graph, nodeId, absorbedId));
+      },
+      canExecute: () => !!findNode(store, nodeId)?.mergeRecord,
+      canUndo: () => {
+        const graph = store.getGraph();
+        return !!graph && !!absorbedId && canMergeEntities(graph, nodeId, absorbedId);
+      }
+    };
+  }
+
+  // Lets persisted history rebuild merges and splits against the given store
+  static registerSerializers(registry: CommandRegistry, store: KnowledgeGraphStore): void {
+    registry
+      .register('merge', {
+        deserialize: ({ survivorId, absorbedId }) => typeof survivorId === 'string' && typeof absorbedId === 'string'
+          ? EntityCommandFactory.createMergeCommand(store, survivorId, absorbedId)
+          : null
+      })
+      .register('split', {
+        deserialize: ({ nodeId, absorbedId }) => typeof nodeId === 'string'
+          ? EntityCommandFactory.createSplitCommand(store, nodeId, typeof absorbedId === 'string' ? absorbedId : null)
+          : null
+      });
+  }
+}
@@ -0,0 +1,255 @@
+import { Span, splitSentences } from '@/lib/textChunker';
+import { IngestedDocument } from '@/types/documents';
+import { EntityExtractionInteraction, EntityMention, ExtractedEntityType } from '@/types/interactions';
+
+// Rule-based extraction for Spanish and English text: gazetteers, regex patterns and
+// capitalisation heuristics. Every entity keeps the sentences it was found in.
+
+export type ExtractionSource = Pick<IngestedDocument, 'id' | 'text'>;
+
+export const ENTITY_TYPE_STYLES: Record<ExtractedEntityType, { icon: string; color: string }> = {
+  PERSONAS: { icon: '👤', color: '#3B82F6' }, // Azul
+  PROCESOS: { icon: '⚙️', color: '#10B981' }, // Verde
+  RELACIONES: { icon: '🔗', color: '#F59E0B' }, // Amarillo/Naranja
+  CONCEPTOS: { icon: '💡', color: '#8B5CF6' } // Púrpura
+};
+
+export const EXTRACTED_ENTITY_TYPES = Object.keys(ENTITY_TYPE_STYLES) as ExtractedEntityType[];
+
+interface Candidate extends Span {
+  type: ExtractedEntityType;
+  text: string;
+  confidence: number;
+  priority: number; // Lower wins when candidates overlap; multi-word names outrank gazetteer terms
+}
+
+interface Mention extends Candidate {
+  entityId: string;
+}
+
+// Gazetteers are lowercase and accent-folded
+const FIRST_NAMES = new Set([
+  'alejandro', 'alberto', 'ana', 'andres', 'antonio', 'beatriz', 'carlos', 'carmen', 'clara', 'cristina',
+  'daniel', 'david', 'diego', 'elena', 'eva', 'fernando', 'francisco', 'gabriel', 'hugo', 'irene',
+  'isabel', 'javier', 'jorge', 'jose', 'juan', 'laura', 'lucia', 'luis', 'manuel', 'marcos',
+  'maria', 'marta', 'miguel', 'monica', 'pablo', 'paula', 'pedro', 'raquel', 'rosa', 'sara',
+  'sergio', 'sofia', 'teresa', 'victor',
+  'alice', 'andrew', 'anna', 'ben', 'charlotte', 'chris', 'david', 'emily', 'emma', 'george',
+  'grace', 'harry', 'jack', 'james', 'jane', 'john', 'julia', 'kate', 'linda', 'mark',
+  'mary', 'michael', 'oliver', 'paul', 'peter', 'richard', 'robert', 'sam', 'sarah', 'susan',
+  'thomas', 'tom', 'william'
+]);
+
+const PROCESS_TERMS = [
+  'mantenimiento', 'descalcificacion', 'distribucion', 'facturacion', 'contratacion', 'validacion',
+  'aprobacion', 'auditoria', 'devolucion', 'envio', 'ingesta', 'instalacion', 'fabricacion',
+  'onboarding', 'billing', 'invoicing', 'shipping', 'procurement', 'recruitment', 'maintenance',
+  'deployment', 'approval', 'audit', 'validation', 'ingestion', 'installation', 'manufacturing',
+  'fulfillment', 'payroll', 'code review'
+];
+
+const RELATION_PHRASES = [
+  'trabaja en', 'trabaja para', 'trabaja con', 'depende de', 'pertenece a', 'forma parte de', 'es parte de',
+  'colabora con', 'reporta a', 'dirige', 'gestiona', 'coordina', 'supervisa', 'utiliza', 'incluye',
+  'contiene', 'cubre', 'requiere', 'se integra con', 'sustituye a', 'se distribuye en', 'presento', 'fundo',
+  'works at', 'works for', 'works with', 'depends on', 'belongs to', 'is part of', 'reports to', 'manages',
+  'leads', 'coordinates', 'supervises', 'uses', 'includes', 'contains', 'covers', 'requires',
+  'integrates with', 'replaces', 'owns', 'founded'
+];
+
+// Capitalised only because they open a sentence
+const LEADING_STOPWORDS = new Set([
+  'el', 'la', 'los', 'las', 'un', 'una', 'este', 'esta', 'estos', 'estas', 'en', 'de', 'desde', 'para',
+  'con', 'por', 'si', 'su', 'sus', 'nuestro', 'nuestra', 'cada', 'the', 'a', 'an', 'this', 'these',
+  'in', 'on', 'at', 'for', 'with', 'our', 'we', 'each', 'if'
+]);
+
+const TITLED_PERSON_PATTERN = /(?:^|[^\p{L}])(?:Sr|Sra|Srta|Dr|Dra|Don|Doña|Mr|Mrs|Ms|Prof)\.?\s+(\p{Lu}[\p{L}'’-]+(?:\s+\p{Lu}[\p{L}'’-]+)*)/gu;
+const CAPITALIZED_PATTERN = /\p{Lu}[\p{L}\p{N}'’-]*(?:\s+(?:(?:de|del|la|las|los|of|the)\s+)?(?:\p{Lu}[\p{L}\p{N}'’-]*|\p{N}+))*/gu;
+const ACRONYM_PATTERN = /^\p{Lu}[\p{Lu}\p{N}]+$/u;
+const PROCESS_PHRASE_PATTERN = /\b(?:proceso|procedimiento|flujo|protocolo)\s+de\s+[a-z]+(?:\s+de\s+[a-z]+)?\b|\b[a-z]+\s+(?:process|procedure|workflow|pipeline)\b/g;
+const PROCESS_SUFFIX_PATTERN = /\b[a-z]{3,}(?:cion|miento)(?:es|s)?\b/g;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const phrasePattern = (phrases: string[]) =>
+  new RegExp(`\\b(?:${[...phrases].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})\\b`, 'g');
+
+const PROCESS_TERM_PATTERN = phrasePattern(PROCESS_TERMS);
+const RELATION_PATTERN = phrasePattern(RELATION_PHRASES);
+
+// Lowercases and strips Latin accents without changing offsets, so matches map back to the original text
+const foldText = (text: string): string =>
+  text.replace(/[\u00C0-\u024F]/g, char => char.toLowerCase().normalize('NFD')[0]).toLowerCase();
+
+const slugify = (text: string) => foldText(text).replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+const matchAll = (pattern: RegExp, text: string): RegExpExecArray[] => {
+  const regex = new RegExp(pattern.source, pattern.flags);
+  const matches: RegExpExecArray[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(text))) {
+    matches.push(match);
+    if (match[0].length === 0) regex.lastIndex++;
+  }
+  return matches;
+};
+
+// Headings and banners in capitals would otherwise turn every word into a name
+const isShouting = (sentence: string) => {
+  const letters = sentence.match(/\p{L}/gu) ?? [];
+  const upper = sentence.match(/\p{Lu}/gu) ?? [];
+  return letters.length > 3 && upper.length / letters.length > 0.6;
+};
+
+const classifyCapitalized = (
+  text: string,
+  start: number,
+  atSentenceStart: boolean
+): Candidate | null => {
+  let words = text.split(/\s+/);
+  let offset = 0;
+  const dropFirstWord = () => {
+    offset = words.length > 1 ? text.indexOf(words[1], offset + words[0].length) : text.length;
+    words = words.slice(1);
+  };
+
+  if (atSentenceStart) {
+    while (words.length > 0 && LEADING_STOPWORDS.has(foldText(words[0]))) dropFirstWord();
+    // A lone capitalised word opening a sentence is usually just an ordinary word
+    if (words.length === 1 && !FIRST_NAMES.has(foldText(words[0])) && !ACRONYM_PATTERN.test(words[0])) {
+      return null;
+    }
+  }
+  while (words.length > 0 && /^\p{N}+$/u.test(words[0])) dropFirstWord();
+  if (words.length === 0) return null;
+
+  const candidateText = text.slice(offset);
+  const span = { start: start + offset, end: start + text.length };
+
+  if (FIRST_NAMES.has(foldText(words[0]))) {
+    return { ...span, type: 'PERSONAS', text: candidateText, confidence: words.length > 1 ? 0.85 : 0.6, priority: words.length > 1 ? 2 : 5 };
+  }
+  if (words.length === 1 && ACRONYM_PATTERN.test(words[0])) {
+    return { ...span, type: 'CONCEPTOS', text: candidateText, confidence: 0.75, priority: 5 };
+  }
+  return { ...span, type: 'CONCEPTOS', text: candidateText, confidence: words.length > 1 ? 0.7 : 0.6, priority: words.length > 1 ? 2 : 5 };
+};
+
+const findCandidates = (sentence: string, offset: number): Candidate[] => {
+  const folded = foldText(sentence);
+  const candidates: Candidate[] = [];
+  const add = (start: number, end: number, type: ExtractedEntityType, confidence: number, priority: number) => {
+    candidates.push({ start: offset + start, end: offset + end, type, text: sentence.slice(start, end), confidence, priority });
+  };
+
+  matchAll(PROCESS_PHRASE_PATTERN, folded).forEach(match => {
+    const firstWord = match[0].split(/\s+/)[0];
+    if (!LEADING_STOPWORDS.has(firstWord)) add(match.index, match.index + match[0].length, 'PROCESOS', 0.85, 1);
+  });
+  matchAll(PROCESS_TERM_PATTERN, folded).forEach(match => add(match.index, match.index + match[0].length, 'PROCESOS', 0.8, 3));
+  matchAll(RELATION_PATTERN, folded).forEach(match => add(match.index, match.index + match[0].length, 'RELACIONES', 0.5, 4));
+  matchAll(PROCESS_SUFFIX_PATTERN, folded).forEach(match => add(match.index, match.index + match[0].length, 'PROCESOS', 0.55, 6));
+
+  if (!isShouting(sentence)) {
+    matchAll(TITLED_PERSON_PATTERN, sentence).forEach(match => {
+      const end = match.index + match[0].length;
+      add(end - match[1].length, end, 'PERSONAS', 0.95, 0);
+    });
+    matchAll(CAPITALIZED_PATTERN, sentence).forEach(match => {
+      const atSentenceStart = sentence.slice(0, match.index).trim().replace(/^[^\p{L}\p{N}]+/u, '') === '';
+      const candidate = classifyCapitalized(match[0], offset + match.index, atSentenceStart);
+      if (candidate) candidates.push(candidate);
+    });
+  }
+  return candidates;
+};
+
+// Keeps the strongest rule wherever candidates overlap
+const resolveOverlaps = (candidates: Candidate[]): Candidate[] => {
+  const accepted: Candidate[] = [];
+  [...candidates]
+    .sort((a, b) => a.priority - b.priority || b.end - b.start - (a.end - a.start) || a.start - b.start)
+    .forEach(candidate => {
+      if (!accepted.some(other => candidate.start < other.end && other.start < candidate.end)) {
+        accepted.push(candidate);
+      }
+    });
+  return accepted.sort((a, b) => a.start - b.start);
+};
+
+const entityIdFor = (type: ExtractedEntityType, text: string) => `entity-${type.toLowerCase()}-${slugify(text)}`;
+
+export const extractEntities = (sources: ExtractionSource[]): EntityExtractionInteraction[] => {
+  const entities = new Map<string, EntityExtractionInteraction>();
+  const confidences = new Map<string, number>();
+
+  const record = (mention: Mention, sentence: Span, documentId: string, text: string) => {
+    const entityMention: EntityMention = {
+      documentId,
+      start: mention.start,
+      end: mention.end,
+      sentence: { start: sentence.start, end: sentence.end, text: text.slice(sentence.start, sentence.end) }
+    };
+    const existing = entities.get(mention.entityId);
+    if (existing) {
+      existing.mentions.push(entityMention);
+    } else {
+      entities.set(mention.entityId, {
+        entityId: mention.entityId,
+        entityType: mention.type,
+        extractionConfidence: 0,
+        validationState: 'pending',
+        relationships: [],
+        text: mention.text,
+        mentions: [entityMention]
+      });
+    }
+    confidences.set(mention.entityId, Math.max(confidences.get(mention.entityId) ?? 0, mention.confidence));
+  };
+
+  const link = (a: string, b: string) => {
+    if (a === b) return;
+    const first = entities.get(a);
+    const second = entities.get(b);
+    if (first && !first.relationships.includes(b)) first.relationships.push(b);
+    if (second && !second.relationships.includes(a)) second.relationships.push(a);
+  };
+
+  sources.forEach(source => {
+    splitSentences(source.text).forEach(sentence => {
+      const accepted = resolveOverlaps(findCandidates(source.text.slice(sentence.start, sentence.end), sentence.start));
+      const things: Mention[] = accepted
+        .filter(candidate => candidate.type !== 'RELACIONES')
+        .map(candidate => ({ ...candidate, entityId: entityIdFor(candidate.type, candidate.text) }));
+      things.forEach(mention => record(mention, sentence, source.id, source.text));
+
+      // A relation phrase links the nearest entities on either side of it
+      accepted
+        .filter(candidate => candidate.type === 'RELACIONES')
+        .forEach(candidate => {
+          const subject = [...things].reverse().find(thing => thing.end <= candidate.start);
+          const object = things.find(thing => thing.start >= candidate.end);
+          if (!subject && !object) return;
+
+          const text = [subject?.text, candidate.text, object?.text].filter(Boolean).join(' ');
+          const confidence = candidate.confidence + (subject ? 0.15 : 0) + (object ? 0.15 : 0);
+          const relation: Mention = { ...candidate, text, confidence, entityId: entityIdFor('RELACIONES', text) };
+          record(relation, sentence, source.id, source.text);
+          if (subject) link(relation.entityId, subject.entityId);
+          if (object) link(relation.entityId, object.entityId);
+        });
+
+      // Entities sharing a sentence are candidate relationships
+      things.forEach((thing, index) => things.slice(index + 1).forEach(other => link(thing.entityId, other.entityId)));
+    });
+  });
+
+  // Repeated mentions raise confidence
+  entities.forEach(entity => {
+    const confidence = (confidences.get(entity.entityId) ?? 0) + 0.05 * (entity.mentions.length - 1);
+    entity.extractionConfidence = Math.round(Math.min(0.99, confidence) * 100) / 100;
+  });
+
+  return Array.from(entities.values()).sort((a, b) => b.extractionConfidence - a.extractionConfidence);
+};
@@ -0,0 +1,267 @@
+import {
+  EntityProvenance,
+  KnowledgeGraph,
+  KnowledgeGraphEdge,
+  KnowledgeGraphNode
+} from '@/types/graph';
+import { KnowledgeGraphInteraction } from '@/types/interactions';
+import { buildClusters, partitionModularity } from '@/lib/communityDetection';
+
+// What happens to a relationship when two entities merge (or split apart again)
+export type RelationshipOutcome = 'kept' | 'moved' | 'combined' | 'removed';
+
+export interface RelationshipChange {
+  edge: KnowledgeGraphEdge;
+  otherNodeId: string;
+  outcome: RelationshipOutcome;
+  ownerId: string; // Entity holding the relationship afterwards
+}
+
+export interface EntityMergePreview {
+  survivor: KnowledgeGraphNode;
+  absorbed: KnowledgeGraphNode;
+  provenance: EntityProvenance[];
+  relationships: RelationshipChange[];
+}
+
+export interface EntitySplitPreview {
+  merged: KnowledgeGraphNode;
+  originals: [KnowledgeGraphNode, KnowledgeGraphNode];
+  relationships: RelationshipChange[];
+}
+
+const provenanceOf = (node: KnowledgeGraphNode): EntityProvenance[] =>
+  node.metadata.mergedFrom ?? [{
+    id: node.id,
+    label: node.label,
+    dataSource: node.metadata.dataSource,
+    confidence: node.metadata.confidence,
+    createdAt: node.metadata.createdAt
+  }];
+
+const edgeKey = (from: string, to: string, label: string) => `${from}|${to}|${label}`;
+
+// Recompute everything derived from the node and edge lists: edge endpoints,
+// adjacency indices, clusters, interactions and modularity
+const rebuildGraph = (graph: KnowledgeGraph, nodeList: KnowledgeGraphNode[], edgeList: KnowledgeGraphEdge[]): KnowledgeGraph => {
+  const nodes = nodeList.map(node => ({ ...node, connections: [] as number[], clusterData: { ...node.clusterData } }));
+  const indexById = new Map(nodes.map((node, index) => [node.id, index]));
+
+  const edges = edgeList
+    .filter(edge => indexById.has(edge.fromNode) && indexById.has(edge.toNode))
+    .map(edge => {
+      const fromNode = nodes[indexById.get(edge.fromNode)!];
+      const toNode = nodes[indexById.get(edge.toNode)!];
+      return { ...edge, from: fromNode.position, to: toNode.position, fromType: fromNode.type, toType: toNode.type };
+    });
+
+  edges.forEach(edge => {
+    const from = indexById.get(edge.fromNode)!;
+    const to = indexById.get(edge.toNode)!;
+    if (!nodes[from].connections.includes(to)) nodes[from].connections.push(to);
+    if (!nodes[to].connections.includes(from)) nodes[to].connections.push(from);
+  });
+
+  const clusters = buildClusters(nodes, edges);
+
+  const interactions = new Map<string, KnowledgeGraphInteraction>();
+  nodes.forEach(node => {
+    interactions.set(node.id, {
+      nodeId: node.id,
+      nodeType: node.type,
+      connections: node.connections.map(index => nodes[index].id),
+      clusterData: node.clusterData
+    });
+  });
+
+  const clusterIndex = new Map(clusters.map((cluster, index) => [cluster.clusterId, index]));
+  const modularity = partitionModularity(
+    {
+      nodeIds: nodes.map(node => node.id),
+      edges: edges.map(edge => [indexById.get(edge.fromNode)!, indexById.get(edge.toNode)!, edge.strength])
+    },
+    nodes.map(node => clusterIndex.get(node.clusterData.clusterId)!),
+    graph.clustering.resolution
+  );
+
+  return {
+    ...graph,
+    nodes,
+    edges,
+    clusters,
+    interactions,
+    clustering: { ...graph.clustering, modularity }
+  };
+};
+
+// Relationships of both entities as they would look once the absorbed one folds into the survivor
+const planMerge = (graph: KnowledgeGraph, survivorId: string, absorbedId: string): RelationshipChange[] => {
+  const changes: RelationshipChange[] = [];
+  const survivorKeys = new Map<string, KnowledgeGraphEdge>();
+
+  graph.edges.forEach(edge => {
+    if (edge.fromNode !== survivorId && edge.toNode !== survivorId) return;
+    if (edge.fromNode === absorbedId || edge.toNode === absorbedId) return;
+    survivorKeys.set(edgeKey(edge.fromNode, edge.toNode, edge.label), edge);
+    changes.push({
+      edge,
+      otherNodeId: edge.fromNode === survivorId ? edge.toNode : edge.fromNode,
+      outcome: 'kept',
+      ownerId: survivorId
+    });
+  });
+
+  graph.edges.forEach(edge => {
+    if (edge.fromNode !== absorbedId && edge.toNode !== absorbedId) return;
+    const otherNodeId = edge.fromNode === absorbedId ? edge.toNode : edge.fromNode;
+
+    // A relationship between the two entities would point at itself
+    if (otherNodeId === survivorId) {
+      changes.push({ edge, otherNodeId, outcome: 'removed', ownerId: survivorId });
+      return;
+    }
+
+    const from = edge.fromNode === absorbedId ? survivorId : edge.fromNode;
+    const to = edge.toNode === absorbedId ? survivorId : edge.toNode;
+    const duplicate = survivorKeys.get(edgeKey(from, to, edge.label));
+    changes.push({ edge, otherNodeId, outcome: duplicate ? 'combined' : 'moved', ownerId: survivorId });
+  });
+
+  return changes;
+};
+
+export const canMergeEntities = (graph: KnowledgeGraph, survivorId: string, absorbedId: string): boolean => {
+  if (survivorId === absorbedId) return false;
+  const survivor = graph.nodes.find(node => node.id === survivorId);
+  const absorbed = graph.nodes.find(node => node.id === absorbedId);
+  return !!survivor && !!absorbed && survivor.type === absorbed.type;
+};
+
+export const previewMerge = (graph: KnowledgeGraph, survivorId: string, absorbedId: string): EntityMergePreview | null => {
+  if (!canMergeEntities(graph, survivorId, absorbedId)) return null;
+  const survivor = graph.nodes.find(node => node.id === survivorId)!;
+  const absorbed = graph.nodes.find(node => node.id === absorbedId)!;
+
+  return {
+    survivor,
+    absorbed,
+    provenance: [...provenanceOf(survivor), ...provenanceOf(absorbed)],
+    relationships: planMerge(graph, survivorId, absorbedId)
+  };
+};
+
+// Fold the absorbed entity into the survivor: relationships are unioned, metadata
+// combined and both origins kept as provenance. The survivor keeps its id.
+export const mergeEntities = (graph: KnowledgeGraph, survivorId: string, absorbedId: string): KnowledgeGraph => {
+  const preview = previewMerge(graph, survivorId, absorbedId);
+  if (!preview) throw new Error(`Cannot merge ${absorbedId} into ${survivorId}`);
+  const { survivor, absorbed, provenance, relationships } = preview;
+
+  const merged: KnowledgeGraphNode = {
+    ...survivor,
+    position: survivor.position.clone(),
+    size: Math.max(survivor.size, absorbed.size),
+    semanticWeight: Math.max(survivor.semanticWeight, absorbed.semanticWeight),
+    centralityScore: Math.max(survivor.centralityScore, absorbed.centralityScore),
+    metadata: {
+      ...absorbed.metadata,
+      ...survivor.metadata,
+      confidence: Math.max(survivor.metadata.confidence, absorbed.metadata.confidence),
+      accessCount: survivor.metadata.accessCount + absorbed.metadata.accessCount,
+      tags: Array.from(new Set([...survivor.metadata.tags, ...absorbed.metadata.tags])),
+      attributes: { ...absorbed.metadata.attributes, ...survivor.metadata.attributes },
+      mergedFrom: provenance
+    },
+    // Positions are copied: the layout moves live nodes in place
+    mergeRecord: {
+      survivor: { ...survivor, position: survivor.position.clone() },
+      absorbed: { ...absorbed, position: absorbed.position.clone() },
+      edges: relationships.map(change => change.edge)
+    }
+  };
+
+  const changeById = new Map(relationships.map(change => [change.edge.id, change]));
+  const combinedInto = new Map<string, KnowledgeGraphEdge>();
+  relationships.forEach(change => {
+    if (change.outcome !== 'combined') return;
+    const from = change.edge.fromNode === absorbedId ? survivorId : change.edge.fromNode;
+    const to = change.edge.toNode === absorbedId ? survivorId : change.edge.toNode;
+    combinedInto.set(edgeKey(from, to, change.edge.label), change.edge);
+  });
+
+  const edges: KnowledgeGraphEdge[] = [];
+  graph.edges.forEach(edge => {
+    const change = changeById.get(edge.id);
+    if (!change || change.outcome === 'kept') {
+      // A kept edge absorbs the duplicate from the other entity
+      const duplicate = change && combinedInto.get(edgeKey(edge.fromNode, edge.toNode, edge.label));
+      edges.push(duplicate ? {
+        ...edge,
+        strength: Math.max(edge.strength, duplicate.strength),
+        metadata: { ...edge.metadata, confidence: Math.max(edge.metadata.confidence, duplicate.metadata.confidence) }
+      } : edge);
+      return;
+    }
+    if (change.outcome === 'moved') {
+      edges.push({
+        ...edge,
+        fromNode: edge.fromNode === absorbedId ? survivorId : edge.fromNode,
+        toNode: edge.toNode === absorbedId ? survivorId : edge.toNode
+      });
+    }
+  });
+
+  const nodes = graph.nodes
+    .filter(node => node.id !== absorbedId)
+    .map(node => (node.id === survivorId ? merged : node));
+
+  return rebuildGraph(graph, nodes, edges);
+};
+
+export const previewSplit = (graph: KnowledgeGraph, nodeId: string): EntitySplitPreview | null => {
+  const merged = graph.nodes.find(node => node.id === nodeId);
+  const record = merged?.mergeRecord;
+  if (!merged || !record) return null;
+
+  const { survivor, absorbed } = record;
+  const relationships: RelationshipChange[] = record.edges.map(edge => {
+    const ownerId = edge.fromNode === absorbed.id || edge.toNode === absorbed.id ? absorbed.id : survivor.id;
+    return {
+      edge,
+      otherNodeId: edge.fromNode === ownerId ? edge.toNode : edge.fromNode,
+      outcome: 'kept',
+      ownerId
+    };
+  });
+
+  // Relationships added after the merge stay with the surviving entity
+  const recorded = new Set(record.edges.map(edge => edge.id));
+  graph.edges.forEach(edge => {
+    if (recorded.has(edge.id) || (edge.fromNode !== nodeId && edge.toNode !== nodeId)) return;
+    relationships.push({
+      edge,
+      otherNodeId: edge.fromNode === nodeId ? edge.toNode : edge.fromNode,
+      outcome: 'moved',
+      ownerId: survivor.id
+    });
+  });
+
+  return { merged, originals: [survivor, absorbed], relationships };
+};
+
+// Undo one level of merging: restore both originals and their original relationships
+export const splitEntity = (graph: KnowledgeGraph, nodeId: string): KnowledgeGraph => {
+  const merged = graph.nodes.find(node => node.id === nodeId);
+  const record = merged?.mergeRecord;
+  if (!merged || !record) throw new Error(`Entity ${nodeId} is not the result of a merge`);
+
+  // Originals come back where the merged entity currently is
+  const survivor = { ...record.survivor, position: merged.position.clone() };
+  const absorbed = { ...record.absorbed, position: merged.position.clone().add(record.absorbed.position).sub(record.survivor.position) };
+
+  const recorded = new Set(record.edges.map(edge => edge.id));
+  const edges = [...graph.edges.filter(edge => !recorded.has(edge.id)), ...record.edges];
+  const nodes = graph.nodes.flatMap(node => (node.id === nodeId ? [survivor, absorbed] : [node]));
+
+  return rebuildGraph(graph, nodes, edges);
+};
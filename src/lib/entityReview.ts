@@ -0,0 +1,216 @@
+import { ExecutableCommand, UndoRedoConfig } from '@/lib/UndoRedoSystem';
+import { CommandRegistry } from '@/lib/commandRegistry';
+import { EXTRACTED_ENTITY_TYPES } from '@/lib/entityExtraction';
+import { EntityExtractionInteraction, ExtractedEntityType } from '@/types/interactions';
+
+// A reviewer's decision on an extracted entity; entities without one are pending
+export interface EntityDecision {
+  validationState: 'validated' | 'rejected' | 'merged';
+  entityType: ExtractedEntityType; // Differs from the extracted type when the reviewer retyped it
+  mergedInto: string | null;
+}
+
+export type ReviewOrder = 'ascending' | 'descending';
+
+// The extraction scene and the review queue share this history, so inspector edits and review
+// decisions undo in one sequence and are saved together. Each decision undoes on its own,
+// however fast the reviewer goes.
+export const ENTITY_HISTORY_CONFIG: Partial<UndoRedoConfig> = {
+  persistToDisk: true,
+  persistenceKey: 'entity-extraction-history',
+  autoGroupTimeout: 0
+};
+
+const DECISION_COMMAND_TYPES = ['validateEntity', 'rejectEntity', 'retypeEntity', 'mergeEntity'] as const;
+
+export interface ReviewProgress {
+  total: number;
+  pending: number;
+  validated: number;
+  rejected: number;
+  merged: number;
+}
+
+type Listener = () => void;
+
+// Decisions are keyed by entity id, which extraction derives from type and text, so they survive re-extraction
+export class EntityReviewStore {
+  private static instance: EntityReviewStore;
+  private decisions: Record<string, EntityDecision> = {};
+  private listeners = new Set<Listener>();
+
+  static getInstance(): EntityReviewStore {
+    if (!EntityReviewStore.instance) {
+      EntityReviewStore.instance = new EntityReviewStore();
+    }
+    return EntityReviewStore.instance;
+  }
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  getDecisions = (): Record<string, EntityDecision> => this.decisions;
+
+  getDecision(entityId: string): EntityDecision | null {
+    return this.decisions[entityId] ?? null;
+  }
+
+  // Null returns the entity to the queue
+  setDecision(entityId: string, decision: EntityDecision | null): void {
+    const decisions = { ...this.decisions };
+    if (decision) {
+      decisions[entityId] = decision;
+    } else {
+      delete decisions[entityId];
+    }
+    this.decisions = decisions;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// Applies decisions to freshly extracted entities; merged entities hand their mentions and links to the target
+export const applyReviewDecisions = (
+  entities: EntityExtractionInteraction[],
+  decisions: Record<string, EntityDecision>
+): EntityExtractionInteraction[] => {
+  const reviewed = entities.map(entity => {
+    const decision = decisions[entity.entityId];
+    return decision
+      ? { ...entity, validationState: decision.validationState, entityType: decision.entityType }
+      : { ...entity };
+  });
+  const byId = new Map(reviewed.map(entity => [entity.entityId, entity]));
+
+  reviewed.forEach(entity => {
+    const targetId = decisions[entity.entityId]?.mergedInto;
+    const target = targetId ? byId.get(targetId) : undefined;
+    if (!target || entity.validationState !== 'merged') return;
+
+    target.mentions = [...target.mentions, ...entity.mentions];
+    target.relationships = Array.from(new Set([...target.relationships, ...entity.relationships]))
+      .filter(entityId => entityId !== target.entityId && entityId !== entity.entityId);
+  });
+  return reviewed;
+};
+
+// Pending entities, least confident first by default since those most need a human
+export const buildReviewQueue = (
+  entities: EntityExtractionInteraction[],
+  order: ReviewOrder = 'ascending'
+): EntityExtractionInteraction[] =>
+  entities
+    .filter(entity => entity.validationState === 'pending')
+    .sort((a, b) => (order === 'ascending'
+      ? a.extractionConfidence - b.extractionConfidence
+      : b.extractionConfidence - a.extractionConfidence) || a.text.localeCompare(b.text));
+
+export const getReviewProgress = (entities: EntityExtractionInteraction[]): ReviewProgress => {
+  const count = (state: EntityExtractionInteraction['validationState']) =>
+    entities.filter(entity => entity.validationState === state).length;
+  return {
+    total: entities.length,
+    pending: count('pending'),
+    validated: count('validated'),
+    rejected: count('rejected'),
+    merged: count('merged')
+  };
+};
+
+const isEntityDecision = (value: unknown): value is EntityDecision => {
+  if (!value || typeof value !== 'object') return false;
+  const { validationState, entityType, mergedInto } = value as Record<string, unknown>;
+  return (validationState === 'validated' || validationState === 'rejected' || validationState === 'merged')
+    && EXTRACTED_ENTITY_TYPES.includes(entityType as ExtractedEntityType)
+    && (mergedInto === null || typeof mergedInto === 'string');
+};
+
+const wordsOf = (text: string) => new Set(text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean));
+
+// Same-type entities sharing words with the given one, best match first
+export const findMergeCandidates = (
+  entity: EntityExtractionInteraction,
+  entities: EntityExtractionInteraction[],
+  limit = 3
+): EntityExtractionInteraction[] => {
+  const words = wordsOf(entity.text);
+  return entities
+    .filter(other => other.entityId !== entity.entityId
+      && other.entityType === entity.entityType
+      && other.validationState !== 'rejected'
+      && other.validationState !== 'merged')
+    .map(other => {
+      const otherWords = wordsOf(other.text);
+      const shared = [...words].filter(word => otherWords.has(word)).length;
+      return { other, score: shared / Math.max(1, Math.min(words.size, otherWords.size)) };
+    })
+    .sort((a, b) => b.score - a.score || b.other.extractionConfidence - a.other.extractionConfidence)
+    .slice(0, limit)
+    .map(({ other }) => other);
+};
+
+// Undoable review decisions
+export class EntityReviewCommandFactory {
+  static createValidateCommand(store: EntityReviewStore, entity: EntityExtractionInteraction): ExecutableCommand {
+    return EntityReviewCommandFactory.createDecisionCommand(store, entity.entityId, 'validateEntity',
+      `Validar "${entity.text}"`, { validationState: 'validated', entityType: entity.entityType, mergedInto: null });
+  }
+
+  static createRejectCommand(store: EntityReviewStore, entity: EntityExtractionInteraction): ExecutableCommand {
+    return EntityReviewCommandFactory.createDecisionCommand(store, entity.entityId, 'rejectEntity',
+      `Rechazar "${entity.text}"`, { validationState: 'rejected', entityType: entity.entityType, mergedInto: null });
+  }
+
+  // Retyping is a correction, so the entity counts as validated with its new type
+  static createRetypeCommand(
+    store: EntityReviewStore,
+    entity: EntityExtractionInteraction,
+    entityType: ExtractedEntityType
+  ): ExecutableCommand {
+    return EntityReviewCommandFactory.createDecisionCommand(store, entity.entityId, 'retypeEntity',
+      `Cambiar "${entity.text}" a ${entityType}`, { validationState: 'validated', entityType, mergedInto: null });
+  }
+
+  static createMergeCommand(
+    store: EntityReviewStore,
+    entity: EntityExtractionInteraction,
+    target: EntityExtractionInteraction
+  ): ExecutableCommand {
+    return EntityReviewCommandFactory.createDecisionCommand(store, entity.entityId, 'mergeEntity',
+      `Fusionar "${entity.text}" con "${target.text}"`,
+      { validationState: 'merged', entityType: entity.entityType, mergedInto: target.entityId });
+  }
+
+  // Lets persisted history rebuild review decisions against the given store
+  static registerSerializers(registry: CommandRegistry, store: EntityReviewStore): void {
+    DECISION_COMMAND_TYPES.forEach(type => registry.register(type, {
+      deserialize: ({ entityId, before, after }) => {
+        if (typeof entityId !== 'string' || !isEntityDecision(after)) return null;
+        if (before !== null && !isEntityDecision(before)) return null;
+        return EntityReviewCommandFactory.createDecisionCommand(store, entityId, type, '', after, before);
+      }
+    }));
+  }
+
+  private static createDecisionCommand(
+    store: EntityReviewStore,
+    entityId: string,
+    type: typeof DECISION_COMMAND_TYPES[number],
+    description: string,
+    after: EntityDecision,
+    before: EntityDecision | null = store.getDecision(entityId)
+  ): ExecutableCommand {
+    return {
+      id: `${type}-${entityId}-${Date.now()}`,
+      type,
+      timestamp: Date.now(),
+      description,
+      data: { entityId, before, after },
+      execute: () => store.setDecision(entityId, after),
+      undo: () => store.setDecision(entityId, before),
+      canExecute: () => true,
+      canUndo: () => true
+    };
+  }
+}
@@ -0,0 +1,376 @@
+import {
+  FilterCombinator,
+  FilterCondition,
+  FilterExpression,
+  FilterGroup,
+  FilterState,
+  InteractableObject
+} from '@/types/interactions';
+
+// Anything carrying interaction metadata: registered 3D objects or scene-side descriptors
+export type FilterTarget = Pick<InteractableObject['interactionData'], 'id' | 'type' | 'metadata'>;
+
+export type FilterDimension = 'entityTypes' | 'documentTypes' | 'relationshipTypes' | 'confidence' | 'dateRange' | 'custom';
+
+export interface FilterChip {
+  id: string;
+  dimension: FilterDimension;
+  label: string;
+  matches: number; // Targets that pass this criterion on its own
+  remove: Partial<FilterState>; // Criteria update that drops this chip
+}
+
+export interface FilterSummary {
+  total: number;
+  matching: number;
+  chips: FilterChip[];
+}
+
+// Metadata keys read for each dimension, first present key wins
+const ENTITY_TYPE_FIELDS = ['entityType', 'nodeType', 'category'];
+const DOCUMENT_TYPE_FIELDS = ['documentType', 'fileType', 'format'];
+const RELATIONSHIP_FIELDS = ['relationshipTypes', 'relationshipType', 'relationships'];
+const CONFIDENCE_FIELDS = ['confidence', 'confidenceScore'];
+const DATE_FIELDS = ['date', 'createdAt', 'updatedAt'];
+
+const OPERATOR_LABELS: Record<FilterCondition['operator'], string> = {
+  equals: '=',
+  notEquals: '≠',
+  contains: 'contiene',
+  in: 'en',
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+  exists: 'existe'
+};
+
+export const createDefaultFilterState = (): FilterState => ({
+  entityTypes: new Set(),
+  documentTypes: new Set(),
+  relationshipTypes: new Set(),
+  confidenceThreshold: 0,
+  dateRange: null,
+  customFilters: {},
+  customFilterMode: 'and'
+});
+
+export const isFilterGroup = (expression: FilterExpression): expression is FilterGroup =>
+  'combinator' in expression;
+
+export const getFieldValue = (metadata: Record<string, unknown>, path: string): unknown =>
+  path.split('.').reduce<unknown>(
+    (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    metadata
+  );
+
+const firstField = (metadata: Record<string, unknown>, fields: string[]): unknown => {
+  for (const field of fields) {
+    const value = metadata[field];
+    if (value !== undefined && value !== null) return value;
+  }
+  return undefined;
+};
+
+// Relationship fields may hold a label, a list of labels or a list of { type } records
+const toStringList = (value: unknown): string[] => {
+  if (value === undefined || value === null) return [];
+  if (value instanceof Set) return Array.from(value, String);
+  if (Array.isArray(value)) {
+    return value.map(item =>
+      item !== null && typeof item === 'object' && 'type' in item ? String((item as { type: unknown }).type) : String(item)
+    );
+  }
+  return [String(value)];
+};
+
+const toTime = (value: unknown): number | null => {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'string' || typeof value === 'number') {
+    const time = new Date(value).getTime();
+    return Number.isNaN(time) ? null : time;
+  }
+  return null;
+};
+
+const compare = (actual: unknown, expected: unknown): number | null => {
+  if (typeof actual === 'number' && typeof expected === 'number') return actual - expected;
+  const actualTime = toTime(actual);
+  const expectedTime = toTime(expected);
+  if (typeof actual !== 'number' && actualTime !== null && expectedTime !== null) return actualTime - expectedTime;
+  return null;
+};
+
+const equals = (actual: unknown, expected: unknown): boolean => {
+  if (Array.isArray(actual)) return actual.some(item => equals(item, expected));
+  if (typeof actual === 'string' && typeof expected === 'string') {
+    return actual.toLowerCase() === expected.toLowerCase();
+  }
+  return actual === expected;
+};
+
+const evaluateCondition = (metadata: Record<string, unknown>, condition: FilterCondition): boolean => {
+  const actual = getFieldValue(metadata, condition.field);
+  const { value } = condition;
+
+  switch (condition.operator) {
+    case 'exists':
+      return actual !== undefined && actual !== null;
+    case 'equals':
+      return equals(actual, value);
+    case 'notEquals':
+      return !equals(actual, value);
+    case 'contains':
+      if (typeof actual === 'string') return actual.toLowerCase().includes(String(value).toLowerCase());
+      return toStringList(actual).some(item => equals(item, String(value)));
+    case 'in':
+      return Array.isArray(value) && value.some(option => equals(actual, option));
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte': {
+      const difference = compare(actual, value);
+      if (difference === null) return false;
+      if (condition.operator === 'gt') return difference > 0;
+      if (condition.operator === 'gte') return difference >= 0;
+      if (condition.operator === 'lt') return difference < 0;
+      return difference <= 0;
+    }
+  }
+};
+
+const combine = (results: boolean[], combinator: FilterCombinator): boolean =>
+  combinator === 'and' ? results.every(Boolean) : results.some(Boolean);
+
+export const evaluateExpression = (metadata: Record<string, unknown>, expression: FilterExpression): boolean => {
+  if (!isFilterGroup(expression)) return evaluateCondition(metadata, expression);
+  // An empty group places no constraint
+  if (expression.filters.length === 0) return true;
+  return combine(expression.filters.map(filter => evaluateExpression(metadata, filter)), expression.combinator);
+};
+
+// Each dimension only constrains targets that carry the matching metadata, so one
+// filter state can be shared by scenes holding entities, documents or graph nodes.
+const matchesDimension = (target: FilterTarget, filterState: FilterState, dimension: FilterDimension): boolean => {
+  const { metadata } = target;
+
+  switch (dimension) {
+    case 'entityTypes': {
+      const entityType = firstField(metadata, ENTITY_TYPE_FIELDS);
+      return filterState.entityTypes.size === 0 || entityType === undefined || filterState.entityTypes.has(String(entityType));
+    }
+    case 'documentTypes': {
+      const documentType = firstField(metadata, DOCUMENT_TYPE_FIELDS);
+      return filterState.documentTypes.size === 0 || documentType === undefined || filterState.documentTypes.has(String(documentType));
+    }
+    case 'relationshipTypes': {
+      const relationships = firstField(metadata, RELATIONSHIP_FIELDS);
+      return filterState.relationshipTypes.size === 0 ||
+        relationships === undefined ||
+        toStringList(relationships).some(type => filterState.relationshipTypes.has(type));
+    }
+    case 'confidence': {
+      const confidence = firstField(metadata, CONFIDENCE_FIELDS);
+      return typeof confidence !== 'number' || confidence >= filterState.confidenceThreshold;
+    }
+    case 'dateRange': {
+      if (!filterState.dateRange) return true;
+      const time = toTime(firstField(metadata, DATE_FIELDS));
+      return time === null ||
+        (time >= filterState.dateRange.start.getTime() && time <= filterState.dateRange.end.getTime());
+    }
+    case 'custom': {
+      const expressions = Object.values(filterState.customFilters);
+      if (expressions.length === 0) return true;
+      return combine(expressions.map(expression => evaluateExpression(metadata, expression)), filterState.customFilterMode);
+    }
+  }
+};
+
+const DIMENSIONS: FilterDimension[] = ['entityTypes', 'documentTypes', 'relationshipTypes', 'confidence', 'dateRange', 'custom'];
+
+export const evaluateFilter = (target: FilterTarget, filterState: FilterState): boolean =>
+  DIMENSIONS.every(dimension => matchesDimension(target, filterState, dimension));
+
+export const isFilterActive = (filterState: FilterState): boolean =>
+  filterState.entityTypes.size > 0 ||
+  filterState.documentTypes.size > 0 ||
+  filterState.relationshipTypes.size > 0 ||
+  filterState.confidenceThreshold > 0 ||
+  filterState.dateRange !== null ||
+  Object.keys(filterState.customFilters).length > 0;
+
+// JSON-safe form of a FilterState, for saved views and links
+export interface SerializedFilterState {
+  entityTypes?: string[];
+  documentTypes?: string[];
+  relationshipTypes?: string[];
+  confidenceThreshold?: number;
+  dateRange?: { start: string; end: string } | null;
+  customFilters?: Record<string, FilterExpression>;
+  customFilterMode?: FilterCombinator;
+}
+
+// Only the active criteria are written
+export const serializeFilterState = (filterState: FilterState): SerializedFilterState => {
+  const serialized: SerializedFilterState = {};
+  if (filterState.entityTypes.size) serialized.entityTypes = Array.from(filterState.entityTypes);
+  if (filterState.documentTypes.size) serialized.documentTypes = Array.from(filterState.documentTypes);
+  if (filterState.relationshipTypes.size) serialized.relationshipTypes = Array.from(filterState.relationshipTypes);
+  if (filterState.confidenceThreshold > 0) serialized.confidenceThreshold = filterState.confidenceThreshold;
+  if (filterState.dateRange) {
+    serialized.dateRange = { start: filterState.dateRange.start.toISOString(), end: filterState.dateRange.end.toISOString() };
+  }
+  if (Object.keys(filterState.customFilters).length) {
+    serialized.customFilters = filterState.customFilters;
+    serialized.customFilterMode = filterState.customFilterMode;
+  }
+  return serialized;
+};
+
+const isPlainFilterValue = (value: unknown) =>
+  typeof value === 'string' || (typeof value === 'number' && isFinite(value)) || typeof value === 'boolean';
+
+const isFilterValue = (operator: FilterCondition['operator'], value: unknown): boolean => {
+  if (operator === 'exists') return true;
+  if (operator === 'in') return Array.isArray(value) && value.every(isPlainFilterValue);
+  return isPlainFilterValue(value);
+};
+
+// Rebuilds an expression read from outside (saved views, links); null when it cannot be evaluated.
+// Invalid members of a group are dropped rather than invalidating the whole group.
+export const sanitizeFilterExpression = (data: unknown): FilterExpression | null => {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return null;
+  const expression = data as Record<string, unknown>;
+
+  if ('combinator' in expression) {
+    if ((expression.combinator !== 'and' && expression.combinator !== 'or') || !Array.isArray(expression.filters)) return null;
+    return {
+      combinator: expression.combinator,
+      filters: expression.filters
+        .map(sanitizeFilterExpression)
+        .filter((filter): filter is FilterExpression => filter !== null)
+    };
+  }
+
+  const { field, operator, value } = expression;
+  if (typeof field !== 'string' || !field.trim()) return null;
+  if (typeof operator !== 'string' || !(operator in OPERATOR_LABELS)) return null;
+  if (!isFilterValue(operator as FilterCondition['operator'], value)) return null;
+  return operator === 'exists'
+    ? { field, operator }
+    : { field, operator: operator as FilterCondition['operator'], value };
+};
+
+const toStringSet = (value: unknown) =>
+  new Set(Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []);
+
+// Tolerates missing or malformed fields, which fall back to the defaults
+export const deserializeFilterState = (data: unknown): FilterState => {
+  const filterState = createDefaultFilterState();
+  if (!data || typeof data !== 'object') return filterState;
+  const serialized = data as Record<string, unknown>;
+
+  filterState.entityTypes = toStringSet(serialized.entityTypes);
+  filterState.documentTypes = toStringSet(serialized.documentTypes);
+  filterState.relationshipTypes = toStringSet(serialized.relationshipTypes);
+  if (typeof serialized.confidenceThreshold === 'number' && isFinite(serialized.confidenceThreshold)) {
+    filterState.confidenceThreshold = Math.min(1, Math.max(0, serialized.confidenceThreshold));
+  }
+  const range = serialized.dateRange as { start?: unknown; end?: unknown } | null | undefined;
+  if (range && typeof range.start === 'string' && typeof range.end === 'string') {
+    const start = new Date(range.start);
+    const end = new Date(range.end);
+    if (!isNaN(start.getTime()) && !isNaN(end.getTime())) filterState.dateRange = { start, end };
+  }
+  if (serialized.customFilters && typeof serialized.customFilters === 'object' && !Array.isArray(serialized.customFilters)) {
+    Object.entries(serialized.customFilters).forEach(([key, value]) => {
+      const expression = sanitizeFilterExpression(value);
+      if (expression) filterState.customFilters[key] = expression;
+    });
+  }
+  if (serialized.customFilterMode === 'or') filterState.customFilterMode = 'or';
+  return filterState;
+};
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+const formatValue = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(formatValue).join(', ')}]`;
+  if (value instanceof Date) return formatDate(value);
+  return typeof value === 'string' ? `"${value}"` : String(value);
+};
+
+export const describeExpression = (expression: FilterExpression): string => {
+  if (isFilterGroup(expression)) {
+    const joiner = expression.combinator === 'and' ? ' Y ' : ' O ';
+    return `(${expression.filters.map(describeExpression).join(joiner)})`;
+  }
+  if (expression.operator === 'exists') return `${expression.field} existe`;
+  return `${expression.field} ${OPERATOR_LABELS[expression.operator]} ${formatValue(expression.value)}`;
+};
+
+const withoutValue = (values: Set<string>, value: string) => {
+  const next = new Set(values);
+  next.delete(value);
+  return next;
+};
+
+// One chip per active criterion, paired with the state that holds only that criterion
+const listChips = (filterState: FilterState): { chip: Omit<FilterChip, 'matches'>; criterion: Partial<FilterState> }[] => {
+  const chips: { chip: Omit<FilterChip, 'matches'>; criterion: Partial<FilterState> }[] = [];
+
+  filterState.entityTypes.forEach(value => chips.push({
+    chip: { id: `entity:${value}`, dimension: 'entityTypes', label: `Entidad: ${value}`, remove: { entityTypes: withoutValue(filterState.entityTypes, value) } },
+    criterion: { entityTypes: new Set([value]) }
+  }));
+  filterState.documentTypes.forEach(value => chips.push({
+    chip: { id: `document:${value}`, dimension: 'documentTypes', label: `Documento: ${value}`, remove: { documentTypes: withoutValue(filterState.documentTypes, value) } },
+    criterion: { documentTypes: new Set([value]) }
+  }));
+  filterState.relationshipTypes.forEach(value => chips.push({
+    chip: { id: `relationship:${value}`, dimension: 'relationshipTypes', label: `Relación: ${value}`, remove: { relationshipTypes: withoutValue(filterState.relationshipTypes, value) } },
+    criterion: { relationshipTypes: new Set([value]) }
+  }));
+
+  if (filterState.confidenceThreshold > 0) {
+    chips.push({
+      chip: { id: 'confidence', dimension: 'confidence', label: `Confianza ≥ ${Math.round(filterState.confidenceThreshold * 100)}%`, remove: { confidenceThreshold: 0 } },
+      criterion: { confidenceThreshold: filterState.confidenceThreshold }
+    });
+  }
+
+  if (filterState.dateRange) {
+    const { start, end } = filterState.dateRange;
+    chips.push({
+      chip: { id: 'date', dimension: 'dateRange', label: `Fecha: ${formatDate(start)} – ${formatDate(end)}`, remove: { dateRange: null } },
+      criterion: { dateRange: filterState.dateRange }
+    });
+  }
+
+  Object.entries(filterState.customFilters).forEach(([key, expression]) => {
+    const customFilters = { ...filterState.customFilters };
+    delete customFilters[key];
+    chips.push({
+      chip: { id: `custom:${key}`, dimension: 'custom', label: describeExpression(expression), remove: { customFilters } },
+      criterion: { customFilters: { [key]: expression } }
+    });
+  });
+
+  return chips;
+};
+
+// Active chips with their individual match counts, plus the combined result
+export const summarizeFilter = (targets: Iterable<FilterTarget>, filterState: FilterState): FilterSummary => {
+  const list = Array.from(targets);
+  const chips = listChips(filterState).map(({ chip, criterion }) => {
+    const single = { ...createDefaultFilterState(), ...criterion };
+    return { ...chip, matches: list.filter(target => evaluateFilter(target, single)).length };
+  });
+
+  return {
+    total: list.length,
+    matching: list.filter(target => evaluateFilter(target, filterState)).length,
+    chips
+  };
+};
@@ -0,0 +1,294 @@
+import { KnowledgeGraph } from '@/types/graph';
+
+export type NodeMetric = 'degree' | 'betweenness' | 'closeness' | 'pageRank' | 'clustering';
+
+export const NODE_METRICS: NodeMetric[] = ['degree', 'betweenness', 'closeness', 'pageRank', 'clustering'];
+
+// Plain, structured-clone friendly input so it can be posted to a worker
+export interface GraphAnalyticsInput {
+  nodeIds: string[];
+  edges: [number, number, number][]; // [fromIndex, toIndex, weight]
+}
+
+export interface GraphMetrics {
+  nodeCount: number;
+  edgeCount: number;
+  density: number;
+  averageClustering: number;
+  averagePathLength: number;
+  diameter: number;
+  components: number;
+  nodes: Record<NodeMetric, Record<string, number>>;
+}
+
+const PAGERANK_DAMPING = 0.85;
+const PAGERANK_TOLERANCE = 1e-6;
+const PAGERANK_MAX_ITERATIONS = 100;
+
+export const toAnalyticsInput = (graph: KnowledgeGraph): GraphAnalyticsInput => {
+  const indexById = new Map(graph.nodes.map((node, index) => [node.id, index]));
+  return {
+    nodeIds: graph.nodes.map(node => node.id),
+    edges: graph.edges.map(edge => [indexById.get(edge.fromNode)!, indexById.get(edge.toNode)!, edge.strength])
+  };
+};
+
+// Undirected adjacency in compressed sparse row form; parallel edges are merged
+const buildAdjacency = (input: GraphAnalyticsInput) => {
+  const n = input.nodeIds.length;
+  const neighbours: Map<number, number>[] = Array.from({ length: n }, () => new Map());
+
+  input.edges.forEach(([from, to, weight]) => {
+    if (from === to) return;
+    neighbours[from].set(to, Math.max(neighbours[from].get(to) ?? 0, weight));
+    neighbours[to].set(from, Math.max(neighbours[to].get(from) ?? 0, weight));
+  });
+
+  const offsets = new Int32Array(n + 1);
+  neighbours.forEach((map, index) => {
+    offsets[index + 1] = offsets[index] + map.size;
+  });
+
+  const targets = new Int32Array(offsets[n]);
+  const weights = new Float64Array(offsets[n]);
+  neighbours.forEach((map, index) => {
+    let cursor = offsets[index];
+    map.forEach((weight, target) => {
+      targets[cursor] = target;
+      weights[cursor] = weight;
+      cursor++;
+    });
+  });
+
+  return { n, offsets, targets, weights, neighbours };
+};
+
+type Adjacency = ReturnType<typeof buildAdjacency>;
+
+// Brandes' algorithm on hop distances. The same BFS sweep yields closeness and
+// path-length statistics, so they are computed together.
+const computePathMetrics = (adjacency: Adjacency) => {
+  const { n, offsets, targets } = adjacency;
+  const betweenness = new Float64Array(n);
+  const closeness = new Float64Array(n);
+  const distance = new Int32Array(n);
+  const sigma = new Float64Array(n);
+  const delta = new Float64Array(n);
+  const order = new Int32Array(n);
+  const queue = new Int32Array(n);
+
+  let totalDistance = 0;
+  let reachablePairs = 0;
+  let diameter = 0;
+
+  for (let source = 0; source < n; source++) {
+    distance.fill(-1);
+    sigma.fill(0);
+    delta.fill(0);
+    distance[source] = 0;
+    sigma[source] = 1;
+
+    let head = 0;
+    let tail = 0;
+    let visited = 0;
+    queue[tail++] = source;
+
+    while (head < tail) {
+      const current = queue[head++];
+      order[visited++] = current;
+      for (let i = offsets[current]; i < offsets[current + 1]; i++) {
+        const next = targets[i];
+        if (distance[next] < 0) {
+          distance[next] = distance[current] + 1;
+          queue[tail++] = next;
+        }
+        if (distance[next] === distance[current] + 1) {
+          sigma[next] += sigma[current];
+        }
+      }
+    }
+
+    let distanceSum = 0;
+    for (let i = 1; i < visited; i++) {
+      const d = distance[order[i]];
+      distanceSum += d;
+      if (d > diameter) diameter = d;
+    }
+    totalDistance += distanceSum;
+    reachablePairs += visited - 1;
+
+    // Wasserman–Faust closeness so disconnected graphs stay comparable
+    if (distanceSum > 0 && n > 1) {
+      closeness[source] = ((visited - 1) / distanceSum) * ((visited - 1) / (n - 1));
+    }
+
+    for (let i = visited - 1; i > 0; i--) {
+      const current = order[i];
+      for (let j = offsets[current]; j < offsets[current + 1]; j++) {
+        const previous = targets[j];
+        if (distance[previous] === distance[current] - 1) {
+          delta[previous] += (sigma[previous] / sigma[current]) * (1 + delta[current]);
+        }
+      }
+      betweenness[current] += delta[current];
+    }
+  }
+
+  // Each undirected pair was counted from both ends
+  const scale = n > 2 ? 1 / ((n - 1) * (n - 2)) : 0;
+  for (let i = 0; i < n; i++) betweenness[i] *= scale;
+
+  return {
+    betweenness,
+    closeness,
+    averagePathLength: reachablePairs > 0 ? totalDistance / reachablePairs : 0,
+    diameter
+  };
+};
+
+// PageRank over strength-weighted undirected edges
+const computePageRank = (adjacency: Adjacency): Float64Array => {
+  const { n, offsets, targets, weights } = adjacency;
+  let rank = new Float64Array(n).fill(n > 0 ? 1 / n : 0);
+  const outWeight = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    for (let j = offsets[i]; j < offsets[i + 1]; j++) outWeight[i] += weights[j];
+  }
+
+  for (let iteration = 0; iteration < PAGERANK_MAX_ITERATIONS; iteration++) {
+    const next = new Float64Array(n);
+    let danglingRank = 0;
+
+    for (let i = 0; i < n; i++) {
+      if (outWeight[i] === 0) {
+        danglingRank += rank[i];
+        continue;
+      }
+      for (let j = offsets[i]; j < offsets[i + 1]; j++) {
+        next[targets[j]] += rank[i] * (weights[j] / outWeight[i]);
+      }
+    }
+
+    const base = (1 - PAGERANK_DAMPING) / n + (PAGERANK_DAMPING * danglingRank) / n;
+    let change = 0;
+    for (let i = 0; i < n; i++) {
+      next[i] = base + PAGERANK_DAMPING * next[i];
+      change += Math.abs(next[i] - rank[i]);
+    }
+
+    rank = next;
+    if (change < PAGERANK_TOLERANCE) break;
+  }
+
+  return rank;
+};
+
+const computeClustering = (adjacency: Adjacency): Float64Array => {
+  const { n, offsets, targets, neighbours } = adjacency;
+  const clustering = new Float64Array(n);
+
+  for (let i = 0; i < n; i++) {
+    const degree = offsets[i + 1] - offsets[i];
+    if (degree < 2) continue;
+
+    let links = 0;
+    for (let a = offsets[i]; a < offsets[i + 1]; a++) {
+      for (let b = a + 1; b < offsets[i + 1]; b++) {
+        if (neighbours[targets[a]].has(targets[b])) links++;
+      }
+    }
+    clustering[i] = (2 * links) / (degree * (degree - 1));
+  }
+
+  return clustering;
+};
+
+const countComponents = (adjacency: Adjacency): number => {
+  const { n, offsets, targets } = adjacency;
+  const seen = new Uint8Array(n);
+  const stack: number[] = [];
+  let components = 0;
+
+  for (let start = 0; start < n; start++) {
+    if (seen[start]) continue;
+    components++;
+    seen[start] = 1;
+    stack.push(start);
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      for (let i = offsets[current]; i < offsets[current + 1]; i++) {
+        if (!seen[targets[i]]) {
+          seen[targets[i]] = 1;
+          stack.push(targets[i]);
+        }
+      }
+    }
+  }
+
+  return components;
+};
+
+export const computeGraphMetrics = (input: GraphAnalyticsInput): GraphMetrics => {
+  const adjacency = buildAdjacency(input);
+  const { n, offsets } = adjacency;
+  const edgeCount = offsets[n] / 2;
+
+  const paths = computePathMetrics(adjacency);
+  const pageRank = computePageRank(adjacency);
+  const clustering = computeClustering(adjacency);
+
+  const byId = (values: ArrayLike<number>): Record<string, number> => {
+    const record: Record<string, number> = {};
+    input.nodeIds.forEach((id, index) => {
+      record[id] = values[index];
+    });
+    return record;
+  };
+
+  const degree = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    degree[i] = n > 1 ? (offsets[i + 1] - offsets[i]) / (n - 1) : 0;
+  }
+
+  let clusteringSum = 0;
+  clustering.forEach(value => {
+    clusteringSum += value;
+  });
+
+  return {
+    nodeCount: n,
+    edgeCount,
+    density: n > 1 ? (2 * edgeCount) / (n * (n - 1)) : 0,
+    averageClustering: n > 0 ? clusteringSum / n : 0,
+    averagePathLength: paths.averagePathLength,
+    diameter: paths.diameter,
+    components: countComponents(adjacency),
+    nodes: {
+      degree: byId(degree),
+      betweenness: byId(paths.betweenness),
+      closeness: byId(paths.closeness),
+      pageRank: byId(pageRank),
+      clustering: byId(clustering)
+    }
+  };
+};
+
+// Metric values rescaled to [0, 1] for sizing and colouring
+export const normalizeMetric = (metrics: GraphMetrics, metric: NodeMetric): Map<string, number> => {
+  const values = metrics.nodes[metric];
+  const entries = Object.entries(values);
+  let min = Infinity;
+  let max = -Infinity;
+  entries.forEach(([, value]) => {
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  });
+
+  const range = max - min;
+  return new Map(entries.map(([id, value]) => [id, range > 0 ? (value - min) / range : 0]));
+};
+
+export const topNodesByMetric = (metrics: GraphMetrics, metric: NodeMetric, count: number): [string, number][] =>
+  Object.entries(metrics.nodes[metric])
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, count);
@@ -0,0 +1,8 @@
+import { computeGraphMetrics, GraphAnalyticsInput } from '@/lib/graphAnalytics';
+
+// Runs the O(n·m) analytics off the main thread for large graphs
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (event: MessageEvent<GraphAnalyticsInput>) => {
+  ctx.postMessage(computeGraphMetrics(event.data));
+};
@@ -0,0 +1,490 @@
+import * as THREE from 'three';
+import { KnowledgeGraphInteraction } from '@/types/interactions';
+import { applyCommunities, buildClusters, partitionModularity } from '@/lib/communityDetection';
+import {
+  BusinessCriticality,
+  GraphDataset,
+  GraphDatasetEdge,
+  GraphDatasetNode,
+  GraphRelationshipDefinition,
+  KnowledgeGraph,
+  KnowledgeGraphEdge,
+  KnowledgeGraphNode,
+  KnowledgeNodeType,
+  NodeConnectivity
+} from '@/types/graph';
+
+export const DEFAULT_GRAPH_DATASET_URL = '/data/knowledge-graph.json';
+
+// Visual and semantic defaults per node type
+export const NODE_TYPE_DEFINITIONS: Record<KnowledgeNodeType, {
+  color: string;
+  size: number;
+  count: number;
+  businessCriticality: BusinessCriticality;
+  semanticWeight: number;
+  centralityScore: number;
+  connectivity: NodeConnectivity;
+  maxConnections: number;
+}> = {
+  CORE: {
+    color: '#FF6B6B',
+    size: 2.5,
+    count: 4,
+    businessCriticality: 'critical',
+    semanticWeight: 1.0,
+    centralityScore: 0.95,
+    connectivity: 'hub',
+    maxConnections: 8
+  },
+  ENTITY: {
+    color: '#4ECDC4',
+    size: 1.8,
+    count: 12,
+    businessCriticality: 'high',
+    semanticWeight: 0.8,
+    centralityScore: 0.7,
+    connectivity: 'connector',
+    maxConnections: 5
+  },
+  PROCESS: {
+    color: '#45B7D1',
+    size: 1.5,
+    count: 8,
+    businessCriticality: 'medium',
+    semanticWeight: 0.6,
+    centralityScore: 0.5,
+    connectivity: 'bridge',
+    maxConnections: 3
+  },
+  RELATION: {
+    color: '#F9CA24',
+    size: 1.2,
+    count: 16,
+    businessCriticality: 'medium',
+    semanticWeight: 0.4,
+    centralityScore: 0.3,
+    connectivity: 'leaf',
+    maxConnections: 2
+  }
+};
+
+export const NODE_TYPES = Object.keys(NODE_TYPE_DEFINITIONS) as KnowledgeNodeType[];
+
+// Relationship types for enterprise knowledge graphs
+export const RELATIONSHIP_TYPES: GraphRelationshipDefinition[] = [
+  { type: 'hierarchical', color: '#10B981', strength: 0.9, label: 'PARENT_OF' },
+  { type: 'causal', color: '#F59E0B', strength: 0.8, label: 'CAUSES' },
+  { type: 'semantic', color: '#8B5CF6', strength: 0.7, label: 'RELATED_TO' },
+  { type: 'temporal', color: '#06B6D4', strength: 0.6, label: 'FOLLOWS' },
+  { type: 'compositional', color: '#84CC16', strength: 0.5, label: 'CONTAINS' }
+];
+
+const RELATIONSHIP_CATEGORIES = new Set(RELATIONSHIP_TYPES.map(rel => rel.type));
+
+// Compatibility matrix used by the fallback generator when picking neighbours
+const TYPE_COMPATIBILITY: Record<KnowledgeNodeType, Record<KnowledgeNodeType, number>> = {
+  CORE: { CORE: 0.9, ENTITY: 0.8, PROCESS: 0.7, RELATION: 0.5 },
+  ENTITY: { CORE: 0.8, ENTITY: 0.6, PROCESS: 0.9, RELATION: 0.7 },
+  PROCESS: { CORE: 0.7, ENTITY: 0.9, PROCESS: 0.5, RELATION: 0.8 },
+  RELATION: { CORE: 0.5, ENTITY: 0.7, PROCESS: 0.8, RELATION: 0.3 }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isUnitInterval = (value: unknown): boolean =>
+  typeof value === 'number' && value >= 0 && value <= 1;
+
+// Stable pseudo-random phase so the same node always pulses the same way
+const hashToPhase = (id: string): number => {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) {
+    hash = (hash * 31 + id.charCodeAt(i)) | 0;
+  }
+  return (Math.abs(hash) % 628) / 100;
+};
+
+// Validate an unknown JSON payload against the GraphDataset format
+export const validateGraphDataset = (data: unknown): string[] => {
+  const errors: string[] = [];
+
+  if (!isRecord(data)) {
+    return ['Dataset must be a JSON object'];
+  }
+
+  if (data.version !== 1) {
+    errors.push(`Unsupported dataset version: ${String(data.version)}`);
+  }
+
+  if (!isRecord(data.metadata) || typeof data.metadata.name !== 'string') {
+    errors.push('metadata.name is required');
+  }
+
+  if (!Array.isArray(data.nodes)) {
+    errors.push('nodes must be an array');
+  }
+
+  if (!Array.isArray(data.edges)) {
+    errors.push('edges must be an array');
+  }
+
+  if (data.relationshipTypes !== undefined) {
+    if (!Array.isArray(data.relationshipTypes)) {
+      errors.push('relationshipTypes must be an array');
+    } else {
+      data.relationshipTypes.forEach((rel: unknown, index) => {
+        if (!isRecord(rel) || typeof rel.label !== 'string' || !RELATIONSHIP_CATEGORIES.has(rel.type as never)) {
+          errors.push(`relationshipTypes[${index}] needs a label and a known type`);
+        }
+      });
+    }
+  }
+
+  if (errors.length > 0) return errors;
+
+  const nodeIds = new Set<string>();
+  (data.nodes as unknown[]).forEach((node, index) => {
+    if (!isRecord(node)) {
+      errors.push(`nodes[${index}] must be an object`);
+      return;
+    }
+    if (typeof node.id !== 'string' || node.id.length === 0) {
+      errors.push(`nodes[${index}].id must be a non-empty string`);
+      return;
+    }
+    if (nodeIds.has(node.id)) {
+      errors.push(`nodes[${index}].id "${node.id}" is duplicated`);
+    }
+    nodeIds.add(node.id);
+
+    if (typeof node.label !== 'string') {
+      errors.push(`nodes[${index}] (${node.id}) is missing a label`);
+    }
+    if (!NODE_TYPES.includes(node.type as KnowledgeNodeType)) {
+      errors.push(`nodes[${index}] (${node.id}) has unknown type "${String(node.type)}"`);
+    }
+    if (node.position !== undefined &&
+        (!Array.isArray(node.position) || node.position.length !== 3 ||
+         node.position.some(value => typeof value !== 'number'))) {
+      errors.push(`nodes[${index}] (${node.id}) position must be [x, y, z]`);
+    }
+    (['centrality', 'semanticWeight', 'confidence'] as const).forEach(field => {
+      if (node[field] !== undefined && !isUnitInterval(node[field])) {
+        errors.push(`nodes[${index}] (${node.id}) ${field} must be between 0 and 1`);
+      }
+    });
+  });
+
+  (data.edges as unknown[]).forEach((edge, index) => {
+    if (!isRecord(edge)) {
+      errors.push(`edges[${index}] must be an object`);
+      return;
+    }
+    if (typeof edge.source !== 'string' || !nodeIds.has(edge.source)) {
+      errors.push(`edges[${index}] source "${String(edge.source)}" does not match any node`);
+    }
+    if (typeof edge.target !== 'string' || !nodeIds.has(edge.target)) {
+      errors.push(`edges[${index}] target "${String(edge.target)}" does not match any node`);
+    }
+    if (edge.source === edge.target) {
+      errors.push(`edges[${index}] is a self-loop on "${String(edge.source)}"`);
+    }
+    if (typeof edge.relationship !== 'string' || edge.relationship.length === 0) {
+      errors.push(`edges[${index}] is missing a relationship label`);
+    }
+    if (edge.type !== undefined && !RELATIONSHIP_CATEGORIES.has(edge.type as never)) {
+      errors.push(`edges[${index}] has unknown relationship type "${String(edge.type)}"`);
+    }
+    (['strength', 'confidence'] as const).forEach(field => {
+      if (edge[field] !== undefined && !isUnitInterval(edge[field])) {
+        errors.push(`edges[${index}] ${field} must be between 0 and 1`);
+      }
+    });
+  });
+
+  return errors;
+};
+
+// Spherical spiral layout used when the dataset carries no positions
+const defaultNodePosition = (index: number, total: number, type: KnowledgeNodeType): THREE.Vector3 => {
+  const count = Math.max(total, 2);
+  const phi = Math.acos(-1 + (2 * index) / (count - 1));
+  const theta = Math.sqrt(count * Math.PI) * phi;
+  const radius = 10 + NODE_TYPES.indexOf(type) * 3;
+
+  return new THREE.Vector3(
+    radius * Math.sin(phi) * Math.cos(theta),
+    radius * Math.sin(phi) * Math.sin(theta),
+    radius * Math.cos(phi)
+  );
+};
+
+const resolveRelationship = (
+  edge: GraphDatasetEdge,
+  definitions: Map<string, GraphRelationshipDefinition>
+): GraphRelationshipDefinition => {
+  const known = definitions.get(edge.relationship);
+  if (known) return known;
+
+  const byCategory = edge.type ? RELATIONSHIP_TYPES.find(rel => rel.type === edge.type) : undefined;
+  const fallback = byCategory || RELATIONSHIP_TYPES.find(rel => rel.type === 'semantic')!;
+  return { ...fallback, label: edge.relationship };
+};
+
+// Turn a validated dataset into the structures the scene renders
+export const buildKnowledgeGraph = (
+  dataset: GraphDataset,
+  source: KnowledgeGraph['source'] = 'dataset'
+): KnowledgeGraph => {
+  const definitions = new Map<string, GraphRelationshipDefinition>();
+  RELATIONSHIP_TYPES.forEach(rel => definitions.set(rel.label, rel));
+  dataset.relationshipTypes?.forEach(rel => definitions.set(rel.label, rel));
+
+  const indexById = new Map<string, number>();
+  dataset.nodes.forEach((node, index) => indexById.set(node.id, index));
+
+  const adjacency: Set<number>[] = dataset.nodes.map(() => new Set<number>());
+  const seenEdges = new Set<string>();
+  const validEdges: GraphDatasetEdge[] = [];
+
+  dataset.edges.forEach(edge => {
+    const fromIndex = indexById.get(edge.source);
+    const toIndex = indexById.get(edge.target);
+    if (fromIndex === undefined || toIndex === undefined || fromIndex === toIndex) return;
+
+    const key = `${edge.source}|${edge.target}|${edge.relationship}`;
+    if (seenEdges.has(key)) return;
+    seenEdges.add(key);
+
+    adjacency[fromIndex].add(toIndex);
+    adjacency[toIndex].add(fromIndex);
+    validEdges.push(edge);
+  });
+
+  const maxDegree = Math.max(1, dataset.nodes.length - 1);
+
+  const nodes: KnowledgeGraphNode[] = dataset.nodes.map((node: GraphDatasetNode, index) => {
+    const definition = NODE_TYPE_DEFINITIONS[node.type];
+    const metadata = node.metadata || {};
+    const position = node.position
+      ? new THREE.Vector3(...node.position)
+      : defaultNodePosition(index, dataset.nodes.length, node.type);
+
+    return {
+      id: node.id,
+      label: node.label,
+      type: node.type,
+      color: node.color || definition.color,
+      size: node.size || definition.size,
+      businessCriticality: node.businessCriticality || definition.businessCriticality,
+      semanticWeight: node.semanticWeight ?? definition.semanticWeight,
+      centralityScore: node.centrality ?? adjacency[index].size / maxDegree,
+      connectivity: definition.connectivity,
+      position,
+      connections: Array.from(adjacency[index]),
+      pulse: hashToPhase(node.id),
+      metadata: {
+        ...metadata,
+        label: node.label,
+        createdAt: metadata.createdAt || dataset.metadata.createdAt || '',
+        lastAccessed: metadata.lastAccessed || '',
+        accessCount: metadata.accessCount || 0,
+        confidence: node.confidence ?? 1,
+        dataSource: metadata.dataSource || dataset.metadata.source || 'unknown',
+        businessUnit: metadata.businessUnit || 'unknown',
+        tags: metadata.tags || [],
+        attributes: metadata.attributes || {}
+      },
+      clusterData: {
+        clusterId: node.clusterId || `cluster-${node.type.toLowerCase()}`,
+        clusterType: node.type,
+        members: [],
+        centroid: new THREE.Vector3(),
+        cohesion: 0
+      }
+    };
+  });
+
+  const nodeById = new Map(nodes.map(node => [node.id, node]));
+
+  const edges: KnowledgeGraphEdge[] = validEdges.map((edge, index) => {
+    const fromNode = nodeById.get(edge.source)!;
+    const toNode = nodeById.get(edge.target)!;
+    const relationship = resolveRelationship(edge, definitions);
+    const metadata = edge.metadata || {};
+
+    return {
+      id: edge.id || `connection-${edge.source}-${edge.target}-${index}`,
+      from: fromNode.position,
+      to: toNode.position,
+      fromNode: fromNode.id,
+      toNode: toNode.id,
+      fromType: fromNode.type,
+      toType: toNode.type,
+      relationshipType: edge.type || relationship.type,
+      strength: edge.strength ?? relationship.strength,
+      color: relationship.color,
+      label: relationship.label,
+      weight: 1 / (1 + fromNode.position.distanceTo(toNode.position) * 0.1),
+      metadata: {
+        ...metadata,
+        confidence: edge.confidence ?? 1,
+        establishedAt: typeof metadata.establishedAt === 'string' ? metadata.establishedAt : '',
+        validatedBy: typeof metadata.validatedBy === 'string' ? metadata.validatedBy : 'dataset',
+        businessRelevance: typeof metadata.businessRelevance === 'number' ? metadata.businessRelevance : edge.strength ?? relationship.strength
+      }
+    };
+  });
+
+  const clusters = buildClusters(nodes, edges);
+
+  const interactions = new Map<string, KnowledgeGraphInteraction>();
+  nodes.forEach(node => {
+    interactions.set(node.id, {
+      nodeId: node.id,
+      nodeType: node.type,
+      connections: node.connections.map(index => nodes[index].id),
+      clusterData: node.clusterData
+    });
+  });
+
+  const graph: KnowledgeGraph = {
+    nodes,
+    edges,
+    clusters,
+    clustering: { method: 'dataset', modularity: 0 },
+    interactions,
+    metadata: dataset.metadata,
+    source
+  };
+
+  // Datasets that don't declare every cluster get detected communities instead
+  if (dataset.nodes.some(node => !node.clusterId)) {
+    return applyCommunities(graph);
+  }
+
+  const clusterIndex = new Map(clusters.map((cluster, index) => [cluster.clusterId, index]));
+  graph.clustering.modularity = partitionModularity(
+    {
+      nodeIds: nodes.map(node => node.id),
+      edges: edges.map(edge => [indexById.get(edge.fromNode)!, indexById.get(edge.toNode)!, edge.strength])
+    },
+    nodes.map(node => clusterIndex.get(node.clusterData.clusterId)!)
+  );
+
+  return graph;
+};
+
+// Fetch, validate and build a dataset from a static JSON file
+export const loadGraphDataset = async (url: string = DEFAULT_GRAPH_DATASET_URL): Promise<GraphDataset> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load graph dataset ${url}: ${response.status} ${response.statusText}`);
+  }
+
+  const data: unknown = await response.json();
+  const errors = validateGraphDataset(data);
+  if (errors.length > 0) {
+    throw new Error(`Invalid graph dataset ${url}:\n- ${errors.join('\n- ')}`);
+  }
+
+  return data as GraphDataset;
+};
+
+export const loadKnowledgeGraph = async (url: string = DEFAULT_GRAPH_DATASET_URL): Promise<KnowledgeGraph> => {
+  try {
+    const dataset = await loadGraphDataset(url);
+    return buildKnowledgeGraph(dataset, 'dataset');
+  } catch (error) {
+    console.warn('Knowledge graph dataset unavailable, using generated fallback:', error);
+    return buildKnowledgeGraph(generateFallbackDataset(), 'fallback');
+  }
+};
+
+// Legacy random generator, kept only as a fallback when no dataset can be loaded
+export const generateFallbackDataset = (): GraphDataset => {
+  const total = NODE_TYPES.reduce((sum, type) => sum + NODE_TYPE_DEFINITIONS[type].count, 0);
+  const nodes: (GraphDatasetNode & { position: [number, number, number] })[] = [];
+
+  NODE_TYPES.forEach((type, typeIndex) => {
+    const definition = NODE_TYPE_DEFINITIONS[type];
+    for (let i = 0; i < definition.count; i++) {
+      const nodeIndex = nodes.length;
+      const phi = Math.acos(-1 + (2 * nodeIndex) / total);
+      const theta = Math.sqrt(total * Math.PI) * phi;
+      const radius = 8 + typeIndex * 3 + Math.random() * 4;
+
+      nodes.push({
+        id: `node-${type}-${i}`,
+        label: `${type} ${i}`,
+        type,
+        position: [
+          radius * Math.sin(phi) * Math.cos(theta),
+          radius * Math.sin(phi) * Math.sin(theta),
+          radius * Math.cos(phi)
+        ],
+        semanticWeight: Math.min(1, Math.max(0, definition.semanticWeight + (Math.random() - 0.5) * 0.2)),
+        centrality: Math.min(1, Math.max(0, definition.centralityScore + (Math.random() - 0.5) * 0.3)),
+        confidence: 0.7 + Math.random() * 0.3,
+        metadata: {
+          accessCount: Math.floor(Math.random() * 100),
+          dataSource: ['CRM', 'ERP', 'DOCS', 'EMAIL'][Math.floor(Math.random() * 4)],
+          businessUnit: ['Sales', 'Marketing', 'Operations', 'Finance'][Math.floor(Math.random() * 4)]
+        }
+      });
+    }
+  });
+
+  const edges: GraphDatasetEdge[] = [];
+  const linked = new Set<string>();
+
+  nodes.forEach((node, index) => {
+    const origin = new THREE.Vector3(...node.position);
+    const candidates = nodes
+      .map((other, otherIndex) => ({ other, otherIndex }))
+      .filter(({ otherIndex }) => otherIndex !== index)
+      .map(({ other, otherIndex }) => {
+        const distance = origin.distanceTo(new THREE.Vector3(...other.position));
+        const semanticSimilarity = Math.abs((node.semanticWeight ?? 0) - (other.semanticWeight ?? 0));
+        const businessAlignment = node.metadata?.businessUnit === other.metadata?.businessUnit ? 0.5 : 0;
+        const typeCompatibility = TYPE_COMPATIBILITY[node.type][other.type];
+        const score = distance * 0.3 + semanticSimilarity * 0.4 + (1 - businessAlignment) * 0.2 + (1 - typeCompatibility) * 0.1;
+        return { otherIndex, score };
+      })
+      .sort((a, b) => a.score - b.score)
+      .slice(0, NODE_TYPE_DEFINITIONS[node.type].maxConnections);
+
+    candidates.forEach(({ otherIndex }) => {
+      const key = [index, otherIndex].sort((a, b) => a - b).join('|');
+      if (linked.has(key)) return;
+      linked.add(key);
+
+      const relationship = RELATIONSHIP_TYPES[Math.floor(Math.random() * RELATIONSHIP_TYPES.length)];
+      edges.push({
+        source: node.id,
+        target: nodes[otherIndex].id,
+        relationship: relationship.label,
+        type: relationship.type,
+        strength: relationship.strength * (0.5 + Math.random() * 0.5),
+        confidence: 0.6 + Math.random() * 0.4,
+        metadata: {
+          validatedBy: 'system',
+          businessRelevance: Math.random()
+        }
+      });
+    });
+  });
+
+  return {
+    version: 1,
+    metadata: {
+      name: 'Generated knowledge graph',
+      description: 'Random placeholder graph used when no dataset is available',
+      source: 'generator',
+      createdAt: new Date().toISOString()
+    },
+    nodes,
+    edges
+  };
+};
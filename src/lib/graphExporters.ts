@@ -0,0 +1,254 @@
+import {
+  GraphDataset,
+  GraphDatasetEdge,
+  GraphDatasetNode,
+  KnowledgeGraph,
+  KnowledgeGraphEdge,
+  KnowledgeGraphNode
+} from '@/types/graph';
+
+export type GraphExportFormat = 'json' | 'graphml' | 'cypher';
+
+export interface Subgraph {
+  nodes: KnowledgeGraphNode[];
+  edges: KnowledgeGraphEdge[];
+  seedIds: string[];
+  hops: number;
+}
+
+const EXPORT_FILE_TYPES: Record<GraphExportFormat, { extension: string; mimeType: string }> = {
+  json: { extension: 'json', mimeType: 'application/json' },
+  graphml: { extension: 'graphml', mimeType: 'application/graphml+xml' },
+  cypher: { extension: 'cypher', mimeType: 'text/plain' }
+};
+
+// Selected nodes plus every neighbour reachable within `hops` steps, and the edges among them
+export const extractSubgraph = (graph: KnowledgeGraph, seedIds: Iterable<string>, hops: number = 0): Subgraph => {
+  const indexById = new Map(graph.nodes.map((node, index) => [node.id, index]));
+  const seeds = Array.from(seedIds).filter(id => indexById.has(id));
+  const included = new Set(seeds);
+
+  let frontier = seeds;
+  for (let hop = 0; hop < hops && frontier.length > 0; hop++) {
+    const next: string[] = [];
+    frontier.forEach(id => {
+      graph.nodes[indexById.get(id)!].connections.forEach(neighbourIndex => {
+        const neighbourId = graph.nodes[neighbourIndex].id;
+        if (!included.has(neighbourId)) {
+          included.add(neighbourId);
+          next.push(neighbourId);
+        }
+      });
+    });
+    frontier = next;
+  }
+
+  return {
+    nodes: graph.nodes.filter(node => included.has(node.id)),
+    edges: graph.edges.filter(edge => included.has(edge.fromNode) && included.has(edge.toNode)),
+    seedIds: seeds,
+    hops
+  };
+};
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+const toDatasetNode = (node: KnowledgeGraphNode): GraphDatasetNode => {
+  const { label, confidence, ...metadata } = node.metadata;
+  return {
+    id: node.id,
+    label: label || node.label,
+    type: node.type,
+    color: node.color,
+    size: node.size,
+    position: [round(node.position.x), round(node.position.y), round(node.position.z)],
+    centrality: round(node.centralityScore),
+    semanticWeight: round(node.semanticWeight),
+    confidence: round(confidence),
+    businessCriticality: node.businessCriticality,
+    clusterId: node.clusterData.clusterId,
+    metadata
+  };
+};
+
+const toDatasetEdge = (edge: KnowledgeGraphEdge): GraphDatasetEdge => {
+  const { confidence, ...metadata } = edge.metadata;
+  return {
+    id: edge.id,
+    source: edge.fromNode,
+    target: edge.toNode,
+    relationship: edge.label,
+    type: edge.relationshipType,
+    strength: round(edge.strength),
+    confidence: round(confidence),
+    metadata
+  };
+};
+
+// JSON in the same dataset format the loader reads, so exports can be re-imported
+export const exportSubgraphToJSON = (subgraph: Subgraph, graph: KnowledgeGraph): string => {
+  const dataset: GraphDataset = {
+    version: 1,
+    metadata: {
+      name: `${graph.metadata.name} (subgrafo)`,
+      description: `${subgraph.seedIds.length} nodos seleccionados, ${subgraph.hops} saltos de vecindad`,
+      source: graph.metadata.source,
+      createdAt: new Date().toISOString(),
+      exportedFrom: graph.metadata.name,
+      seedNodes: subgraph.seedIds
+    },
+    nodes: subgraph.nodes.map(toDatasetNode),
+    edges: subgraph.edges.map(toDatasetEdge)
+  };
+
+  return JSON.stringify(dataset, null, 2);
+};
+
+const escapeXml = (value: unknown): string =>
+  String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const GRAPHML_NODE_KEYS: { id: string; name: string; type: 'string' | 'double'; read: (node: KnowledgeGraphNode) => unknown }[] = [
+  { id: 'd0', name: 'label', type: 'string', read: node => node.label },
+  { id: 'd1', name: 'type', type: 'string', read: node => node.type },
+  { id: 'd2', name: 'color', type: 'string', read: node => node.color },
+  { id: 'd3', name: 'cluster', type: 'string', read: node => node.clusterData.clusterId },
+  { id: 'd4', name: 'centrality', type: 'double', read: node => round(node.centralityScore) },
+  { id: 'd5', name: 'confidence', type: 'double', read: node => round(node.metadata.confidence) },
+  { id: 'd6', name: 'dataSource', type: 'string', read: node => node.metadata.dataSource },
+  { id: 'd7', name: 'businessUnit', type: 'string', read: node => node.metadata.businessUnit },
+  { id: 'd8', name: 'tags', type: 'string', read: node => node.metadata.tags.join(';') },
+  { id: 'd9', name: 'x', type: 'double', read: node => round(node.position.x) },
+  { id: 'd10', name: 'y', type: 'double', read: node => round(node.position.y) },
+  { id: 'd11', name: 'z', type: 'double', read: node => round(node.position.z) }
+];
+
+const GRAPHML_EDGE_KEYS: { id: string; name: string; type: 'string' | 'double'; read: (edge: KnowledgeGraphEdge) => unknown }[] = [
+  { id: 'e0', name: 'relationship', type: 'string', read: edge => edge.label },
+  { id: 'e1', name: 'weight', type: 'double', read: edge => round(edge.strength) },
+  { id: 'e2', name: 'confidence', type: 'double', read: edge => round(edge.metadata.confidence) }
+];
+
+export const exportSubgraphToGraphML = (subgraph: Subgraph, graph: KnowledgeGraph): string => {
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    ...GRAPHML_NODE_KEYS.map(key => `  <key id="${key.id}" for="node" attr.name="${key.name}" attr.type="${key.type}"/>`),
+    ...GRAPHML_EDGE_KEYS.map(key => `  <key id="${key.id}" for="edge" attr.name="${key.name}" attr.type="${key.type}"/>`),
+    `  <graph id="${escapeXml(graph.metadata.name)}" edgedefault="directed">`
+  ];
+
+  subgraph.nodes.forEach(node => {
+    lines.push(`    <node id="${escapeXml(node.id)}">`);
+    GRAPHML_NODE_KEYS.forEach(key => {
+      lines.push(`      <data key="${key.id}">${escapeXml(key.read(node))}</data>`);
+    });
+    lines.push('    </node>');
+  });
+
+  subgraph.edges.forEach(edge => {
+    lines.push(`    <edge id="${escapeXml(edge.id)}" source="${escapeXml(edge.fromNode)}" target="${escapeXml(edge.toNode)}">`);
+    GRAPHML_EDGE_KEYS.forEach(key => {
+      lines.push(`      <data key="${key.id}">${escapeXml(key.read(edge))}</data>`);
+    });
+    lines.push('    </edge>');
+  });
+
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n');
+};
+
+const cypherString = (value: string): string =>
+  `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+const cypherValue = (value: unknown): string => {
+  if (typeof value === 'number') return String(round(value));
+  if (typeof value === 'boolean') return String(value);
+  if (Array.isArray(value)) return `[${value.map(item => cypherValue(item)).join(', ')}]`;
+  return cypherString(String(value ?? ''));
+};
+
+const cypherProperties = (properties: Record<string, unknown>): string =>
+  '{' + Object.entries(properties)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([key, value]) => `${key}: ${cypherValue(value)}`)
+    .join(', ') + '}';
+
+const cypherIdentifier = (value: string): string =>
+  value.toUpperCase().replace(/[^A-Z0-9_]/g, '_').replace(/^(\d)/, '_$1') || 'RELATED_TO';
+
+// One CREATE statement so node variables stay in scope for the relationships
+export const exportSubgraphToCypher = (subgraph: Subgraph, graph: KnowledgeGraph): string => {
+  const variables = new Map(subgraph.nodes.map((node, index) => [node.id, `n${index}`]));
+  const patterns: string[] = [];
+
+  subgraph.nodes.forEach(node => {
+    const label = node.type.charAt(0) + node.type.slice(1).toLowerCase();
+    patterns.push(`  (${variables.get(node.id)}:KnowledgeNode:${label} ${cypherProperties({
+      id: node.id,
+      label: node.label,
+      cluster: node.clusterData.clusterId,
+      centrality: node.centralityScore,
+      confidence: node.metadata.confidence,
+      dataSource: node.metadata.dataSource,
+      businessUnit: node.metadata.businessUnit,
+      tags: node.metadata.tags
+    })})`);
+  });
+
+  subgraph.edges.forEach(edge => {
+    patterns.push(`  (${variables.get(edge.fromNode)})-[:${cypherIdentifier(edge.label)} ${cypherProperties({
+      type: edge.relationshipType,
+      strength: edge.strength,
+      confidence: edge.metadata.confidence
+    })}]->(${variables.get(edge.toNode)})`);
+  });
+
+  const header = [
+    `// ${graph.metadata.name}: ${subgraph.nodes.length} nodes, ${subgraph.edges.length} relationships`,
+    `// Exported ${new Date().toISOString()}`
+  ];
+
+  if (patterns.length === 0) return header.join('\n') + '\n';
+  return `${header.join('\n')}\nCREATE\n${patterns.join(',\n')};\n`;
+};
+
+export const exportSubgraph = (subgraph: Subgraph, graph: KnowledgeGraph, format: GraphExportFormat): string => {
+  switch (format) {
+    case 'graphml':
+      return exportSubgraphToGraphML(subgraph, graph);
+    case 'cypher':
+      return exportSubgraphToCypher(subgraph, graph);
+    default:
+      return exportSubgraphToJSON(subgraph, graph);
+  }
+};
+
+// Trigger a browser download without a round-trip to any server
+export const downloadTextFile = (content: string, fileName: string, mimeType: string): void => {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadSubgraph = (subgraph: Subgraph, graph: KnowledgeGraph, format: GraphExportFormat): void => {
+  const { extension, mimeType } = EXPORT_FILE_TYPES[format];
+  const baseName = graph.metadata.name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '') || 'knowledge-graph';
+
+  downloadTextFile(exportSubgraph(subgraph, graph, format), `${baseName}-subgraph.${extension}`, mimeType);
+};
@@ -0,0 +1,610 @@
+import {
+  GraphDataset,
+  GraphDatasetEdge,
+  GraphDatasetNode,
+  KnowledgeNodeType,
+  RelationshipCategory
+} from '@/types/graph';
+import { NODE_TYPES, RELATIONSHIP_TYPES, validateGraphDataset } from './graphDataLoader';
+
+export type GraphImportFormat = 'graphml' | 'gexf' | 'csv' | 'json';
+
+export interface GraphImportResult {
+  dataset: GraphDataset | null;
+  format: GraphImportFormat;
+  errors: string[];
+  warnings: string[];
+}
+
+// Keep imported layouts inside the same radius the scene uses for its own layout
+const TARGET_LAYOUT_RADIUS = 25;
+const DEFAULT_RELATIONSHIP = 'RELATED_TO';
+
+// Intermediate shapes shared by every importer before normalisation
+interface RawNode {
+  id: string;
+  location: string;
+  attributes: Record<string, string>;
+  color?: string;
+  size?: number;
+  position?: [number, number, number];
+}
+
+interface RawEdge {
+  id?: string;
+  location: string;
+  source: string;
+  target: string;
+  attributes: Record<string, string>;
+}
+
+const NODE_TYPE_ALIASES: Record<string, KnowledgeNodeType> = {
+  core: 'CORE',
+  hub: 'CORE',
+  entity: 'ENTITY',
+  person: 'ENTITY',
+  persona: 'ENTITY',
+  personas: 'ENTITY',
+  organization: 'ENTITY',
+  process: 'PROCESS',
+  proceso: 'PROCESS',
+  procesos: 'PROCESS',
+  relation: 'RELATION',
+  relacion: 'RELATION',
+  relaciones: 'RELATION',
+  concept: 'RELATION',
+  concepto: 'RELATION',
+  conceptos: 'RELATION',
+  document: 'RELATION'
+};
+
+const pick = (attributes: Record<string, string>, ...keys: string[]): string | undefined => {
+  for (const key of keys) {
+    const value = attributes[key.toLowerCase()];
+    if (value !== undefined && value !== '') return value;
+  }
+  return undefined;
+};
+
+const parseNumber = (
+  value: string | undefined,
+  location: string,
+  field: string,
+  errors: string[]
+): number | undefined => {
+  if (value === undefined || value === '') return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    errors.push(`${location}: ${field} "${value}" is not a number`);
+    return undefined;
+  }
+  return parsed;
+};
+
+const resolveNodeType = (value: string | undefined, location: string, warnings: string[]): KnowledgeNodeType => {
+  if (!value) return 'ENTITY';
+  const upper = value.toUpperCase() as KnowledgeNodeType;
+  if (NODE_TYPES.includes(upper)) return upper;
+
+  const alias = NODE_TYPE_ALIASES[value.toLowerCase()];
+  if (alias) return alias;
+
+  warnings.push(`${location}: unknown node type "${value}", imported as ENTITY`);
+  return 'ENTITY';
+};
+
+const resolveRelationshipCategory = (label: string): RelationshipCategory | undefined =>
+  RELATIONSHIP_TYPES.find(rel => rel.label === label.toUpperCase())?.type;
+
+const toHexColor = (r: number, g: number, b: number): string =>
+  '#' + [r, g, b].map(channel => Math.max(0, Math.min(255, Math.round(channel))).toString(16).padStart(2, '0')).join('');
+
+// Shared conversion from raw records to the dataset format
+const normalizeRawGraph = (
+  rawNodes: RawNode[],
+  rawEdges: RawEdge[],
+  name: string,
+  source: string,
+  errors: string[],
+  warnings: string[]
+): GraphDataset | null => {
+  const nodeIds = new Set<string>();
+  const nodes: GraphDatasetNode[] = [];
+
+  rawNodes.forEach(raw => {
+    if (!raw.id) {
+      errors.push(`${raw.location}: node is missing an id`);
+      return;
+    }
+    if (nodeIds.has(raw.id)) {
+      errors.push(`${raw.location}: duplicate node id "${raw.id}"`);
+      return;
+    }
+    nodeIds.add(raw.id);
+
+    const { attributes, location } = raw;
+    const centrality = parseNumber(pick(attributes, 'centrality'), location, 'centrality', errors);
+    const confidence = parseNumber(pick(attributes, 'confidence'), location, 'confidence', errors);
+    const size = raw.size ?? parseNumber(pick(attributes, 'size'), location, 'size', errors);
+
+    const knownKeys = new Set(['id', 'label', 'name', 'type', 'category', 'color', 'size', 'centrality', 'confidence', 'cluster', 'clusterid', 'community', 'modularity_class', 'datasource', 'source', 'businessunit', 'tags']);
+    const extra: Record<string, unknown> = {};
+    Object.entries(attributes).forEach(([key, value]) => {
+      if (!knownKeys.has(key)) extra[key] = value;
+    });
+
+    const node: GraphDatasetNode = {
+      id: raw.id,
+      label: pick(attributes, 'label', 'name') || raw.id,
+      type: resolveNodeType(pick(attributes, 'type', 'category'), location, warnings),
+      color: raw.color || pick(attributes, 'color'),
+      size: size !== undefined ? Math.max(0.5, Math.min(4, size)) : undefined,
+      position: raw.position,
+      clusterId: pick(attributes, 'cluster', 'clusterId', 'community', 'modularity_class'),
+      metadata: {
+        dataSource: pick(attributes, 'dataSource', 'source') || source,
+        businessUnit: pick(attributes, 'businessUnit'),
+        tags: pick(attributes, 'tags')?.split(/[;|]/).map(tag => tag.trim()).filter(Boolean),
+        attributes: extra
+      }
+    };
+
+    if (centrality !== undefined) {
+      if (centrality < 0 || centrality > 1) errors.push(`${location}: centrality must be between 0 and 1`);
+      else node.centrality = centrality;
+    }
+    if (confidence !== undefined) {
+      if (confidence < 0 || confidence > 1) errors.push(`${location}: confidence must be between 0 and 1`);
+      else node.confidence = confidence;
+    }
+
+    nodes.push(node);
+  });
+
+  // Weights arrive in arbitrary units: normalise to strength in 0..1
+  const parsedWeights = rawEdges.map(raw =>
+    parseNumber(pick(raw.attributes, 'weight', 'strength'), raw.location, 'weight', errors)
+  );
+  const maxWeight = Math.max(0, ...parsedWeights.filter((weight): weight is number => weight !== undefined));
+
+  const edges: GraphDatasetEdge[] = [];
+  rawEdges.forEach((raw, index) => {
+    const { location, attributes } = raw;
+    if (!raw.source || !raw.target) {
+      errors.push(`${location}: edge needs both source and target`);
+      return;
+    }
+    if (!nodeIds.has(raw.source)) {
+      errors.push(`${location}: source "${raw.source}" does not match any node`);
+      return;
+    }
+    if (!nodeIds.has(raw.target)) {
+      errors.push(`${location}: target "${raw.target}" does not match any node`);
+      return;
+    }
+    if (raw.source === raw.target) {
+      warnings.push(`${location}: self-loop on "${raw.source}" skipped`);
+      return;
+    }
+
+    const weight = parsedWeights[index];
+    if (weight !== undefined && weight < 0) {
+      errors.push(`${location}: weight must not be negative`);
+      return;
+    }
+
+    const relationship = (pick(attributes, 'relationship', 'relation', 'label') || DEFAULT_RELATIONSHIP).toUpperCase().replace(/\s+/g, '_');
+    const confidence = parseNumber(pick(attributes, 'confidence'), location, 'confidence', errors);
+    if (confidence !== undefined && (confidence < 0 || confidence > 1)) {
+      errors.push(`${location}: confidence must be between 0 and 1`);
+      return;
+    }
+
+    edges.push({
+      id: raw.id,
+      source: raw.source,
+      target: raw.target,
+      relationship,
+      type: resolveRelationshipCategory(relationship),
+      strength: weight !== undefined && maxWeight > 0 ? weight / maxWeight : undefined,
+      confidence,
+      metadata: { weight, validatedBy: source }
+    });
+  });
+
+  // Rescale imported layouts (Gephi coordinates are usually in the hundreds)
+  const positioned = nodes.filter(node => node.position);
+  if (positioned.length > 0 && positioned.length < nodes.length) {
+    warnings.push(`${nodes.length - positioned.length} nodes have no position; layout positions ignored`);
+    nodes.forEach(node => { delete node.position; });
+  } else if (positioned.length > 0) {
+    const extent = Math.max(...positioned.flatMap(node => node.position!.map(Math.abs)), 1);
+    const scale = TARGET_LAYOUT_RADIUS / extent;
+    nodes.forEach(node => {
+      node.position = node.position!.map(value => value * scale) as [number, number, number];
+    });
+  }
+
+  if (errors.length > 0) return null;
+
+  const dataset: GraphDataset = {
+    version: 1,
+    metadata: {
+      name,
+      source,
+      createdAt: new Date().toISOString()
+    },
+    nodes,
+    edges
+  };
+
+  errors.push(...validateGraphDataset(dataset));
+  return errors.length > 0 ? null : dataset;
+};
+
+// XML helpers
+const parseXml = (text: string, errors: string[]): Document | null => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  const parserError = doc.getElementsByTagName('parsererror')[0];
+  if (parserError) {
+    errors.push(`XML parse error: ${parserError.textContent?.trim().split('\n')[0] || 'malformed document'}`);
+    return null;
+  }
+  return doc;
+};
+
+const describeElement = (element: Element, index: number): string => {
+  const id = element.getAttribute('id');
+  return id ? `<${element.localName} id="${id}">` : `<${element.localName}> #${index + 1}`;
+};
+
+const childrenByLocalName = (parent: Element | Document, name: string): Element[] =>
+  Array.from(parent.getElementsByTagNameNS('*', name));
+
+// GraphML: <key> declarations map data keys to attribute names
+export const importGraphML = (text: string, name: string = 'GraphML import'): GraphImportResult => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const doc = parseXml(text, errors);
+  if (!doc) return { dataset: null, format: 'graphml', errors, warnings };
+
+  const graph = childrenByLocalName(doc, 'graph')[0];
+  if (!graph) {
+    errors.push('<graph> element not found');
+    return { dataset: null, format: 'graphml', errors, warnings };
+  }
+
+  const keyNames = new Map<string, string>();
+  childrenByLocalName(doc, 'key').forEach(key => {
+    const id = key.getAttribute('id');
+    if (id) keyNames.set(id, (key.getAttribute('attr.name') || id).toLowerCase());
+  });
+
+  const readData = (element: Element): Record<string, string> => {
+    const attributes: Record<string, string> = {};
+    Array.from(element.children)
+      .filter(child => child.localName === 'data')
+      .forEach(data => {
+        const key = data.getAttribute('key') || '';
+        attributes[keyNames.get(key) || key.toLowerCase()] = data.textContent?.trim() || '';
+      });
+    return attributes;
+  };
+
+  const rawNodes: RawNode[] = childrenByLocalName(graph, 'node').map((element, index) => {
+    const attributes = readData(element);
+    const location = describeElement(element, index);
+    const x = parseNumber(attributes.x, location, 'x', errors);
+    const y = parseNumber(attributes.y, location, 'y', errors);
+    const z = parseNumber(attributes.z, location, 'z', errors);
+
+    return {
+      id: element.getAttribute('id') || '',
+      location,
+      attributes,
+      position: x !== undefined && y !== undefined ? [x, y, z ?? 0] : undefined
+    };
+  });
+
+  const rawEdges: RawEdge[] = childrenByLocalName(graph, 'edge').map((element, index) => ({
+    id: element.getAttribute('id') || undefined,
+    location: describeElement(element, index),
+    source: element.getAttribute('source') || '',
+    target: element.getAttribute('target') || '',
+    attributes: readData(element)
+  }));
+
+  const dataset = normalizeRawGraph(rawNodes, rawEdges, name, 'GraphML', errors, warnings);
+  return { dataset, format: 'graphml', errors, warnings };
+};
+
+// GEXF: attribute declarations plus viz:color / viz:size / viz:position
+export const importGEXF = (text: string, name: string = 'GEXF import'): GraphImportResult => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const doc = parseXml(text, errors);
+  if (!doc) return { dataset: null, format: 'gexf', errors, warnings };
+
+  const graph = childrenByLocalName(doc, 'graph')[0];
+  if (!graph) {
+    errors.push('<graph> element not found');
+    return { dataset: null, format: 'gexf', errors, warnings };
+  }
+
+  const attributeNames = new Map<string, string>();
+  childrenByLocalName(doc, 'attribute').forEach(attribute => {
+    const id = attribute.getAttribute('id');
+    const classScope = attribute.parentElement?.getAttribute('class') || 'node';
+    if (id) attributeNames.set(`${classScope}:${id}`, (attribute.getAttribute('title') || id).toLowerCase());
+  });
+
+  const readAttValues = (element: Element, classScope: 'node' | 'edge'): Record<string, string> => {
+    const attributes: Record<string, string> = {};
+    childrenByLocalName(element, 'attvalue').forEach(attvalue => {
+      const key = attvalue.getAttribute('for') || attvalue.getAttribute('id') || '';
+      attributes[attributeNames.get(`${classScope}:${key}`) || key.toLowerCase()] = attvalue.getAttribute('value') || '';
+    });
+    return attributes;
+  };
+
+  const rawNodes: RawNode[] = childrenByLocalName(graph, 'node').map((element, index) => {
+    const location = describeElement(element, index);
+    const attributes = readAttValues(element, 'node');
+    const label = element.getAttribute('label');
+    if (label && !attributes.label) attributes.label = label;
+
+    const raw: RawNode = {
+      id: element.getAttribute('id') || '',
+      location,
+      attributes
+    };
+
+    const color = childrenByLocalName(element, 'color')[0];
+    if (color) {
+      const hex = color.getAttribute('hex');
+      raw.color = hex || toHexColor(
+        Number(color.getAttribute('r') || 0),
+        Number(color.getAttribute('g') || 0),
+        Number(color.getAttribute('b') || 0)
+      );
+    }
+
+    const size = childrenByLocalName(element, 'size')[0];
+    if (size) {
+      raw.size = parseNumber(size.getAttribute('value') || undefined, location, 'viz:size', errors);
+    }
+
+    const position = childrenByLocalName(element, 'position')[0];
+    if (position) {
+      const x = parseNumber(position.getAttribute('x') || '0', location, 'viz:position x', errors) ?? 0;
+      const y = parseNumber(position.getAttribute('y') || '0', location, 'viz:position y', errors) ?? 0;
+      const z = parseNumber(position.getAttribute('z') || '0', location, 'viz:position z', errors) ?? 0;
+      raw.position = [x, y, z];
+    }
+
+    return raw;
+  });
+
+  // Gephi viz:size is in screen units; bring it into the scene's node size range
+  const sizes = rawNodes.map(node => node.size).filter((size): size is number => size !== undefined);
+  if (sizes.length > 0) {
+    const maxSize = Math.max(...sizes, 1);
+    rawNodes.forEach(node => {
+      if (node.size !== undefined) node.size = 0.8 + (node.size / maxSize) * 1.7;
+    });
+  }
+
+  const rawEdges: RawEdge[] = childrenByLocalName(graph, 'edge').map((element, index) => {
+    const attributes = readAttValues(element, 'edge');
+    const weight = element.getAttribute('weight');
+    const label = element.getAttribute('label');
+    if (weight && !attributes.weight) attributes.weight = weight;
+    if (label && !attributes.label) attributes.label = label;
+
+    return {
+      id: element.getAttribute('id') || undefined,
+      location: describeElement(element, index),
+      source: element.getAttribute('source') || '',
+      target: element.getAttribute('target') || '',
+      attributes
+    };
+  });
+
+  const dataset = normalizeRawGraph(rawNodes, rawEdges, name, 'GEXF', errors, warnings);
+  return { dataset, format: 'gexf', errors, warnings };
+};
+
+// RFC 4180 style CSV parsing (quoted fields, escaped quotes, CRLF)
+export const parseCSV = (text: string, delimiter: string = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(value => value.trim() !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  if (row.some(value => value.trim() !== '')) rows.push(row);
+  return rows;
+};
+
+const csvRecords = (text: string, fileLabel: string, errors: string[]): { row: number; values: Record<string, string> }[] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0];
+  // Spreadsheet exports in es-ES locales use ';' as separator
+  const delimiter = !firstLine.includes(',') && firstLine.includes(';') ? ';' : ',';
+  const rows = parseCSV(content, delimiter);
+  if (rows.length === 0) {
+    errors.push(`${fileLabel}: file is empty`);
+    return [];
+  }
+
+  const header = rows[0].map(column => column.trim().toLowerCase());
+  return rows.slice(1).map((values, index) => {
+    const rowNumber = index + 2; // 1-based, header is row 1
+    if (values.length !== header.length) {
+      errors.push(`${fileLabel} row ${rowNumber}: expected ${header.length} columns, found ${values.length}`);
+    }
+    const record: Record<string, string> = {};
+    header.forEach((column, columnIndex) => {
+      record[column] = (values[columnIndex] || '').trim();
+    });
+    return { row: rowNumber, values: record };
+  });
+};
+
+// Node/edge CSV pair (Gephi "Id,Label" + "Source,Target,Weight" layout). Nodes are optional.
+// File names only label error locations.
+export const importCSVEdgeList = (
+  edgesCsv: string,
+  nodesCsv: string | null = null,
+  name: string = 'CSV import',
+  edgesFileName: string = 'edges.csv',
+  nodesFileName: string = 'nodes.csv'
+): GraphImportResult => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const edgeRecords = csvRecords(edgesCsv, edgesFileName, errors);
+  const nodeRecords = nodesCsv ? csvRecords(nodesCsv, nodesFileName, errors) : [];
+
+  if (edgeRecords.length > 0 && (!('source' in edgeRecords[0].values) || !('target' in edgeRecords[0].values))) {
+    errors.push(`${edgesFileName}: header must contain "source" and "target" columns`);
+  }
+  if (nodeRecords.length > 0 && !('id' in nodeRecords[0].values)) {
+    errors.push(`${nodesFileName}: header must contain an "id" column`);
+  }
+  if (errors.length > 0) return { dataset: null, format: 'csv', errors, warnings };
+
+  const rawNodes: RawNode[] = nodeRecords.map(({ row, values }) => ({
+    id: values.id,
+    location: `${nodesFileName} row ${row}`,
+    attributes: values
+  }));
+
+  // Without a nodes file every endpoint becomes an ENTITY node
+  if (!nodesCsv) {
+    const seen = new Set<string>();
+    edgeRecords.forEach(({ row, values }) => {
+      [values.source, values.target].forEach(id => {
+        if (id && !seen.has(id)) {
+          seen.add(id);
+          rawNodes.push({ id, location: `${edgesFileName} row ${row}`, attributes: { id } });
+        }
+      });
+    });
+  }
+
+  const rawEdges: RawEdge[] = edgeRecords.map(({ row, values }) => {
+    // Gephi uses "type" for Directed/Undirected, not for the relationship
+    const attributes = { ...values };
+    if (/^(directed|undirected|mixed)$/i.test(attributes.type || '')) delete attributes.type;
+    if (attributes.type && !attributes.relationship) attributes.relationship = attributes.type;
+
+    return {
+      id: values.id || undefined,
+      location: `${edgesFileName} row ${row}`,
+      source: values.source,
+      target: values.target,
+      attributes
+    };
+  });
+
+  const dataset = normalizeRawGraph(rawNodes, rawEdges, name, 'CSV', errors, warnings);
+  return { dataset, format: 'csv', errors, warnings };
+};
+
+export const importGraphDatasetJSON = (text: string): GraphImportResult => {
+  try {
+    const data: unknown = JSON.parse(text);
+    const errors = validateGraphDataset(data);
+    return {
+      dataset: errors.length === 0 ? data as GraphDataset : null,
+      format: 'json',
+      errors,
+      warnings: []
+    };
+  } catch (error) {
+    return {
+      dataset: null,
+      format: 'json',
+      errors: [`JSON parse error: ${(error as Error).message}`],
+      warnings: []
+    };
+  }
+};
+
+const extensionOf = (fileName: string): string => fileName.split('.').pop()?.toLowerCase() || '';
+
+// Pick the importer from the file extension(s). CSV needs an edges file and accepts an optional nodes file.
+export const importGraphFiles = async (files: File[]): Promise<GraphImportResult> => {
+  if (files.length === 0) {
+    return { dataset: null, format: 'json', errors: ['No file selected'], warnings: [] };
+  }
+
+  const csvFiles = files.filter(file => extensionOf(file.name) === 'csv');
+  if (csvFiles.length > 0) {
+    const nodesFile = csvFiles.find(file => /node/i.test(file.name));
+    const edgesFile = csvFiles.find(file => file !== nodesFile) || null;
+    if (!edgesFile) {
+      return { dataset: null, format: 'csv', errors: ['An edges CSV file is required (e.g. edges.csv)'], warnings: [] };
+    }
+    return importCSVEdgeList(
+      await edgesFile.text(),
+      nodesFile ? await nodesFile.text() : null,
+      edgesFile.name.replace(/\.csv$/i, ''),
+      edgesFile.name,
+      nodesFile?.name
+    );
+  }
+
+  const [file] = files;
+  const text = await file.text();
+  const name = file.name.replace(/\.[^.]+$/, '');
+
+  switch (extensionOf(file.name)) {
+    case 'graphml':
+    case 'xml':
+      return importGraphML(text, name);
+    case 'gexf':
+      return importGEXF(text, name);
+    case 'json':
+      return importGraphDatasetJSON(text);
+    default:
+      return {
+        dataset: null,
+        format: 'json',
+        errors: [`Unsupported file type: ${file.name}`],
+        warnings: []
+      };
+  }
+};
@@ -0,0 +1,500 @@
+import { KnowledgeGraph } from '@/types/graph';
+import { NODE_TYPES } from '@/lib/graphDataLoader';
+
+export type LayoutId = 'force' | 'radial' | 'hierarchical' | 'clusters';
+
+// Plain, structured-clone friendly snapshot of what the layouts need
+export interface LayoutInput {
+  nodeIds: string[];
+  typeRanks: number[]; // Index of the node type in NODE_TYPES
+  clusterIds: string[];
+  positions: number[]; // Flat x, y, z per node
+  edges: [number, number, number][]; // [fromIndex, toIndex, strength]
+  parentEdges: [number, number][]; // PARENT_OF as [parentIndex, childIndex]
+  pinned: [number, number, number, number][]; // [index, x, y, z]
+}
+
+export interface LayoutSimulation {
+  positions: Float64Array;
+  tick(): void;
+  isDone(): boolean;
+  progress(): number; // 0..1
+  pin(index: number, x: number, y: number, z: number): void;
+  unpin(index: number): void;
+}
+
+export type LayoutWorkerRequest =
+  | { type: 'start'; layoutId: LayoutId; input: LayoutInput }
+  | { type: 'pin'; index: number; position: [number, number, number] }
+  | { type: 'unpin'; index: number }
+  | { type: 'stop' };
+
+export interface LayoutFrame {
+  positions: Float32Array;
+  progress: number;
+  done: boolean;
+}
+
+// Ticks run between two position updates sent to the scene
+export const LAYOUT_TICKS_PER_BATCH = 3;
+
+export const LAYOUT_LABELS: Record<LayoutId, string> = {
+  force: 'Fuerzas',
+  radial: 'Radial por tipo',
+  hierarchical: 'Jerárquico',
+  clusters: 'Por grupos'
+};
+
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+export const toLayoutInput = (graph: KnowledgeGraph, pinned: Map<string, [number, number, number]> = new Map()): LayoutInput => {
+  const indexById = new Map(graph.nodes.map((node, index) => [node.id, index]));
+  const positions: number[] = [];
+  graph.nodes.forEach(node => positions.push(node.position.x, node.position.y, node.position.z));
+
+  return {
+    nodeIds: graph.nodes.map(node => node.id),
+    typeRanks: graph.nodes.map(node => Math.max(0, NODE_TYPES.indexOf(node.type))),
+    clusterIds: graph.nodes.map(node => node.clusterData.clusterId),
+    positions,
+    edges: graph.edges.map(edge => [indexById.get(edge.fromNode)!, indexById.get(edge.toNode)!, edge.strength]),
+    parentEdges: graph.edges
+      .filter(edge => edge.label === 'PARENT_OF')
+      .map(edge => [indexById.get(edge.fromNode)!, indexById.get(edge.toNode)!]),
+    pinned: Array.from(pinned.entries())
+      .filter(([id]) => indexById.has(id))
+      .map(([id, [x, y, z]]) => [indexById.get(id)!, x, y, z])
+  };
+};
+
+// Whether two versions of a graph lay out the same; metadata edits keep nodes, edges and clusters
+export const hasSameLayoutStructure = (a: KnowledgeGraph | null, b: KnowledgeGraph | null): boolean => {
+  if (a === b) return true;
+  if (!a || !b) return false;
+  return a.edges === b.edges &&
+    a.clusters === b.clusters &&
+    a.nodes.length === b.nodes.length &&
+    a.nodes.every((node, index) => node.id === b.nodes[index].id && node.type === b.nodes[index].type);
+};
+
+// Evenly spaced point i of n on a sphere of the given radius
+const fibonacciPoint = (i: number, n: number, radius: number, out: Float64Array, offset: number) => {
+  if (n === 1) {
+    out[offset] = 0;
+    out[offset + 1] = 0;
+    out[offset + 2] = 0;
+    return;
+  }
+  const y = 1 - (2 * (i + 0.5)) / n;
+  const ring = Math.sqrt(1 - y * y);
+  const theta = i * GOLDEN_ANGLE;
+  out[offset] = Math.cos(theta) * ring * radius;
+  out[offset + 1] = y * radius;
+  out[offset + 2] = Math.sin(theta) * ring * radius;
+};
+
+// Layouts computed in one pass; they settle on the first tick
+class StaticLayout implements LayoutSimulation {
+  positions: Float64Array;
+  private compute: (positions: Float64Array) => void;
+  private pinned = new Map<number, [number, number, number]>();
+  private done = false;
+
+  constructor(compute: (positions: Float64Array) => void, input: LayoutInput) {
+    this.compute = compute;
+    this.positions = new Float64Array(input.positions);
+    input.pinned.forEach(([index, x, y, z]) => this.pinned.set(index, [x, y, z]));
+  }
+
+  tick(): void {
+    if (!this.done) this.compute(this.positions);
+    this.pinned.forEach(([x, y, z], index) => {
+      this.positions[index * 3] = x;
+      this.positions[index * 3 + 1] = y;
+      this.positions[index * 3 + 2] = z;
+    });
+    this.done = true;
+  }
+
+  isDone(): boolean {
+    return this.done;
+  }
+
+  progress(): number {
+    return this.done ? 1 : 0;
+  }
+
+  pin(index: number, x: number, y: number, z: number): void {
+    this.pinned.set(index, [x, y, z]);
+    this.tick();
+  }
+
+  unpin(index: number): void {
+    this.pinned.delete(index);
+  }
+}
+
+interface OctreeCell {
+  x: number;
+  y: number;
+  z: number;
+  half: number;
+  mass: number;
+  cx: number;
+  cy: number;
+  cz: number;
+  body: number; // Single body index, -1 when empty or subdivided
+  children: (OctreeCell | null)[] | null;
+}
+
+const MAX_OCTREE_DEPTH = 24;
+
+const createCell = (x: number, y: number, z: number, half: number): OctreeCell => ({
+  x, y, z, half, mass: 0, cx: 0, cy: 0, cz: 0, body: -1, children: null
+});
+
+const octant = (cell: OctreeCell, px: number, py: number, pz: number): number =>
+  (px >= cell.x ? 1 : 0) | (py >= cell.y ? 2 : 0) | (pz >= cell.z ? 4 : 0);
+
+const childCell = (cell: OctreeCell, index: number): OctreeCell => {
+  const quarter = cell.half / 2;
+  return createCell(
+    cell.x + (index & 1 ? quarter : -quarter),
+    cell.y + (index & 2 ? quarter : -quarter),
+    cell.z + (index & 4 ? quarter : -quarter),
+    quarter
+  );
+};
+
+// 3D force-directed layout: Barnes–Hut repulsion, springs along edges and a
+// weak pull to the origin, cooled d3-style until alpha drops below ALPHA_MIN.
+class ForceLayout implements LayoutSimulation {
+  static readonly THETA = 0.9;
+  static readonly CHARGE = -3;
+  static readonly LINK_DISTANCE = 6;
+  static readonly GRAVITY = 0.1;
+  static readonly VELOCITY_DECAY = 0.4;
+  static readonly ALPHA_MIN = 0.001;
+  static readonly ALPHA_DECAY = 1 - Math.pow(0.001, 1 / 300);
+
+  positions: Float64Array;
+  private velocities: Float64Array;
+  private edges: [number, number, number][];
+  private degree: Float64Array;
+  private pinned = new Map<number, [number, number, number]>();
+  private alpha = 1;
+
+  constructor(input: LayoutInput) {
+    const n = input.nodeIds.length;
+    this.positions = new Float64Array(input.positions);
+    this.velocities = new Float64Array(n * 3);
+    this.edges = input.edges.filter(([from, to]) => from !== to);
+    this.degree = new Float64Array(n);
+    this.edges.forEach(([from, to]) => {
+      this.degree[from]++;
+      this.degree[to]++;
+    });
+    input.pinned.forEach(([index, x, y, z]) => this.pinned.set(index, [x, y, z]));
+  }
+
+  isDone(): boolean {
+    return this.alpha < ForceLayout.ALPHA_MIN;
+  }
+
+  progress(): number {
+    return Math.min(1, Math.log(this.alpha) / Math.log(ForceLayout.ALPHA_MIN));
+  }
+
+  // Pinning reheats the simulation so neighbours react to the new position
+  pin(index: number, x: number, y: number, z: number): void {
+    this.pinned.set(index, [x, y, z]);
+    this.alpha = Math.max(this.alpha, 0.3);
+  }
+
+  unpin(index: number): void {
+    this.pinned.delete(index);
+    this.alpha = Math.max(this.alpha, 0.3);
+  }
+
+  tick(): void {
+    if (this.isDone()) return;
+    this.alpha += (0 - this.alpha) * ForceLayout.ALPHA_DECAY;
+
+    this.applyLinks();
+    this.applyRepulsion();
+    this.applyGravity();
+
+    const p = this.positions;
+    const v = this.velocities;
+    for (let i = 0; i < p.length; i++) {
+      v[i] *= 1 - ForceLayout.VELOCITY_DECAY;
+      p[i] += v[i];
+    }
+
+    this.pinned.forEach(([x, y, z], index) => {
+      p[index * 3] = x;
+      p[index * 3 + 1] = y;
+      p[index * 3 + 2] = z;
+      v[index * 3] = v[index * 3 + 1] = v[index * 3 + 2] = 0;
+    });
+  }
+
+  private applyLinks(): void {
+    const p = this.positions;
+    const v = this.velocities;
+
+    this.edges.forEach(([from, to, strength]) => {
+      const a = from * 3;
+      const b = to * 3;
+      let dx = p[b] + v[b] - p[a] - v[a];
+      let dy = p[b + 1] + v[b + 1] - p[a + 1] - v[a + 1];
+      let dz = p[b + 2] + v[b + 2] - p[a + 2] - v[a + 2];
+      const length = Math.sqrt(dx * dx + dy * dy + dz * dz) || 1e-6;
+
+      // Stronger relationships pull their ends closer together
+      const restLength = ForceLayout.LINK_DISTANCE * (1.5 - Math.min(1, Math.max(0, strength)));
+      const k = ((length - restLength) / length) * this.alpha / Math.min(this.degree[from], this.degree[to]);
+      dx *= k;
+      dy *= k;
+      dz *= k;
+
+      const bias = this.degree[from] / (this.degree[from] + this.degree[to]);
+      v[b] -= dx * bias;
+      v[b + 1] -= dy * bias;
+      v[b + 2] -= dz * bias;
+      v[a] += dx * (1 - bias);
+      v[a + 1] += dy * (1 - bias);
+      v[a + 2] += dz * (1 - bias);
+    });
+  }
+
+  private buildOctree(): OctreeCell {
+    const p = this.positions;
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = 0; i < p.length; i++) {
+      min = Math.min(min, p[i]);
+      max = Math.max(max, p[i]);
+    }
+    const center = (min + max) / 2;
+    const root = createCell(center, center, center, Math.max(1, (max - min) / 2 + 1));
+
+    const insert = (cell: OctreeCell, body: number, depth: number) => {
+      const px = p[body * 3];
+      const py = p[body * 3 + 1];
+      const pz = p[body * 3 + 2];
+
+      cell.cx = (cell.cx * cell.mass + px) / (cell.mass + 1);
+      cell.cy = (cell.cy * cell.mass + py) / (cell.mass + 1);
+      cell.cz = (cell.cz * cell.mass + pz) / (cell.mass + 1);
+      cell.mass++;
+
+      if (cell.mass === 1) {
+        cell.body = body;
+        return;
+      }
+      // Coincident bodies past the depth limit share a leaf
+      if (depth >= MAX_OCTREE_DEPTH) return;
+
+      if (!cell.children) {
+        cell.children = new Array(8).fill(null);
+        const existing = cell.body;
+        cell.body = -1;
+        if (existing >= 0) {
+          const index = octant(cell, p[existing * 3], p[existing * 3 + 1], p[existing * 3 + 2]);
+          cell.children[index] = childCell(cell, index);
+          insert(cell.children[index]!, existing, depth + 1);
+        }
+      }
+
+      const index = octant(cell, px, py, pz);
+      if (!cell.children[index]) cell.children[index] = childCell(cell, index);
+      insert(cell.children[index]!, body, depth + 1);
+    };
+
+    for (let i = 0; i < p.length / 3; i++) insert(root, i, 0);
+    return root;
+  }
+
+  private applyRepulsion(): void {
+    const p = this.positions;
+    const v = this.velocities;
+    const root = this.buildOctree();
+    const thetaSquared = ForceLayout.THETA * ForceLayout.THETA;
+    const stack: OctreeCell[] = [];
+
+    for (let i = 0; i < p.length / 3; i++) {
+      const px = p[i * 3];
+      const py = p[i * 3 + 1];
+      const pz = p[i * 3 + 2];
+      stack.push(root);
+
+      while (stack.length > 0) {
+        const cell = stack.pop()!;
+        if (cell.mass === 0 || cell.body === i) continue;
+
+        let dx = cell.cx - px;
+        let dy = cell.cy - py;
+        let dz = cell.cz - pz;
+        let distanceSquared = dx * dx + dy * dy + dz * dz;
+        const width = cell.half * 2;
+
+        // Far enough away (or a leaf): treat the cell as a single mass
+        if (!cell.children || (width * width) / distanceSquared < thetaSquared) {
+          if (distanceSquared < 1e-6) {
+            // Nudge coincident nodes apart deterministically
+            dx = ((i % 7) - 3) * 1e-3 || 1e-3;
+            dy = ((i % 5) - 2) * 1e-3;
+            dz = ((i % 3) - 1) * 1e-3;
+            distanceSquared = dx * dx + dy * dy + dz * dz;
+          }
+          const force = (ForceLayout.CHARGE * this.alpha * cell.mass) / Math.max(1, distanceSquared);
+          v[i * 3] += dx * force;
+          v[i * 3 + 1] += dy * force;
+          v[i * 3 + 2] += dz * force;
+          continue;
+        }
+
+        cell.children.forEach(child => {
+          if (child) stack.push(child);
+        });
+      }
+    }
+  }
+
+  private applyGravity(): void {
+    const p = this.positions;
+    const v = this.velocities;
+    const k = ForceLayout.GRAVITY * this.alpha;
+    for (let i = 0; i < p.length; i++) v[i] -= p[i] * k;
+  }
+}
+
+// Concentric shells, one per node type (CORE innermost)
+const radialLayout = (input: LayoutInput) => (positions: Float64Array) => {
+  const byType = new Map<number, number[]>();
+  input.typeRanks.forEach((rank, index) => {
+    if (!byType.has(rank)) byType.set(rank, []);
+    byType.get(rank)!.push(index);
+  });
+
+  byType.forEach((members, rank) => {
+    const radius = 3 + rank * 7 + Math.sqrt(members.length);
+    members.forEach((node, i) => fibonacciPoint(i, members.length, radius, positions, node * 3));
+  });
+};
+
+// Levels top to bottom along PARENT_OF; nodes outside the hierarchy go below it
+const hierarchicalLayout = (input: LayoutInput) => (positions: Float64Array) => {
+  const n = input.nodeIds.length;
+  const children: number[][] = Array.from({ length: n }, () => []);
+  const hasParent = new Uint8Array(n);
+  const inHierarchy = new Uint8Array(n);
+  input.parentEdges.forEach(([parent, child]) => {
+    children[parent].push(child);
+    hasParent[child] = 1;
+    inHierarchy[parent] = inHierarchy[child] = 1;
+  });
+
+  const level = new Int32Array(n).fill(-1);
+  const parentOf = new Int32Array(n).fill(-1);
+  const queue: number[] = [];
+  const seed = (node: number) => {
+    level[node] = 0;
+    queue.push(node);
+  };
+
+  for (let i = 0; i < n; i++) {
+    if (inHierarchy[i] && !hasParent[i]) seed(i);
+  }
+
+  let head = 0;
+  for (;;) {
+    while (head < queue.length) {
+      const node = queue[head++];
+      children[node].forEach(child => {
+        if (level[child] < 0) {
+          level[child] = level[node] + 1;
+          parentOf[child] = node;
+          queue.push(child);
+        }
+      });
+    }
+    // Cycles have no root; start again from any member not reached yet
+    const unvisited = inHierarchy.findIndex((flag, index) => flag === 1 && level[index] < 0);
+    if (unvisited < 0) break;
+    seed(unvisited);
+  }
+
+  const maxLevel = Math.max(0, ...Array.from(level));
+  const levels: number[][] = Array.from({ length: maxLevel + 2 }, () => []);
+  for (let i = 0; i < n; i++) {
+    levels[level[i] >= 0 ? level[i] : maxLevel + 1].push(i);
+  }
+
+  const LEVEL_GAP = 6;
+  const top = (levels.length - 1) * LEVEL_GAP / 2;
+  const angles = new Float64Array(n);
+
+  levels.forEach((members, depth) => {
+    // Order by the parent's angle to keep siblings together and reduce crossings
+    members.sort((a, b) => (parentOf[a] >= 0 ? angles[parentOf[a]] : 0) - (parentOf[b] >= 0 ? angles[parentOf[b]] : 0) || a - b);
+    const radius = members.length === 1 ? 0 : Math.max(4, members.length * 1.2);
+    members.forEach((node, i) => {
+      const angle = (i / members.length) * Math.PI * 2;
+      angles[node] = angle;
+      positions[node * 3] = Math.cos(angle) * radius;
+      positions[node * 3 + 1] = top - depth * LEVEL_GAP;
+      positions[node * 3 + 2] = Math.sin(angle) * radius;
+    });
+  });
+};
+
+// Cluster centres spread on a sphere, members packed around their centre
+const clusterLayout = (input: LayoutInput) => (positions: Float64Array) => {
+  const clusters = new Map<string, number[]>();
+  input.clusterIds.forEach((clusterId, index) => {
+    if (!clusters.has(clusterId)) clusters.set(clusterId, []);
+    clusters.get(clusterId)!.push(index);
+  });
+
+  const ordered = Array.from(clusters.values()).sort((a, b) => b.length - a.length);
+  const outerRadius = ordered.length > 1 ? 8 + Math.sqrt(ordered.length) * 6 : 0;
+  const centre = new Float64Array(3);
+
+  ordered.forEach((members, clusterIndex) => {
+    fibonacciPoint(clusterIndex, ordered.length, outerRadius, centre, 0);
+    const innerRadius = 1.5 + Math.sqrt(members.length) * 1.2;
+    members.forEach((node, i) => {
+      fibonacciPoint(i, members.length, innerRadius, positions, node * 3);
+      positions[node * 3] += centre[0];
+      positions[node * 3 + 1] += centre[1];
+      positions[node * 3 + 2] += centre[2];
+    });
+  });
+};
+
+export const createLayout = (layoutId: LayoutId, input: LayoutInput): LayoutSimulation => {
+  switch (layoutId) {
+    case 'radial':
+      return new StaticLayout(radialLayout(input), input);
+    case 'hierarchical':
+      return new StaticLayout(hierarchicalLayout(input), input);
+    case 'clusters':
+      return new StaticLayout(clusterLayout(input), input);
+    default:
+      return new ForceLayout(input);
+  }
+};
+
+// Advance a simulation by one batch and snapshot its positions
+export const runLayoutBatch = (simulation: LayoutSimulation): LayoutFrame => {
+  for (let i = 0; i < LAYOUT_TICKS_PER_BATCH && !simulation.isDone(); i++) {
+    simulation.tick();
+  }
+  return {
+    positions: new Float32Array(simulation.positions),
+    progress: simulation.progress(),
+    done: simulation.isDone()
+  };
+};
@@ -0,0 +1,43 @@
+import { createLayout, LayoutSimulation, LayoutWorkerRequest, runLayoutBatch } from '@/lib/graphLayout';
+
+// Runs layout simulations incrementally, posting positions after every batch
+const ctx = self as unknown as Worker;
+
+let simulation: LayoutSimulation | null = null;
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+const run = () => {
+  timer = null;
+  if (!simulation) return;
+
+  const frame = runLayoutBatch(simulation);
+  ctx.postMessage(frame, [frame.positions.buffer]);
+  if (!frame.done) timer = setTimeout(run, 0);
+};
+
+const schedule = () => {
+  if (!timer) timer = setTimeout(run, 0);
+};
+
+ctx.onmessage = (event: MessageEvent<LayoutWorkerRequest>) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'start':
+      simulation = createLayout(message.layoutId, message.input);
+      schedule();
+      break;
+    case 'pin':
+      simulation?.pin(message.index, ...message.position);
+      schedule();
+      break;
+    case 'unpin':
+      simulation?.unpin(message.index);
+      schedule();
+      break;
+    case 'stop':
+      simulation = null;
+      if (timer) clearTimeout(timer);
+      timer = null;
+      break;
+  }
+};
@@ -0,0 +1,306 @@
+import { PathfindingData } from '@/types/interactions';
+import { KnowledgeGraph, KnowledgeGraphEdge, KnowledgeGraphNode } from '@/types/graph';
+
+export type PathAlgorithm = PathfindingData['algorithm'];
+
+// What an edge "costs" when traversed
+export type PathWeighting = 'hops' | 'strength' | 'confidence' | 'distance';
+
+export interface PathQueryOptions {
+  algorithm: PathAlgorithm;
+  weighting: PathWeighting;
+  k: number;
+  directed: boolean;
+  allowedRelationships: string[]; // Relationship labels; empty = all allowed
+  forbiddenRelationships: string[];
+}
+
+export interface PathResult extends PathfindingData {
+  edges: string[];
+  relationships: string[];
+  cost: number;
+  hops: number;
+}
+
+export const DEFAULT_PATH_QUERY_OPTIONS: PathQueryOptions = {
+  algorithm: 'dijkstra',
+  weighting: 'strength',
+  k: 1,
+  directed: false,
+  allowedRelationships: [],
+  forbiddenRelationships: []
+};
+
+interface AdjacencyEntry {
+  edge: KnowledgeGraphEdge;
+  neighbour: string;
+  cost: number;
+}
+
+interface SearchConstraints {
+  blockedNodes: Set<string>;
+  blockedEdges: Set<string>;
+}
+
+// Minimum probability used so -log() stays finite
+const MIN_PROBABILITY = 1e-3;
+
+// Binary min-heap keyed by priority
+class MinHeap<T> {
+  private items: { priority: number; value: T }[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(value: T, priority: number): void {
+    this.items.push({ priority, value });
+    let index = this.items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.items[parent].priority <= this.items[index].priority) break;
+      [this.items[parent], this.items[index]] = [this.items[index], this.items[parent]];
+      index = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    if (this.items.length === 0) return undefined;
+    const top = this.items[0];
+    const last = this.items.pop()!;
+    if (this.items.length > 0) {
+      this.items[0] = last;
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < this.items.length && this.items[left].priority < this.items[smallest].priority) smallest = left;
+        if (right < this.items.length && this.items[right].priority < this.items[smallest].priority) smallest = right;
+        if (smallest === index) break;
+        [this.items[smallest], this.items[index]] = [this.items[index], this.items[smallest]];
+        index = smallest;
+      }
+    }
+    return top.value;
+  }
+}
+
+export class GraphQueryEngine {
+  private graph: KnowledgeGraph;
+  private nodesById: Map<string, KnowledgeGraphNode>;
+
+  constructor(graph: KnowledgeGraph) {
+    this.graph = graph;
+    this.nodesById = new Map(graph.nodes.map(node => [node.id, node]));
+  }
+
+  // Edge cost for a weighting. Strength/confidence use -log(p) so the cheapest
+  // path is the one whose product of strengths (or confidences) is highest.
+  static edgeCost(edge: KnowledgeGraphEdge, weighting: PathWeighting): number {
+    switch (weighting) {
+      case 'hops':
+        return 1;
+      case 'strength':
+        return -Math.log(Math.max(MIN_PROBABILITY, Math.min(1, edge.strength)));
+      case 'confidence':
+        return -Math.log(Math.max(MIN_PROBABILITY, Math.min(1, edge.metadata.confidence)));
+      case 'distance':
+        return edge.from.distanceTo(edge.to);
+    }
+  }
+
+  // All relationship labels present in the graph, for constraint pickers
+  getRelationshipLabels(): string[] {
+    return Array.from(new Set(this.graph.edges.map(edge => edge.label))).sort();
+  }
+
+  findPaths(startId: string, endId: string, options: Partial<PathQueryOptions> = {}): PathResult[] {
+    const query = { ...DEFAULT_PATH_QUERY_OPTIONS, ...options };
+    if (!this.nodesById.has(startId) || !this.nodesById.has(endId) || startId === endId) {
+      return [];
+    }
+
+    const adjacency = this.buildAdjacency(query);
+    const heuristic = this.buildHeuristic(query, adjacency, endId);
+    const search = (from: string, constraints: SearchConstraints) =>
+      this.search(adjacency, from, endId, heuristic, constraints);
+
+    const first = search(startId, { blockedNodes: new Set(), blockedEdges: new Set() });
+    if (!first) return [];
+    if (query.k <= 1) return [this.toResult(first, query)];
+
+    return this.yenKShortest(first, query, adjacency, search)
+      .map(path => this.toResult(path, query));
+  }
+
+  private buildAdjacency(query: PathQueryOptions): Map<string, AdjacencyEntry[]> {
+    const allowed = new Set(query.allowedRelationships);
+    const forbidden = new Set(query.forbiddenRelationships);
+    const adjacency = new Map<string, AdjacencyEntry[]>();
+    this.graph.nodes.forEach(node => adjacency.set(node.id, []));
+
+    this.graph.edges.forEach(edge => {
+      if (allowed.size > 0 && !allowed.has(edge.label)) return;
+      if (forbidden.has(edge.label)) return;
+
+      let cost = GraphQueryEngine.edgeCost(edge, query.weighting);
+
+      // Semantic routing: penalise hops between semantically distant nodes
+      if (query.algorithm === 'semantic') {
+        const from = this.nodesById.get(edge.fromNode)!;
+        const to = this.nodesById.get(edge.toNode)!;
+        cost *= 1 + Math.abs(from.semanticWeight - to.semanticWeight);
+      }
+
+      adjacency.get(edge.fromNode)!.push({ edge, neighbour: edge.toNode, cost });
+      if (!query.directed) {
+        adjacency.get(edge.toNode)!.push({ edge, neighbour: edge.fromNode, cost });
+      }
+    });
+
+    return adjacency;
+  }
+
+  // A* heuristic: straight-line distance scaled by the cheapest cost per unit of
+  // length in the graph, which keeps it admissible for every weighting.
+  private buildHeuristic(
+    query: PathQueryOptions,
+    adjacency: Map<string, AdjacencyEntry[]>,
+    endId: string
+  ): (nodeId: string) => number {
+    if (query.algorithm !== 'astar') return () => 0;
+
+    let costPerUnit = Infinity;
+    adjacency.forEach(entries => {
+      entries.forEach(({ edge, cost }) => {
+        const length = edge.from.distanceTo(edge.to);
+        if (length > 0) costPerUnit = Math.min(costPerUnit, cost / length);
+      });
+    });
+    if (!Number.isFinite(costPerUnit)) return () => 0;
+
+    const goal = this.nodesById.get(endId)!.position;
+    return (nodeId: string) => this.nodesById.get(nodeId)!.position.distanceTo(goal) * costPerUnit;
+  }
+
+  private search(
+    adjacency: Map<string, AdjacencyEntry[]>,
+    startId: string,
+    endId: string,
+    heuristic: (nodeId: string) => number,
+    constraints: SearchConstraints
+  ): { nodes: string[]; edges: KnowledgeGraphEdge[]; cost: number } | null {
+    const costs = new Map<string, number>([[startId, 0]]);
+    const previous = new Map<string, { node: string; edge: KnowledgeGraphEdge }>();
+    const closed = new Set<string>();
+    const open = new MinHeap<string>();
+    open.push(startId, heuristic(startId));
+
+    while (open.size > 0) {
+      const current = open.pop()!;
+      if (closed.has(current)) continue;
+      if (current === endId) break;
+      closed.add(current);
+
+      const currentCost = costs.get(current)!;
+      adjacency.get(current)!.forEach(({ edge, neighbour, cost }) => {
+        if (closed.has(neighbour) || constraints.blockedNodes.has(neighbour) || constraints.blockedEdges.has(edge.id)) {
+          return;
+        }
+        const candidate = currentCost + cost;
+        if (candidate < (costs.get(neighbour) ?? Infinity)) {
+          costs.set(neighbour, candidate);
+          previous.set(neighbour, { node: current, edge });
+          open.push(neighbour, candidate + heuristic(neighbour));
+        }
+      });
+    }
+
+    if (!costs.has(endId)) return null;
+
+    const nodes: string[] = [endId];
+    const edges: KnowledgeGraphEdge[] = [];
+    let cursor = endId;
+    while (cursor !== startId) {
+      const step = previous.get(cursor)!;
+      edges.unshift(step.edge);
+      nodes.unshift(step.node);
+      cursor = step.node;
+    }
+
+    return { nodes, edges, cost: costs.get(endId)! };
+  }
+
+  // Yen's algorithm for loopless k-shortest paths
+  private yenKShortest(
+    first: { nodes: string[]; edges: KnowledgeGraphEdge[]; cost: number },
+    query: PathQueryOptions,
+    adjacency: Map<string, AdjacencyEntry[]>,
+    search: (from: string, constraints: SearchConstraints) => { nodes: string[]; edges: KnowledgeGraphEdge[]; cost: number } | null
+  ): { nodes: string[]; edges: KnowledgeGraphEdge[]; cost: number }[] {
+    const accepted = [first];
+    const candidates: { nodes: string[]; edges: KnowledgeGraphEdge[]; cost: number }[] = [];
+    const seen = new Set([first.edges.map(edge => edge.id).join('>')]);
+
+    const costOf = (edge: KnowledgeGraphEdge, from: string): number =>
+      adjacency.get(from)!.find(entry => entry.edge.id === edge.id)!.cost;
+
+    while (accepted.length < query.k) {
+      const last = accepted[accepted.length - 1];
+
+      for (let i = 0; i < last.nodes.length - 1; i++) {
+        const spurNode = last.nodes[i];
+        const rootNodes = last.nodes.slice(0, i + 1);
+        const rootEdges = last.edges.slice(0, i);
+        const rootKey = rootEdges.map(edge => edge.id).join('>');
+
+        const blockedEdges = new Set<string>();
+        accepted.forEach(path => {
+          if (path.edges.slice(0, i).map(edge => edge.id).join('>') === rootKey && path.edges[i]) {
+            blockedEdges.add(path.edges[i].id);
+          }
+        });
+        const blockedNodes = new Set(rootNodes.slice(0, -1));
+
+        const spur = search(spurNode, { blockedNodes, blockedEdges });
+        if (!spur) continue;
+
+        const edges = [...rootEdges, ...spur.edges];
+        const key = edges.map(edge => edge.id).join('>');
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const rootCost = rootEdges.reduce((sum, edge, index) => sum + costOf(edge, rootNodes[index]), 0);
+        candidates.push({
+          nodes: [...rootNodes.slice(0, -1), ...spur.nodes],
+          edges,
+          cost: rootCost + spur.cost
+        });
+      }
+
+      if (candidates.length === 0) break;
+      candidates.sort((a, b) => a.cost - b.cost);
+      accepted.push(candidates.shift()!);
+    }
+
+    return accepted;
+  }
+
+  private toResult(
+    path: { nodes: string[]; edges: KnowledgeGraphEdge[]; cost: number },
+    query: PathQueryOptions
+  ): PathResult {
+    return {
+      startNode: path.nodes[0],
+      endNode: path.nodes[path.nodes.length - 1],
+      path: path.nodes,
+      edges: path.edges.map(edge => edge.id),
+      relationships: path.edges.map(edge => edge.label),
+      weight: path.cost,
+      cost: path.cost,
+      hops: path.edges.length,
+      algorithm: query.algorithm
+    };
+  }
+}
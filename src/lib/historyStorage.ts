@@ -0,0 +1,75 @@
+import { SerializedCommand } from '@/lib/commandRegistry';
+
+// A command on a branch other than the current one
+export interface PersistedBranchNode {
+  id: string;
+  parentId: string | null;
+  command: SerializedCommand;
+}
+
+// Undo history saved between sessions, one record per history key
+export interface PersistedHistory {
+  version: 1;
+  savedAt: number;
+  currentIndex: number;
+  commands: SerializedCommand[]; // The current branch
+  nodeIds?: string[]; // History tree ids of the current branch's commands
+  branches?: PersistedBranchNode[]; // Parents before children
+}
+
+const DB_NAME = 'engelweb-history';
+const DB_VERSION = 1;
+const STORE_NAME = 'histories';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error ?? new Error('Could not open the history database'));
+      };
+    });
+  }
+  return databasePromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const database = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = createRequest(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const isPersistedHistory = (value: unknown): value is PersistedHistory => {
+  const history = value as PersistedHistory | undefined;
+  return !!history && history.version === 1 && Array.isArray(history.commands) && typeof history.currentIndex === 'number';
+};
+
+export const loadHistory = async (key: string): Promise<PersistedHistory | null> => {
+  const stored = await runRequest<unknown>('readonly', store => store.get(key));
+  return isPersistedHistory(stored) ? stored : null;
+};
+
+export const saveHistory = (key: string, history: PersistedHistory): Promise<void> =>
+  runRequest<void>('readwrite', store => store.put(history, key));
+
+export const deleteHistory = (key: string): Promise<void> =>
+  runRequest<void>('readwrite', store => store.delete(key));
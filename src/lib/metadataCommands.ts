@@ -0,0 +1,136 @@
+import { ExecutableCommand } from '@/lib/UndoRedoSystem';
+import { KnowledgeGraphStore } from '@/lib/entityCommands';
+import { CommandRegistry } from '@/lib/commandRegistry';
+
+// The part of an object's metadata the inspector can edit
+export interface EditableMetadata {
+  tags: string[];
+  attributes: Record<string, unknown>;
+}
+
+// Where an inspected object's editable metadata lives; each scene supplies its own
+export interface MetadataStore {
+  getMetadata: (objectId: string) => EditableMetadata | null;
+  setMetadata: (objectId: string, metadata: EditableMetadata) => void;
+}
+
+// Knowledge graph nodes keep tags and attributes in node.metadata
+export const createGraphMetadataStore = (store: KnowledgeGraphStore): MetadataStore => ({
+  getMetadata: (objectId) => {
+    const node = store.getGraph()?.nodes.find(candidate => candidate.id === objectId);
+    return node ? { tags: node.metadata.tags, attributes: node.metadata.attributes } : null;
+  },
+  setMetadata: (objectId, metadata) => {
+    store.updateGraph(graph => ({
+      ...graph,
+      nodes: graph.nodes.map(node => node.id === objectId
+        ? { ...node, metadata: { ...node.metadata, tags: metadata.tags, attributes: metadata.attributes } }
+        : node)
+    }));
+  }
+});
+
+// Text typed into the inspector: numbers and booleans keep their type
+export const parseAttributeValue = (text: string): unknown => {
+  const trimmed = text.trim();
+  if (trimmed === 'true') return true;
+  if (trimmed === 'false') return false;
+  if (trimmed !== '' && !isNaN(Number(trimmed))) return Number(trimmed);
+  return trimmed;
+};
+
+export const formatAttributeValue = (value: unknown): string =>
+  typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+
+const isEditableMetadata = (value: unknown): value is EditableMetadata => {
+  if (!value || typeof value !== 'object') return false;
+  const { tags, attributes } = value as Record<string, unknown>;
+  return Array.isArray(tags) && tags.every(tag => typeof tag === 'string')
+    && !!attributes && typeof attributes === 'object' && !Array.isArray(attributes);
+};
+
+// Undoable edits of tags and attributes
+export class MetadataCommandFactory {
+  static createAddTagCommand(store: MetadataStore, objectId: string, tag: string, label: string = objectId): ExecutableCommand {
+    return MetadataCommandFactory.createEditCommand(store, objectId, 'addTag', `Añadir etiqueta "${tag}" a "${label}"`,
+      metadata => metadata.tags.includes(tag) ? null : { ...metadata, tags: [...metadata.tags, tag] });
+  }
+
+  static createRemoveTagCommand(store: MetadataStore, objectId: string, tag: string, label: string = objectId): ExecutableCommand {
+    return MetadataCommandFactory.createEditCommand(store, objectId, 'removeTag', `Quitar etiqueta "${tag}" de "${label}"`,
+      metadata => metadata.tags.includes(tag) ? { ...metadata, tags: metadata.tags.filter(existing => existing !== tag) } : null);
+  }
+
+  // An undefined value removes the attribute
+  static createSetAttributeCommand(
+    store: MetadataStore,
+    objectId: string,
+    key: string,
+    value: unknown,
+    label: string = objectId
+  ): ExecutableCommand {
+    const description = value === undefined
+      ? `Eliminar atributo "${key}" de "${label}"`
+      : `Cambiar "${key}" de "${label}"`;
+
+    return MetadataCommandFactory.createEditCommand(store, objectId, 'setAttribute', description, metadata => {
+      if (metadata.attributes[key] === value) return null;
+      const attributes = { ...metadata.attributes };
+      if (value === undefined) {
+        delete attributes[key];
+      } else {
+        attributes[key] = value;
+      }
+      return { ...metadata, attributes };
+    });
+  }
+
+  // Lets persisted history rebuild metadata edits against the given store
+  static registerSerializers(registry: CommandRegistry, store: MetadataStore): void {
+    (['addTag', 'removeTag', 'setAttribute'] as const).forEach(type => registry.register(type, {
+      deserialize: ({ objectId, before, after }) => {
+        if (typeof objectId !== 'string') return null;
+        if ((before !== null && !isEditableMetadata(before)) || (after !== null && !isEditableMetadata(after))) return null;
+        return MetadataCommandFactory.createReplaceCommand(store, objectId, type, '', before, after);
+      }
+    }));
+  }
+
+  // Applies an edit to the metadata as it is when the command is created; null means no change
+  private static createEditCommand(
+    store: MetadataStore,
+    objectId: string,
+    type: string,
+    description: string,
+    edit: (metadata: EditableMetadata) => EditableMetadata | null
+  ): ExecutableCommand {
+    const before = store.getMetadata(objectId);
+    const after = before ? edit(before) : null;
+    return MetadataCommandFactory.createReplaceCommand(store, objectId, type, description, before, after);
+  }
+
+  private static createReplaceCommand(
+    store: MetadataStore,
+    objectId: string,
+    type: string,
+    description: string,
+    before: EditableMetadata | null,
+    after: EditableMetadata | null
+  ): ExecutableCommand {
+    return {
+      id: `${type}-${objectId}-${Date.now()}`,
+      type,
+      timestamp: Date.now(),
+      description,
+      data: { objectId, before, after },
+      execute: () => {
+        if (after) store.setMetadata(objectId, after);
+      },
+      undo: () => {
+        if (before) store.setMetadata(objectId, before);
+      },
+      canExecute: () => !!after && !!store.getMetadata(objectId),
+      canUndo: () => !!before && !!store.getMetadata(objectId)
+    };
+  }
+}
@@ -0,0 +1,68 @@
+import { InteractableObject } from '@/types/interactions';
+import { EntityProvenance } from '@/types/graph';
+import { EditableMetadata } from '@/lib/metadataCommands';
+
+export interface InspectorConnection {
+  id: string;
+  label: string;
+  relationship: string;
+  direction: 'in' | 'out';
+  confidence?: number;
+}
+
+// What the inspector shows for any interactable: knowledge nodes, evidence or extracted entities
+export interface InspectorSubject extends EditableMetadata {
+  id: string;
+  label: string;
+  type: string;
+  confidence?: number;
+  dataSource?: string;
+  provenance: EntityProvenance[];
+  details: [string, string][]; // Remaining plain metadata, read-only
+  connections: InspectorConnection[];
+}
+
+// Shown in their own sections, or too large to list
+const DEDICATED_KEYS = new Set(['label', 'nodeType', 'tags', 'attributes', 'confidence', 'dataSource', 'mergedFrom', 'knowledgeGraph', 'clusterData']);
+
+const isPlainValue = (value: unknown) =>
+  typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+
+const formatDetail = (value: string | number | boolean) =>
+  typeof value === 'number' && !Number.isInteger(value) ? value.toFixed(2) : String(value);
+
+export const toInspectorSubject = (
+  data: InteractableObject['interactionData'],
+  connections: InspectorConnection[] = [],
+  editable: EditableMetadata | null = null
+): InspectorSubject => {
+  const { metadata } = data;
+  const tags = editable?.tags ?? (Array.isArray(metadata.tags) ? metadata.tags.map(String) : []);
+  const attributes = editable?.attributes ??
+    (metadata.attributes && typeof metadata.attributes === 'object' ? metadata.attributes as Record<string, unknown> : {});
+
+  return {
+    id: data.id,
+    label: typeof metadata.label === 'string' ? metadata.label : data.accessibility.label,
+    type: typeof metadata.nodeType === 'string' ? metadata.nodeType : data.type,
+    confidence: typeof metadata.confidence === 'number' ? metadata.confidence : undefined,
+    dataSource: typeof metadata.dataSource === 'string' ? metadata.dataSource : undefined,
+    provenance: Array.isArray(metadata.mergedFrom) ? metadata.mergedFrom as EntityProvenance[] : [],
+    tags,
+    attributes,
+    details: Object.entries(metadata)
+      .filter(([key, value]) => !DEDICATED_KEYS.has(key) && isPlainValue(value))
+      .map(([key, value]) => [key, formatDetail(value as string | number | boolean)]),
+    connections
+  };
+};
+
+// Connections by relationship type, largest group first
+export const groupConnections = (connections: InspectorConnection[]): [string, InspectorConnection[]][] => {
+  const groups = new Map<string, InspectorConnection[]>();
+  connections.forEach(connection => {
+    if (!groups.has(connection.relationship)) groups.set(connection.relationship, []);
+    groups.get(connection.relationship)!.push(connection);
+  });
+  return Array.from(groups.entries()).sort((a, b) => b[1].length - a[1].length);
+};
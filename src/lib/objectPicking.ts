@@ -0,0 +1,263 @@
+import * as THREE from 'three';
+import { InteractableObject } from '@/types/interactions';
+
+// What the pointer is over: the registered object, and the instance when it's an InstancedMesh
+export interface PickResult {
+  object: InteractableObject;
+  instanceId: number | null;
+}
+
+// Pixels read around the pointer, so thin lines can be hovered without pixel-perfect aim
+export const DEFAULT_PICK_RADIUS = 2;
+
+// Colour 0 is the cleared background
+const MAX_PICK_ID = 0xffffff;
+
+const isInteractable = (object: THREE.Object3D): object is InteractableObject => 'interactionData' in object;
+
+const isVisibleInTree = (object: THREE.Object3D | null): boolean => {
+  for (let node = object; node; node = node.parent) {
+    if (!node.visible) return false;
+  }
+  return true;
+};
+
+// Nearest registered object under the pointer by raycasting its meshes
+export const raycastPick = (
+  raycaster: THREE.Raycaster,
+  pointer: THREE.Vector2,
+  camera: THREE.Camera,
+  objects: InteractableObject[]
+): PickResult | null => {
+  raycaster.setFromCamera(pointer, camera);
+  const intersects = raycaster.intersectObjects(objects, true);
+
+  for (const intersect of intersects) {
+    let object: THREE.Object3D | null = intersect.object;
+    while (object && !isInteractable(object)) {
+      object = object.parent;
+    }
+    if (object) {
+      return { object: object as InteractableObject, instanceId: intersect.instanceId ?? null };
+    }
+  }
+  return null;
+};
+
+interface PickEntry {
+  owner: InteractableObject;
+  source: THREE.Object3D;
+  proxy: THREE.Object3D;
+  firstId: number;
+  count: number;
+  instanced: boolean;
+}
+
+const setPickColor = (color: THREE.Color, id: number) =>
+  color.setRGB(((id >> 16) & 0xff) / 255, ((id >> 8) & 0xff) / 255, (id & 0xff) / 255, THREE.LinearSRGBColorSpace);
+
+// Renders every registered object into a tiny offscreen target with a flat colour per
+// object (or per instance) and reads back the colour under the pointer
+export class GpuPicker {
+  private renderer: THREE.WebGLRenderer;
+  private getObjects: () => Iterable<InteractableObject>;
+  private radius: number;
+  private renderTarget: THREE.WebGLRenderTarget;
+  private pixels: Uint8Array;
+  private scene = new THREE.Scene();
+  private entries: PickEntry[] = []; // Sorted by firstId
+  private dirty = true;
+  private clearColor = new THREE.Color();
+
+  constructor(
+    renderer: THREE.WebGLRenderer,
+    getObjects: () => Iterable<InteractableObject>,
+    radius: number = DEFAULT_PICK_RADIUS
+  ) {
+    this.renderer = renderer;
+    this.getObjects = getObjects;
+    this.radius = radius;
+
+    const size = radius * 2 + 1;
+    this.renderTarget = new THREE.WebGLRenderTarget(size, size);
+    this.pixels = new Uint8Array(size * size * 4);
+    this.scene.matrixWorldAutoUpdate = false;
+  }
+
+  // Registered objects (or their children) changed; rebuild proxies before the next pick
+  invalidate(): void {
+    this.dirty = true;
+  }
+
+  canPick(camera: THREE.Camera): boolean {
+    // View offsets, which narrow rendering to the pointer, exist on projection cameras only
+    return !this.renderer.getContext().isContextLost() &&
+      ((camera as THREE.PerspectiveCamera).isPerspectiveCamera === true ||
+        (camera as THREE.OrthographicCamera).isOrthographicCamera === true);
+  }
+
+  pick(pointer: THREE.Vector2, camera: THREE.PerspectiveCamera | THREE.OrthographicCamera): PickResult | null {
+    if (this.dirty) this.rebuild();
+    this.syncProxies();
+
+    const { renderer, radius } = this;
+    const size = radius * 2 + 1;
+    const buffer = renderer.getDrawingBufferSize(new THREE.Vector2());
+    const x = Math.round(((pointer.x + 1) / 2) * buffer.x) - radius;
+    const y = Math.round(((1 - pointer.y) / 2) * buffer.y) - radius;
+
+    // Render only the pixels around the pointer
+    const previousView = camera.view?.enabled ? { ...camera.view } : null;
+    camera.setViewOffset(buffer.x, buffer.y, x, y, size, size);
+
+    const previousTarget = renderer.getRenderTarget();
+    const previousAlpha = renderer.getClearAlpha();
+    renderer.getClearColor(this.clearColor);
+    renderer.setRenderTarget(this.renderTarget);
+    renderer.setClearColor(0x000000, 0);
+    renderer.clear();
+    renderer.render(this.scene, camera);
+    renderer.setRenderTarget(previousTarget);
+    renderer.setClearColor(this.clearColor, previousAlpha);
+
+    if (previousView) {
+      camera.setViewOffset(previousView.fullWidth, previousView.fullHeight, previousView.offsetX, previousView.offsetY, previousView.width, previousView.height);
+    } else {
+      camera.clearViewOffset();
+    }
+
+    renderer.readRenderTargetPixels(this.renderTarget, 0, 0, size, size, this.pixels);
+    return this.resolve(this.closestId(size));
+  }
+
+  dispose(): void {
+    this.clearProxies();
+    this.renderTarget.dispose();
+  }
+
+  private rebuild(): void {
+    this.clearProxies();
+    let nextId = 1;
+    for (const object of Array.from(this.getObjects())) {
+      nextId = this.collect(object, object, nextId);
+    }
+    this.dirty = false;
+  }
+
+  // Proxies for the renderable parts of a registered object. Nested registered
+  // objects are skipped; they get entries of their own.
+  private collect(owner: InteractableObject, node: THREE.Object3D, nextId: number): number {
+    if (node !== owner && isInteractable(node)) return nextId;
+
+    const mesh = node as THREE.Mesh;
+    const line = node as THREE.Line;
+    const instancedMesh = node as THREE.InstancedMesh;
+    let proxy: THREE.Object3D | null = null;
+    let count = 1;
+
+    if (instancedMesh.isInstancedMesh) {
+      count = instancedMesh.instanceMatrix.count;
+      if (nextId + count > MAX_PICK_ID) return nextId;
+      const material = new THREE.MeshBasicMaterial({ side: this.sideOf(mesh.material), toneMapped: false });
+      const instancedProxy = new THREE.InstancedMesh(instancedMesh.geometry, material, count);
+      // Shares the transforms, so moved instances need no copying
+      instancedProxy.instanceMatrix = instancedMesh.instanceMatrix;
+      const color = new THREE.Color();
+      for (let i = 0; i < count; i++) {
+        instancedProxy.setColorAt(i, setPickColor(color, nextId + i));
+      }
+      instancedProxy.frustumCulled = false;
+      proxy = instancedProxy;
+    } else if (mesh.isMesh) {
+      if (nextId > MAX_PICK_ID) return nextId;
+      const material = new THREE.MeshBasicMaterial({ side: this.sideOf(mesh.material), toneMapped: false });
+      setPickColor(material.color, nextId);
+      proxy = new THREE.Mesh(mesh.geometry, material);
+    } else if (line.isLine) {
+      if (nextId > MAX_PICK_ID) return nextId;
+      const material = new THREE.LineBasicMaterial({ toneMapped: false });
+      setPickColor(material.color, nextId);
+      proxy = (line as THREE.LineSegments).isLineSegments
+        ? new THREE.LineSegments(line.geometry, material)
+        : new THREE.Line(line.geometry, material);
+    }
+
+    if (proxy) {
+      proxy.matrixAutoUpdate = false;
+      this.scene.add(proxy);
+      this.entries.push({ owner, source: node, proxy, firstId: nextId, count, instanced: !!instancedMesh.isInstancedMesh });
+      nextId += count;
+    }
+
+    node.children.forEach(child => {
+      nextId = this.collect(owner, child, nextId);
+    });
+    return nextId;
+  }
+
+  private syncProxies(): void {
+    this.entries.forEach(({ source, proxy, instanced }) => {
+      proxy.visible = isVisibleInTree(source);
+      if (!proxy.visible) return;
+      proxy.matrixWorld.copy(source.matrixWorld);
+      if (instanced) (proxy as THREE.InstancedMesh).count = (source as THREE.InstancedMesh).count;
+    });
+  }
+
+  // Id nearest the centre of the read-back square
+  private closestId(size: number): number {
+    let bestId = 0;
+    let bestDistance = Infinity;
+    for (let row = 0; row < size; row++) {
+      for (let column = 0; column < size; column++) {
+        const offset = (row * size + column) * 4;
+        const id = (this.pixels[offset] << 16) | (this.pixels[offset + 1] << 8) | this.pixels[offset + 2];
+        if (id === 0) continue;
+        const distance = (row - this.radius) ** 2 + (column - this.radius) ** 2;
+        if (distance < bestDistance) {
+          bestId = id;
+          bestDistance = distance;
+        }
+      }
+    }
+    return bestId;
+  }
+
+  private resolve(id: number): PickResult | null {
+    if (id === 0) return null;
+
+    let low = 0;
+    let high = this.entries.length - 1;
+    while (low <= high) {
+      const middle = (low + high) >> 1;
+      const entry = this.entries[middle];
+      if (id < entry.firstId) {
+        high = middle - 1;
+      } else if (id >= entry.firstId + entry.count) {
+        low = middle + 1;
+      } else {
+        return { object: entry.owner, instanceId: entry.instanced ? id - entry.firstId : null };
+      }
+    }
+    return null;
+  }
+
+  private sideOf(material: THREE.Material | THREE.Material[]): THREE.Side {
+    return (Array.isArray(material) ? material[0] : material)?.side ?? THREE.FrontSide;
+  }
+
+  private clearProxies(): void {
+    this.entries.forEach(({ proxy, instanced }) => {
+      // Geometry and instance matrices belong to the source objects
+      ((proxy as THREE.Mesh).material as THREE.Material).dispose();
+      if (instanced) {
+        // Disposing frees the instance buffers, so detach the shared matrices first
+        const instancedProxy = proxy as THREE.InstancedMesh;
+        instancedProxy.instanceMatrix = new THREE.InstancedBufferAttribute(new Float32Array(16), 16);
+        instancedProxy.dispose();
+      }
+    });
+    this.scene.clear();
+    this.entries = [];
+  }
+}
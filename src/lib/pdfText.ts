@@ -0,0 +1,450 @@
+import { inflateSync, unzlibSync } from 'fflate';
+
+// Text extraction from PDF content streams, without a full PDF renderer. Handles plain and
+// Flate-compressed streams, object streams and ToUnicode font maps; scanned pages have no
+// text to extract and encrypted files are rejected.
+
+export interface PdfTextResult {
+  pages: string[];
+  warnings: string[];
+}
+
+interface PdfObject {
+  dict: string;
+  stream: Uint8Array | null;
+}
+
+// Character codes of one font mapped to Unicode
+interface CharacterMap {
+  codeLength: number;
+  map: Map<number, string>;
+}
+
+type Token =
+  | { kind: 'string'; bytes: number[] }
+  | { kind: 'number'; value: number }
+  | { kind: 'name'; value: string }
+  | { kind: 'array'; items: Token[] }
+  | { kind: 'operator'; value: string };
+
+const WHITESPACE = /[\0\t\n\f\r ]/;
+const DELIMITER = /[()<>[\]{}/%]/;
+
+// One char per byte, so string offsets match byte offsets
+const latin1 = (bytes: Uint8Array): string => {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    text += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return text;
+};
+
+const refOf = (dict: string, key: string): number | null => {
+  const match = new RegExp(`/${key}\\s+(\\d+)\\s+\\d+\\s+R`).exec(dict);
+  return match ? Number(match[1]) : null;
+};
+
+const refsOf = (dict: string, key: string): number[] => {
+  const array = new RegExp(`/${key}\\s*\\[([^\\]]*)\\]`).exec(dict);
+  if (array) return Array.from(array[1].matchAll(/(\d+)\s+\d+\s+R/g), match => Number(match[1]));
+  const single = refOf(dict, key);
+  return single !== null ? [single] : [];
+};
+
+const isType = (dict: string, type: string) => new RegExp(`/Type\\s*/${type}\\b`).test(dict);
+
+const readObjects = (bytes: Uint8Array, text: string): Map<number, PdfObject> => {
+  const objects = new Map<number, PdfObject>();
+  const pattern = /(\d+)\s+\d+\s+obj\b/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text))) {
+    const start = pattern.lastIndex;
+    const end = text.indexOf('endobj', start);
+    const streamStart = text.indexOf('stream', start);
+    if (end < 0) break;
+
+    if (streamStart < 0 || streamStart > end) {
+      objects.set(Number(match[1]), { dict: text.slice(start, end), stream: null });
+      pattern.lastIndex = end;
+      continue;
+    }
+
+    const dict = text.slice(start, streamStart);
+    let dataStart = streamStart + 'stream'.length;
+    if (text[dataStart] === '\r') dataStart++;
+    if (text[dataStart] === '\n') dataStart++;
+
+    // Trust /Length when it is direct and lands on endstream; otherwise search for it
+    const length = /\/Length\s+(\d+)(?!\s+\d+\s+R)/.exec(dict);
+    let dataEnd = length ? dataStart + Number(length[1]) : -1;
+    if (dataEnd < 0 || !/^\s*endstream/.test(text.slice(dataEnd, dataEnd + 20))) {
+      dataEnd = text.indexOf('endstream', dataStart);
+      if (dataEnd < 0) break;
+      while (dataEnd > dataStart && (text[dataEnd - 1] === '\n' || text[dataEnd - 1] === '\r')) dataEnd--;
+    }
+
+    objects.set(Number(match[1]), { dict, stream: bytes.subarray(dataStart, dataEnd) });
+    pattern.lastIndex = text.indexOf('endstream', dataEnd) + 'endstream'.length;
+  }
+
+  return objects;
+};
+
+// Only Flate is decoded; image and other filters are skipped
+const decodeStream = (object: PdfObject | undefined): Uint8Array | null => {
+  if (!object?.stream) return null;
+  const filter = /\/Filter\s*(\[[^\]]*\]|\/\w+)/.exec(object.dict)?.[1] ?? '';
+  const filters = filter.match(/\w+/g) ?? [];
+
+  if (filters.length === 0) return object.stream;
+  if (filters.length > 1 || filters[0] !== 'FlateDecode') return null;
+  try {
+    return unzlibSync(object.stream);
+  } catch {
+    try {
+      return inflateSync(object.stream.subarray(2)); // Tolerate a bad checksum
+    } catch {
+      return null;
+    }
+  }
+};
+
+// Compressed object streams hold dictionaries (pages, fonts) of newer PDFs
+const expandObjectStreams = (objects: Map<number, PdfObject>): void => {
+  Array.from(objects.values()).forEach(object => {
+    if (!isType(object.dict, 'ObjStm')) return;
+    const decoded = decodeStream(object);
+    if (!decoded) return;
+
+    const text = latin1(decoded);
+    const count = Number(/\/N\s+(\d+)/.exec(object.dict)?.[1] ?? 0);
+    const first = Number(/\/First\s+(\d+)/.exec(object.dict)?.[1] ?? 0);
+    const header = text.slice(0, first).trim().split(/\s+/).map(Number);
+
+    for (let i = 0; i < count; i++) {
+      const number = header[i * 2];
+      const offset = first + header[i * 2 + 1];
+      const next = i + 1 < count ? first + header[(i + 1) * 2 + 1] : text.length;
+      if (!objects.has(number)) objects.set(number, { dict: text.slice(offset, next), stream: null });
+    }
+  });
+};
+
+const hexToCode = (hex: string) => parseInt(hex, 16);
+
+const hexToText = (hex: string): string => {
+  let text = '';
+  for (let i = 0; i + 4 <= hex.length; i += 4) text += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16));
+  if (hex.length % 4 === 2) text += String.fromCharCode(parseInt(hex.slice(-2), 16));
+  return text;
+};
+
+const parseCharacterMap = (text: string): CharacterMap => {
+  const map = new Map<number, string>();
+  let codeLength = 1;
+
+  Array.from(text.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)).forEach(([, body]) => {
+    Array.from(body.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)).forEach(([, source, target]) => {
+      codeLength = Math.max(codeLength, source.length / 2);
+      map.set(hexToCode(source), hexToText(target));
+    });
+  });
+
+  Array.from(text.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)).forEach(([, body]) => {
+    Array.from(body.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g)).forEach(([, low, high, target]) => {
+      codeLength = Math.max(codeLength, low.length / 2);
+      const start = hexToCode(low);
+      const end = Math.min(hexToCode(high), start + 0xffff);
+      if (target.startsWith('[')) {
+        Array.from(target.matchAll(/<([0-9a-fA-F]*)>/g)).forEach(([, hex], offset) => map.set(start + offset, hexToText(hex)));
+      } else {
+        const base = hexToText(target.slice(1, -1));
+        const last = base.charCodeAt(base.length - 1);
+        for (let code = start; code <= end; code++) {
+          map.set(code, base.slice(0, -1) + String.fromCharCode(last + code - start));
+        }
+      }
+    });
+  });
+
+  return { codeLength, map };
+};
+
+// Font resource name -> Unicode map, following the page's (possibly inherited) resources
+const pageFonts = (
+  page: PdfObject,
+  objects: Map<number, PdfObject>,
+  characterMaps: Map<number, CharacterMap | null>
+): Map<string, CharacterMap | null> => {
+  const fonts = new Map<string, CharacterMap | null>();
+
+  let node: PdfObject | undefined = page;
+  const seen = new Set<PdfObject>();
+  while (node && !seen.has(node)) {
+    seen.add(node);
+    const resourcesRef = refOf(node.dict, 'Resources');
+    const resources = resourcesRef !== null ? objects.get(resourcesRef)?.dict ?? '' : node.dict;
+    const fontRef = refOf(resources, 'Font');
+    const fontDict = fontRef !== null
+      ? objects.get(fontRef)?.dict ?? ''
+      : /\/Font\s*<<([^>]*)>>/.exec(resources)?.[1] ?? '';
+
+    Array.from(fontDict.matchAll(/\/([^\s/<>[\]()]+)\s+(\d+)\s+\d+\s+R/g)).forEach(([, name, number]) => {
+      if (fonts.has(name)) return;
+      const toUnicode = refOf(objects.get(Number(number))?.dict ?? '', 'ToUnicode');
+      if (toUnicode === null) {
+        fonts.set(name, null);
+        return;
+      }
+      if (!characterMaps.has(toUnicode)) {
+        const decoded = decodeStream(objects.get(toUnicode));
+        characterMaps.set(toUnicode, decoded ? parseCharacterMap(latin1(decoded)) : null);
+      }
+      fonts.set(name, characterMaps.get(toUnicode) ?? null);
+    });
+
+    if (fontDict) break;
+    const parent = refOf(node.dict, 'Parent');
+    node = parent !== null ? objects.get(parent) : undefined;
+  }
+
+  return fonts;
+};
+
+const findPages = (objects: Map<number, PdfObject>): PdfObject[] => {
+  const catalog = Array.from(objects.values()).find(object => isType(object.dict, 'Catalog'));
+  const root = catalog ? refOf(catalog.dict, 'Pages') : null;
+  const pages: PdfObject[] = [];
+  const visited = new Set<number>();
+
+  const visit = (number: number) => {
+    const object = objects.get(number);
+    if (!object || visited.has(number)) return;
+    visited.add(number);
+    if (isType(object.dict, 'Pages')) {
+      refsOf(object.dict, 'Kids').forEach(visit);
+    } else if (isType(object.dict, 'Page')) {
+      pages.push(object);
+    }
+  };
+  if (root !== null) visit(root);
+
+  // Damaged page tree: fall back to object order
+  if (pages.length === 0) {
+    Array.from(objects.keys()).sort((a, b) => a - b).forEach(number => {
+      const object = objects.get(number)!;
+      if (isType(object.dict, 'Page')) pages.push(object);
+    });
+  }
+  return pages;
+};
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  const stack: Token[][] = [tokens];
+  let i = 0;
+
+  const push = (token: Token) => stack[stack.length - 1].push(token);
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (WHITESPACE.test(char)) {
+      i++;
+    } else if (char === '%') {
+      while (i < source.length && source[i] !== '\n' && source[i] !== '\r') i++;
+    } else if (char === '(') {
+      const bytes: number[] = [];
+      let depth = 1;
+      i++;
+      while (i < source.length && depth > 0) {
+        const current = source[i++];
+        if (current === '\\') {
+          const escaped = source[i++];
+          const simple: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12 };
+          if (escaped in simple) {
+            bytes.push(simple[escaped]);
+          } else if (/[0-7]/.test(escaped)) {
+            let octal = escaped;
+            while (octal.length < 3 && /[0-7]/.test(source[i])) octal += source[i++];
+            bytes.push(parseInt(octal, 8) & 0xff);
+          } else if (escaped === '\r' || escaped === '\n') {
+            if (escaped === '\r' && source[i] === '\n') i++;
+          } else {
+            bytes.push(escaped.charCodeAt(0));
+          }
+        } else {
+          if (current === '(') depth++;
+          if (current === ')') depth--;
+          if (depth > 0) bytes.push(current.charCodeAt(0));
+        }
+      }
+      push({ kind: 'string', bytes });
+    } else if (char === '<' && source[i + 1] === '<') {
+      i += 2; // Dictionary operands (marked content) carry no text
+    } else if (char === '>' && source[i + 1] === '>') {
+      i += 2;
+    } else if (char === '<') {
+      const end = source.indexOf('>', i);
+      const hex = source.slice(i + 1, end < 0 ? source.length : end).replace(/\s/g, '');
+      const bytes: number[] = [];
+      for (let j = 0; j < hex.length; j += 2) bytes.push(parseInt(hex.slice(j, j + 2).padEnd(2, '0'), 16));
+      push({ kind: 'string', bytes });
+      i = end < 0 ? source.length : end + 1;
+    } else if (char === '[') {
+      const items: Token[] = [];
+      push({ kind: 'array', items });
+      stack.push(items);
+      i++;
+    } else if (char === ']') {
+      if (stack.length > 1) stack.pop();
+      i++;
+    } else if (char === '/') {
+      let end = i + 1;
+      while (end < source.length && !WHITESPACE.test(source[end]) && !DELIMITER.test(source[end])) end++;
+      push({ kind: 'name', value: source.slice(i + 1, end) });
+      i = end;
+    } else if (DELIMITER.test(char)) {
+      i++;
+    } else {
+      let end = i;
+      while (end < source.length && !WHITESPACE.test(source[end]) && !DELIMITER.test(source[end])) end++;
+      const word = source.slice(i, end);
+      i = end;
+
+      if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+        push({ kind: 'number', value: Number(word) });
+      } else {
+        push({ kind: 'operator', value: word });
+        // Inline image data is binary; skip to its end marker
+        if (word === 'ID') {
+          const imageEnd = source.slice(i).search(/\sEI\b/);
+          i = imageEnd < 0 ? source.length : i + imageEnd + 3;
+        }
+      }
+    }
+  }
+
+  return tokens;
+};
+
+const decodeText = (bytes: number[], characterMap: CharacterMap | null): string => {
+  if (!characterMap) return String.fromCharCode(...bytes);
+
+  let text = '';
+  for (let i = 0; i + characterMap.codeLength <= bytes.length; i += characterMap.codeLength) {
+    let code = 0;
+    for (let j = 0; j < characterMap.codeLength; j++) code = (code << 8) | bytes[i + j];
+    text += characterMap.map.get(code) ?? '';
+  }
+  return text;
+};
+
+// Walks text operators, turning positioning moves into spaces and line breaks
+const extractContentText = (content: string, fonts: Map<string, CharacterMap | null>): string => {
+  let text = '';
+  let font: CharacterMap | null = null;
+  let operands: Token[] = [];
+  let lastLineY: number | null = null;
+
+  const show = (token: Token | undefined) => {
+    if (token?.kind === 'string') {
+      text += decodeText(token.bytes, font);
+    } else if (token?.kind === 'array') {
+      token.items.forEach(item => {
+        if (item.kind === 'string') text += decodeText(item.bytes, font);
+        // Large negative kerning stands in for a word gap
+        else if (item.kind === 'number' && item.value < -200 && !text.endsWith(' ')) text += ' ';
+      });
+    }
+  };
+
+  tokenize(content).forEach(token => {
+    if (token.kind !== 'operator') {
+      operands.push(token);
+      return;
+    }
+
+    const number = (index: number) => {
+      const operand = operands[operands.length + index];
+      return operand?.kind === 'number' ? operand.value : 0;
+    };
+
+    switch (token.value) {
+      case 'Tf': {
+        const name = operands.find(operand => operand.kind === 'name');
+        font = name?.kind === 'name' ? fonts.get(name.value) ?? null : null;
+        break;
+      }
+      case 'Tj':
+      case 'TJ':
+        show(operands[operands.length - 1]);
+        break;
+      case "'":
+      case '"':
+        text += '\n';
+        show(operands[operands.length - 1]);
+        break;
+      case 'Td':
+      case 'TD':
+        text += number(-1) !== 0 ? '\n' : ' ';
+        break;
+      case 'T*':
+        text += '\n';
+        break;
+      case 'Tm': {
+        const y = number(-1);
+        text += lastLineY !== null && Math.abs(y - lastLineY) > 0.5 ? '\n' : ' ';
+        lastLineY = y;
+        break;
+      }
+      case 'ET':
+        text += '\n';
+        break;
+    }
+    operands = [];
+  });
+
+  return text;
+};
+
+const cleanText = (text: string): string =>
+  text
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffd]/g, '')
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+export const extractPdfText = (buffer: ArrayBuffer): PdfTextResult => {
+  const bytes = new Uint8Array(buffer);
+  const text = latin1(bytes);
+  const warnings: string[] = [];
+
+  if (!text.startsWith('%PDF-')) throw new Error('El archivo no es un PDF válido');
+  if (/\/Encrypt\s+\d+\s+\d+\s+R/.test(text)) throw new Error('El PDF está cifrado y no se puede leer');
+
+  const objects = readObjects(bytes, text);
+  expandObjectStreams(objects);
+
+  const characterMaps = new Map<number, CharacterMap | null>();
+  const pages = findPages(objects).map(page => {
+    const fonts = pageFonts(page, objects, characterMaps);
+    const content = refsOf(page.dict, 'Contents')
+      .map(number => decodeStream(objects.get(number)))
+      .filter((decoded): decoded is Uint8Array => !!decoded)
+      .map(latin1)
+      .join('\n');
+    return cleanText(extractContentText(content, fonts));
+  });
+
+  if (pages.length === 0) {
+    warnings.push('No se encontraron páginas en el PDF');
+  } else if (pages.every(page => page === '')) {
+    warnings.push('El PDF no contiene texto seleccionable (¿es un escaneo?)');
+  }
+
+  return { pages, warnings };
+};
@@ -0,0 +1,188 @@
+/**
+ * Picking Benchmark
+ *
+ * Measures hover picking latency with GPU colour-ID picking and with raycasting
+ * over scenes of increasing size. Run in development with ?benchmark=picking.
+ */
+
+import * as THREE from 'three';
+import { GpuPicker, PickResult, raycastPick } from '@/lib/objectPicking';
+import { InteractableObject } from '@/types/interactions';
+
+export type PickingBenchmarkLayout = 'meshes' | 'instanced';
+
+export interface PickingBenchmarkOptions {
+  counts?: number[];
+  samples?: number;
+  layouts?: PickingBenchmarkLayout[];
+  renderer?: THREE.WebGLRenderer;
+}
+
+export interface PickingBenchmarkResult {
+  objects: number;
+  layout: PickingBenchmarkLayout;
+  method: 'gpu' | 'raycast';
+  averageMs: number;
+  p95Ms: number;
+  hitRate: number;
+  agreement: number; // Share of samples where both methods picked the same target
+}
+
+const SCENE_EXTENT = 40;
+
+const makeInteractable = (object: THREE.Object3D, id: string): InteractableObject => {
+  const interactable = object as InteractableObject;
+  interactable.interactionData = {
+    id,
+    type: 'benchmark',
+    metadata: {},
+    state: 'idle',
+    capabilities: ['selectable'],
+    accessibility: { label: id, description: id, role: 'button', keyboardShortcuts: [], announcements: [] }
+  };
+  return interactable;
+};
+
+// Nodes scattered in a cube with one edge per node; all registered as interactables
+const buildScene = (count: number, layout: PickingBenchmarkLayout) => {
+  const scene = new THREE.Scene();
+  const objects: InteractableObject[] = [];
+  const geometry = new THREE.SphereGeometry(0.3, 8, 6);
+  const material = new THREE.MeshBasicMaterial({ color: '#3B82F6' });
+  const positions = Array.from({ length: count }, () => new THREE.Vector3(
+    (Math.random() - 0.5) * SCENE_EXTENT,
+    (Math.random() - 0.5) * SCENE_EXTENT,
+    (Math.random() - 0.5) * SCENE_EXTENT
+  ));
+
+  if (layout === 'instanced') {
+    const nodes = new THREE.InstancedMesh(geometry, material, count);
+    const matrix = new THREE.Matrix4();
+    positions.forEach((position, index) => nodes.setMatrixAt(index, matrix.makeTranslation(position)));
+    scene.add(nodes);
+    objects.push(makeInteractable(nodes, 'nodes'));
+  } else {
+    positions.forEach((position, index) => {
+      const node = new THREE.Mesh(geometry, material);
+      node.position.copy(position);
+      scene.add(node);
+      objects.push(makeInteractable(node, `node-${index}`));
+    });
+  }
+
+  const edgePositions = new Float32Array(count * 6);
+  positions.forEach((position, index) => {
+    const other = positions[(index * 7 + 1) % count];
+    edgePositions.set([position.x, position.y, position.z, other.x, other.y, other.z], index * 6);
+  });
+  const edgeGeometry = new THREE.BufferGeometry();
+  edgeGeometry.setAttribute('position', new THREE.BufferAttribute(edgePositions, 3));
+  const edges = new THREE.LineSegments(edgeGeometry, new THREE.LineBasicMaterial({ color: '#9CA3AF' }));
+  scene.add(edges);
+  objects.push(makeInteractable(edges, 'edges'));
+
+  scene.updateMatrixWorld(true);
+
+  const dispose = () => {
+    geometry.dispose();
+    material.dispose();
+    edgeGeometry.dispose();
+    (edges.material as THREE.Material).dispose();
+  };
+  return { scene, objects, dispose };
+};
+
+const percentile = (values: number[], fraction: number) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))] ?? 0;
+};
+
+const sameTarget = (a: PickResult | null, b: PickResult | null) =>
+  a?.object === b?.object && a?.instanceId === b?.instanceId;
+
+export const runPickingBenchmark = (options: PickingBenchmarkOptions = {}): PickingBenchmarkResult[] => {
+  const {
+    counts = [1000, 10000, 50000],
+    samples = 30,
+    layouts = ['instanced', 'meshes']
+  } = options;
+
+  const renderer = options.renderer ?? new THREE.WebGLRenderer();
+  if (!options.renderer) renderer.setSize(1280, 720, false);
+  const size = renderer.getDrawingBufferSize(new THREE.Vector2());
+
+  const camera = new THREE.PerspectiveCamera(60, size.x / size.y, 0.1, 500);
+  camera.position.set(0, 0, SCENE_EXTENT * 1.5);
+  camera.lookAt(0, 0, 0);
+  camera.updateMatrixWorld();
+
+  const raycaster = new THREE.Raycaster();
+  // Roughly the pixel tolerance GPU picking reads around the pointer
+  raycaster.params.Line = { threshold: 0.1 };
+  const results: PickingBenchmarkResult[] = [];
+
+  counts.forEach(count => {
+    layouts.forEach(layout => {
+      const { objects, dispose } = buildScene(count, layout);
+      const picker = new GpuPicker(renderer, () => objects);
+      const pointers = Array.from({ length: samples }, () =>
+        new THREE.Vector2(Math.random() * 2 - 1, Math.random() * 2 - 1)
+      );
+
+      // First pick builds the ID buffers; keep it out of the timings
+      picker.pick(pointers[0], camera);
+
+      const timings = { gpu: [] as number[], raycast: [] as number[] };
+      const hits = { gpu: 0, raycast: 0 };
+      let agreements = 0;
+
+      pointers.forEach(pointer => {
+        let start = performance.now();
+        const gpuPick = picker.pick(pointer, camera);
+        timings.gpu.push(performance.now() - start);
+
+        start = performance.now();
+        const raycastResult = raycastPick(raycaster, pointer, camera, objects);
+        timings.raycast.push(performance.now() - start);
+
+        if (gpuPick) hits.gpu++;
+        if (raycastResult) hits.raycast++;
+        if (sameTarget(gpuPick, raycastResult)) agreements++;
+      });
+
+      (['gpu', 'raycast'] as const).forEach(method => {
+        results.push({
+          objects: count,
+          layout,
+          method,
+          averageMs: timings[method].reduce((sum, time) => sum + time, 0) / samples,
+          p95Ms: percentile(timings[method], 0.95),
+          hitRate: hits[method] / samples,
+          agreement: agreements / samples
+        });
+      });
+
+      picker.dispose();
+      dispose();
+    });
+  });
+
+  if (!options.renderer) renderer.dispose();
+  return results;
+};
+
+/**
+ * Quick benchmark runner for development; the page runs it behind ?benchmark=picking
+ * and it reports the results as a table
+ */
+export const runPickingBenchmarks = (options?: PickingBenchmarkOptions): PickingBenchmarkResult[] => {
+  const results = runPickingBenchmark(options);
+  console.table(results.map(result => ({
+    ...result,
+    averageMs: result.averageMs.toFixed(2),
+    p95Ms: result.p95Ms.toFixed(2),
+    hitRate: `${Math.round(result.hitRate * 100)}%`,
+    agreement: `${Math.round(result.agreement * 100)}%`
+  })));
+  return results;
+};
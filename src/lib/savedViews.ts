@@ -0,0 +1,207 @@
+import * as THREE from 'three';
+import { CameraView } from '@/lib/cameraFraming';
+import { SerializedFilterState, deserializeFilterState, serializeFilterState } from '@/lib/filterEngine';
+import { isSearchType } from '@/lib/searchEngine';
+import { SearchState } from '@/types/interactions';
+
+export const SAVED_VIEWS_STORAGE_KEY = 'saved-views';
+
+// Version of the JSON written by exportSavedViews
+const SAVED_VIEWS_FORMAT = 1;
+
+export interface SerializedCameraView {
+  position: [number, number, number];
+  target: [number, number, number];
+  fov: number | null;
+  zoom: number;
+}
+
+// A named shot: where the camera is, how far the page is scrolled and what is selected and filtered
+export interface SavedView {
+  id: string;
+  name: string;
+  createdAt: string;
+  scrollProgress: number;
+  camera: SerializedCameraView | null;
+  selection: string[];
+  filters: SerializedFilterState;
+  search: { query: string; searchType: SearchState['searchType'] } | null;
+}
+
+type Listener = () => void;
+
+export const serializeCameraView = (view: CameraView): SerializedCameraView => ({
+  position: view.position.toArray() as [number, number, number],
+  target: view.target.toArray() as [number, number, number],
+  fov: view.fov,
+  zoom: view.zoom
+});
+
+export const deserializeCameraView = (view: SerializedCameraView): CameraView => ({
+  position: new THREE.Vector3(...view.position),
+  target: new THREE.Vector3(...view.target),
+  fov: view.fov,
+  zoom: view.zoom
+});
+
+// Page scroll as a 0..1 fraction, the same measure useScrollControl reports
+export const getScrollProgress = (): number => {
+  if (typeof window === 'undefined') return 0;
+  const maxScroll = document.documentElement.scrollHeight - window.innerHeight;
+  return maxScroll > 0 ? Math.min(1, Math.max(0, window.scrollY / maxScroll)) : 0;
+};
+
+const createViewId = () => `view-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const isVector3Tuple = (value: unknown): value is [number, number, number] =>
+  Array.isArray(value) && value.length === 3 && value.every(item => typeof item === 'number' && isFinite(item));
+
+const parseCamera = (value: unknown): SerializedCameraView | null => {
+  const camera = value as Partial<SerializedCameraView> | null;
+  if (!camera || !isVector3Tuple(camera.position) || !isVector3Tuple(camera.target)) return null;
+  return {
+    position: camera.position,
+    target: camera.target,
+    fov: typeof camera.fov === 'number' ? camera.fov : null,
+    zoom: typeof camera.zoom === 'number' ? camera.zoom : 1
+  };
+};
+
+// Checks one entry of an imported or stored list; unknown fields are dropped
+const parseSavedView = (value: unknown, index: number): SavedView => {
+  const view = value as Partial<SavedView> | null;
+  if (!view || typeof view !== 'object' || typeof view.name !== 'string' || typeof view.scrollProgress !== 'number') {
+    throw new Error(`views[${index}] needs a name and a scrollProgress`);
+  }
+  const search = view.search as SavedView['search'] | undefined;
+
+  return {
+    id: typeof view.id === 'string' ? view.id : createViewId(),
+    name: view.name,
+    createdAt: typeof view.createdAt === 'string' ? view.createdAt : new Date().toISOString(),
+    scrollProgress: Math.min(1, Math.max(0, view.scrollProgress)),
+    camera: parseCamera(view.camera),
+    selection: Array.isArray(view.selection) ? view.selection.filter((id): id is string => typeof id === 'string') : [],
+    // The round trip drops filters that could not be evaluated
+    filters: serializeFilterState(deserializeFilterState(view.filters)),
+    search: search && typeof search.query === 'string'
+      ? { query: search.query, searchType: isSearchType(search.searchType) ? search.searchType : 'semantic' }
+      : null
+  };
+};
+
+export const exportSavedViews = (views: SavedView[]): string =>
+  JSON.stringify({ version: SAVED_VIEWS_FORMAT, views }, null, 2);
+
+// Accepts the exported file or a bare array of views
+export const parseSavedViews = (json: string): SavedView[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Saved views file is not valid JSON');
+  }
+  const views = Array.isArray(data) ? data : (data as { views?: unknown })?.views;
+  if (!Array.isArray(views)) {
+    throw new Error('Saved views file has no views list');
+  }
+  return views.map(parseSavedView);
+};
+
+// Saved views shared by every scene and panel, persisted in localStorage
+export class SavedViewStore {
+  private static instance: SavedViewStore;
+  private views: SavedView[] = [];
+  private activeView: SavedView | null = null;
+  private loaded = false;
+  private listeners = new Set<Listener>();
+  private cameraSource: (() => CameraView) | null = null;
+
+  static getInstance(): SavedViewStore {
+    if (!SavedViewStore.instance) {
+      SavedViewStore.instance = new SavedViewStore();
+    }
+    return SavedViewStore.instance;
+  }
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  getViews = (): SavedView[] => {
+    if (!this.loaded) this.load();
+    return this.views;
+  };
+
+  // The view being shown, until the user scrolls away from it
+  getActiveView = (): SavedView | null => this.activeView;
+
+  // The scene that drives the camera reports its pose through this
+  setCameraSource(source: (() => CameraView) | null): void {
+    this.cameraSource = source;
+  }
+
+  captureCamera(): SerializedCameraView | null {
+    return this.cameraSource ? serializeCameraView(this.cameraSource()) : null;
+  }
+
+  add(view: Omit<SavedView, 'id' | 'createdAt'>): SavedView {
+    const saved: SavedView = { ...view, id: createViewId(), createdAt: new Date().toISOString() };
+    this.update([...this.getViews(), saved]);
+    return saved;
+  }
+
+  rename(viewId: string, name: string): void {
+    this.update(this.getViews().map(view => (view.id === viewId ? { ...view, name } : view)));
+  }
+
+  remove(viewId: string): void {
+    this.update(this.getViews().filter(view => view.id !== viewId));
+    if (this.activeView?.id === viewId) this.release();
+  }
+
+  // Imported views get fresh ids so they never replace existing ones
+  import(json: string): SavedView[] {
+    const imported = parseSavedViews(json).map(view => ({ ...view, id: createViewId() }));
+    this.update([...this.getViews(), ...imported]);
+    return imported;
+  }
+
+  activate(view: SavedView): void {
+    this.activeView = view;
+    this.notify();
+  }
+
+  release(): void {
+    if (!this.activeView) return;
+    this.activeView = null;
+    this.notify();
+  }
+
+  private load(): void {
+    this.loaded = true;
+    if (typeof window === 'undefined') return;
+    const stored = localStorage.getItem(SAVED_VIEWS_STORAGE_KEY);
+    if (!stored) return;
+    try {
+      this.views = parseSavedViews(stored);
+    } catch (error) {
+      console.warn('Ignoring stored saved views:', error);
+    }
+  }
+
+  private update(views: SavedView[]): void {
+    this.views = views;
+    try {
+      localStorage.setItem(SAVED_VIEWS_STORAGE_KEY, exportSavedViews(views));
+    } catch (error) {
+      console.warn('Could not store saved views:', error);
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
@@ -0,0 +1,107 @@
+import * as THREE from 'three';
+import { InteractableObject, MarqueeShape, SelectionModifier } from '@/types/interactions';
+
+// Outlines smaller than this (in normalized device coordinates) count as a click
+export const MIN_MARQUEE_EXTENT = 0.01;
+
+// Lasso points closer than this to the previous one are dropped
+export const LASSO_POINT_SPACING = 0.005;
+
+// Shift adds, Alt subtracts, both keep only the overlap
+export const selectionModifierFromEvent = (event: { shiftKey: boolean; altKey: boolean }): SelectionModifier => {
+  if (event.shiftKey && event.altKey) return 'intersect';
+  if (event.shiftKey) return 'add';
+  if (event.altKey) return 'subtract';
+  return 'replace';
+};
+
+export const clientToNdc = (clientX: number, clientY: number, rect: DOMRect): THREE.Vector2 =>
+  new THREE.Vector2(
+    ((clientX - rect.left) / rect.width) * 2 - 1,
+    -((clientY - rect.top) / rect.height) * 2 + 1
+  );
+
+// Polygon enclosed by a marquee path: a box spans its first and last points
+export const marqueePolygon = (shape: MarqueeShape, path: THREE.Vector2[]): THREE.Vector2[] => {
+  if (shape === 'lasso' || path.length < 2) return path;
+  const start = path[0];
+  const end = path[path.length - 1];
+  return [
+    new THREE.Vector2(start.x, start.y),
+    new THREE.Vector2(end.x, start.y),
+    new THREE.Vector2(end.x, end.y),
+    new THREE.Vector2(start.x, end.y)
+  ];
+};
+
+export const isMarqueeTooSmall = (polygon: THREE.Vector2[]): boolean => {
+  if (polygon.length < 3) return true;
+  const bounds = new THREE.Box2().setFromPoints(polygon);
+  const size = bounds.getSize(new THREE.Vector2());
+  return size.x < MIN_MARQUEE_EXTENT && size.y < MIN_MARQUEE_EXTENT;
+};
+
+// Even-odd rule, so self-intersecting lassos behave predictably
+export const isPointInPolygon = (point: THREE.Vector2, polygon: THREE.Vector2[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) &&
+        point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Object centre in normalized device coordinates, or null when outside the view frustum depth
+export const projectToScreen = (
+  object: THREE.Object3D,
+  camera: THREE.Camera,
+  target: THREE.Vector3 = new THREE.Vector3()
+): THREE.Vector3 | null => {
+  object.getWorldPosition(target).project(camera);
+  return target.z < -1 || target.z > 1 ? null : target;
+};
+
+// Ids of the objects whose projected centre falls inside the polygon
+export const objectsInPolygon = (
+  objects: Iterable<InteractableObject>,
+  camera: THREE.Camera,
+  polygon: THREE.Vector2[]
+): string[] => {
+  if (polygon.length < 3) return [];
+
+  const bounds = new THREE.Box2().setFromPoints(polygon);
+  const projected = new THREE.Vector3();
+  const point = new THREE.Vector2();
+  const hits: string[] = [];
+
+  for (const object of objects) {
+    if (!projectToScreen(object, camera, projected)) continue;
+    point.set(projected.x, projected.y);
+    if (bounds.containsPoint(point) && isPointInPolygon(point, polygon)) {
+      hits.push(object.interactionData.id);
+    }
+  }
+  return hits;
+};
+
+export const combineSelection = (
+  current: Set<string>,
+  hits: Iterable<string>,
+  modifier: SelectionModifier
+): Set<string> => {
+  const inside = new Set(hits);
+  switch (modifier) {
+    case 'replace':
+      return inside;
+    case 'add':
+      return new Set([...Array.from(current), ...Array.from(inside)]);
+    case 'subtract':
+      return new Set(Array.from(current).filter(id => !inside.has(id)));
+    case 'intersect':
+      return new Set(Array.from(current).filter(id => inside.has(id)));
+  }
+};
@@ -0,0 +1,281 @@
+import { InteractableObject, SearchResult, SearchState } from '@/types/interactions';
+
+export type SearchType = SearchState['searchType'];
+
+// Anything carrying interaction metadata: registered 3D objects or scene-side descriptors
+export type SearchTarget = Pick<InteractableObject['interactionData'], 'id' | 'type' | 'metadata'> & {
+  accessibility?: { label?: string };
+};
+
+export interface SearchOptions {
+  fields?: string[]; // Fields matched by 'exact' search
+  limit?: number;
+  minScore?: number;
+}
+
+// Fields 'exact' search looks at unless told otherwise
+export const DEFAULT_EXACT_FIELDS = ['label', 'name', 'title', 'nodeType', 'entityType', 'documentType', 'tags'];
+
+const DEFAULT_LIMIT = 50;
+const DEFAULT_MIN_SCORE: Record<SearchType, number> = { exact: 0, fuzzy: 0.55, semantic: 0.05 };
+
+export const isSearchType = (value: unknown): value is SearchType =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(DEFAULT_MIN_SCORE, value);
+
+// Matches in naming fields count more than matches deep in the metadata
+const FIELD_WEIGHTS: Record<string, number> = { label: 1, name: 1, title: 1, tags: 0.8, description: 0.7 };
+const DEFAULT_FIELD_WEIGHT = 0.5;
+
+const STOP_WORDS = new Set([
+  'a', 'al', 'con', 'de', 'del', 'el', 'en', 'es', 'la', 'las', 'los', 'o', 'para', 'por', 'que', 'se', 'su', 'un', 'una', 'y',
+  'an', 'and', 'are', 'as', 'at', 'by', 'for', 'from', 'in', 'is', 'it', 'of', 'on', 'or', 'the', 'to', 'with'
+]);
+
+// Lowercase and strip accents so "gestión" matches "gestion"
+export const normalizeText = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+// Words and numbers; camelCase and snake_case identifiers split into their parts
+export const tokenize = (text: string): string[] =>
+  normalizeText(text.replace(/([a-z])([A-Z])/g, '$1 $2'))
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 0);
+
+// Light suffix stripping shared by Spanish and English plurals
+const stem = (token: string): string => {
+  if (token.length > 4 && token.endsWith('es')) return token.slice(0, -2);
+  if (token.length > 3 && token.endsWith('s')) return token.slice(0, -1);
+  return token;
+};
+
+const trigrams = (token: string): Set<string> => {
+  const padded = `  ${token} `;
+  const grams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) grams.add(padded.slice(i, i + 3));
+  return grams;
+};
+
+// Edit distance counting an adjacent transposition ("gestoin" -> "gestion") as one edit
+const editDistance = (a: string, b: string): number => {
+  if (a === b) return 0;
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Similarity in [0, 1]: the better of normalised edit distance and trigram Dice overlap
+export const tokenSimilarity = (a: string, b: string, gramsA = trigrams(a), gramsB = trigrams(b)): number => {
+  if (a === b) return 1;
+  const editSimilarity = 1 - editDistance(a, b) / Math.max(a.length, b.length);
+  let shared = 0;
+  gramsA.forEach(gram => { if (gramsB.has(gram)) shared++; });
+  const diceSimilarity = (2 * shared) / (gramsA.size + gramsB.size);
+  // A query that prefixes a longer word ("proc" -> "procesos") is a strong hint
+  const prefixSimilarity = b.startsWith(a) && a.length >= 3 ? 0.6 + 0.4 * (a.length / b.length) : 0;
+  return Math.max(editSimilarity, diceSimilarity, prefixSimilarity);
+};
+
+interface IndexedField {
+  name: string;
+  weight: number;
+  values: string[]; // Normalised whole values, for exact matching
+  tokens: string[];
+}
+
+interface IndexedDocument {
+  id: string;
+  fields: IndexedField[];
+  vector: Map<string, number>; // TF-IDF weights, L2 normalised
+}
+
+// Searchable text of a target: its accessible label plus string-valued metadata
+const extractFields = (target: SearchTarget): Map<string, string[]> => {
+  const fields = new Map<string, string[]>();
+  const add = (name: string, value: string) => {
+    if (!value.trim()) return;
+    if (!fields.has(name)) fields.set(name, []);
+    fields.get(name)!.push(value);
+  };
+
+  if (target.accessibility?.label) add('accessibilityLabel', target.accessibility.label);
+  Object.entries(target.metadata).forEach(([name, value]) => {
+    if (typeof value === 'string') add(name, value);
+    else if (Array.isArray(value)) value.filter(item => typeof item === 'string').forEach(item => add(name, item));
+  });
+  return fields;
+};
+
+// In-memory index over labels and metadata; built once per set of targets
+export class SearchIndex {
+  private documents: IndexedDocument[];
+  private idf = new Map<string, number>();
+  private vocabulary: string[] = [];
+  private vocabularyGrams = new Map<string, Set<string>>();
+
+  constructor(targets: Iterable<SearchTarget>) {
+    this.documents = Array.from(targets, target => {
+      const fields = Array.from(extractFields(target), ([name, values]) => ({
+        name,
+        weight: FIELD_WEIGHTS[name] ?? DEFAULT_FIELD_WEIGHT,
+        values: values.map(normalizeText),
+        tokens: values.flatMap(tokenize)
+      }));
+      return { id: target.id, fields, vector: new Map<string, number>() };
+    });
+
+    // Document frequency of each stemmed term
+    const documentFrequency = new Map<string, number>();
+    this.documents.forEach(document => {
+      new Set(document.fields.flatMap(field => field.tokens.map(stem))).forEach(term => {
+        documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+      });
+    });
+    documentFrequency.forEach((frequency, term) => {
+      this.idf.set(term, Math.log((1 + this.documents.length) / (1 + frequency)) + 1);
+    });
+
+    this.documents.forEach(document => {
+      document.fields.forEach(field => {
+        field.tokens.forEach(token => {
+          const term = stem(token);
+          if (STOP_WORDS.has(token)) return;
+          document.vector.set(term, (document.vector.get(term) ?? 0) + field.weight);
+        });
+      });
+      normalizeVector(document.vector, this.idf);
+    });
+
+    this.vocabulary = Array.from(new Set(this.documents.flatMap(document => document.fields.flatMap(field => field.tokens))));
+    this.vocabulary.forEach(token => this.vocabularyGrams.set(token, trigrams(token)));
+  }
+
+  get size(): number {
+    return this.documents.length;
+  }
+
+  search(query: string, searchType: SearchType, options: SearchOptions = {}): SearchResult[] {
+    if (!query.trim()) return [];
+
+    const scored = searchType === 'exact'
+      ? this.searchExact(query, options.fields ?? DEFAULT_EXACT_FIELDS)
+      : searchType === 'fuzzy'
+        ? this.searchFuzzy(query)
+        : this.searchSemantic(query);
+
+    const minScore = options.minScore ?? DEFAULT_MIN_SCORE[searchType];
+    return scored
+      .filter(result => result.score > minScore)
+      .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id))
+      .slice(0, options.limit ?? DEFAULT_LIMIT);
+  }
+
+  // Whole-value equality scores highest; the query as a run of whole words scores less
+  private searchExact(query: string, fields: string[]): SearchResult[] {
+    const normalized = normalizeText(query.trim());
+    const phrase = tokenize(query).join(' ');
+    const selected = new Set(fields);
+
+    return this.documents.map(document => {
+      let score = 0;
+      document.fields.forEach(field => {
+        if (!selected.has(field.name)) return;
+        field.values.forEach(value => {
+          if (value === normalized) score = Math.max(score, field.weight);
+          else if (phrase && ` ${tokenize(value).join(' ')} `.includes(` ${phrase} `)) score = Math.max(score, field.weight * 0.75);
+        });
+      });
+      return { id: document.id, score };
+    });
+  }
+
+  // Each query token takes its best match in the document; the score averages them
+  private searchFuzzy(query: string): SearchResult[] {
+    const queryTokens = tokenize(query).filter(token => !STOP_WORDS.has(token));
+    if (queryTokens.length === 0) return [];
+
+    // Similarity of each query token to every indexed token, computed once
+    const similarities = queryTokens.map(queryToken => {
+      const grams = trigrams(queryToken);
+      const byToken = new Map<string, number>();
+      this.vocabulary.forEach(token => {
+        byToken.set(token, tokenSimilarity(queryToken, token, grams, this.vocabularyGrams.get(token)));
+      });
+      return byToken;
+    });
+
+    return this.documents.map(document => {
+      const total = similarities.reduce((sum, byToken) => {
+        let best = 0;
+        document.fields.forEach(field => {
+          field.tokens.forEach(token => {
+            best = Math.max(best, byToken.get(token)! * (0.5 + 0.5 * field.weight));
+          });
+        });
+        return sum + best;
+      }, 0);
+      return { id: document.id, score: total / queryTokens.length };
+    });
+  }
+
+  // Cosine similarity between TF-IDF vectors; unknown query words borrow their closest indexed term
+  private searchSemantic(query: string): SearchResult[] {
+    const vector = new Map<string, number>();
+    tokenize(query).filter(token => !STOP_WORDS.has(token)).forEach(token => {
+      let term = stem(token);
+      let weight = 1;
+      if (!this.idf.has(term)) {
+        const closest = this.closestToken(token);
+        if (!closest) return;
+        term = stem(closest.token);
+        weight = closest.similarity;
+      }
+      vector.set(term, (vector.get(term) ?? 0) + weight);
+    });
+    if (vector.size === 0) return [];
+    normalizeVector(vector, this.idf);
+
+    return this.documents.map(document => {
+      let score = 0;
+      vector.forEach((weight, term) => { score += weight * (document.vector.get(term) ?? 0); });
+      return { id: document.id, score };
+    });
+  }
+
+  private closestToken(token: string): { token: string; similarity: number } | null {
+    const grams = trigrams(token);
+    let best: { token: string; similarity: number } | null = null;
+    this.vocabulary.forEach(candidate => {
+      const similarity = tokenSimilarity(token, candidate, grams, this.vocabularyGrams.get(candidate));
+      if (similarity >= DEFAULT_MIN_SCORE.fuzzy && (!best || similarity > best.similarity)) {
+        best = { token: candidate, similarity };
+      }
+    });
+    return best;
+  }
+}
+
+const normalizeVector = (vector: Map<string, number>, idf: Map<string, number>) => {
+  let norm = 0;
+  vector.forEach((frequency, term) => {
+    const weight = (1 + Math.log(frequency)) * (idf.get(term) ?? 0);
+    vector.set(term, weight);
+    norm += weight * weight;
+  });
+  norm = Math.sqrt(norm);
+  if (norm > 0) vector.forEach((weight, term) => vector.set(term, weight / norm));
+};
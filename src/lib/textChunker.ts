@@ -0,0 +1,205 @@
+import { ChunkingOptions, ChunkingStrategy, DocumentChunk, IngestedDocument } from '@/types/documents';
+
+export const CHUNKING_STRATEGIES: Record<ChunkingStrategy, { label: string; description: string }> = {
+  fixed: { label: 'Tamaño fijo', description: 'Ventanas de N tokens, aunque corten frases' },
+  sentence: { label: 'Frases', description: 'Agrupa frases completas hasta llenar el tamaño' },
+  paragraph: { label: 'Párrafos', description: 'Agrupa párrafos completos hasta llenar el tamaño' },
+  recursive: { label: 'Recursivo', description: 'Párrafos, luego líneas, frases y palabras según haga falta' },
+  heading: { label: 'Por encabezados', description: 'Nunca mezcla secciones; divide recursivamente las largas' }
+};
+
+export const DEFAULT_CHUNKING_OPTIONS: ChunkingOptions = {
+  strategy: 'recursive',
+  chunkSize: 64,
+  overlap: 8
+};
+
+// The fields of a document the chunker reads; plain text can be chunked as a document without sections
+export type ChunkSource = Pick<IngestedDocument, 'id' | 'name' | 'text' | 'sections'>;
+
+export interface Span {
+  start: number;
+  end: number;
+}
+
+interface Unit extends Span {
+  tokens: number;
+}
+
+const TOKEN_PATTERN = /\S+/g;
+const PARAGRAPH_SEPARATOR = /\n[^\S\n]*\n\s*/g;
+const LINE_SEPARATOR = /\n+/g;
+// Titles such as "Dr." don't end a sentence
+const SENTENCE_SEPARATOR = /(?<!\b(?:Sr|Sra|Srta|Dr|Dra|Mr|Mrs|Ms|Prof|Ud|Uds))[.!?…]+["'»)\]]*\s+/g;
+const WORD_SEPARATOR = /\s+/g;
+const RECURSIVE_SEPARATORS = [PARAGRAPH_SEPARATOR, LINE_SEPARATOR, SENTENCE_SEPARATOR, WORD_SEPARATOR];
+
+// Tokens are approximated by whitespace-separated words, close enough to show the effect of chunk size
+export const countTokens = (text: string): number => text.match(TOKEN_PATTERN)?.length ?? 0;
+
+const normalizeOptions = (options: ChunkingOptions): ChunkingOptions => {
+  const chunkSize = Math.max(1, Math.floor(options.chunkSize));
+  return {
+    strategy: options.strategy,
+    chunkSize,
+    overlap: Math.min(chunkSize - 1, Math.max(0, Math.floor(options.overlap)))
+  };
+};
+
+const matchesIn = (text: string, span: Span, pattern: RegExp): RegExpExecArray[] => {
+  const regex = new RegExp(pattern.source, 'g');
+  regex.lastIndex = span.start;
+  const matches: RegExpExecArray[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(text)) && match.index < span.end) {
+    matches.push(match);
+  }
+  return matches;
+};
+
+const toUnit = (text: string, span: Span): Unit | null => {
+  let { start, end } = span;
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return start < end ? { start, end, tokens: countTokens(text.slice(start, end)) } : null;
+};
+
+// Splits after each separator, so sentences keep their punctuation
+const splitSpan = (text: string, span: Span, separator: RegExp): Unit[] => {
+  const units: Unit[] = [];
+  let cursor = span.start;
+  matchesIn(text, span, separator).forEach(match => {
+    const unit = toUnit(text, { start: cursor, end: Math.min(span.end, match.index + match[0].length) });
+    if (unit) units.push(unit);
+    cursor = match.index + match[0].length;
+  });
+  const last = toUnit(text, { start: cursor, end: span.end });
+  if (last) units.push(last);
+  return units;
+};
+
+// Sentence boundaries, also breaking at line ends so headings and list items stand alone
+export const splitSentences = (text: string): Span[] =>
+  splitSpan(text, { start: 0, end: text.length }, LINE_SEPARATOR)
+    .flatMap(line => splitSpan(text, line, SENTENCE_SEPARATOR))
+    .map(({ start, end }) => ({ start, end }));
+
+const fixedWindows = (text: string, span: Span, { chunkSize, overlap }: ChunkingOptions): Unit[] => {
+  const tokens = matchesIn(text, span, TOKEN_PATTERN);
+  const step = Math.max(1, chunkSize - overlap);
+  const windows: Unit[] = [];
+  for (let i = 0; i < tokens.length; i += step) {
+    const last = tokens[Math.min(i + chunkSize, tokens.length) - 1];
+    windows.push({
+      start: tokens[i].index,
+      end: Math.min(span.end, last.index + last[0].length),
+      tokens: Math.min(chunkSize, tokens.length - i)
+    });
+    if (i + chunkSize >= tokens.length) break;
+  }
+  return windows;
+};
+
+// Greedily packs consecutive units up to the chunk size, repeating trailing units as overlap
+const mergeUnits = (units: Unit[], { chunkSize, overlap }: ChunkingOptions): Unit[] => {
+  const chunks: Unit[] = [];
+  let current: Unit[] = [];
+  let currentTokens = 0;
+
+  const flush = () => {
+    chunks.push({ start: current[0].start, end: current[current.length - 1].end, tokens: currentTokens });
+  };
+
+  units.forEach(unit => {
+    if (current.length > 0 && currentTokens + unit.tokens > chunkSize) {
+      flush();
+      const carried: Unit[] = [];
+      let carriedTokens = 0;
+      for (let i = current.length - 1; i >= 0 && carriedTokens + current[i].tokens <= overlap; i--) {
+        carried.unshift(current[i]);
+        carriedTokens += current[i].tokens;
+      }
+      while (carried.length > 0 && carriedTokens + unit.tokens > chunkSize) {
+        carriedTokens -= carried.shift()!.tokens;
+      }
+      current = carried;
+      currentTokens = carriedTokens;
+    }
+    current.push(unit);
+    currentTokens += unit.tokens;
+  });
+
+  if (current.length > 0) flush();
+  return chunks;
+};
+
+// Units larger than a chunk fall back to fixed windows
+const splitOversized = (text: string, units: Unit[], options: ChunkingOptions): Unit[] =>
+  units.flatMap(unit => (unit.tokens > options.chunkSize ? fixedWindows(text, unit, options) : [unit]));
+
+const recursiveSplit = (text: string, span: Unit, separators: RegExp[], options: ChunkingOptions): Unit[] => {
+  if (span.tokens <= options.chunkSize) return [span];
+  if (separators.length === 0) return fixedWindows(text, span, options);
+
+  const [separator, ...rest] = separators;
+  return splitSpan(text, span, separator).flatMap(piece => recursiveSplit(text, piece, rest, options));
+};
+
+const chunkSpan = (text: string, span: Span, options: ChunkingOptions): Unit[] => {
+  const whole = toUnit(text, span);
+  if (!whole) return [];
+
+  switch (options.strategy) {
+    case 'fixed':
+      return fixedWindows(text, whole, options);
+    case 'sentence':
+      return mergeUnits(splitOversized(text, splitSpan(text, whole, SENTENCE_SEPARATOR), options), options);
+    case 'paragraph':
+      return mergeUnits(splitOversized(text, splitSpan(text, whole, PARAGRAPH_SEPARATOR), options), options);
+    case 'recursive':
+    case 'heading':
+      return mergeUnits(recursiveSplit(text, whole, RECURSIVE_SEPARATORS, options), options);
+  }
+};
+
+// Finds where each section sits in the document text, which is built from titles and section texts
+const locateSections = (source: ChunkSource): (Span & { heading: string | null })[] => {
+  const located: (Span & { heading: string | null })[] = [];
+  let cursor = 0;
+  source.sections.forEach(section => {
+    const block = (section.title ? `${section.title}\n${section.text}` : section.text).trim();
+    if (!block) return;
+    const start = source.text.indexOf(block, cursor);
+    if (start === -1) return;
+    located.push({ start, end: start + block.length, heading: section.title });
+    cursor = start + block.length;
+  });
+  return located.length > 0 ? located : [{ start: 0, end: source.text.length, heading: null }];
+};
+
+export const chunkDocument = (source: ChunkSource, options: ChunkingOptions = DEFAULT_CHUNKING_OPTIONS): DocumentChunk[] => {
+  const normalized = normalizeOptions(options);
+  const regions = normalized.strategy === 'heading'
+    ? locateSections(source)
+    : [{ start: 0, end: source.text.length, heading: null }];
+
+  return regions
+    .flatMap(region => chunkSpan(source.text, region, normalized).map(unit => ({ ...unit, heading: region.heading })))
+    .map((unit, index) => ({
+      id: `${source.id}-chunk-${index}`,
+      documentId: source.id,
+      documentName: source.name,
+      index,
+      text: source.text.slice(unit.start, unit.end),
+      start: unit.start,
+      end: unit.end,
+      tokenCount: unit.tokens,
+      heading: unit.heading
+    }));
+};
+
+export const chunkDocuments = (sources: ChunkSource[], options: ChunkingOptions = DEFAULT_CHUNKING_OPTIONS): DocumentChunk[] =>
+  sources.flatMap(source => chunkDocument(source, options));
+
+export const chunkText = (text: string, options: ChunkingOptions = DEFAULT_CHUNKING_OPTIONS, id = 'text'): DocumentChunk[] =>
+  chunkDocument({ id, name: id, text, sections: [] }, options);
@@ -0,0 +1,107 @@
+import { SerializedFilterState, deserializeFilterState, serializeFilterState } from '@/lib/filterEngine';
+import { isSearchType } from '@/lib/searchEngine';
+import { SearchState } from '@/types/interactions';
+
+// View state carried in the query string. The site is a static export, so links
+// only use ?query parameters on the same page, never paths.
+export interface UrlViewState {
+  section: number | null; // 0-based; written 1-based for readability
+  scrollProgress: number | null;
+  selection: string[];
+  filters: SerializedFilterState;
+  search: { query: string; searchType: SearchState['searchType'] } | null;
+  pathStart: string | null;
+  pathEnd: string | null;
+}
+
+const PARAMS = {
+  section: 'section',
+  scrollProgress: 'p',
+  selection: 'sel',
+  filters: 'f',
+  query: 'q',
+  searchType: 'qt',
+  pathStart: 'from',
+  pathEnd: 'to'
+} as const;
+
+const parseNumber = (value: string | null): number | null => {
+  if (value === null || value.trim() === '') return null;
+  const number = Number(value);
+  return isFinite(number) ? number : null;
+};
+
+// Links are shared, so only filters that can be evaluated survive the round trip
+const parseFilters = (value: string | null): SerializedFilterState => {
+  if (!value) return {};
+  try {
+    return serializeFilterState(deserializeFilterState(JSON.parse(value)));
+  } catch {
+    console.warn('Ignoring malformed filters in the URL');
+    return {};
+  }
+};
+
+export const parseUrlViewState = (search: string): UrlViewState => {
+  const params = new URLSearchParams(search);
+  const section = parseNumber(params.get(PARAMS.section));
+  const scrollProgress = parseNumber(params.get(PARAMS.scrollProgress));
+  const query = params.get(PARAMS.query);
+  const searchType = params.get(PARAMS.searchType);
+
+  return {
+    section: section !== null && section >= 1 ? Math.floor(section) - 1 : null,
+    scrollProgress: scrollProgress !== null ? Math.min(1, Math.max(0, scrollProgress)) : null,
+    selection: params.getAll(PARAMS.selection).filter(Boolean),
+    filters: parseFilters(params.get(PARAMS.filters)),
+    search: query ? { query, searchType: isSearchType(searchType) ? searchType : 'semantic' } : null,
+    pathStart: params.get(PARAMS.pathStart) || null,
+    pathEnd: params.get(PARAMS.pathEnd) || null
+  };
+};
+
+const setOrDelete = (params: URLSearchParams, key: string, value: string | null) => {
+  if (value === null || value === '') {
+    params.delete(key);
+  } else {
+    params.set(key, value);
+  }
+};
+
+// Writes only the fields given, so each owner of a piece of state can update its own keys
+export const writeUrlViewState = (params: URLSearchParams, state: Partial<UrlViewState>): void => {
+  if ('section' in state) {
+    setOrDelete(params, PARAMS.section, state.section != null ? String(state.section + 1) : null);
+  }
+  if ('scrollProgress' in state) {
+    setOrDelete(params, PARAMS.scrollProgress, state.scrollProgress != null ? state.scrollProgress.toFixed(3) : null);
+  }
+  if (state.selection) {
+    params.delete(PARAMS.selection);
+    state.selection.forEach(id => params.append(PARAMS.selection, id));
+  }
+  if (state.filters) {
+    setOrDelete(params, PARAMS.filters, Object.keys(state.filters).length ? JSON.stringify(state.filters) : null);
+  }
+  if ('search' in state) {
+    setOrDelete(params, PARAMS.query, state.search?.query ?? null);
+    setOrDelete(params, PARAMS.searchType, state.search && state.search.searchType !== 'semantic' ? state.search.searchType : null);
+  }
+  if ('pathStart' in state) setOrDelete(params, PARAMS.pathStart, state.pathStart ?? null);
+  if ('pathEnd' in state) setOrDelete(params, PARAMS.pathEnd, state.pathEnd ?? null);
+};
+
+export const readUrlViewState = (): UrlViewState =>
+  parseUrlViewState(typeof window === 'undefined' ? '' : window.location.search);
+
+// Updates the address bar without adding history entries or reloading
+export const replaceUrlViewState = (state: Partial<UrlViewState>): void => {
+  if (typeof window === 'undefined') return;
+  const url = new URL(window.location.href);
+  writeUrlViewState(url.searchParams, state);
+  const next = `${url.pathname}${url.search}${url.hash}`;
+  const current = `${window.location.pathname}${window.location.search}${window.location.hash}`;
+  if (next !== current) {
+    window.history.replaceState(window.history.state, '', next);
+  }
+};
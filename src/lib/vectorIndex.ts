@@ -0,0 +1,80 @@
+import { normalizeVector } from '@/lib/embeddings';
+
+export interface VectorSearchResult<T> {
+  id: string;
+  score: number; // Cosine similarity, -1 to 1
+  item: T;
+}
+
+interface IndexedVector<T> {
+  vector: Float32Array;
+  item: T;
+}
+
+const dot = (a: Float32Array, b: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+};
+
+// Exact cosine search over an in-memory set of vectors. Vectors are normalised on insert, so
+// similarity is a dot product; a linear scan is plenty for the few thousand chunks a visitor drops.
+export class VectorIndex<T = undefined> {
+  private entries = new Map<string, IndexedVector<T>>();
+  readonly dimensions: number;
+
+  constructor(dimensions: number) {
+    this.dimensions = dimensions;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  add(id: string, vector: Float32Array, item: T): void {
+    if (vector.length !== this.dimensions) {
+      throw new Error(`Vector for ${id} has ${vector.length} dimensions, expected ${this.dimensions}`);
+    }
+    this.entries.set(id, { vector: normalizeVector(Float32Array.from(vector)), item });
+  }
+
+  remove(id: string): boolean {
+    return this.entries.delete(id);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get(id: string): Float32Array | undefined {
+    return this.entries.get(id)?.vector;
+  }
+
+  search(query: Float32Array, k: number, filter?: (id: string, item: T) => boolean): VectorSearchResult<T>[] {
+    if (query.length !== this.dimensions) {
+      throw new Error(`Query has ${query.length} dimensions, expected ${this.dimensions}`);
+    }
+    if (k <= 0) return [];
+    const normalizedQuery = normalizeVector(Float32Array.from(query));
+    const results: VectorSearchResult<T>[] = [];
+
+    // Keeps the best k sorted by descending score
+    this.entries.forEach(({ vector, item }, id) => {
+      if (filter && !filter(id, item)) return;
+      const score = dot(normalizedQuery, vector);
+      if (results.length === k && score <= results[k - 1].score) return;
+
+      let position = results.length;
+      while (position > 0 && results[position - 1].score < score) position--;
+      results.splice(position, 0, { id, score, item });
+      if (results.length > k) results.pop();
+    });
+    return results;
+  }
+
+  // Nearest neighbours of an indexed vector, excluding itself
+  neighbors(id: string, k: number): VectorSearchResult<T>[] {
+    const vector = this.get(id);
+    return vector ? this.search(vector, k, otherId => otherId !== id) : [];
+  }
+}
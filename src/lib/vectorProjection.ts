@@ -0,0 +1,68 @@
+// Projects embedding vectors to 3D with PCA, so nearby points in the scene are similar texts
+
+const POWER_ITERATIONS = 60;
+
+const dot = (a: Float64Array, b: Float64Array): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+};
+
+// Deterministic start vector, so the same corpus always lands in the same place
+const startVector = (dimensions: number, component: number): Float64Array => {
+  const vector = new Float64Array(dimensions);
+  for (let i = 0; i < dimensions; i++) vector[i] = Math.sin((i + 1) * (component + 1) * 12.9898);
+  return vector;
+};
+
+// Principal components by power iteration on the implicit covariance matrix, deflating after each one
+const principalComponents = (rows: Float64Array[], count: number): Float64Array[] => {
+  const dimensions = rows[0].length;
+  const components: Float64Array[] = [];
+
+  for (let c = 0; c < count; c++) {
+    let vector = startVector(dimensions, c);
+    for (let iteration = 0; iteration < POWER_ITERATIONS; iteration++) {
+      // Covariance times vector, as Xᵀ(Xv), without building the covariance matrix
+      const next = new Float64Array(dimensions);
+      rows.forEach(row => {
+        const projection = dot(row, vector);
+        for (let i = 0; i < dimensions; i++) next[i] += row[i] * projection;
+      });
+      components.forEach(component => {
+        const overlap = dot(next, component);
+        for (let i = 0; i < dimensions; i++) next[i] -= overlap * component[i];
+      });
+
+      const norm = Math.sqrt(dot(next, next));
+      if (norm === 0) break;
+      for (let i = 0; i < dimensions; i++) next[i] /= norm;
+      vector = next;
+    }
+    components.push(vector);
+  }
+  return components;
+};
+
+// Returns one [x, y, z] per vector, scaled so the furthest point sits at distance 1
+export const projectTo3D = (vectors: Float32Array[]): [number, number, number][] => {
+  if (vectors.length === 0) return [];
+  if (vectors.length === 1) return [[0, 0, 0]];
+
+  const dimensions = vectors[0].length;
+  const mean = new Float64Array(dimensions);
+  vectors.forEach(vector => {
+    for (let i = 0; i < dimensions; i++) mean[i] += vector[i] / vectors.length;
+  });
+  const centered = vectors.map(vector => {
+    const row = new Float64Array(dimensions);
+    for (let i = 0; i < dimensions; i++) row[i] = vector[i] - mean[i];
+    return row;
+  });
+
+  const components = principalComponents(centered, 3);
+  const points = centered.map(row => components.map(component => dot(row, component)) as [number, number, number]);
+
+  const radius = Math.max(...points.map(([x, y, z]) => Math.sqrt(x * x + y * y + z * z)));
+  return radius > 0 ? points.map(([x, y, z]) => [x / radius, y / radius, z / radius]) : points;
+};
@@ -0,0 +1,49 @@
+// Documents dropped into the ingestion panel, parsed locally in the browser
+
+export type DocumentFormat = 'pdf' | 'docx' | 'xlsx' | 'csv' | 'md';
+
+// A heading-delimited part of a document; PDFs use one per page, spreadsheets one per sheet
+export interface DocumentSection {
+  title: string | null;
+  level: number; // Heading level, 0 for untitled text
+  text: string;
+}
+
+export interface DocumentTable {
+  name: string;
+  rows: string[][];
+}
+
+export interface IngestedDocument {
+  id: string;
+  name: string;
+  format: DocumentFormat;
+  size: number; // Bytes
+  ingestedAt: number;
+  text: string;
+  sections: DocumentSection[];
+  tables: DocumentTable[];
+  wordCount: number;
+  warnings: string[];
+}
+
+export type ChunkingStrategy = 'fixed' | 'sentence' | 'paragraph' | 'recursive' | 'heading';
+
+export interface ChunkingOptions {
+  strategy: ChunkingStrategy;
+  chunkSize: number; // Tokens per chunk
+  overlap: number; // Tokens repeated from the end of the previous chunk
+}
+
+// A fragment of a document ready to be embedded; offsets index into the document's text
+export interface DocumentChunk {
+  id: string;
+  documentId: string;
+  documentName: string;
+  index: number;
+  text: string;
+  start: number;
+  end: number;
+  tokenCount: number;
+  heading: string | null;
+}
@@ -0,0 +1,168 @@
+import * as THREE from 'three';
+import { ClusterData, KnowledgeGraphInteraction } from './interactions';
+
+// Node categories rendered by the knowledge graph scene
+export type KnowledgeNodeType = KnowledgeGraphInteraction['nodeType'];
+
+export type BusinessCriticality = 'critical' | 'high' | 'medium' | 'low';
+
+export type NodeConnectivity = 'hub' | 'connector' | 'bridge' | 'leaf';
+
+export type RelationshipCategory =
+  | 'hierarchical'
+  | 'causal'
+  | 'semantic'
+  | 'temporal'
+  | 'compositional';
+
+// Serialized dataset format (public/data/*.json)
+export interface GraphDataset {
+  version: 1;
+  metadata: GraphDatasetMetadata;
+  relationshipTypes?: GraphRelationshipDefinition[];
+  nodes: GraphDatasetNode[];
+  edges: GraphDatasetEdge[];
+}
+
+export interface GraphDatasetMetadata {
+  name: string;
+  description?: string;
+  source?: string;
+  createdAt?: string;
+  updatedAt?: string;
+  [key: string]: unknown;
+}
+
+export interface GraphRelationshipDefinition {
+  label: string;
+  type: RelationshipCategory;
+  color: string;
+  strength: number;
+}
+
+export interface GraphDatasetNode {
+  id: string;
+  label: string;
+  type: KnowledgeNodeType;
+  color?: string;
+  size?: number;
+  position?: [number, number, number];
+  centrality?: number;
+  semanticWeight?: number;
+  confidence?: number;
+  businessCriticality?: BusinessCriticality;
+  clusterId?: string;
+  metadata?: GraphDatasetNodeMetadata;
+}
+
+export interface GraphDatasetNodeMetadata {
+  dataSource?: string;
+  businessUnit?: string;
+  createdAt?: string;
+  lastAccessed?: string;
+  accessCount?: number;
+  tags?: string[];
+  attributes?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+export interface GraphDatasetEdge {
+  id?: string;
+  source: string;
+  target: string;
+  relationship: string;
+  type?: RelationshipCategory;
+  strength?: number;
+  confidence?: number;
+  metadata?: Record<string, unknown>;
+}
+
+// Runtime structures consumed by InteractiveKnowledgeGraphScene
+export interface KnowledgeNodeMetadata {
+  label: string;
+  createdAt: string;
+  lastAccessed: string;
+  accessCount: number;
+  confidence: number;
+  dataSource: string;
+  businessUnit: string;
+  tags: string[];
+  attributes: Record<string, unknown>;
+  mergedFrom?: EntityProvenance[]; // Original entities folded into this one
+  [key: string]: unknown;
+}
+
+// Where a merged entity came from
+export interface EntityProvenance {
+  id: string;
+  label: string;
+  dataSource: string;
+  confidence: number;
+  createdAt: string;
+}
+
+// Enough of the pre-merge graph to split an entity back into its originals
+export interface EntityMergeRecord {
+  survivor: KnowledgeGraphNode;
+  absorbed: KnowledgeGraphNode;
+  edges: KnowledgeGraphEdge[]; // Original edges touching either entity
+}
+
+export interface KnowledgeGraphNode {
+  id: string;
+  label: string;
+  type: KnowledgeNodeType;
+  color: string;
+  size: number;
+  businessCriticality: BusinessCriticality;
+  semanticWeight: number;
+  centralityScore: number;
+  connectivity: NodeConnectivity;
+  position: THREE.Vector3;
+  connections: number[]; // Indices into KnowledgeGraph.nodes
+  pulse: number;
+  metadata: KnowledgeNodeMetadata;
+  clusterData: ClusterData;
+  mergeRecord?: EntityMergeRecord;
+}
+
+export interface KnowledgeEdgeMetadata {
+  confidence: number;
+  establishedAt: string;
+  validatedBy: string;
+  businessRelevance: number;
+  [key: string]: unknown;
+}
+
+export interface KnowledgeGraphEdge {
+  id: string;
+  from: THREE.Vector3;
+  to: THREE.Vector3;
+  fromNode: string;
+  toNode: string;
+  fromType: KnowledgeNodeType;
+  toType: KnowledgeNodeType;
+  relationshipType: RelationshipCategory;
+  strength: number;
+  color: string;
+  label: string;
+  weight: number;
+  metadata: KnowledgeEdgeMetadata;
+}
+
+// How the clusters were obtained and how well they partition the graph
+export interface GraphClustering {
+  method: 'dataset' | 'communities';
+  modularity: number;
+  resolution?: number;
+}
+
+export interface KnowledgeGraph {
+  nodes: KnowledgeGraphNode[];
+  edges: KnowledgeGraphEdge[];
+  clusters: ClusterData[];
+  clustering: GraphClustering;
+  interactions: Map<string, KnowledgeGraphInteraction>;
+  metadata: GraphDatasetMetadata;
+  source: 'dataset' | 'fallback';
+}
@@ -34,13 +34,15 @@ export type InteractionType =
   | 'explore';
 
 export interface GestureData {
-  gesture: 'tap' | 'pinch' | 'pan' | 'swipe' | 'longPress';
+  gesture: 'tap' | 'pinch' | 'pan' | 'swipe' | 'longPress' | 'lasso';
   touches: number;
   deltaX: number;
   deltaY: number;
   scale?: number;
   rotation?: number;
   velocity?: number;
+  path?: THREE.Vector2[]; // Lasso outline in client pixels
+  position?: THREE.Vector2; // Where a tap or long press happened, client pixels
 }
 
 export interface InteractableObject extends THREE.Object3D {
@@ -75,7 +77,8 @@ export type InteractionCapability =
   | 'deletable'
   | 'connectable'
   | 'expandable'
-  | 'traceable';
+  | 'traceable'
+  | 'validatable';
 
 export interface AccessibilityData {
   label: string;
@@ -93,10 +96,23 @@ export interface InteractionState {
   searchState: SearchState;
   mode: InteractionMode;
   multiSelectEnabled: boolean;
+  marqueeState: MarqueeState | null;
   undoStack: Command[];
   redoStack: Command[];
 }
 
+export type MarqueeShape = 'box' | 'lasso';
+
+// How objects inside a marquee combine with the current selection
+export type SelectionModifier = 'replace' | 'add' | 'subtract' | 'intersect';
+
+export interface MarqueeState {
+  shape: MarqueeShape;
+  modifier: SelectionModifier;
+  path: THREE.Vector2[]; // Normalized device coordinates; a box keeps its two corners
+  candidates: string[]; // Objects currently inside the outline
+}
+
 export interface DragState {
   objectId: string;
   startPosition: THREE.Vector3;
@@ -104,20 +120,60 @@ export interface DragState {
   targetPosition: THREE.Vector3 | null;
   isValid: boolean;
   ghostObject?: THREE.Object3D;
+  grabOffset: THREE.Vector3; // Object position minus the pointer's world position at drag start
+  dropTargetId: string | null;
+  dropAction: DropAction | null;
 }
 
+// What releasing a drag does: move in free space, or act on the object under it
+export type DropAction = 'move' | 'connect' | 'merge';
+
 export interface FilterState {
   entityTypes: Set<string>;
   documentTypes: Set<string>;
   relationshipTypes: Set<string>;
   confidenceThreshold: number;
   dateRange: { start: Date; end: Date } | null;
-  customFilters: Record<string, unknown>;
+  customFilters: Record<string, FilterExpression>;
+  customFilterMode: FilterCombinator;
+}
+
+export type FilterCombinator = 'and' | 'or';
+
+export type FilterOperator =
+  | 'equals'
+  | 'notEquals'
+  | 'contains'
+  | 'in'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'exists';
+
+// Condition on a metadata field; dotted paths reach nested values (e.g. "clusterData.clusterId")
+export interface FilterCondition {
+  field: string;
+  operator: FilterOperator;
+  value?: unknown;
+}
+
+export interface FilterGroup {
+  combinator: FilterCombinator;
+  filters: FilterExpression[];
+}
+
+export type FilterExpression = FilterCondition | FilterGroup;
+
+export interface SearchResult {
+  id: string;
+  score: number; // Relevance in [0, 1], higher first
 }
 
 export interface SearchState {
   query: string;
-  results: string[];
+  results: string[]; // Object ids, best match first
+  rankedResults: SearchResult[];
   highlightedResults: Set<string>;
   searchType: 'semantic' | 'exact' | 'fuzzy';
   isActive: boolean;
@@ -181,6 +237,10 @@ export interface InteractionConfig {
   animationDuration: number;
   hoverDelay: number;
   doubleClickThreshold: number;
+  snapGridSize: number; // 0 disables grid snapping
+  snapRadius: number; // Distance at which a drag locks onto a nearby object
+  marqueeShape: MarqueeShape; // Outline drawn when dragging over empty space
+  gpuPicking: boolean; // Colour-ID picking when a renderer is available, raycasting otherwise
 }
 
 // Scene-specific interaction types
@@ -190,14 +250,31 @@ export interface VectorizationInteraction {
   confidence: number;
   position: THREE.Vector3;
   connections: string[];
+  vector?: Float32Array; // Embedding of the chunk, when it has been computed
+}
+
+export type ExtractedEntityType = 'PERSONAS' | 'PROCESOS' | 'RELACIONES' | 'CONCEPTOS';
+
+// Where an entity was found; offsets index into the source document's text
+export interface EntityMention {
+  documentId: string;
+  start: number;
+  end: number;
+  sentence: {
+    start: number;
+    end: number;
+    text: string;
+  };
 }
 
 export interface EntityExtractionInteraction {
   entityId: string;
-  entityType: 'PERSONAS' | 'PROCESOS' | 'RELACIONES' | 'CONCEPTOS';
+  entityType: ExtractedEntityType;
   extractionConfidence: number;
   validationState: 'pending' | 'validated' | 'rejected' | 'merged';
-  relationships: string[];
+  relationships: string[]; // Candidate related entity ids
+  text: string;
+  mentions: EntityMention[];
 }
 
 export interface KnowledgeGraphInteraction {